@@ -29,7 +29,7 @@
  * - Static HTML pages for UI testing
  * - REST API endpoints for cy.intercept() and cy.request()
  * - Authentication flows for login/logout testing
- * - File upload/download endpoints
+ * - File upload/download endpoints, including resumable chunked uploads
  * - Cookie and session management
  * - Form handling with validation
  * - Dialog triggers (alert, confirm, prompt)
@@ -39,7 +39,8 @@
  * SECURITY NOTES:
  * - This is a TEST application, not for production use
  * - Input validation is implemented for demonstration
- * - No real authentication - uses mock tokens
+ * - HMAC-signed access tokens tied to revocable in-memory sessions
+ * - SECURE_MODE=true: HTTPS, CSP/HSTS/framing/referrer/nosniff headers, Secure cookies
  * 
  * @author Cypress Migration Framework
  * @version 1.0.0
@@ -51,6 +52,9 @@ const cookieParser = require('cookie-parser');
 const cors = require('cors');
 const path = require('path');
 const fs = require('fs');
+const https = require('https');
+const crypto = require('crypto');
+const { buildSchema, execute, GraphQLError, parse, validate } = require('graphql');
 
 // ============================================================================
 // APPLICATION SETUP
@@ -59,21 +63,82 @@ const fs = require('fs');
 const app = express();
 const PORT = process.env.PORT || 3000;
 
+// Enables the /__test__ control API and fault injection (never set in production)
+const TEST_API = process.env.TEST_API === 'true';
+
+// Hardened mode: HTTPS, security headers, Secure/SameSite cookies, no x-powered-by
+const SECURE_MODE = process.env.SECURE_MODE === 'true';
+const PROTOCOL = SECURE_MODE ? 'https' : 'http';
+
+/**
+ * Response headers added in SECURE_MODE
+ * Inline <script> and <style> stay allowed: every page of this app uses them
+ */
+const SECURITY_HEADERS = {
+    'Content-Security-Policy': [
+        "default-src 'self'",
+        "script-src 'self' 'unsafe-inline'",
+        "style-src 'self' 'unsafe-inline'",
+        "img-src 'self' data:",
+        "object-src 'none'",
+        "base-uri 'self'",
+        "form-action 'self'",
+        "frame-ancestors 'none'"
+    ].join('; '),
+    'Strict-Transport-Security': 'max-age=31536000; includeSubDomains',
+    'X-Frame-Options': 'DENY',
+    'Referrer-Policy': 'no-referrer',
+    'X-Content-Type-Options': 'nosniff'
+};
+
+/**
+ * Auth settings
+ * AUTH_SECRET signs access tokens; without it every start picks a random one
+ * Lifetimes in ms; tests shorten them through POST /__test__/auth-config
+ */
+const AUTH_SECRET = process.env.AUTH_SECRET || crypto.randomBytes(32).toString('hex');
+const defaultAuthConfig = {
+    tokenTtl: Number(process.env.AUTH_TOKEN_TTL) || 3600000,      // 1 hour
+    refreshTtl: Number(process.env.AUTH_REFRESH_TTL) || 604800000 // 7 days
+};
+let authConfig = { ...defaultAuthConfig };
+
 // Middleware configuration
+if (SECURE_MODE) {
+    app.disable('x-powered-by');
+    app.use((req, res, next) => {
+        res.set(SECURITY_HEADERS);
+        next();
+    });
+}
 app.use(cors());
 app.use(express.json());
 app.use(express.urlencoded({ extended: true }));
 app.use(cookieParser());
+// Protected pages and templates live in views/, outside the static root:
+// only the guarded routes below serve them, whatever the encoding of the path
+app.use(pageGuard);
 app.use(express.static(path.join(__dirname, 'public')));
+const VIEWS_DIR = path.join(__dirname, 'views');
+
+/**
+ * Upload storage
+ * UPLOAD_DIR holds uploaded files (isolated test servers get their own);
+ * files older than UPLOAD_RETENTION_MS, and chunked uploads without a request
+ * for CHUNKED_UPLOAD_IDLE_MS, are swept every UPLOAD_SWEEP_INTERVAL_MS
+ */
+const UPLOAD_DIR = process.env.UPLOAD_DIR || path.join(__dirname, 'uploads');
+const UPLOAD_RETENTION_MS = Number(process.env.UPLOAD_RETENTION_MS) || 3600000;        // 1 hour
+const CHUNKED_UPLOAD_IDLE_MS = Number(process.env.CHUNKED_UPLOAD_IDLE_MS) || 1800000;  // 30 minutes
+const UPLOAD_SWEEP_INTERVAL_MS = Number(process.env.UPLOAD_SWEEP_INTERVAL_MS) || 300000; // 5 minutes
 
 // File upload configuration
 const storage = multer.diskStorage({
     destination: (req, file, cb) => {
-        const uploadDir = path.join(__dirname, 'uploads');
-        if (!fs.existsSync(uploadDir)) {
-            fs.mkdirSync(uploadDir, { recursive: true });
+        if (!fs.existsSync(UPLOAD_DIR)) {
+            fs.mkdirSync(UPLOAD_DIR, { recursive: true });
         }
-        cb(null, uploadDir);
+        cb(null, UPLOAD_DIR);
     },
     filename: (req, file, cb) => {
         // Sanitize filename to prevent path traversal
@@ -81,16 +146,21 @@ const storage = multer.diskStorage({
         cb(null, `${Date.now()}-${sanitizedName}`);
     }
 });
+// Allowed MIME types and size limit, shared by single-request and chunked uploads.
+// multer refuses a file once it reaches fileSize, so the largest accepted file is one byte less
+const ALLOWED_UPLOAD_TYPES = ['image/jpeg', 'image/png', 'image/gif', 'text/plain', 'application/pdf'];
+const MAX_UPLOAD_BYTES = 5 * 1024 * 1024; // 5MB limit
+
 const upload = multer({
     storage,
-    limits: { fileSize: 5 * 1024 * 1024 }, // 5MB limit
+    limits: { fileSize: MAX_UPLOAD_BYTES },
     fileFilter: (req, file, cb) => {
         // Allow only specific file types
-        const allowedTypes = ['image/jpeg', 'image/png', 'image/gif', 'text/plain', 'application/pdf'];
-        if (allowedTypes.includes(file.mimetype)) {
+        if (ALLOWED_UPLOAD_TYPES.includes(file.mimetype)) {
             cb(null, true);
         } else {
-            cb(new Error('Invalid file type'), false);
+            // Tagged so the error handler answers 400 like multer's own limits
+            cb(Object.assign(new Error('Invalid file type'), { code: 'INVALID_FILE_TYPE' }), false);
         }
     }
 });
@@ -99,25 +169,34 @@ const upload = multer({
 // IN-MEMORY DATA STORE (for testing purposes)
 // ============================================================================
 
+/**
+ * Initial data set, restored by POST /__test__/reset
+ */
+const initialData = {
+    users: [
+        { id: 1, email: 'test@example.com', password: 'password123', name: 'Test User', role: 'user' },
+        { id: 2, email: 'admin@example.com', password: 'admin123', name: 'Admin User', role: 'admin' }
+    ],
+    products: [
+        { id: 1, name: 'Laptop', price: 999.99, category: 'Electronics', inStock: true },
+        { id: 2, name: 'Headphones', price: 149.99, category: 'Electronics', inStock: true },
+        { id: 3, name: 'Keyboard', price: 79.99, category: 'Electronics', inStock: false },
+        { id: 4, name: 'Mouse', price: 29.99, category: 'Electronics', inStock: true },
+        { id: 5, name: 'Monitor', price: 299.99, category: 'Electronics', inStock: true }
+    ],
+    orders: []
+};
+
 /**
  * Mock user database
  * In a real application, this would be a database
  */
-const users = [
-    { id: 1, email: 'test@example.com', password: 'password123', name: 'Test User', role: 'user' },
-    { id: 2, email: 'admin@example.com', password: 'admin123', name: 'Admin User', role: 'admin' }
-];
+const users = [];
 
 /**
  * Mock product database
  */
-const products = [
-    { id: 1, name: 'Laptop', price: 999.99, category: 'Electronics', inStock: true },
-    { id: 2, name: 'Headphones', price: 149.99, category: 'Electronics', inStock: true },
-    { id: 3, name: 'Keyboard', price: 79.99, category: 'Electronics', inStock: false },
-    { id: 4, name: 'Mouse', price: 29.99, category: 'Electronics', inStock: true },
-    { id: 5, name: 'Monitor', price: 299.99, category: 'Electronics', inStock: true }
-];
+const products = [];
 
 /**
  * Mock orders database
@@ -126,10 +205,25 @@ let orders = [];
 let orderIdCounter = 1;
 
 /**
- * Active sessions (mock session store)
+ * Active sessions: session id => { userId, refreshToken, refreshExpiresAt }
+ * Access tokens name their session; logout deletes it, which revokes them
  */
 const sessions = new Map();
 
+/**
+ * Replace the whole data store, e.g. with initialData
+ * Collections are copied, so later requests never modify `data`
+ * @param {{users: object[], products: object[], orders: object[]}} data - Data set to load
+ */
+function loadData(data) {
+    users.splice(0, users.length, ...structuredClone(data.users));
+    products.splice(0, products.length, ...structuredClone(data.products));
+    orders = structuredClone(data.orders);
+    orderIdCounter = orders.reduce((max, order) => Math.max(max, order.id), 0) + 1;
+}
+
+loadData(initialData);
+
 // ============================================================================
 // UTILITY FUNCTIONS
 // ============================================================================
@@ -160,34 +254,181 @@ function isValidEmail(email) {
 }
 
 /**
- * Generate mock authentication token
+ * Check for a JSON object (not null, not an array)
+ * @param {*} value - Parsed JSON value
+ * @returns {boolean} True for a plain object
+ */
+function isPlainObject(value) {
+    return value !== null && typeof value === 'object' && !Array.isArray(value);
+}
+
+/**
+ * HMAC-SHA256 signature of a token payload
+ * @param {string} payload - base64url-encoded payload
+ * @returns {string} base64url signature
+ */
+function signPayload(payload) {
+    return crypto.createHmac('sha256', AUTH_SECRET).update(payload).digest('base64url');
+}
+
+/**
+ * Generate a signed access token for a session
+ * Format: base64url(JSON { sid, id, email, exp }) + '.' + base64url(HMAC)
  * @param {object} user - User object
- * @returns {string} Mock JWT token
+ * @param {string} sessionId - Session the token belongs to
+ * @returns {string} Signed token
  */
-function generateToken(user) {
-    // Mock token - in production, use proper JWT
-    return Buffer.from(JSON.stringify({
+function generateToken(user, sessionId) {
+    const payload = Buffer.from(JSON.stringify({
+        sid: sessionId,
         id: user.id,
         email: user.email,
-        exp: Date.now() + 3600000 // 1 hour
-    })).toString('base64');
+        exp: Date.now() + authConfig.tokenTtl
+    })).toString('base64url');
+    return `${payload}.${signPayload(payload)}`;
+}
+
+/**
+ * Start a session for a user
+ * @param {object} user - User object
+ * @returns {{token: string, refreshToken: string, expiresIn: number}} New credentials
+ */
+function createSession(user) {
+    const sessionId = crypto.randomUUID();
+    return issueTokens(user, sessionId);
+}
+
+/**
+ * Issue an access token and a fresh refresh token for a session
+ * The previous refresh token of the session stops working
+ * @param {object} user - User object
+ * @param {string} sessionId - Session id
+ * @returns {{token: string, refreshToken: string, expiresIn: number}} New credentials
+ */
+function issueTokens(user, sessionId) {
+    const refreshToken = crypto.randomBytes(32).toString('base64url');
+    sessions.set(sessionId, {
+        userId: user.id,
+        refreshToken,
+        refreshExpiresAt: Date.now() + authConfig.refreshTtl
+    });
+    return { token: generateToken(user, sessionId), refreshToken, expiresIn: authConfig.tokenTtl };
+}
+
+/**
+ * Check an access token's signature and decode its payload, expired or not
+ * @param {string} token - Token to decode
+ * @returns {{decoded?: {sid: string, id: number, email: string, exp: number}, error?: string}} Payload or reason for rejection
+ */
+function decodeToken(token) {
+    const [payload, signature, ...rest] = String(token).split('.');
+    if (!payload || !signature || rest.length > 0) {
+        return { error: 'Invalid token' };
+    }
+
+    const expected = Buffer.from(signPayload(payload));
+    const actual = Buffer.from(signature);
+    if (expected.length !== actual.length || !crypto.timingSafeEqual(expected, actual)) {
+        return { error: 'Invalid token' };
+    }
+
+    try {
+        return { decoded: JSON.parse(Buffer.from(payload, 'base64url').toString()) };
+    } catch (e) {
+        return { error: 'Invalid token' };
+    }
 }
 
 /**
- * Verify authentication token
+ * Verify an access token: signature, expiry and session
  * @param {string} token - Token to verify
- * @returns {object|null} User data or null
+ * @returns {{user?: object, sessionId?: string, error?: string}} Token owner or reason for rejection
  */
 function verifyToken(token) {
-    try {
-        const decoded = JSON.parse(Buffer.from(token, 'base64').toString());
-        if (decoded.exp > Date.now()) {
-            return users.find(u => u.id === decoded.id);
+    const { decoded, error } = decodeToken(token);
+    if (error) {
+        return { error };
+    }
+
+    if (!(decoded.exp > Date.now())) {
+        return { error: 'Token expired' };
+    }
+    const session = sessions.get(decoded.sid);
+    if (!session || session.userId !== decoded.id) {
+        return { error: 'Session revoked' };
+    }
+    const user = users.find(u => u.id === decoded.id);
+    if (!user) {
+        return { error: 'Invalid token' };
+    }
+    return { user, sessionId: decoded.sid };
+}
+
+/**
+ * Attributes shared by the auth cookies
+ * SECURE_MODE adds Secure (HTTPS only) and SameSite=Strict (no cross-site sends)
+ * @param {object} options - Cookie specific attributes (path, maxAge)
+ */
+function authCookieOptions(options = {}) {
+    return SECURE_MODE
+        ? { httpOnly: true, secure: true, sameSite: 'strict', ...options }
+        : { httpOnly: true, ...options };
+}
+
+/**
+ * Set the auth cookies for a login or refresh
+ * The refresh token cookie is only sent to /api/auth
+ */
+function setAuthCookies(res, { token, refreshToken }) {
+    res.cookie('authToken', token, authCookieOptions({ maxAge: authConfig.tokenTtl }));
+    res.cookie('refreshToken', refreshToken, authCookieOptions({ path: '/api/auth', maxAge: authConfig.refreshTtl }));
+}
+
+/**
+ * Build an order for a user from requested items
+ * Shared by POST /api/orders and the createOrder GraphQL mutation
+ * @param {number} userId - Owner of the order
+ * @param {Array<{productId: number, quantity?: number}>} items - Requested items
+ * @returns {{order?: object, error?: string}} New (unsaved) order or validation error
+ */
+function buildOrder(userId, items) {
+    if (!items || !Array.isArray(items) || items.length === 0) {
+        return { error: 'Order items are required' };
+    }
+
+    // Calculate total
+    let total = 0;
+    const orderItems = [];
+
+    for (const item of items) {
+        const product = products.find(p => p.id === item.productId);
+        if (!product) {
+            return { error: `Product ${item.productId} not found` };
         }
-    } catch (e) {
-        return null;
+        if (!product.inStock) {
+            return { error: `Product ${product.name} is out of stock` };
+        }
+
+        orderItems.push({
+            productId: product.id,
+            name: product.name,
+            price: product.price,
+            quantity: item.quantity || 1
+        });
+
+        total += product.price * (item.quantity || 1);
     }
-    return null;
+
+    return {
+        order: {
+            id: orderIdCounter++,
+            userId,
+            items: orderItems,
+            total: Math.round(total * 100) / 100,
+            status: 'pending',
+            createdAt: new Date().toISOString()
+        }
+    };
 }
 
 /**
@@ -201,9 +442,48 @@ function delay(ms) {
     return new Promise(resolve => setTimeout(resolve, ms));
 }
 
+let tlsOptions;
+
+/**
+ * TLS certificate for SECURE_MODE: the TLS_CERT / TLS_KEY files when set,
+ * else a self-signed certificate for localhost / 127.0.0.1 made at startup
+ * @returns {Promise<{cert: string|Buffer, key: string|Buffer}>} https.createServer options
+ */
+function loadTlsOptions() {
+    if (!tlsOptions) {
+        tlsOptions = process.env.TLS_CERT && process.env.TLS_KEY
+            ? Promise.resolve({
+                cert: fs.readFileSync(process.env.TLS_CERT),
+                key: fs.readFileSync(process.env.TLS_KEY)
+            })
+            : require('selfsigned')
+                .generate([{ name: 'commonName', value: 'localhost' }], { keySize: 2048, algorithm: 'sha256' })
+                .then(pems => ({ cert: pems.cert, key: pems.private }));
+    }
+    return tlsOptions;
+}
+
+/**
+ * Start a listener for the app: HTTP, or HTTPS in SECURE_MODE
+ * @param {number|string} port - Port to listen on
+ * @param {Function} onListening - Called once the port is open
+ */
+function listen(port, onListening) {
+    if (!SECURE_MODE) {
+        app.listen(port, onListening);
+        return;
+    }
+    loadTlsOptions()
+        .then(options => https.createServer(options, app).listen(port, onListening))
+        .catch(err => {
+            console.error('Could not start HTTPS:', err.message);
+            process.exit(1);
+        });
+}
+
 // Start secondary listener for cross-origin testing
-const PORT_SECONDARY = 3001;
-const server2 = app.listen(PORT_SECONDARY, () => {
+const PORT_SECONDARY = process.env.PORT_SECONDARY || 3001;
+listen(PORT_SECONDARY, () => {
     console.log(`Secondary server running on port ${PORT_SECONDARY}`);
 });
 
@@ -211,26 +491,293 @@ const server2 = app.listen(PORT_SECONDARY, () => {
 // AUTHENTICATION MIDDLEWARE
 // ============================================================================
 
+/**
+ * Access token from the Authorization header or the authToken cookie
+ */
+function requestToken(req) {
+    return req.headers.authorization?.replace('Bearer ', '') || req.cookies.authToken;
+}
+
 /**
  * Authentication middleware
  * Checks for valid token in Authorization header or cookie
+ * 401 errors: Authentication required, Invalid token, Token expired, Session revoked
  */
 function authMiddleware(req, res, next) {
-    const token = req.headers.authorization?.replace('Bearer ', '') || req.cookies.authToken;
+    const token = requestToken(req);
 
     if (!token) {
         return res.status(401).json({ error: 'Authentication required' });
     }
 
-    const user = verifyToken(token);
-    if (!user) {
-        return res.status(401).json({ error: 'Invalid or expired token' });
+    const { user, sessionId, error } = verifyToken(token);
+    if (error) {
+        return res.status(401).json({ error });
+    }
+
+    req.user = user;
+    req.sessionId = sessionId;
+    next();
+}
+
+function capitalize(text) {
+    return text.charAt(0).toUpperCase() + text.slice(1);
+}
+
+/**
+ * Role middleware, used after authMiddleware
+ * @param {string} role - Role the route is limited to
+ */
+function requireRole(role) {
+    return (req, res, next) => {
+        if (req.user.role !== role) {
+            return res.status(403).json({ error: `${capitalize(role)} access required` });
+        }
+        next();
+    };
+}
+
+// ============================================================================
+// PAGE GUARDS
+// ============================================================================
+
+/**
+ * Pages that need a signed-in user, keyed by path without `.html`
+ * - role: only users with this role get the page, others get the 403 page
+ */
+const PROTECTED_PAGES = {
+    '/dashboard': {},
+    '/admin': { role: 'admin' }
+};
+
+/**
+ * Templates rendered by the server, never served as they are
+ */
+const TEMPLATE_PAGES = ['/forbidden'];
+
+function escapeHtml(text) {
+    return String(text).replace(/[&<>"']/g, c => ({
+        '&': '&amp;', '<': '&lt;', '>': '&gt;', '"': '&quot;', "'": '&#39;'
+    })[c]);
+}
+
+/**
+ * Role-aware 403 page for a signed-in user without the required role
+ */
+function renderForbidden(user, requiredRole) {
+    const values = {
+        name: user.name,
+        role: user.role,
+        requiredRole,
+        requiredRoleTitle: capitalize(requiredRole)
+    };
+    return fs.readFileSync(path.join(VIEWS_DIR, 'forbidden.html'), 'utf8')
+        .replace(/\{\{(\w+)\}\}/g, (match, key) => escapeHtml(values[key] ?? ''));
+}
+
+/**
+ * Page key for a request path, the way Express routes it: any letter case,
+ * with or without a trailing slash or .html, e.g. /Dashboard/ -> /dashboard
+ */
+function pagePath(requestPath) {
+    return requestPath.toLowerCase().replace(/\/+$/, '').replace(/\.html$/, '');
+}
+
+/**
+ * Server-side guard for HTML pages, checked against the authToken cookie
+ * (the page's own checkAuth() is only a convenience)
+ *
+ * - No cookie or a forged token: 302 /login?redirect=<page>
+ * - Expired token or revoked session: same plus reason=expired, cookie cleared
+ * - Signed in without the page's role: 403 page naming both roles
+ */
+function pageGuard(req, res, next) {
+    if (req.method !== 'GET' && req.method !== 'HEAD') {
+        return next();
+    }
+
+    const page = pagePath(req.path);
+    if (TEMPLATE_PAGES.includes(page)) {
+        return res.status(404).send('Not found');
+    }
+    const rule = PROTECTED_PAGES[page];
+    if (!rule) {
+        return next();
+    }
+
+    const token = req.cookies.authToken;
+    const { user, error } = token ? verifyToken(token) : { error: 'Authentication required' };
+    if (error) {
+        const query = new URLSearchParams({ redirect: page });
+        if (error === 'Token expired' || error === 'Session revoked') {
+            query.set('reason', 'expired');
+        }
+        if (token) {
+            res.clearCookie('authToken', authCookieOptions());
+        }
+        return res.redirect(`/login?${query}`);
+    }
+
+    if (rule.role && user.role !== rule.role) {
+        return res.status(403).send(renderForbidden(user, rule.role));
     }
 
     req.user = user;
     next();
 }
 
+// ============================================================================
+// FAULT INJECTION (TEST_API=true only)
+// ============================================================================
+
+/**
+ * Make real /api/* routes fail on demand, for resilience tests
+ *
+ * FLOW:
+ * ┌─────────────────────────────────────────────────────────────────────────┐
+ * │  request ──► x-fault header?  ──► yes: apply it to this request         │
+ * │                 │ no                                                    │
+ * │                 ▼                                                       │
+ * │           first rule matching method + path (POST /__test__/faults)     │
+ * │                 │                                                       │
+ * │                 ▼  roll probability, count down `count`                 │
+ * │  latency   ──►  wait `delay` ms, then the real route                    │
+ * │  status    ──►  `status` { error, code }                                │
+ * │  malformed ──►  200 application/json with a truncated body              │
+ * │  drop      ──►  socket destroyed, no response                           │
+ * └─────────────────────────────────────────────────────────────────────────┘
+ *
+ * Header syntax: `x-fault: <type>[=<value>][; probability=<0..1>]`
+ * e.g. `status=503`, `latency=2000`, `malformed`, `drop; probability=0.5`
+ */
+const FAULT_TYPES = ['latency', 'status', 'malformed', 'drop'];
+
+/**
+ * Registered fault rules, checked in order
+ */
+let faultRules = [];
+let faultIdCounter = 1;
+
+/**
+ * Validate a fault and fill in defaults
+ * @param {object} input - { type, delay?, status?, probability?, count? }
+ * @returns {{fault?: object, error?: string}} Normalized fault or validation error
+ */
+function normalizeFault(input) {
+    const { type, delay: ms = 1000, status = 500, probability = 1, count = null } = input || {};
+
+    if (!FAULT_TYPES.includes(type)) {
+        return { error: `type must be one of ${FAULT_TYPES.join(', ')}` };
+    }
+    if (!Number.isInteger(ms) || ms < 0) {
+        return { error: 'delay must be a non-negative integer' };
+    }
+    if (!Number.isInteger(status) || status < 400 || status > 599) {
+        return { error: 'status must be between 400 and 599' };
+    }
+    if (!Number.isFinite(probability) || probability < 0 || probability > 1) {
+        return { error: 'probability must be between 0 and 1' };
+    }
+    if (count !== null && (!Number.isInteger(count) || count < 1)) {
+        return { error: 'count must be a positive integer' };
+    }
+    return { fault: { type, delay: ms, status, probability, count } };
+}
+
+/**
+ * Number in an x-fault header; NaN for a missing or empty value, so that
+ * normalizeFault rejects it instead of reading it as 0
+ */
+function headerNumber(value) {
+    return value === undefined || value.trim() === '' ? NaN : Number(value);
+}
+
+/**
+ * Parse an x-fault header, e.g. `status=503; probability=0.5`
+ * @param {string} header - Header value
+ * @returns {{fault?: object, error?: string}} Normalized fault or validation error
+ */
+function parseFaultHeader(header) {
+    const [head, ...options] = header.split(';').map(part => part.trim());
+    const [type, value] = head.split('=');
+    const input = { type };
+
+    if (value !== undefined) {
+        if (type === 'latency') input.delay = headerNumber(value);
+        else if (type === 'status') input.status = headerNumber(value);
+        else return { error: `${type} takes no value` };
+    }
+    for (const option of options) {
+        const [key, optionValue] = option.split('=');
+        if (key !== 'probability') {
+            return { error: `unknown option ${key}` };
+        }
+        input.probability = headerNumber(optionValue);
+    }
+    return normalizeFault(input);
+}
+
+/**
+ * True when a rule applies to the request: same method (if set) and same
+ * path, or a path prefix when the rule path ends with `*`
+ */
+function faultRuleMatches(rule, req) {
+    if (rule.method && rule.method !== req.method) return false;
+    return rule.path.endsWith('*')
+        ? req.path.startsWith(rule.path.slice(0, -1))
+        : req.path === rule.path;
+}
+
+/**
+ * Fault injection middleware
+ * Only /api/* requests are affected; the control API never is
+ */
+function faultMiddleware(req, res, next) {
+    if (!req.path.startsWith('/api/')) {
+        return next();
+    }
+
+    let fault;
+    const header = req.headers['x-fault'];
+    if (header) {
+        const parsed = parseFaultHeader(header);
+        if (parsed.error) {
+            return res.status(400).json({ error: `Invalid x-fault header: ${parsed.error}` });
+        }
+        fault = parsed.fault;
+    } else {
+        fault = faultRules.find(rule => faultRuleMatches(rule, req));
+    }
+
+    if (!fault || Math.random() >= fault.probability) {
+        return next();
+    }
+
+    if (fault.id !== undefined) {
+        fault.hits++;
+        if (fault.count !== null && fault.hits >= fault.count) {
+            faultRules = faultRules.filter(rule => rule !== fault);
+        }
+    }
+
+    switch (fault.type) {
+        case 'latency':
+            setTimeout(next, fault.delay);
+            return;
+        case 'status':
+            return res.status(fault.status).json({ error: 'Injected fault', code: fault.status });
+        case 'malformed':
+            return res.status(200).type('application/json').send('{"injected": "malformed", "data": [');
+        case 'drop':
+            req.socket.destroy();
+            return;
+    }
+}
+
+if (TEST_API) {
+    app.use(faultMiddleware);
+}
+
 // ============================================================================
 // API ROUTES - Authentication
 // ============================================================================
@@ -270,31 +817,91 @@ app.post('/api/auth/login', async (req, res) => {
         return res.status(401).json({ error: 'Invalid email or password' });
     }
 
-    // Generate token
-    const token = generateToken(user);
+    // Start a session with a signed access token and a refresh token
+    const credentials = createSession(user);
 
-    // Set cookie for session-based auth testing
-    res.cookie('authToken', token, {
-        httpOnly: true,
-        maxAge: 3600000 // 1 hour
-    });
+    // Set cookies for session-based auth testing
+    setAuthCookies(res, credentials);
 
     // Return user data (excluding password)
     const { password: _, ...userWithoutPassword } = user;
 
     res.json({
-        token,
+        ...credentials,
         user: userWithoutPassword,
         message: 'Login successful'
     });
 });
 
+/**
+ * Id of the session a refresh token belongs to, expired or not
+ * @param {string|undefined} refreshToken - Refresh token
+ * @returns {string|undefined} Session id
+ */
+function refreshSessionId(refreshToken) {
+    if (!refreshToken) return undefined;
+    const entry = [...sessions].find(([, session]) => session.refreshToken === refreshToken);
+    return entry?.[0];
+}
+
+/**
+ * POST /api/auth/refresh
+ * Exchange a refresh token for a new access token and refresh token
+ * The refresh token used here stops working (rotation)
+ *
+ * Request body:
+ * - refreshToken: string (or the refreshToken cookie)
+ *
+ * Response:
+ * - 200: { token, refreshToken, expiresIn }
+ * - 401: { error } - Missing, unknown, rotated or expired refresh token
+ */
+app.post('/api/auth/refresh', (req, res) => {
+    const refreshToken = req.body?.refreshToken || req.cookies.refreshToken;
+    if (!refreshToken) {
+        return res.status(401).json({ error: 'Refresh token required' });
+    }
+
+    const sessionId = refreshSessionId(refreshToken);
+    if (!sessionId) {
+        return res.status(401).json({ error: 'Invalid refresh token' });
+    }
+
+    const session = sessions.get(sessionId);
+    const user = users.find(u => u.id === session.userId);
+    if (session.refreshExpiresAt <= Date.now() || !user) {
+        sessions.delete(sessionId);
+        return res.status(401).json({ error: 'Refresh token expired' });
+    }
+
+    const credentials = issueTokens(user, sessionId);
+    setAuthCookies(res, credentials);
+    res.json(credentials);
+});
+
 /**
  * POST /api/auth/logout
- * Clear authentication session
+ * Revoke the current session (if any) and clear the cookies
+ * Access and refresh tokens of that session stop working immediately
+ *
+ * The session is the access token's, even when it has expired (the
+ * signature vouches for its session id); without one, the refresh token's
+ *
+ * Request body (optional):
+ * - refreshToken: string (or the refreshToken cookie)
  */
 app.post('/api/auth/logout', (req, res) => {
-    res.clearCookie('authToken');
+    const token = requestToken(req);
+    const { decoded } = token ? decodeToken(token) : {};
+    const sessionId = decoded
+        ? decoded.sid
+        : refreshSessionId(req.body?.refreshToken || req.cookies.refreshToken);
+    if (sessionId) {
+        sessions.delete(sessionId);
+    }
+
+    res.clearCookie('authToken', authCookieOptions());
+    res.clearCookie('refreshToken', authCookieOptions({ path: '/api/auth' }));
     res.json({ message: 'Logged out successfully' });
 });
 
@@ -307,6 +914,19 @@ app.get('/api/auth/me', authMiddleware, (req, res) => {
     res.json({ user: userWithoutPassword });
 });
 
+/**
+ * GET /api/users
+ * List all users without passwords (admin only)
+ *
+ * Response:
+ * - 200: { users }
+ * - 401: { error } - Not signed in
+ * - 403: { error: 'Admin access required' }
+ */
+app.get('/api/users', authMiddleware, requireRole('admin'), (req, res) => {
+    res.json({ users: users.map(({ password: _, ...user }) => user) });
+});
+
 // ============================================================================
 // API ROUTES - Products
 // ============================================================================
@@ -385,56 +1005,316 @@ app.get('/api/orders', authMiddleware, async (req, res) => {
 app.post('/api/orders', authMiddleware, async (req, res) => {
     await delay(600);
 
-    const { items } = req.body;
-
-    if (!items || !Array.isArray(items) || items.length === 0) {
-        return res.status(400).json({ error: 'Order items are required' });
+    const { order, error } = buildOrder(req.user.id, req.body.items);
+    if (error) {
+        return res.status(400).json({ error });
     }
 
-    // Calculate total
-    let total = 0;
-    const orderItems = [];
-
-    for (const item of items) {
-        const product = products.find(p => p.id === item.productId);
-        if (!product) {
-            return res.status(400).json({ error: `Product ${item.productId} not found` });
-        }
-        if (!product.inStock) {
-            return res.status(400).json({ error: `Product ${product.name} is out of stock` });
-        }
+    orders.push(order);
 
-        orderItems.push({
-            productId: product.id,
-            name: product.name,
-            price: product.price,
-            quantity: item.quantity || 1
-        });
+    res.status(201).json({ order, message: 'Order created successfully' });
+});
 
-        total += product.price * (item.quantity || 1);
+// ============================================================================
+// API ROUTES - Order Lifecycle
+// ============================================================================
+
+/**
+ * Order state machine
+ *
+ * FLOW:
+ * ┌─────────────────────────────────────────────────────────────────────────┐
+ * │  pending ──pay──► paid ──ship──► shipped ──deliver──► delivered         │
+ * │     │                                                                   │
+ * │     └──cancel──► cancelled                                              │
+ * └─────────────────────────────────────────────────────────────────────────┘
+ *
+ * Any other move (ship a pending order, cancel a paid one, anything from
+ * delivered or cancelled) is a 409 that lists the actions allowed instead.
+ *
+ * - role: only users with this role may take the action, on any user's order
+ *   (fulfilment is the store's side); pay and cancel are the owner's
+ */
+const ORDER_TRANSITIONS = {
+    pay: { from: 'pending', to: 'paid' },
+    ship: { from: 'paid', to: 'shipped', role: 'admin' },
+    deliver: { from: 'shipped', to: 'delivered', role: 'admin' },
+    cancel: { from: 'pending', to: 'cancelled' }
+};
+
+/**
+ * Every status on the state machine: pending, paid, shipped, delivered, cancelled
+ */
+const ORDER_STATUSES = [...new Set(Object.values(ORDER_TRANSITIONS).flatMap(({ from, to }) => [from, to]))];
+
+/**
+ * Actions allowed from a status, e.g. ['pay', 'cancel'] for pending
+ */
+function allowedOrderActions(status) {
+    return Object.keys(ORDER_TRANSITIONS).filter(action => ORDER_TRANSITIONS[action].from === status);
+}
+
+/**
+ * Move an order along the state machine
+ * Shared by POST /api/orders/:id/:action and the payOrder / shipOrder /
+ * deliverOrder / cancelOrder GraphQL mutations
+ * @param {object} user - Signed-in user: the owner, or any order for a role action
+ * @param {number} orderId - Order to move
+ * @param {string} action - pay, ship, deliver or cancel
+ * @returns {{order?: object, error?: string, code?: number, status?: string, allowedActions?: string[]}}
+ *          Updated order, or a 403 / 404 / 409 error (409: current status and allowed actions)
+ */
+function transitionOrder(user, orderId, action) {
+    const { from, to, role } = ORDER_TRANSITIONS[action];
+    if (role && user.role !== role) {
+        return { error: `${capitalize(role)} access required`, code: 403 };
     }
 
-    const order = {
-        id: orderIdCounter++,
-        userId: req.user.id,
-        items: orderItems,
-        total: Math.round(total * 100) / 100,
-        status: 'pending',
-        createdAt: new Date().toISOString()
-    };
+    const order = orders.find(o => o.id === orderId && (role || o.userId === user.id));
+    if (!order) {
+        return { error: 'Order not found', code: 404 };
+    }
 
-    orders.push(order);
+    if (order.status !== from) {
+        return {
+            error: `Cannot ${action} a ${order.status} order`,
+            code: 409,
+            status: order.status,
+            allowedActions: allowedOrderActions(order.status)
+        };
+    }
 
-    res.status(201).json({ order, message: 'Order created successfully' });
+    order.status = to;
+    return { order };
+}
+
+/**
+ * Route handler for POST /api/orders/:id/:action
+ */
+async function orderTransitionRoute(req, res) {
+    await delay(300);
+
+    const { order, error, code, ...conflict } = transitionOrder(req.user, Number(req.params.id), req.params.action);
+    if (error) {
+        return res.status(code).json({ error, ...conflict });
+    }
+
+    res.json({ order, message: `Order #${order.id} ${order.status}` });
+}
+
+/**
+ * POST /api/orders/:id/pay | cancel
+ * Move one of your orders to its next status (requires authentication)
+ *
+ * Response:
+ * - 200: { order, message }
+ * - 404: { error } - No such order for this user
+ * - 409: { error, status, allowedActions } - Not allowed from the current status
+ */
+app.post('/api/orders/:id/:action(pay|cancel)', authMiddleware, orderTransitionRoute);
+
+/**
+ * POST /api/orders/:id/ship | deliver
+ * Fulfil any user's order (requires the admin role)
+ *
+ * Response:
+ * - 200: { order, message }
+ * - 403: { error } - Not an admin
+ * - 404: { error } - No such order
+ * - 409: { error, status, allowedActions } - Not allowed from the current status
+ */
+app.post('/api/orders/:id/:action(ship|deliver)', authMiddleware, requireRole('admin'), orderTransitionRoute);
+
+// ============================================================================
+// API ROUTES - Orders Export
+// ============================================================================
+
+/**
+ * Order export formats
+ *
+ * FLOW:
+ * ┌─────────────────────────────────────────────────────────────────────────┐
+ * │  GET /api/orders/export?format=csv  ──►  orders.csv, one row per order  │
+ * │  GET /api/orders/export?format=pdf  ──►  orders.pdf, one line per order │
+ * └─────────────────────────────────────────────────────────────────────────┘
+ *
+ * Both list the same orders as GET /api/orders. The PDF is written by hand
+ * (Helvetica, uncompressed text), so tests can read its text without a PDF library.
+ */
+const EXPORT_FORMATS = ['csv', 'pdf'];
+const CSV_COLUMNS = ['id', 'createdAt', 'status', 'items', 'total'];
+
+/**
+ * "Laptop x1; Mouse x2"
+ */
+function orderItemsSummary(order) {
+    return order.items.map(item => `${item.name} x${item.quantity}`).join('; ');
+}
+
+/**
+ * Quote a CSV field when it holds a comma, quote or line break (RFC 4180)
+ */
+function csvField(value) {
+    const text = String(value);
+    return /[",\r\n]/.test(text) ? `"${text.replace(/"/g, '""')}"` : text;
+}
+
+/**
+ * @param {object[]} list - Orders
+ * @returns {string} CSV with a header row and CRLF line endings
+ */
+function ordersToCsv(list) {
+    const rows = list.map(order => [order.id, order.createdAt, order.status, orderItemsSummary(order), order.total.toFixed(2)]);
+    return [CSV_COLUMNS, ...rows].map(row => row.map(csvField).join(',')).join('\r\n') + '\r\n';
+}
+
+/**
+ * Escape text for a PDF string literal; characters outside Latin-1 become '?'
+ */
+function pdfString(text) {
+    return `(${text.replace(/[\\()]/g, '\\$&').replace(/[^\x20-\xff]/g, '?')})`;
+}
+
+/**
+ * Minimal PDF 1.4: one Helvetica text line per entry, 50 lines per A4 page
+ * @param {string[]} lines - Text lines
+ * @returns {Buffer} PDF file
+ */
+function textToPdf(lines) {
+    const LINES_PER_PAGE = 50;
+    const pages = [];
+    for (let i = 0; i < Math.max(lines.length, 1); i += LINES_PER_PAGE) {
+        pages.push(lines.slice(i, i + LINES_PER_PAGE));
+    }
+
+    // 1: catalog, 2: page tree, 3: font, then a page and its content stream per page
+    const objects = [
+        '<< /Type /Catalog /Pages 2 0 R >>',
+        `<< /Type /Pages /Kids [${pages.map((_, i) => `${4 + i * 2} 0 R`).join(' ')}] /Count ${pages.length} >>`,
+        '<< /Type /Font /Subtype /Type1 /BaseFont /Helvetica /Encoding /WinAnsiEncoding >>'
+    ];
+    for (const [i, pageLines] of pages.entries()) {
+        const content = ['BT', '/F1 11 Tf', '14 TL', '50 800 Td', ...pageLines.map(line => `${pdfString(line)} Tj T*`), 'ET'].join('\n');
+        objects.push(`<< /Type /Page /Parent 2 0 R /MediaBox [0 0 595 842] /Resources << /Font << /F1 3 0 R >> >> /Contents ${5 + i * 2} 0 R >>`);
+        objects.push(`<< /Length ${Buffer.byteLength(content, 'latin1')} >>\nstream\n${content}\nendstream`);
+    }
+
+    let pdf = '%PDF-1.4\n';
+    const offsets = objects.map((object, i) => {
+        const offset = Buffer.byteLength(pdf, 'latin1');
+        pdf += `${i + 1} 0 obj\n${object}\nendobj\n`;
+        return offset;
+    });
+    const xref = Buffer.byteLength(pdf, 'latin1');
+    pdf += `xref\n0 ${objects.length + 1}\n0000000000 65535 f \n`;
+    pdf += offsets.map(offset => `${String(offset).padStart(10, '0')} 00000 n \n`).join('');
+    pdf += `trailer\n<< /Size ${objects.length + 1} /Root 1 0 R >>\nstartxref\n${xref}\n%%EOF\n`;
+    return Buffer.from(pdf, 'latin1');
+}
+
+/**
+ * @param {object[]} list - Orders
+ * @param {object} user - Owner of the orders
+ * @returns {Buffer} PDF with a title, the owner and one line per order
+ */
+function ordersToPdf(list, user) {
+    return textToPdf([
+        'Orders Export',
+        `${user.name} <${user.email}>`,
+        `Orders: ${list.length}`,
+        '',
+        ...list.map(order => `Order #${order.id} | ${order.status} | ${orderItemsSummary(order)} | $${order.total.toFixed(2)}`)
+    ]);
+}
+
+/**
+ * GET /api/orders/export
+ * Download the user's orders (requires authentication)
+ *
+ * Query Parameters:
+ * - format: 'csv' (default) or 'pdf'
+ *
+ * Response:
+ * - 200: orders.csv (text/csv) or orders.pdf (application/pdf) as an attachment
+ * - 400: { error } - Unsupported format
+ */
+app.get('/api/orders/export', authMiddleware, (req, res) => {
+    const format = req.query.format || 'csv';
+    if (!EXPORT_FORMATS.includes(format)) {
+        return res.status(400).json({ error: `Unsupported export format: ${format}` });
+    }
+
+    const userOrders = orders.filter(o => o.userId === req.user.id);
+    res.attachment(`orders.${format}`);
+    if (format === 'pdf') {
+        res.type('application/pdf').send(ordersToPdf(userOrders, req.user));
+    } else {
+        res.type('text/csv; charset=utf-8').send(ordersToCsv(userOrders));
+    }
 });
 
 // ============================================================================
 // API ROUTES - File Operations
 // ============================================================================
 
+/**
+ * Uploaded files by stable id
+ * The stored filename keeps its timestamp prefix; clients use the id
+ */
+const uploadedFiles = new Map();
+
+/**
+ * Record a file written to UPLOAD_DIR
+ * @param {object} file - { filename, originalName, size, mimetype }
+ * @returns {object} The file with its id and uploadedAt
+ */
+function registerUpload(file) {
+    const entry = { id: crypto.randomUUID(), ...file, uploadedAt: new Date().toISOString() };
+    uploadedFiles.set(entry.id, entry);
+    return entry;
+}
+
+/**
+ * Delete files in UPLOAD_DIR older than maxAgeMs, and forget files that are gone
+ * Also catches files left behind by earlier runs of the server
+ * @param {number} maxAgeMs - Retention, UPLOAD_RETENTION_MS by default
+ * @returns {string[]} Stored filenames that were deleted
+ */
+function sweepUploads(maxAgeMs = UPLOAD_RETENTION_MS) {
+    const cutoff = Date.now() - maxAgeMs;
+    const removed = [];
+
+    if (fs.existsSync(UPLOAD_DIR)) {
+        for (const filename of fs.readdirSync(UPLOAD_DIR)) {
+            const filepath = path.join(UPLOAD_DIR, filename);
+            const stats = fs.statSync(filepath);
+            if (stats.isFile() && stats.mtimeMs <= cutoff) {
+                fs.unlinkSync(filepath);
+                removed.push(filename);
+            }
+        }
+    }
+    for (const [id, file] of uploadedFiles) {
+        if (!fs.existsSync(path.join(UPLOAD_DIR, file.filename))) {
+            uploadedFiles.delete(id);
+        }
+    }
+    return removed;
+}
+
+sweepUploads();
+setInterval(() => {
+    sweepUploads();
+    sweepChunkedUploads();
+}, UPLOAD_SWEEP_INTERVAL_MS).unref();
+
 /**
  * POST /api/upload
  * Upload a file
+ *
+ * Response:
+ * - 200: { message, file: { id, filename, originalName, size, mimetype, uploadedAt } }
+ * - 400: { error } - No file, invalid file type or file too large
  */
 app.post('/api/upload', upload.single('file'), (req, res) => {
     if (!req.file) {
@@ -443,31 +1323,347 @@ app.post('/api/upload', upload.single('file'), (req, res) => {
 
     res.json({
         message: 'File uploaded successfully',
-        file: {
+        file: registerUpload({
             filename: req.file.filename,
             originalName: req.file.originalname,
             size: req.file.size,
             mimetype: req.file.mimetype
-        }
+        })
     });
 });
 
 /**
  * GET /api/download/:filename
- * Download a file
+ * Download an uploaded file, or one of the bundled samples (e.g. sample.txt)
  */
 app.get('/api/download/:filename', (req, res) => {
     // Sanitize filename to prevent path traversal
     const filename = path.basename(req.params.filename);
-    const filepath = path.join(__dirname, 'uploads', filename);
+    const filepath = [UPLOAD_DIR, path.join(__dirname, 'samples')]
+        .map(dir => path.join(dir, filename))
+        .find(candidate => fs.existsSync(candidate));
 
-    if (!fs.existsSync(filepath)) {
+    if (!filepath) {
         return res.status(404).json({ error: 'File not found' });
     }
 
     res.download(filepath);
 });
 
+// ============================================================================
+// API ROUTES - Uploaded Files
+// ============================================================================
+
+/**
+ * Look up the uploaded file named in the route, or answer 404
+ */
+function findUploadedFile(req, res, next) {
+    const file = uploadedFiles.get(req.params.id);
+    if (!file || !fs.existsSync(path.join(UPLOAD_DIR, file.filename))) {
+        return res.status(404).json({ error: 'File not found' });
+    }
+    req.uploadedFile = file;
+    next();
+}
+
+/**
+ * GET /api/uploads
+ * List uploaded files, oldest first
+ *
+ * Response:
+ * - 200: { files: [{ id, filename, originalName, size, mimetype, uploadedAt }], total }
+ */
+app.get('/api/uploads', (req, res) => {
+    const files = [...uploadedFiles.values()]
+        .filter(file => fs.existsSync(path.join(UPLOAD_DIR, file.filename)));
+    res.json({ files, total: files.length });
+});
+
+/**
+ * GET /api/uploads/:id
+ * Metadata of one uploaded file
+ */
+app.get('/api/uploads/:id', findUploadedFile, (req, res) => {
+    res.json({ file: req.uploadedFile });
+});
+
+/**
+ * GET /api/uploads/:id/download
+ * Download an uploaded file under its original name
+ */
+app.get('/api/uploads/:id/download', findUploadedFile, (req, res) => {
+    res.download(path.join(UPLOAD_DIR, req.uploadedFile.filename), req.uploadedFile.originalName);
+});
+
+/**
+ * DELETE /api/uploads/:id
+ * Delete an uploaded file
+ *
+ * Response:
+ * - 200: { message, file } - The deleted file
+ * - 404: { error } - Unknown or already deleted file
+ */
+app.delete('/api/uploads/:id', findUploadedFile, (req, res) => {
+    const file = req.uploadedFile;
+    fs.unlinkSync(path.join(UPLOAD_DIR, file.filename));
+    uploadedFiles.delete(file.id);
+    res.json({ message: 'File deleted', file });
+});
+
+// ============================================================================
+// API ROUTES - Resumable Uploads
+// ============================================================================
+
+/**
+ * Chunked upload protocol, for progress, cancel and resume scenarios
+ *
+ * FLOW:
+ * ┌─────────────────────────────────────────────────────────────────────────┐
+ * │  POST   /api/upload/init             ──►  { uploadId, totalChunks }     │
+ * │  PUT    /api/upload/:id/chunks/:n    ──►  one chunk, raw bytes,         │
+ * │                                           X-Chunk-Checksum: CRC-32 hex  │
+ * │  GET    /api/upload/:id              ──►  received / missing chunks     │
+ * │  POST   /api/upload/:id/complete     ──►  file stored like /api/upload  │
+ * │  DELETE /api/upload/:id              ──►  upload cancelled              │
+ * └─────────────────────────────────────────────────────────────────────────┘
+ *
+ * Chunks are kept in memory until complete; a client that lost its
+ * connection asks for the status and sends only the missing chunks.
+ * Uploads nobody touched for CHUNKED_UPLOAD_IDLE_MS are dropped by the sweep.
+ */
+const DEFAULT_CHUNK_SIZE = 256 * 1024;
+const MIN_CHUNK_SIZE = 1024;
+const MAX_CHUNK_SIZE = 1024 * 1024;
+
+/**
+ * In-flight chunked uploads, keyed by upload id
+ */
+const chunkedUploads = new Map();
+
+/**
+ * Drop chunked uploads without a request for idleMs, and their chunks
+ * @param {number} idleMs - Idle time, CHUNKED_UPLOAD_IDLE_MS by default
+ * @returns {string[]} Ids of the dropped uploads
+ */
+function sweepChunkedUploads(idleMs = CHUNKED_UPLOAD_IDLE_MS) {
+    const cutoff = Date.now() - idleMs;
+    const expired = [];
+    for (const [id, entry] of chunkedUploads) {
+        if (entry.lastActivityAt <= cutoff) {
+            chunkedUploads.delete(id);
+            expired.push(id);
+        }
+    }
+    return expired;
+}
+
+const CRC32_TABLE = Array.from({ length: 256 }, (_, n) => {
+    let c = n;
+    for (let k = 0; k < 8; k++) {
+        c = c & 1 ? 0xedb88320 ^ (c >>> 1) : c >>> 1;
+    }
+    return c >>> 0;
+});
+
+/**
+ * CRC-32 (IEEE) of a buffer as 8 hex digits, the checksum format of the protocol
+ * @param {Buffer} buffer - Data to checksum
+ * @returns {string} Lower-case hex checksum
+ */
+function crc32(buffer) {
+    let crc = 0xffffffff;
+    for (const byte of buffer) {
+        crc = CRC32_TABLE[(crc ^ byte) & 0xff] ^ (crc >>> 8);
+    }
+    return ((crc ^ 0xffffffff) >>> 0).toString(16).padStart(8, '0');
+}
+
+/**
+ * Public view of a chunked upload
+ */
+function chunkedUploadStatus(entry) {
+    const receivedChunks = [...entry.chunks.keys()].sort((a, b) => a - b);
+    const missingChunks = Array.from({ length: entry.totalChunks }, (_, index) => index)
+        .filter(index => !entry.chunks.has(index));
+    return {
+        uploadId: entry.id,
+        fileName: entry.fileName,
+        mimeType: entry.mimeType,
+        size: entry.size,
+        chunkSize: entry.chunkSize,
+        totalChunks: entry.totalChunks,
+        receivedChunks,
+        missingChunks
+    };
+}
+
+/**
+ * Look up the upload named in the route, or answer 404
+ */
+function findChunkedUpload(req, res, next) {
+    const entry = chunkedUploads.get(req.params.uploadId);
+    if (!entry) {
+        return res.status(404).json({ error: 'Upload not found' });
+    }
+    entry.lastActivityAt = Date.now();
+    req.chunkedUpload = entry;
+    next();
+}
+
+/**
+ * POST /api/upload/init
+ * Start a chunked upload
+ *
+ * Request body:
+ * - fileName: string (required)
+ * - mimeType: string (required) - same types as /api/upload
+ * - size: number (required) - total bytes, under the 5 MB limit of /api/upload
+ * - chunkSize: number (optional) - 1 KB to 1 MB, default 256 KB
+ *
+ * Response:
+ * - 201: { uploadId, fileName, mimeType, size, chunkSize, totalChunks, receivedChunks, missingChunks }
+ * - 400: { error } - Invalid file type, size or chunk size
+ */
+app.post('/api/upload/init', (req, res) => {
+    const { fileName, mimeType, size, chunkSize = DEFAULT_CHUNK_SIZE } = req.body || {};
+
+    if (typeof fileName !== 'string' || !fileName.trim()) {
+        return res.status(400).json({ error: 'fileName is required' });
+    }
+    if (!ALLOWED_UPLOAD_TYPES.includes(mimeType)) {
+        return res.status(400).json({ error: 'File upload error: Invalid file type' });
+    }
+    if (!Number.isInteger(size) || size < 1) {
+        return res.status(400).json({ error: 'size must be a positive integer' });
+    }
+    if (size >= MAX_UPLOAD_BYTES) {
+        return res.status(400).json({ error: 'File upload error: File too large' });
+    }
+    if (!Number.isInteger(chunkSize) || chunkSize < MIN_CHUNK_SIZE || chunkSize > MAX_CHUNK_SIZE) {
+        return res.status(400).json({ error: `chunkSize must be between ${MIN_CHUNK_SIZE} and ${MAX_CHUNK_SIZE}` });
+    }
+
+    const entry = {
+        id: crypto.randomUUID(),
+        fileName,
+        mimeType,
+        size,
+        chunkSize,
+        totalChunks: Math.ceil(size / chunkSize),
+        chunks: new Map(),
+        lastActivityAt: Date.now()
+    };
+    chunkedUploads.set(entry.id, entry);
+
+    res.status(201).json(chunkedUploadStatus(entry));
+});
+
+/**
+ * PUT /api/upload/:uploadId/chunks/:index
+ * Store one chunk; sending a chunk again replaces it
+ *
+ * Request: application/octet-stream body, X-Chunk-Checksum: CRC-32 hex of the body
+ *
+ * Response:
+ * - 200: { uploadId, index, receivedChunks, totalChunks } - receivedChunks is a count
+ * - 400: { error } - Index out of range or wrong chunk length
+ * - 404: { error } - Unknown or cancelled upload
+ * - 413: { error } - Body larger than MAX_CHUNK_SIZE
+ * - 422: { error, expected, actual } - Checksum missing or wrong
+ */
+app.put(
+    '/api/upload/:uploadId/chunks/:index',
+    findChunkedUpload,
+    express.raw({ type: 'application/octet-stream', limit: MAX_CHUNK_SIZE }),
+    (req, res) => {
+        const entry = req.chunkedUpload;
+        const index = Number(req.params.index);
+
+        if (!Number.isInteger(index) || index < 0 || index >= entry.totalChunks) {
+            return res.status(400).json({ error: 'Invalid chunk index' });
+        }
+
+        const data = Buffer.isBuffer(req.body) ? req.body : Buffer.alloc(0);
+        const expectedLength = index === entry.totalChunks - 1
+            ? entry.size - index * entry.chunkSize
+            : entry.chunkSize;
+        if (data.length !== expectedLength) {
+            return res.status(400).json({ error: `Chunk ${index} must be ${expectedLength} bytes` });
+        }
+
+        const expected = String(req.headers['x-chunk-checksum'] || '').toLowerCase();
+        const actual = crc32(data);
+        if (expected !== actual) {
+            return res.status(422).json({ error: 'Checksum mismatch', expected, actual });
+        }
+
+        entry.chunks.set(index, data);
+        res.json({ uploadId: entry.id, index, receivedChunks: entry.chunks.size, totalChunks: entry.totalChunks });
+    }
+);
+
+/**
+ * GET /api/upload/:uploadId
+ * Upload status, used to resume after an interruption
+ */
+app.get('/api/upload/:uploadId', findChunkedUpload, (req, res) => {
+    res.json(chunkedUploadStatus(req.chunkedUpload));
+});
+
+/**
+ * POST /api/upload/:uploadId/complete
+ * Join the chunks into an uploaded file
+ *
+ * Request body:
+ * - checksum: string (optional) - CRC-32 hex of the whole file
+ *
+ * Response:
+ * - 200: { message, file } - Same shape as POST /api/upload
+ * - 404: { error } - Unknown or cancelled upload
+ * - 409: { error, missingChunks } - Chunks still missing
+ * - 422: { error, expected, actual } - Whole-file checksum wrong
+ */
+app.post('/api/upload/:uploadId/complete', findChunkedUpload, (req, res) => {
+    const entry = req.chunkedUpload;
+    const { missingChunks } = chunkedUploadStatus(entry);
+
+    if (missingChunks.length > 0) {
+        return res.status(409).json({ error: 'Upload incomplete', missingChunks });
+    }
+
+    const data = Buffer.concat(Array.from({ length: entry.totalChunks }, (_, index) => entry.chunks.get(index)));
+    const expected = req.body?.checksum;
+    const actual = crc32(data);
+    if (expected !== undefined && String(expected).toLowerCase() !== actual) {
+        return res.status(422).json({ error: 'Checksum mismatch', expected, actual });
+    }
+
+    // Same naming and location as multer's diskStorage above
+    fs.mkdirSync(UPLOAD_DIR, { recursive: true });
+    const filename = `${Date.now()}-${entry.fileName.replace(/[^a-zA-Z0-9.-]/g, '_')}`;
+    fs.writeFileSync(path.join(UPLOAD_DIR, filename), data);
+    chunkedUploads.delete(entry.id);
+
+    res.json({
+        message: 'File uploaded successfully',
+        file: registerUpload({
+            filename,
+            originalName: entry.fileName,
+            size: data.length,
+            mimetype: entry.mimeType
+        })
+    });
+});
+
+/**
+ * DELETE /api/upload/:uploadId
+ * Cancel an upload and drop its chunks
+ */
+app.delete('/api/upload/:uploadId', findChunkedUpload, (req, res) => {
+    chunkedUploads.delete(req.chunkedUpload.id);
+    res.json({ message: 'Upload cancelled' });
+});
+
 // ============================================================================
 // API ROUTES - Utility Endpoints
 // ============================================================================
@@ -532,276 +1728,406 @@ app.post('/api/echo', (req, res) => {
 // GRAPHQL API ENDPOINT
 // ============================================================================
 
+/**
+ * GraphQL schema (schema.graphql) and root resolvers
+ *
+ * Requests are parsed and validated against the schema, so aliases,
+ * fragments, variables, multiple operations with operationName and
+ * introspection behave like any GraphQL server, and only the selected
+ * fields are returned.
+ *
+ * Queries:   products(limit, category), product(id), user / me, orders
+ * Mutations: createOrder(items), payOrder / cancelOrder(id), shipOrder /
+ *            deliverOrder(id) and updateProduct(id, input) (admin only)
+ *
+ * Auth uses the Bearer token only (not the authToken cookie).
+ */
+const graphqlSchema = buildSchema(fs.readFileSync(path.join(__dirname, 'schema.graphql'), 'utf8'));
+
+/**
+ * Current user from the GraphQL context, or an UNAUTHENTICATED error
+ */
+function requireGraphQLUser(context) {
+    if (!context.token) {
+        throw new GraphQLError('Authentication required', { extensions: { code: 'UNAUTHENTICATED' } });
+    }
+    if (!context.user) {
+        throw new GraphQLError(context.error || 'Invalid token', { extensions: { code: 'UNAUTHENTICATED' } });
+    }
+    return context.user;
+}
+
+/**
+ * GraphQL error codes for the transitionOrder() errors other than 409
+ */
+const TRANSITION_ERROR_CODES = { 403: 'FORBIDDEN', 404: 'NOT_FOUND' };
+
+/**
+ * Resolver for one order transition mutation, e.g. payOrder(id)
+ * A 409 from transitionOrder() becomes a CONFLICT error with the current
+ * status and allowed actions in its extensions
+ */
+function orderTransitionResolver(action) {
+    return ({ id }, context) => {
+        const user = requireGraphQLUser(context);
+        const { order, error, code, ...conflict } = transitionOrder(user, id, action);
+        if (error) {
+            throw new GraphQLError(error, {
+                extensions: code === 409 ? { code: 'CONFLICT', ...conflict } : { code: TRANSITION_ERROR_CODES[code] }
+            });
+        }
+
+        return { order, success: true, message: `Order #${order.id} ${order.status}` };
+    };
+}
+
+const graphqlRoot = {
+    products: ({ limit = 10, category }) => {
+        const result = category ? products.filter(p => p.category === category) : products;
+        return result.slice(0, limit);
+    },
+
+    product: ({ id }) => {
+        const product = products.find(p => p.id === id);
+        if (!product) {
+            throw new GraphQLError(`Product with id ${id} not found`, { extensions: { code: 'NOT_FOUND' } });
+        }
+        return product;
+    },
+
+    user: (args, context) => requireGraphQLUser(context),
+
+    me: (args, context) => requireGraphQLUser(context),
+
+    orders: (args, context) => {
+        const user = requireGraphQLUser(context);
+        return orders.filter(o => o.userId === user.id);
+    },
+
+    createOrder: ({ items }, context) => {
+        const user = requireGraphQLUser(context);
+        const { order, error } = buildOrder(user.id, items);
+        if (error) {
+            throw new GraphQLError(error, { extensions: { code: 'BAD_USER_INPUT' } });
+        }
+
+        orders.push(order);
+        return { order, success: true, message: 'Order created successfully' };
+    },
+
+    payOrder: orderTransitionResolver('pay'),
+
+    shipOrder: orderTransitionResolver('ship'),
+
+    deliverOrder: orderTransitionResolver('deliver'),
+
+    cancelOrder: orderTransitionResolver('cancel'),
+
+    updateProduct: ({ id, input }, context) => {
+        const user = requireGraphQLUser(context);
+        if (user.role !== 'admin') {
+            throw new GraphQLError('Admin access required', { extensions: { code: 'FORBIDDEN' } });
+        }
+
+        const product = products.find(p => p.id === id);
+        if (!product) {
+            throw new GraphQLError(`Product ${id} not found`, { extensions: { code: 'NOT_FOUND' } });
+        }
+
+        if (input.name != null) product.name = input.name;
+        if (input.price != null) product.price = input.price;
+        if (input.inStock != null) product.inStock = input.inStock;
+
+        return { product, success: true };
+    }
+};
+
+/**
+ * Serialize request errors (syntax / validation) with an error code
+ */
+function graphqlRequestErrors(errors, code) {
+    return errors.map(error => ({
+        ...error.toJSON(),
+        extensions: { ...error.extensions, code }
+    }));
+}
+
 /**
  * POST /api/graphql
- * GraphQL-style endpoint for testing GraphQL queries and mutations
- * 
- * This is a simplified GraphQL implementation for testing purposes.
- * It demonstrates how to test GraphQL APIs with Cypress.
- * 
- * Supported queries:
- * - products(limit, category)
- * - product(id)
- * - user
- * - orders
- * 
- * Supported mutations:
- * - createOrder(items)
- * - updateProduct(id, input)
+ *
+ * Request body:
+ * - query: string (required)
+ * - variables: object or null
+ * - operationName: string or null (required when the document has several operations)
+ *
+ * Response:
+ * - 200: { data, errors? } - Executed (resolver errors are listed in `errors`)
+ * - 400: { errors } - Missing query, variables that are not an object,
+ *                     operationName that is not a string, syntax error,
+ *                     validation error or invalid variables / operationName
+ *                     (nothing executed)
+ * - 500: { errors } - Execution failed outside the resolvers
  */
 app.post('/api/graphql', async (req, res) => {
     await delay(200);
 
-    const { query, variables = {} } = req.body;
-
+    const { query, variables, operationName } = req.body || {};
 
-    if (!query) {
+    if (!query || typeof query !== 'string') {
+        return res.status(400).json({
+            errors: [{ message: 'Query is required', extensions: { code: 'BAD_REQUEST' } }]
+        });
+    }
+    // execute() throws, rather than reporting an error, on these
+    if (variables != null && !isPlainObject(variables)) {
         return res.status(400).json({
-            errors: [{ message: 'Query is required' }]
+            errors: [{ message: 'Variables must be an object', extensions: { code: 'BAD_REQUEST' } }]
         });
     }
+    if (operationName != null && typeof operationName !== 'string') {
+        return res.status(400).json({
+            errors: [{ message: 'operationName must be a string', extensions: { code: 'BAD_REQUEST' } }]
+        });
+    }
+
+    let document;
+    try {
+        document = parse(query);
+    } catch (error) {
+        return res.status(400).json({ errors: graphqlRequestErrors([error], 'GRAPHQL_PARSE_FAILED') });
+    }
+
+    const validationErrors = validate(graphqlSchema, document);
+    if (validationErrors.length > 0) {
+        return res.status(400).json({ errors: graphqlRequestErrors(validationErrors, 'GRAPHQL_VALIDATION_FAILED') });
+    }
 
+    const token = req.headers.authorization?.replace('Bearer ', '');
+    let result;
     try {
-        // Parse and execute the query
-        const result = await executeGraphQL(query, variables, req);
-        res.json(result);
+        result = await execute({
+            schema: graphqlSchema,
+            document,
+            rootValue: graphqlRoot,
+            // { token, user } or { token, error } (Invalid token, Token expired, Session revoked)
+            contextValue: { token, ...(token ? verifyToken(token) : {}) },
+            variableValues: variables,
+            operationName
+        });
     } catch (error) {
-        res.status(400).json({
-            errors: [{ message: error.message }]
+        console.error('GraphQL execution failed:', error);
+        return res.status(500).json({
+            errors: [{ message: 'Internal server error', extensions: { code: 'INTERNAL_SERVER_ERROR' } }]
         });
     }
+
+    // No `data` means the request could not be executed (bad variables or operationName)
+    res.status(result.data === undefined ? 400 : 200).json(result);
 });
 
+// ============================================================================
+// TEST CONTROL API (TEST_API=true only)
+// ============================================================================
+
 /**
- * Simple GraphQL executor for testing purposes
+ * Reset, seed and inspect the in-memory data store between tests
+ * Not registered unless the server runs with TEST_API=true, so these
+ * routes 404 everywhere else
+ *
+ * FLOW:
+ * ┌─────────────────────────────────────────────────────────────────────────┐
+ * │  POST /__test__/reset  ──►  initialData (users, products, no orders)    │
+ * │  POST /__test__/seed   ──►  initialData, then the supplied collections  │
+ * │  GET  /__test__/state  ──►  current users, products, orders             │
+ * │  POST /__test__/faults ──►  fault rule for /api/* (see FAULT INJECTION) │
+ * │  POST /__test__/auth-config  ──►  token lifetimes for new tokens        │
+ * │  POST /__test__/sweep-uploads ──►  retention sweep with a given max age │
+ * └─────────────────────────────────────────────────────────────────────────┘
  */
-async function executeGraphQL(query, variables, req) {
-    // Debug logging
-    console.log('GraphQL Query Received:', query.substring(0, 100).replace(/\n/g, ' '));
-    console.log('Variables:', variables);
-
-    let data = {};
-    let errors = []; // New errors array
 
-    // Normalize query for matching: remove all whitespace
-    const compactQuery = query.replace(/\s+/g, '');
-    console.log('Compact Query:', compactQuery); // DEBUG LOG
-
-    // Check for explicit root fields in the compact query
-    const isProductsListQuery = (compactQuery.includes('products{') || compactQuery.includes('products(')) && !compactQuery.includes('product(');
-    const isSingleProduct = compactQuery.includes('product(');
-    const isUser = compactQuery.includes('user{') || compactQuery.includes('me{');
-    const isCreateOrder = compactQuery.includes('createOrder(');
-    const isUpdateProduct = compactQuery.includes('updateProduct(');
-    const isMutation = compactQuery.includes('mutation');
+/**
+ * Current data store, without user passwords
+ */
+function currentState() {
+    return {
+        users: users.map(({ password: _, ...user }) => user),
+        products,
+        orders,
+        nextOrderId: orderIdCounter
+    };
+}
 
-    console.log('Query Analysis:', {
-        isProductsListQuery,
-        isSingleProduct,
-        isUser,
-        isCreateOrder,
-        isUpdateProduct,
-        isMutation
+if (TEST_API) {
+    /**
+     * POST /__test__/reset
+     * Restore the initial data set, remove all fault rules and restore the
+     * token lifetimes (sessions stay valid)
+     *
+     * Response:
+     * - 200: { users, products, orders, nextOrderId }
+     */
+    app.post('/__test__/reset', (req, res) => {
+        loadData(initialData);
+        faultRules = [];
+        authConfig = { ...defaultAuthConfig };
+        res.json(currentState());
     });
 
-    if (isProductsListQuery) {
-        const safeVariables = variables || {};
-        const limit = safeVariables.limit || 10;
-        const category = safeVariables.category;
-
-        let result = [...products];
-        if (category) {
-            result = result.filter(p => p.category === category);
+    /**
+     * POST /__test__/seed
+     * Restore the initial data set, then replace the supplied collections
+     *
+     * Request body (an object, all keys optional):
+     * - users: Array<{ id, email, password, name, role }>
+     * - products: Array<{ id, name, price, category, inStock }>
+     * - orders: Array<{ id, userId, items, total, status, createdAt }>
+     *
+     * Response:
+     * - 200: { users, products, orders, nextOrderId }
+     * - 400: { error } - Not an object, an unknown key, a collection that is not
+     *   an array of objects with numeric ids, or an order status off the state machine
+     */
+    app.post('/__test__/seed', (req, res) => {
+        const collections = ['users', 'products', 'orders'];
+        if (!isPlainObject(req.body)) {
+            return res.status(400).json({ error: 'Seed data must be an object' });
         }
-        result = result.slice(0, limit);
-
-        data.products = result.map(p => ({
-            id: p.id,
-            name: p.name,
-            price: p.price,
-            category: p.category,
-            inStock: p.inStock,
-            __typename: 'Product'
-        }));
-    }
-
-    // Handle single product query
-    if (isSingleProduct) {
-        // IDs are passed as variables usually
-        let id = variables.id;
-
-        // Fallback: try to extract from query if strict variable not present (legacy support)
-        if (!id) {
-            const idMatch = query.match(/id:\s*(\d+)/);
-            if (idMatch) id = parseInt(idMatch[1]);
+        const unknown = Object.keys(req.body).filter(key => !collections.includes(key));
+        if (unknown.length > 0) {
+            return res.status(400).json({ error: `Unknown seed keys: ${unknown.join(', ')}` });
         }
 
-        if (!id) id = 1;
+        const data = { ...initialData };
+        for (const key of collections) {
+            const value = req.body[key];
+            if (value === undefined) continue;
 
-        const product = products.find(p => p.id === parseInt(id));
-
-        if (product) {
-            data.product = {
-                id: product.id,
-                name: product.name,
-                price: product.price,
-                category: product.category,
-                inStock: product.inStock,
-                __typename: 'Product'
-            };
-        } else {
-            errors.push({ message: `Product with id ${id} not found` });
+            const valid = Array.isArray(value) && value.every(item => isPlainObject(item) && Number.isInteger(item.id));
+            if (!valid) {
+                return res.status(400).json({ error: `${key} must be an array of objects with a numeric id` });
+            }
+            data[key] = value;
         }
-    }
-
-    // Handle user query (requires auth)
-    if (isUser) {
-        const token = req.headers.authorization?.replace('Bearer ', '');
 
-        if (!token) {
-            errors.push({ message: 'Authentication required', extensions: { code: 'UNAUTHENTICATED' } });
-        } else {
-            const user = verifyToken(token);
-            if (user) {
-                data.user = {
-                    id: user.id,
-                    email: user.email,
-                    name: user.name,
-                    role: user.role,
-                    __typename: 'User'
-                };
-            } else {
-                errors.push({ message: 'Invalid token', extensions: { code: 'UNAUTHENTICATED' } });
-            }
+        const badOrder = data.orders.find(order => !ORDER_STATUSES.includes(order.status));
+        if (badOrder) {
+            return res.status(400).json({ error: `Order ${badOrder.id} status must be one of ${ORDER_STATUSES.join(', ')}` });
         }
-    }
 
-    // Handle orders query (requires auth)
-    if (compactQuery.includes('orders{') && !isCreateOrder) {
-        const token = req.headers.authorization?.replace('Bearer ', '');
+        loadData(data);
+        res.json(currentState());
+    });
 
-        if (!token) {
-            errors.push({ message: 'Authentication required' });
-        } else {
-            const user = verifyToken(token);
-            if (user) {
-                const userOrders = orders.filter(o => o.userId === user.id);
-                data.orders = userOrders.map(o => ({
-                    id: o.id,
-                    items: o.items,
-                    total: o.total,
-                    status: o.status,
-                    createdAt: o.createdAt,
-                    __typename: 'Order'
-                }));
+    /**
+     * GET /__test__/state
+     * Current data store
+     *
+     * Response:
+     * - 200: { users, products, orders, nextOrderId }
+     */
+    app.get('/__test__/state', (req, res) => {
+        res.json(currentState());
+    });
+
+    /**
+     * POST /__test__/auth-config
+     * Change token lifetimes for tokens issued from now on
+     *
+     * Request body (all optional):
+     * - tokenTtl: number - access token lifetime in ms
+     * - refreshTtl: number - refresh token lifetime in ms
+     *
+     * Response:
+     * - 200: { tokenTtl, refreshTtl }
+     * - 400: { error } - Not a positive integer
+     */
+    app.post('/__test__/auth-config', (req, res) => {
+        const next = { ...authConfig };
+        for (const key of ['tokenTtl', 'refreshTtl']) {
+            const value = req.body?.[key];
+            if (value === undefined) continue;
+            if (!Number.isInteger(value) || value < 1) {
+                return res.status(400).json({ error: `${key} must be a positive integer (ms)` });
             }
+            next[key] = value;
         }
-    }
 
-    // Handle createOrder mutation
-    if (isCreateOrder) {
-        const token = req.headers.authorization?.replace('Bearer ', '');
+        authConfig = next;
+        res.json(authConfig);
+    });
 
-        if (!token) {
-            errors.push({ message: 'Authentication required' });
-        } else {
-            const user = verifyToken(token);
-            if (!user) {
-                errors.push({ message: 'Invalid token' });
-            } else {
-                const items = variables.items || [];
-                if (items.length === 0) {
-                    errors.push({ message: 'Order items are required' });
-                } else {
-                    let total = 0;
-                    const orderItems = [];
-                    let errorFound = false;
-
-                    for (const item of items) {
-                        const product = products.find(p => p.id === item.productId);
-                        if (!product) {
-                            errors.push({ message: `Product ${item.productId} not found` });
-                            errorFound = true;
-                            break;
-                        }
-
-                        orderItems.push({
-                            productId: product.id,
-                            name: product.name,
-                            price: product.price,
-                            quantity: item.quantity || 1
-                        });
-                        total += product.price * (item.quantity || 1);
-                    }
-
-                    if (!errorFound) {
-                        const order = {
-                            id: orderIdCounter++,
-                            userId: user.id,
-                            items: orderItems,
-                            total: Math.round(total * 100) / 100,
-                            status: 'pending',
-                            createdAt: new Date().toISOString()
-                        };
-
-                        orders.push(order);
-
-                        data.createOrder = {
-                            order: {
-                                id: order.id,
-                                items: order.items,
-                                total: order.total,
-                                status: order.status,
-                                createdAt: order.createdAt,
-                                __typename: 'Order'
-                            },
-                            success: true,
-                            message: 'Order created successfully'
-                        };
-                    }
-                }
+    /**
+     * POST /__test__/sweep-uploads
+     * Run the upload retention sweep now
+     *
+     * Request body (optional):
+     * - maxAgeMs: number - delete files at least this old (default UPLOAD_RETENTION_MS)
+     * - chunkedIdleMs: number - drop chunked uploads idle this long (default CHUNKED_UPLOAD_IDLE_MS)
+     *
+     * Response:
+     * - 200: { removed, expiredUploads } - Stored filenames deleted, chunked upload ids dropped
+     * - 400: { error } - Not a non-negative integer
+     */
+    app.post('/__test__/sweep-uploads', (req, res) => {
+        const maxAgeMs = req.body?.maxAgeMs ?? UPLOAD_RETENTION_MS;
+        const chunkedIdleMs = req.body?.chunkedIdleMs ?? CHUNKED_UPLOAD_IDLE_MS;
+        for (const [key, value] of Object.entries({ maxAgeMs, chunkedIdleMs })) {
+            if (!Number.isInteger(value) || value < 0) {
+                return res.status(400).json({ error: `${key} must be a non-negative integer (ms)` });
             }
         }
-    }
+        res.json({ removed: sweepUploads(maxAgeMs), expiredUploads: sweepChunkedUploads(chunkedIdleMs) });
+    });
 
-    // Handle updateProduct mutation (admin only)
-    if (isUpdateProduct) {
-        const token = req.headers.authorization?.replace('Bearer ', '');
+    /**
+     * POST /__test__/faults
+     * Register a fault rule for /api/* requests (see FAULT INJECTION)
+     *
+     * Request body:
+     * - path: string (required) - e.g. /api/products, or /api/orders* for a prefix
+     * - method: string - only requests with this method
+     * - type: 'latency' | 'status' | 'malformed' | 'drop' (required)
+     * - delay: number - latency in ms (default 1000)
+     * - status: number - status code (default 500)
+     * - probability: number - chance per matching request (default 1)
+     * - count: number - faulted requests before the rule expires (default unlimited)
+     *
+     * Response:
+     * - 201: { fault } - Registered rule with its id and hits
+     * - 400: { error } - Validation error
+     */
+    app.post('/__test__/faults', (req, res) => {
+        const { path: rulePath, method } = req.body || {};
+        if (typeof rulePath !== 'string' || !rulePath.startsWith('/api/')) {
+            return res.status(400).json({ error: 'path must start with /api/' });
+        }
 
-        if (!token) {
-            errors.push({ message: 'Authentication required' });
-        } else {
-            const user = verifyToken(token);
-            if (!user || user.role !== 'admin') {
-                errors.push({ message: 'Admin access required', extensions: { code: 'FORBIDDEN' } });
-            } else {
-                const id = variables.id;
-                const input = variables.input || {};
-
-                const productIndex = products.findIndex(p => p.id === id);
-                if (productIndex === -1) {
-                    errors.push({ message: `Product ${id} not found` });
-                } else {
-                    if (input.name) products[productIndex].name = input.name;
-                    if (input.price) products[productIndex].price = input.price;
-                    if (input.inStock !== undefined) products[productIndex].inStock = input.inStock;
-
-                    data.updateProduct = {
-                        product: products[productIndex],
-                        success: true
-                    };
-                }
-            }
+        const { fault, error } = normalizeFault(req.body);
+        if (error) {
+            return res.status(400).json({ error });
         }
-    }
 
-    console.log('Sending Response:', JSON.stringify({ data, errors }));
+        const rule = { id: faultIdCounter++, path: rulePath, method: method ? String(method).toUpperCase() : null, ...fault, hits: 0 };
+        faultRules.push(rule);
+        res.status(201).json({ fault: rule });
+    });
 
-    const response = { data: Object.keys(data).length > 0 ? data : null };
-    if (errors.length > 0) response.errors = errors;
-    if (!response.data && !response.errors) response.data = {};
+    /**
+     * GET /__test__/faults
+     * Active fault rules
+     */
+    app.get('/__test__/faults', (req, res) => {
+        res.json({ faults: faultRules });
+    });
 
-    return response;
+    /**
+     * DELETE /__test__/faults
+     * Remove every fault rule
+     */
+    app.delete('/__test__/faults', (req, res) => {
+        faultRules = [];
+        res.json({ faults: faultRules });
+    });
 }
 
 // ============================================================================
@@ -811,6 +2137,7 @@ async function executeGraphQL(query, variables, req) {
 /**
  * Serve the main HTML pages
  * These provide UI elements for testing various Cypress capabilities
+ * /dashboard and /admin (from views/, also as .html) only get here through pageGuard
  */
 app.get('/', (req, res) => {
     res.sendFile(path.join(__dirname, 'public', 'index.html'));
@@ -820,8 +2147,12 @@ app.get('/login', (req, res) => {
     res.sendFile(path.join(__dirname, 'public', 'login.html'));
 });
 
-app.get('/dashboard', (req, res) => {
-    res.sendFile(path.join(__dirname, 'public', 'dashboard.html'));
+app.get(['/dashboard', '/dashboard.html'], (req, res) => {
+    res.sendFile(path.join(VIEWS_DIR, 'dashboard.html'));
+});
+
+app.get(['/admin', '/admin.html'], (req, res) => {
+    res.sendFile(path.join(VIEWS_DIR, 'admin.html'));
 });
 
 app.get('/forms', (req, res) => {
@@ -846,10 +2177,21 @@ app.get('/upload', (req, res) => {
 app.use((err, req, res, next) => {
     console.error('Error:', err.message);
 
-    if (err instanceof multer.MulterError) {
+    if (err instanceof multer.MulterError || err.code === 'INVALID_FILE_TYPE') {
         return res.status(400).json({ error: 'File upload error: ' + err.message });
     }
 
+    // Body parser rejections carry their own 4xx status
+    if (err.type === 'entity.too.large') {
+        return res.status(413).json({ error: 'Request body too large' });
+    }
+    if (err.type === 'entity.parse.failed') {
+        return res.status(400).json({ error: 'Malformed request body' });
+    }
+    if (err.type && err.status >= 400 && err.status < 500) {
+        return res.status(err.status).json({ error: err.message });
+    }
+
     res.status(500).json({ error: 'Internal server error' });
 });
 
@@ -864,37 +2206,50 @@ app.use((req, res) => {
 // SERVER STARTUP
 // ============================================================================
 
-app.listen(PORT, () => {
+listen(PORT, () => {
     console.log(`
 ╔════════════════════════════════════════════════════════════════╗
 ║           CYPRESS TEST APPLICATION                             ║
 ║                                                                 ║
-║   Server running at: http://localhost:${PORT}                    ║
+║   Server running at: ${PROTOCOL}://localhost:${PORT}                    ║
 ║                                                                 ║
 ║   Available endpoints:                                          ║
 ║   - GET  /                    Home page                        ║
 ║   - GET  /login               Login page                       ║
 ║   - GET  /dashboard           Dashboard (authenticated)        ║
+║   - GET  /admin               Admin console (admin role)       ║
 ║   - GET  /forms               Form testing page                ║
 ║   - GET  /dialogs             Dialog testing page              ║
 ║   - GET  /upload              File upload page                 ║
 ║                                                                 ║
 ║   API Endpoints:                                                ║
 ║   - POST /api/auth/login      Authenticate user                ║
-║   - POST /api/auth/logout     Clear session                    ║
+║   - POST /api/auth/logout     Revoke session                   ║
+║   - POST /api/auth/refresh    Rotate tokens                    ║
 ║   - GET  /api/auth/me         Get current user                 ║
+║   - GET  /api/users           List users (admin only)          ║
 ║   - GET  /api/products        List products                    ║
 ║   - GET  /api/products/:id    Get product                      ║
 ║   - GET  /api/orders          List orders (auth required)      ║
 ║   - POST /api/orders          Create order (auth required)     ║
+║   - GET  /api/orders/export   CSV or PDF export (auth)         ║
+║   - POST /api/orders/:id/pay  Also ship, deliver, cancel       ║
 ║   - POST /api/upload          Upload file                      ║
 ║   - GET  /api/download/:file  Download file                    ║
+║   - POST /api/upload/init     Start a chunked upload           ║
+║   - GET  /api/uploads         List uploaded files              ║
 ║   - GET  /api/slow-response   Slow response testing            ║
 ║   - GET  /api/error/:code     Error response testing           ║
 ║   - GET  /api/time            Server time                      ║
 ║   - POST /api/echo            Echo request                     ║
 ╚════════════════════════════════════════════════════════════════╝
   `);
+    if (SECURE_MODE) {
+        console.log('Secure mode: HTTPS, security headers, Secure/SameSite cookies');
+    }
+    if (TEST_API) {
+        console.log('Test control API enabled: /__test__/reset, /__test__/seed, /__test__/state, /__test__/faults, /__test__/auth-config, /__test__/sweep-uploads');
+    }
 });
 
 module.exports = app;
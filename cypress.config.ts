@@ -1,4 +1,49 @@
 import { defineConfig } from 'cypress';
+import http from 'http';
+import https from 'https';
+import { prepareCall } from './tests/api/endpoints';
+import type { AppState, SeedData } from './tests/api/types';
+
+/* SECURE_MODE=true serves the app over HTTPS (self-signed) with security headers and Secure cookies */
+const SECURE_MODE = process.env.SECURE_MODE === 'true';
+
+/**
+ * Send a JSON request from Node
+ * Accepts the app's self-signed certificate in secure mode, which fetch() would reject
+ */
+function sendJson(url: URL, method: string, json?: unknown): Promise<{ status: number; text: string }> {
+  return new Promise((resolve, reject) => {
+    const options = { method, headers: { 'Content-Type': 'application/json' } };
+    const onResponse = (res: http.IncomingMessage) => {
+      let text = '';
+      res.setEncoding('utf8');
+      res.on('data', chunk => (text += chunk));
+      res.on('end', () => resolve({ status: res.statusCode ?? 0, text }));
+    };
+    const req = url.protocol === 'https:'
+      ? https.request(url, { ...options, rejectUnauthorized: false }, onResponse)
+      : http.request(url, options, onResponse);
+    req.on('error', reject);
+    req.end(json === undefined ? undefined : JSON.stringify(json));
+  });
+}
+
+/**
+ * Call a test control endpoint (app started with TEST_API=true) from Node
+ * Backs the resetApp / seedApp / appState tasks
+ */
+async function testControl(baseUrl: string | null, name: 'resetApp' | 'seedApp' | 'appState', input?: SeedData): Promise<AppState> {
+  if (!baseUrl) {
+    throw new Error(`${name}: baseUrl is not configured`);
+  }
+  const { request, status, label } = prepareCall(name, input, {});
+  const response = await sendJson(new URL(request.path, baseUrl), request.method, request.json);
+  if (response.status !== status) {
+    const hint = response.status === 404 ? ' (is the app running with TEST_API=true?)' : '';
+    throw new Error(`${name}: ${label} returned ${response.status}${hint}: ${response.text}`);
+  }
+  return JSON.parse(response.text);
+}
 
 export default defineConfig({
   video: true,
@@ -22,9 +67,9 @@ export default defineConfig({
     allureResultsPath: 'test-output/cypress-output/allure-results'
   },
   e2e: {
-    baseUrl: process.env.BASE_URL || 'http://localhost:3000',
+    baseUrl: process.env.BASE_URL || `${SECURE_MODE ? 'https' : 'http'}://localhost:3000`,
     chromeWebSecurity: false,
-    specPattern: 'cypress/e2e/tests/**/*.test.ts',
+    specPattern: ['cypress/e2e/tests/**/*.test.ts', 'tests/scenarios/**/*.scenario.ts'],
     supportFile: 'cypress/support/e2e.ts',
     downloadsFolder: 'test-output/cypress-output/downloads',
     reporter: 'cypress-mochawesome-reporter',
@@ -59,12 +104,26 @@ export default defineConfig({
         getTimestamp() {
           return Date.now();
         },
+        clearDownloads() {
+          require('fs').rmSync(config.downloadsFolder, { recursive: true, force: true });
+          return null;
+        },
         readFileMaybe(filename: string) {
           const fs = require('fs');
           if (fs.existsSync(filename)) {
             return fs.readFileSync(filename, 'utf8');
           }
           return null;
+        },
+        // Test control API: cy.task('resetApp'), cy.task('seedApp', { products: [...] })
+        resetApp() {
+          return testControl(config.baseUrl, 'resetApp');
+        },
+        seedApp(data: SeedData) {
+          return testControl(config.baseUrl, 'seedApp', data);
+        },
+        appState() {
+          return testControl(config.baseUrl, 'appState');
         }
       });
       return config;
@@ -1,26 +1,28 @@
 /// <reference types="cypress" />
 
+import { TestIds } from "../../../tests/test-ids"
+
 /**
  * LoginPage - Page Object for the local test-app login page
  * 
  * Uses data-testid selectors compatible with the self-contained test application
- * located at cypress/test-app/public/login.html
+ * located at cypress/test-app/public/login.html, typed by tests/test-ids.ts
  */
 class LoginPage {
     // Element selectors using data-testid for reliable selection
-    get loginContainer() { return cy.get('[data-testid="login-container"]') }
-    get emailAddressTxt() { return cy.get('[data-testid="email-input"]') }
-    get passwordTxt() { return cy.get('[data-testid="password-input"]') }
-    get signinBtn() { return cy.get('[data-testid="submit-btn"]') }
-    get rememberCheckbox() { return cy.get('[data-testid="remember-checkbox"]') }
-    get loginAlert() { return cy.get('[data-testid="login-alert"]') }
-    get emailError() { return cy.get('[data-testid="email-error"]') }
-    get passwordError() { return cy.get('[data-testid="password-error"]') }
-    get forgotPasswordLink() { return cy.get('[data-testid="forgot-password-link"]') }
-    get backToHomeLink() { return cy.get('[data-testid="back-to-home-link"]') }
+    get loginContainer() { return cy.getByTestId(TestIds.login.loginContainer) }
+    get emailAddressTxt() { return cy.getByTestId(TestIds.login.emailInput) }
+    get passwordTxt() { return cy.getByTestId(TestIds.login.passwordInput) }
+    get signinBtn() { return cy.getByTestId(TestIds.login.submitBtn) }
+    get rememberCheckbox() { return cy.getByTestId(TestIds.login.rememberCheckbox) }
+    get loginAlert() { return cy.getByTestId(TestIds.login.loginAlert) }
+    get emailError() { return cy.getByTestId(TestIds.login.emailError) }
+    get passwordError() { return cy.getByTestId(TestIds.login.passwordError) }
+    get forgotPasswordLink() { return cy.getByTestId(TestIds.login.forgotPasswordLink) }
+    get backToHomeLink() { return cy.getByTestId(TestIds.login.backToHomeLink) }
 
     // Navigation link on home page (for tests that start from home)
-    get navLoginLink() { return cy.get('[data-testid="nav-login"]') }
+    get navLoginLink() { return cy.getByTestId(TestIds.index.navLogin) }
 
     public launchApplication() {
         cy.visit('/')
@@ -1,48 +1,55 @@
 /// <reference types="cypress" />
 
+import { TestIds } from "../../../tests/test-ids"
+import type { ExportFormat, OrderAction } from "../../../tests/api/types"
 import { loginPage } from "./loginPage"
 
 /**
  * MyAccountPage - Page Object for the dashboard/account pages
  * 
  * Uses data-testid selectors compatible with the self-contained test application
- * located at cypress/test-app/public/dashboard.html
+ * located at cypress/test-app/public/dashboard.html, typed by tests/test-ids.ts
  */
 class MyAccountPage {
     // Dashboard header elements
-    get pageTitle() { return cy.get('[data-testid="page-title"]') }
-    get userInfo() { return cy.get('[data-testid="user-info"]') }
-    get userName() { return cy.get('[data-testid="user-name"]') }
-    get userEmail() { return cy.get('[data-testid="user-email"]') }
-    get userAvatar() { return cy.get('[data-testid="user-avatar"]') }
+    get pageTitle() { return cy.getByTestId(TestIds.dashboard.pageTitle) }
+    get userInfo() { return cy.getByTestId(TestIds.dashboard.userInfo) }
+    get userName() { return cy.getByTestId(TestIds.dashboard.userName) }
+    get userEmail() { return cy.getByTestId(TestIds.dashboard.userEmail) }
+    get userAvatar() { return cy.getByTestId(TestIds.dashboard.userAvatar) }
 
     // Sidebar navigation
-    get sidebar() { return cy.get('[data-testid="sidebar"]') }
-    get sidebarNav() { return cy.get('[data-testid="sidebar-nav"]') }
-    get navOverview() { return cy.get('[data-testid="nav-overview"]') }
-    get navOrders() { return cy.get('[data-testid="nav-orders"]') }
-    get navProducts() { return cy.get('[data-testid="nav-products"]') }
-    get navSettings() { return cy.get('[data-testid="nav-settings"]') }
-    get logoutLink() { return cy.get('[data-testid="logout-link"]') }
+    get sidebar() { return cy.getByTestId(TestIds.dashboard.sidebar) }
+    get sidebarNav() { return cy.getByTestId(TestIds.dashboard.sidebarNav) }
+    get navOverview() { return cy.getByTestId(TestIds.dashboard.navOverview) }
+    get navOrders() { return cy.getByTestId(TestIds.dashboard.navOrders) }
+    get navProducts() { return cy.getByTestId(TestIds.dashboard.navProducts) }
+    get navSettings() { return cy.getByTestId(TestIds.dashboard.navSettings) }
+    get logoutLink() { return cy.getByTestId(TestIds.dashboard.logoutLink) }
 
     // Dashboard content
-    get dashboardHeader() { return cy.get('[data-testid="dashboard-header"]') }
-    get mainContent() { return cy.get('[data-testid="main-content"]') }
-    get statsGrid() { return cy.get('[data-testid="stats-grid"]') }
+    get dashboardHeader() { return cy.getByTestId(TestIds.dashboard.dashboardHeader) }
+    get mainContent() { return cy.getByTestId(TestIds.dashboard.mainContent) }
+    get statsGrid() { return cy.getByTestId(TestIds.dashboard.statsGrid) }
 
     // Orders section
-    get ordersSection() { return cy.get('[data-testid="orders-section"]') }
-    get ordersTable() { return cy.get('[data-testid="orders-table"]') }
-    get createOrderBtn() { return cy.get('[data-testid="create-order-btn"]') }
+    get ordersSection() { return cy.getByTestId(TestIds.dashboard.ordersSection) }
+    get ordersTable() { return cy.getByTestId(TestIds.dashboard.ordersTable) }
+    get orderRows() { return cy.getByTestId(TestIds.dashboard.orderRow) }
+    get orderActionResult() { return cy.getByTestId(TestIds.dashboard.orderActionResult) }
+    get createOrderBtn() { return cy.getByTestId(TestIds.dashboard.createOrderBtn) }
+    get exportFormat() { return cy.getByTestId(TestIds.dashboard.exportFormat) }
+    get exportOrdersBtn() { return cy.getByTestId(TestIds.dashboard.exportOrdersBtn) }
+    get exportResult() { return cy.getByTestId(TestIds.dashboard.exportResult) }
 
     // Storage section
-    get storageSection() { return cy.get('[data-testid="storage-section"]') }
-    get setCookieBtn() { return cy.get('[data-testid="set-cookie-btn"]') }
-    get getCookieBtn() { return cy.get('[data-testid="get-cookie-btn"]') }
-    get clearCookiesBtn() { return cy.get('[data-testid="clear-cookies-btn"]') }
-    get setStorageBtn() { return cy.get('[data-testid="set-storage-btn"]') }
-    get clearStorageBtn() { return cy.get('[data-testid="clear-storage-btn"]') }
-    get storageResult() { return cy.get('[data-testid="storage-result"]') }
+    get storageSection() { return cy.getByTestId(TestIds.dashboard.storageSection) }
+    get setCookieBtn() { return cy.getByTestId(TestIds.dashboard.setCookieBtn) }
+    get getCookieBtn() { return cy.getByTestId(TestIds.dashboard.getCookieBtn) }
+    get clearCookiesBtn() { return cy.getByTestId(TestIds.dashboard.clearCookiesBtn) }
+    get setStorageBtn() { return cy.getByTestId(TestIds.dashboard.setStorageBtn) }
+    get clearStorageBtn() { return cy.getByTestId(TestIds.dashboard.clearStorageBtn) }
+    get storageResult() { return cy.getByTestId(TestIds.dashboard.storageResult) }
 
     public validateSuccessfulLogin() {
         // Check that we're on the dashboard and can see the main heading
@@ -68,6 +75,40 @@ class MyAccountPage {
         this.navOrders.click()
     }
 
+    public orderRow(id: number) {
+        return this.orderRows.filter(`[data-order-id="${id}"]`)
+    }
+
+    public orderActionBtn(id: number, action: OrderAction) {
+        return this.orderRow(id).find(`[data-testid="${TestIds.dashboard.orderActionBtn}"][data-action="${action}"]`)
+    }
+
+    /**
+     * Click an order's row action; the result reads "Order #1 paid", or the error (e.g. a 409)
+     */
+    public transitionOrder(id: number, action: OrderAction) {
+        this.orderActionBtn(id, action).click()
+        this.orderActionResult.should('contain.text', `Order #${id}`)
+    }
+
+    /**
+     * Check an order's status badge and that its row offers exactly `actions`
+     */
+    public validateOrder(id: number, status: string, actions: OrderAction[]) {
+        this.orderRow(id).find(`[data-testid="${TestIds.dashboard.orderStatus}"]`).should('have.text', status)
+        this.orderRow(id).find(`[data-testid="${TestIds.dashboard.orderActionBtn}"]`).should('have.length', actions.length)
+        actions.forEach(action => this.orderActionBtn(id, action).should('be.visible'))
+    }
+
+    /**
+     * Export the orders; the file lands in downloadsFolder as orders.csv / orders.pdf
+     */
+    public exportOrders(format: ExportFormat) {
+        this.exportFormat.select(format)
+        this.exportOrdersBtn.click()
+        this.exportResult.should('contain.text', `Exported orders.${format}`)
+    }
+
     public navigateToProducts() {
         this.navProducts.click()
     }
@@ -0,0 +1,160 @@
+/// <reference types="cypress" />
+
+import { TestIds } from "../../../tests/test-ids"
+import type { UploadFile } from "../../../tests/api/types"
+
+/**
+ * UploadPage - Page Object for the file upload/download page
+ *
+ * Uses data-testid selectors from app-under-test/public/upload.html, typed by
+ * tests/test-ids.ts. Files are described as UploadFile (tests/api/types.ts),
+ * so specs share them with the typed API client.
+ */
+class UploadPage {
+    // Page header
+    get uploadContainer() { return cy.getByTestId(TestIds.upload.uploadContainer) }
+    get pageTitle() { return cy.getByTestId(TestIds.upload.pageTitle) }
+    get backLink() { return cy.getByTestId(TestIds.upload.backLink) }
+
+    // Single file upload
+    get singleUploadArea() { return cy.getByTestId(TestIds.upload.singleUploadArea) }
+    get singleFileInput() { return cy.getByTestId(TestIds.upload.singleFileInput) }
+    get singleUploadBtn() { return cy.getByTestId(TestIds.upload.singleUploadBtn) }
+    get singleUploadResult() { return cy.getByTestId(TestIds.upload.singleUploadResult) }
+    get uploadedFilename() { return cy.getByTestId(TestIds.upload.uploadedFilename) }
+
+    // Multiple file upload
+    get multipleUploadArea() { return cy.getByTestId(TestIds.upload.multipleUploadArea) }
+    get multipleFileInput() { return cy.getByTestId(TestIds.upload.multipleFileInput) }
+    get fileList() { return cy.getByTestId(TestIds.upload.fileList) }
+    get fileItems() { return cy.getByTestId(TestIds.upload.fileItem) }
+    get fileNames() { return cy.getByTestId(TestIds.upload.fileName) }
+    get multipleUploadBtn() { return cy.getByTestId(TestIds.upload.multipleUploadBtn) }
+    get multipleUploadResult() { return cy.getByTestId(TestIds.upload.multipleUploadResult) }
+
+    // Resumable (chunked) upload
+    get chunkedFileInput() { return cy.getByTestId(TestIds.upload.chunkedFileInput) }
+    get chunkedUploadBtn() { return cy.getByTestId(TestIds.upload.chunkedUploadBtn) }
+    get chunkedResumeBtn() { return cy.getByTestId(TestIds.upload.chunkedResumeBtn) }
+    get chunkedCancelBtn() { return cy.getByTestId(TestIds.upload.chunkedCancelBtn) }
+    get chunkedProgress() { return cy.getByTestId(TestIds.upload.chunkedProgress) }
+    get chunkedProgressText() { return cy.getByTestId(TestIds.upload.chunkedProgressText) }
+    get chunkedUploadStatus() { return cy.getByTestId(TestIds.upload.chunkedUploadStatus) }
+    get chunkedUploadResult() { return cy.getByTestId(TestIds.upload.chunkedUploadResult) }
+    get chunkedUploadedFilename() { return cy.getByTestId(TestIds.upload.chunkedUploadedFilename) }
+
+    // Uploaded files
+    get refreshUploadsBtn() { return cy.getByTestId(TestIds.upload.refreshUploadsBtn) }
+    get uploadedFilesList() { return cy.getByTestId(TestIds.upload.uploadedFilesList) }
+    get uploadedFileRows() { return cy.getByTestId(TestIds.upload.uploadedFileRow) }
+    get uploadedFilesEmpty() { return cy.getByTestId(TestIds.upload.uploadedFilesEmpty) }
+    get uploadedFilesResult() { return cy.getByTestId(TestIds.upload.uploadedFilesResult) }
+
+    // Downloads
+    get sampleDownloadLink() { return cy.getByTestId(TestIds.upload.sampleDownloadLink) }
+    get generateDownloadBtn() { return cy.getByTestId(TestIds.upload.generateDownloadBtn) }
+    get downloadResult() { return cy.getByTestId(TestIds.upload.downloadResult) }
+
+    public visit() {
+        cy.visit('/upload')
+        this.pageTitle.should('have.text', 'File Upload Testing')
+    }
+
+    public selectSingleFile(file: UploadFile) {
+        this.singleFileInput.selectFile(this.asInputFile(file), { force: true })
+    }
+
+    public uploadSingleFile(file: UploadFile) {
+        this.selectSingleFile(file)
+        this.singleUploadBtn.click()
+    }
+
+    public selectMultipleFiles(files: UploadFile[]) {
+        this.multipleFileInput.selectFile(files.map(file => this.asInputFile(file)), { force: true })
+    }
+
+    public uploadMultipleFiles(files: UploadFile[]) {
+        this.selectMultipleFiles(files)
+        this.multipleUploadBtn.click()
+    }
+
+    public validateUploadSuccess() {
+        this.singleUploadResult.should('contain.text', 'Upload successful!')
+    }
+
+    public validateUploadFailure(message: string) {
+        this.singleUploadResult.should('contain.text', 'Upload failed:')
+        this.singleUploadResult.should('contain.text', message)
+    }
+
+    public validateMultipleUploadResult(uploaded: number, total: number) {
+        this.multipleUploadResult.should('contain.text', `${uploaded}/${total} files uploaded successfully`)
+    }
+
+    public startChunkedUpload(file: UploadFile) {
+        this.chunkedFileInput.selectFile(this.asInputFile(file))
+        this.chunkedUploadBtn.click()
+    }
+
+    public resumeChunkedUpload() {
+        this.chunkedResumeBtn.click()
+    }
+
+    public cancelChunkedUpload() {
+        this.chunkedCancelBtn.click()
+    }
+
+    public validateChunkedProgress(sent: number, total: number) {
+        this.chunkedProgressText.should('contain.text', `${sent} / ${total} chunks`)
+    }
+
+    public validateChunkedUploadSuccess() {
+        this.chunkedUploadStatus.should('have.text', 'Upload complete')
+        this.chunkedUploadResult.should('contain.text', 'Upload successful!')
+    }
+
+    /**
+     * Row of the uploaded files list for a file id from /api/upload
+     */
+    public uploadedFileRow(id: string) {
+        return this.uploadedFileRows.filter(`[data-file-id="${id}"]`)
+    }
+
+    public refreshUploadedFiles() {
+        this.refreshUploadsBtn.click()
+    }
+
+    public downloadUploadedFile(id: string) {
+        this.uploadedFileRow(id).find(`[data-testid="${TestIds.upload.uploadedFileDownload}"]`).click()
+    }
+
+    public deleteUploadedFile(id: string) {
+        this.uploadedFileRow(id).find(`[data-testid="${TestIds.upload.uploadedFileDelete}"]`).click()
+        this.uploadedFilesResult.should('contain.text', 'Deleted')
+        this.uploadedFileRow(id).should('not.exist')
+    }
+
+    public downloadSample() {
+        this.sampleDownloadLink.click()
+    }
+
+    public generateDownload() {
+        this.generateDownloadBtn.click()
+        this.downloadResult.should('contain.text', 'download started')
+    }
+
+    /**
+     * Read a downloaded file from the configured downloadsFolder
+     */
+    public readDownload(fileName: string) {
+        return cy.readFile(`${Cypress.config('downloadsFolder')}/${fileName}`)
+    }
+
+    private asInputFile(file: UploadFile): Cypress.FileReferenceObject {
+        // selectFile() reads plain strings as fixture paths, so text goes in as a Buffer too
+        const contents = typeof file.contents === 'string' ? Cypress.Buffer.from(file.contents) : Cypress.Buffer.from(file.contents)
+        return { contents, fileName: file.name, mimeType: file.mimeType }
+    }
+}
+
+export const uploadPage: UploadPage = new UploadPage()
@@ -0,0 +1,228 @@
+/**
+ * ============================================================================
+ * ACCESS CONTROL - Server-Side Page Guards - Cypress Test Suite
+ * ============================================================================
+ *
+ * PURPOSE:
+ * /dashboard and /admin are checked against the authToken cookie before any
+ * HTML is sent, so these tests cover the server's answer rather than the
+ * page's own checkAuth() redirect.
+ *
+ * GUARD:
+ * ┌─────────────────────────────────────────────────────────────────────────┐
+ * │  no cookie / forged token     ──►  302 /login?redirect=/dashboard       │
+ * │  expired / revoked session    ──►  302 /login?...&reason=expired        │
+ * │  role user on /admin          ──►  403 page naming both roles           │
+ * └─────────────────────────────────────────────────────────────────────────┘
+ *
+ * @author Veeresh Bikkaneti
+ */
+
+import { api, waitForTokenRejection } from '../../../tests/api/cypress';
+import { users } from '../../../tests/fixtures/users';
+import type { User } from '../../../tests/api/types';
+import { TestIds } from '../../../tests/test-ids';
+
+// Express routes these to the same pages: the guard must not be sidestepped by them
+const dashboardVariants = ['/dashboard/', '/DASHBOARD', '/Dashboard.html'];
+const adminVariants = ['/admin/', '/Admin', '/ADMIN/'];
+// Percent-encoded file names the guard does not match but a static server decodes
+const encodedVariants = ['/adm%69n.html', '/dash%62oard.html', '/%64ashboard.html', '/forbidd%65n.html'];
+
+describe('Access Control - Protected Pages', () => {
+
+    afterEach(() => {
+        cy.task('resetApp');
+    });
+
+    // ========================================================================
+    // DIRECT NAVIGATION
+    // ========================================================================
+
+    context('Direct Navigation', () => {
+
+        /**
+         * Test: Anonymous visit is redirected by the server
+         */
+        it('should redirect anonymous users from the dashboard to login', () => {
+            cy.request({ url: '/dashboard', followRedirect: false }).its('status').should('eq', 302);
+
+            cy.visit('/dashboard');
+            cy.location().should((location) => {
+                expect(location.pathname).to.eq('/login');
+                expect(location.search).to.eq('?redirect=%2Fdashboard');
+            });
+            cy.get('h1').should('contain', 'Sign In');
+        });
+
+        /**
+         * Test: The static file is guarded too
+         */
+        it('should guard the HTML file of a protected page', () => {
+            cy.visit('/dashboard.html');
+
+            cy.location('search').should('eq', '?redirect=%2Fdashboard');
+        });
+
+        /**
+         * Test: Case and trailing-slash variants are guarded like the page itself
+         */
+        it('should guard protected pages under any letter case or trailing slash', () => {
+            [...dashboardVariants.map(v => [v, 'dashboard']), ...adminVariants.map(v => [v, 'admin'])].forEach(([variant, page]) => {
+                cy.request({ url: variant, followRedirect: false }).then((response) => {
+                    expect(response.status, variant).to.eq(302);
+                    expect(response.headers.location, variant).to.eq(`/login?redirect=%2F${page}`);
+                });
+            });
+        });
+
+        /**
+         * Test: Login continues to the page that was asked for
+         */
+        it('should return to the requested page after login', () => {
+            const { emailId, password } = users.adminCredentials;
+            cy.visit('/admin');
+
+            cy.getByTestId(TestIds.login.emailInput).type(emailId);
+            cy.getByTestId(TestIds.login.passwordInput).type(password);
+            cy.getByTestId(TestIds.login.submitBtn).click();
+
+            cy.location('pathname').should('eq', '/admin');
+            cy.getByTestId(TestIds.admin.adminTitle).should('have.text', 'Admin Console');
+        });
+
+        /**
+         * Test: The 403 template is only rendered by the server
+         */
+        it('should not serve the 403 template directly', () => {
+            cy.request({ url: '/forbidden.html', failOnStatusCode: false }).its('status').should('eq', 404);
+        });
+
+        /**
+         * Test: Protected pages are not static files, under any encoding of the path
+         */
+        it('should not serve protected pages under an encoded path', () => {
+            encodedVariants.forEach((variant) => {
+                cy.request({ url: variant, followRedirect: false, failOnStatusCode: false }).its('status').should('eq', 404);
+            });
+        });
+    });
+
+    // ========================================================================
+    // EXPIRED COOKIES
+    // ========================================================================
+
+    context('Expired Cookies', () => {
+
+        /**
+         * Test: A stale token in the cookie ends on the login page with a notice
+         */
+        it('should send expired sessions back to login with a notice', () => {
+            const { emailId: email, password } = users.validCredentials;
+            api.configureAuth({ tokenTtl: 500 });
+            api.login({ email, password }).then(({ body: session }) => {
+                waitForTokenRejection(session.token);
+                // The browser drops the cookie with the token; a stale copy must not get in either
+                cy.setCookie('authToken', session.token);
+            });
+
+            cy.visit('/dashboard');
+
+            cy.location('search').should('eq', '?redirect=%2Fdashboard&reason=expired');
+            cy.getByTestId(TestIds.login.loginAlert).should('contain', 'session has expired');
+        });
+
+        /**
+         * Test: Logout elsewhere ends the session in this browser too
+         */
+        it('should treat a revoked session like an expired one', () => {
+            const { emailId: email, password } = users.validCredentials;
+            api.login({ email, password }).then(({ body: session }) => {
+                api.withToken(session.token).logout();
+                cy.setCookie('authToken', session.token);
+            });
+
+            cy.visit('/dashboard');
+
+            cy.location('search').should('include', 'reason=expired');
+        });
+
+        /**
+         * Test: A forged cookie is rejected and cleared
+         */
+        it('should drop a forged auth cookie', () => {
+            cy.setCookie('authToken', 'mock-token');
+
+            cy.visit('/dashboard');
+
+            cy.location('search').should('eq', '?redirect=%2Fdashboard');
+            cy.getCookie('authToken').should('be.null');
+        });
+    });
+
+    // ========================================================================
+    // ROLE ESCALATION
+    // ========================================================================
+
+    context('Role Escalation', () => {
+
+        /**
+         * Test: A user gets the role-aware 403 page for the admin console
+         */
+        it('should show the 403 page to users opening the admin console', () => {
+            cy.loginAs('user');
+
+            cy.request({ url: '/admin', failOnStatusCode: false }).its('status').should('eq', 403);
+            cy.visit('/admin', { failOnStatusCode: false });
+
+            cy.getByTestId(TestIds.forbidden.forbiddenTitle).should('contain', '403');
+            cy.getByTestId(TestIds.forbidden.forbiddenMessage).should('have.text', 'Admin access required.');
+            cy.getByTestId(TestIds.forbidden.forbiddenUser).should('have.text', 'Test User');
+            cy.getByTestId(TestIds.forbidden.forbiddenRole).should('have.text', 'user');
+            cy.getByTestId(TestIds.forbidden.forbiddenRequiredRole).should('have.text', 'admin');
+        });
+
+        /**
+         * Test: The role check covers the admin path variants too
+         */
+        it('should show the 403 page for admin path variants', () => {
+            cy.loginAs('user');
+
+            adminVariants.forEach((variant) => {
+                cy.request({ url: variant, followRedirect: false, failOnStatusCode: false }).its('status').should('eq', 403);
+            });
+        });
+
+        /**
+         * Test: Changing the stored role only changes the client
+         */
+        it('should not let users escalate by editing their stored role', () => {
+            cy.loginAs('user');
+            cy.visit('/');
+            cy.window().then((win) => {
+                const user: User = JSON.parse(win.localStorage.getItem('user')!);
+                win.localStorage.setItem('user', JSON.stringify({ ...user, role: 'admin' }));
+            });
+
+            // The client shows the shortcut, the server still refuses
+            cy.visit('/dashboard');
+            cy.getByTestId(TestIds.dashboard.navAdmin).should('be.visible');
+            cy.request({ url: '/admin', failOnStatusCode: false }).its('status').should('eq', 403);
+
+            api.expectStatus(403).listUsers().its('body.error').should('eq', 'Admin access required');
+        });
+
+        /**
+         * Test: Admins reach the console from the dashboard
+         */
+        it('should open the admin console for admins', () => {
+            cy.loginAs('admin');
+
+            cy.visit('/dashboard');
+            cy.getByTestId(TestIds.dashboard.navAdmin).click();
+
+            cy.location('pathname').should('eq', '/admin');
+            cy.getByTestId(TestIds.admin.userRow).should('have.length', 2);
+        });
+    });
+});
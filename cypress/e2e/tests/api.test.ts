@@ -33,6 +33,8 @@
  * @author Veeresh Bikkaneti
  */
 
+import { TestIds, testIdSelector } from '../../../tests/test-ids';
+
 describe('API Testing - Network Capabilities', () => {
 
     // ==========================================================================
@@ -48,11 +50,11 @@ describe('API Testing - Network Capabilities', () => {
             cy.visit('/');
 
             // Verify real products load from API
-            cy.get('[data-testid="product-card"]', { timeout: 5000 })
+            cy.get(testIdSelector(TestIds.index.productCard), { timeout: 5000 })
                 .should('have.length.gt', 0);
 
             // Verify product card structure
-            cy.get('[data-testid="product-card"]').first().within(() => {
+            cy.getByTestId(TestIds.index.productCard).first().within(() => {
                 cy.get('h3').should('exist');
                 cy.get('.price').should('exist');
             });
@@ -65,7 +67,7 @@ describe('API Testing - Network Capabilities', () => {
             cy.visit('/');
 
             // Verify multiple products are displayed
-            cy.get('[data-testid="product-card"]', { timeout: 5000 })
+            cy.get(testIdSelector(TestIds.index.productCard), { timeout: 5000 })
                 .should('have.length.gt', 1);
         });
 
@@ -85,7 +87,7 @@ describe('API Testing - Network Capabilities', () => {
             cy.visit('/');
 
             // Verify first product shows correct data pattern
-            cy.get('[data-testid="product-card"]').first().within(() => {
+            cy.getByTestId(TestIds.index.productCard).first().within(() => {
                 cy.get('h3').should('not.be.empty');
                 cy.get('.price').should('contain', '$');
             });
@@ -98,7 +100,7 @@ describe('API Testing - Network Capabilities', () => {
             const start = Date.now();
             cy.visit('/');
 
-            cy.get('[data-testid="product-card"]', { timeout: 3000 }).should('exist').then(() => {
+            cy.get(testIdSelector(TestIds.index.productCard), { timeout: 3000 }).should('exist').then(() => {
                 const duration = Date.now() - start;
                 expect(duration).to.be.lessThan(2000); // Should load in under 2s
             });
@@ -111,8 +113,8 @@ describe('API Testing - Network Capabilities', () => {
             cy.visit('/?minPrice=1000000');
 
             // Grid should exist but be empty or show "no products" message
-            cy.get('[data-testid="products-grid"]', { timeout: 5000 }).should('exist');
-            cy.get('[data-testid="product-card"]').should('have.length', 0);
+            cy.get(testIdSelector(TestIds.index.productsGrid), { timeout: 5000 }).should('exist');
+            cy.getByTestId(TestIds.index.productCard).should('have.length', 0);
         });
 
         /**
@@ -125,9 +127,9 @@ describe('API Testing - Network Capabilities', () => {
             };
 
             cy.visit('/login');
-            cy.get('[data-testid="email-input"]').type(credentials.email);
-            cy.get('[data-testid="password-input"]').type(credentials.password);
-            cy.get('[data-testid="submit-btn"]').click();
+            cy.getByTestId(TestIds.login.emailInput).type(credentials.email);
+            cy.getByTestId(TestIds.login.passwordInput).type(credentials.password);
+            cy.getByTestId(TestIds.login.submitBtn).click();
 
             // Verify redirect to dashboard or success state
             cy.url().should('include', '/dashboard');
@@ -158,6 +160,54 @@ describe('API Testing - Network Capabilities', () => {
         });
     });
 
+    // ==========================================================================
+    // cy.wait('@alias') / '@alias.all' - Alias Semantics
+    // ==========================================================================
+
+    describe('Network Aliases', () => {
+
+        /**
+         * Test: A spy falls through to the stub registered before it
+         */
+        it('should let a spy see the response of an earlier stub', () => {
+            const stubbed = { products: [{ id: 7, name: 'Stubbed Product', price: 5 }] };
+            cy.intercept('GET', '/api/products', stubbed);
+            cy.intercept('GET', '/api/products').as('products');
+
+            cy.visit('/');
+
+            cy.wait('@products').its('response.body').should('deep.eq', stubbed);
+            cy.getByTestId(TestIds.index.productCard).should('have.length', 1);
+        });
+
+        /**
+         * Test: Each wait yields the next call of the alias
+         */
+        it('should yield a different call to each wait on an alias', () => {
+            cy.intercept('GET', '/api/products*').as('products');
+            cy.visit('/');
+            cy.window().then(win => win.fetch('/api/products?category=Accessories'));
+
+            cy.wait('@products').its('request.url').should('not.contain', 'category');
+            cy.wait('@products').its('request.url').should('contain', 'category=Accessories');
+        });
+
+        /**
+         * Test: '@alias.all' lists requests before their response arrives
+         */
+        it('should count calls that are still in flight', () => {
+            cy.visit('/');
+            cy.intercept('GET', '/api/products?slow=1', { delay: 1000, body: { products: [] } }).as('slow');
+
+            cy.window().then((win) => {
+                void win.fetch('/api/products?slow=1');
+            });
+
+            cy.get('@slow.all').should('have.length', 1);
+            cy.wait('@slow').its('response.body').should('deep.eq', { products: [] });
+        });
+    });
+
     // ==========================================================================
     // cy.request() - Direct API Testing
     // ==========================================================================
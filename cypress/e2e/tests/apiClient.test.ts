@@ -0,0 +1,78 @@
+/**
+ * ============================================================================
+ * API CLIENT - Typed Requests Shared With Playwright
+ * ============================================================================
+ *
+ * PURPOSE:
+ * Exercises tests/api/cypress.ts, the cy.request transport of the typed
+ * API client. playwright/e2e/apiClient.spec.ts runs the same checks through
+ * the APIRequestContext transport.
+ *
+ * Every call asserts the status declared for its endpoint in
+ * tests/api/endpoints.ts, so the tests only assert on bodies.
+ *
+ * @author Veeresh Bikkaneti
+ */
+
+import { api } from '../../../tests/api/cypress';
+import type { Query } from '../../../tests/api/graphql-types';
+import { users } from '../../../tests/fixtures/users';
+
+const { emailId: email, password } = users.validCredentials;
+
+describe('API Client - Typed Requests', () => {
+
+    it('should filter products', () => {
+        api.listProducts({ category: 'Electronics', inStock: true }).then(({ body }) => {
+            expect(body.total).to.eq(body.products.length);
+            body.products.forEach((product) => {
+                expect(product.category).to.eq('Electronics');
+                expect(product.inStock).to.be.true;
+            });
+        });
+    });
+
+    it('should create an order with a token', () => {
+        api.login({ email, password }).then(({ body: session }) => {
+            api.withToken(session.token)
+                .createOrder({ items: [{ productId: 1, quantity: 2 }] })
+                .then(({ body }) => {
+                    expect(body.order.userId).to.eq(session.user.id);
+                    expect(body.order.items[0].quantity).to.eq(2);
+                    expect(body.order.status).to.eq('pending');
+                });
+        });
+    });
+
+    it('should reject invalid credentials with 401', () => {
+        const { emailId, password: wrongPassword } = users.invalidCredentials.invalidPassword;
+        api.expectStatus(401)
+            .login({ email: emailId, password: wrongPassword })
+            .its('body.error')
+            .should('be.a', 'string');
+    });
+
+    it('should return the requested error status', () => {
+        api.error(503).its('body.code').should('eq', 503);
+    });
+
+    it('should upload and download a file', () => {
+        const contents = 'typed client upload';
+        api.upload({ name: 'client.txt', mimeType: 'text/plain', contents }).then(({ body }) => {
+            cy.trackUpload(body.file);
+            expect(body.file.originalName).to.eq('client.txt');
+            api.download(body.file.filename).its('body').should('eq', contents);
+        });
+    });
+
+    it('should query products over GraphQL', () => {
+        api.graphql({
+            query: 'query Products($limit: Int) { products(limit: $limit) { id name } }',
+            variables: { limit: 2 },
+        }).then(({ body }) => {
+            const { products } = body.data as Pick<Query, 'products'>;
+            expect(body.errors).to.be.undefined;
+            expect(products).to.have.length(2);
+        });
+    });
+});
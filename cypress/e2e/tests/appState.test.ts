@@ -0,0 +1,136 @@
+/**
+ * ============================================================================
+ * TEST CONTROL API - Deterministic App State
+ * ============================================================================
+ *
+ * PURPOSE:
+ * Resets and seeds the app-under-test's in-memory data between tests through
+ * the resetApp / seedApp / appState tasks (cypress.config.ts), which call
+ * /__test__/reset, /__test__/seed and /__test__/state. The app must run
+ * with TEST_API=true.
+ *
+ * FLOW:
+ * ┌─────────────────────────────────────────────────────────────────────────┐
+ * │  cy.task('seedApp', { products })  ──►  Node: POST /__test__/seed      │
+ * │  ...test...                                                             │
+ * │  cy.task('resetApp')               ──►  Node: POST /__test__/reset     │
+ * └─────────────────────────────────────────────────────────────────────────┘
+ *
+ * @author Veeresh Bikkaneti
+ */
+
+import { api } from '../../../tests/api/cypress';
+import { users } from '../../../tests/fixtures/users';
+import type { AppState, Order, Product, SeedData } from '../../../tests/api/types';
+
+const { emailId: email, password } = users.validCredentials;
+
+const onlyProduct: Product = { id: 1, name: 'Seeded Lamp', price: 10, category: 'Home', inStock: true };
+
+describe('Test Control API', () => {
+
+    afterEach(() => {
+        cy.task('resetApp');
+    });
+
+    /**
+     * Test: Reset drops orders and restores the initial products
+     */
+    it('should restore the initial data on reset', () => {
+        api.login({ email, password }).then(({ body: session }) => {
+            api.withToken(session.token).createOrder({ items: [{ productId: 1 }] });
+        });
+
+        cy.task<AppState>('resetApp').then((state) => {
+            expect(state.orders).to.deep.eq([]);
+            expect(state.nextOrderId).to.eq(1);
+            expect(state.products).to.have.length(5);
+            expect(state.users[0]).to.not.have.property('password');
+        });
+    });
+
+    /**
+     * Test: Seeded collections replace the initial ones
+     */
+    it('should load a seeded data set', () => {
+        cy.task('seedApp', { products: [onlyProduct] } satisfies SeedData);
+
+        api.listProducts().its('body.products').should('deep.eq', [onlyProduct]);
+
+        // Collections left out keep their initial data
+        api.login({ email, password });
+    });
+
+    /**
+     * Test: Order ids continue after the seeded orders
+     */
+    it('should number new orders after seeded orders', () => {
+        const seededOrder: Order = {
+            id: 7,
+            userId: 1,
+            items: [{ productId: 1, name: 'Laptop', price: 999.99, quantity: 1 }],
+            total: 999.99,
+            status: 'pending',
+            createdAt: '2024-01-01T00:00:00.000Z'
+        };
+        cy.task('seedApp', { orders: [seededOrder] } satisfies SeedData);
+
+        api.login({ email, password }).then(({ body: session }) => {
+            api.withToken(session.token).createOrder({ items: [{ productId: 2 }] })
+                .its('body.order.id').should('eq', 8);
+        });
+
+        cy.task<AppState>('appState').then((state) => {
+            expect(state.orders.map(order => order.id)).to.deep.eq([7, 8]);
+        });
+    });
+
+    /**
+     * Test: Malformed collections are rejected with 400
+     */
+    it('should reject malformed seed data', () => {
+        api.expectStatus(400).seedApp({ products: 'none' } as unknown as SeedData).then(({ body }) => {
+            expect(body.error).to.include('products');
+        });
+
+        api.expectStatus(400).seedApp([1] as unknown as SeedData)
+            .its('body.error').should('eq', 'Seed data must be an object');
+        api.expectStatus(400).seedApp({ product: [onlyProduct] } as unknown as SeedData)
+            .its('body.error').should('eq', 'Unknown seed keys: product');
+    });
+
+    /**
+     * Test: Seeded orders must be in a state the lifecycle knows
+     */
+    it('should reject seeded orders outside the order lifecycle', () => {
+        const order = { id: 1, userId: 1, items: [], total: 0, status: 'refunded', createdAt: '2024-01-01T00:00:00.000Z' };
+        api.expectStatus(400).seedApp({ orders: [order] } as unknown as SeedData)
+            .its('body.error').should('eq', 'Order 1 status must be one of pending, paid, shipped, delivered, cancelled');
+    });
+
+    /**
+     * Test: Server-side fault rule expires after `count` faulted requests
+     */
+    it('should fail requests through a fault rule until its count runs out', () => {
+        api.addFault({ path: '/api/products*', method: 'GET', type: 'status', status: 502, count: 2 })
+            .its('body.fault.hits').should('eq', 0);
+
+        api.expectStatus(502).listProducts();
+        api.expectStatus(502).getProduct(1);
+        api.listProducts();
+
+        api.listFaults().its('body.faults').should('deep.eq', []);
+    });
+
+    /**
+     * Test: Reset also removes fault rules
+     */
+    it('should remove fault rules on reset', () => {
+        api.addFault({ path: '/api/time', type: 'latency', delay: 50 });
+
+        cy.task('resetApp');
+
+        api.listFaults().its('body.faults').should('deep.eq', []);
+    });
+
+});
@@ -0,0 +1,211 @@
+/**
+ * ============================================================================
+ * AUTH TOKENS - Signing, Revocation, Refresh and Expiry - Cypress Test Suite
+ * ============================================================================
+ *
+ * PURPOSE:
+ * Access tokens are HMAC-signed and tied to a server-side session; logout
+ * revokes the session and /api/auth/refresh rotates the refresh token.
+ * api.configureAuth() (TEST_API=true) shortens the lifetimes for the expiry
+ * tests; cy.task('resetApp') restores them.
+ *
+ * TOKEN LIFECYCLE:
+ * ┌─────────────────────────────────────────────────────────────────────────┐
+ * │  login    ──►  { token, refreshToken }   (new session)                  │
+ * │  refresh  ──►  { token, refreshToken }   (old refresh token rejected)   │
+ * │  logout   ──►  session revoked           (both tokens rejected)         │
+ * └─────────────────────────────────────────────────────────────────────────┘
+ *
+ * @author Veeresh Bikkaneti
+ */
+
+import { api, waitForTokenRejection } from '../../../tests/api/cypress';
+import { decodeToken, tamperToken } from '../../../tests/api/tokens';
+import { users } from '../../../tests/fixtures/users';
+
+const { emailId: email, password } = users.validCredentials;
+
+describe('Auth Tokens', () => {
+
+    afterEach(() => {
+        cy.task('resetApp');
+    });
+
+    // ========================================================================
+    // SIGNING
+    // ========================================================================
+
+    context('Signing', () => {
+
+        /**
+         * Test: Login returns a signed access token and a refresh token
+         */
+        it('should issue signed tokens on login', () => {
+            api.login({ email, password }).then(({ body: session }) => {
+                const payload = decodeToken(session.token);
+                expect(payload.email).to.eq(email);
+                expect(payload.exp).to.be.greaterThan(Date.now());
+                expect(session.refreshToken).to.not.be.empty;
+                expect(session.expiresIn).to.eq(3600000);
+            });
+        });
+
+        /**
+         * Test: Changing the payload breaks the signature
+         */
+        it('should reject a token with a tampered payload', () => {
+            const admin = users.adminCredentials;
+            api.login({ email, password }).then(({ body: session }) => {
+                api.login({ email: admin.emailId, password: admin.password }).then(({ body: adminSession }) => {
+                    const forged = tamperToken(session.token, { id: decodeToken(adminSession.token).id });
+
+                    api.withToken(forged).expectStatus(401).me()
+                        .its('body.error').should('eq', 'Invalid token');
+                });
+            });
+        });
+
+        /**
+         * Test: A payload without a signature is rejected
+         */
+        it('should reject an unsigned token', () => {
+            api.login({ email, password }).then(({ body: session }) => {
+                const [payload] = session.token.split('.');
+
+                api.withToken(payload).expectStatus(401).me()
+                    .its('body.error').should('eq', 'Invalid token');
+            });
+        });
+    });
+
+    // ========================================================================
+    // REVOCATION
+    // ========================================================================
+
+    context('Revocation', () => {
+
+        /**
+         * Test: Logout revokes the access and refresh token of the session
+         */
+        it('should revoke the session on logout', () => {
+            api.login({ email, password }).then(({ body: session }) => {
+                api.withToken(session.token).logout();
+
+                api.withToken(session.token).expectStatus(401).me()
+                    .its('body.error').should('eq', 'Session revoked');
+                api.expectStatus(401).refresh({ refreshToken: session.refreshToken });
+            });
+        });
+
+        /**
+         * Test: Logout only ends its own session
+         */
+        it('should keep other sessions of the user signed in', () => {
+            api.login({ email, password }).then(({ body: first }) => {
+                api.login({ email, password }).then(({ body: second }) => {
+                    api.withToken(first.token).logout();
+
+                    api.withToken(second.token).me().its('body.user.email').should('eq', email);
+                });
+            });
+        });
+
+        /**
+         * Test: An expired access token still names the session to revoke
+         */
+        it('should revoke the session of an expired access token on logout', () => {
+            api.configureAuth({ tokenTtl: 500 });
+            api.login({ email, password }).then(({ body: expired }) => {
+                // The second login replaces the refresh cookie: only the token names the first session
+                api.login({ email, password }).then(({ body: current }) => {
+                    waitForTokenRejection(expired.token);
+
+                    api.withToken(expired.token).logout();
+
+                    api.expectStatus(401).refresh({ refreshToken: expired.refreshToken })
+                        .its('body.error').should('eq', 'Invalid refresh token');
+                    api.refresh({ refreshToken: current.refreshToken });
+                });
+            });
+        });
+
+        /**
+         * Test: Without an access token, the refresh cookie names the session
+         */
+        it('should revoke the session of the refresh cookie on logout', () => {
+            api.configureAuth({ tokenTtl: 500 });
+            api.login({ email, password }).then(({ body: session }) => {
+                waitForTokenRejection(session.token);
+
+                // No access token left, like a browser that dropped the expired authToken cookie
+                api.logout();
+
+                api.expectStatus(401).refresh({ refreshToken: session.refreshToken })
+                    .its('body.error').should('eq', 'Invalid refresh token');
+            });
+        });
+    });
+
+    // ========================================================================
+    // REFRESH
+    // ========================================================================
+
+    context('Refresh', () => {
+
+        /**
+         * Test: Refresh issues new tokens for the same session
+         */
+        it('should rotate tokens on refresh', () => {
+            api.login({ email, password }).then(({ body: session }) => {
+                api.refresh({ refreshToken: session.refreshToken }).then(({ body: refreshed }) => {
+                    expect(refreshed.refreshToken).to.not.eq(session.refreshToken);
+                    expect(decodeToken(refreshed.token).sid).to.eq(decodeToken(session.token).sid);
+                    api.withToken(refreshed.token).me();
+                });
+
+                // The used refresh token stops working
+                api.expectStatus(401).refresh({ refreshToken: session.refreshToken })
+                    .its('body.error').should('eq', 'Invalid refresh token');
+            });
+        });
+    });
+
+    // ========================================================================
+    // EXPIRY
+    // ========================================================================
+
+    context('Expiry', () => {
+
+        /**
+         * Test: An expired access token is rejected until refreshed
+         */
+        it('should expire access tokens and recover with refresh', () => {
+            api.configureAuth({ tokenTtl: 500 });
+            api.login({ email, password }).then(({ body: session }) => {
+                expect(session.expiresIn).to.eq(500);
+
+                waitForTokenRejection(session.token);
+
+                api.withToken(session.token).expectStatus(401).me()
+                    .its('body.error').should('eq', 'Token expired');
+                api.refresh({ refreshToken: session.refreshToken }).then(({ body: refreshed }) => {
+                    api.withToken(refreshed.token).me();
+                });
+            });
+        });
+
+        /**
+         * Test: An expired refresh token ends the session
+         */
+        it('should expire refresh tokens', () => {
+            // Issued together with the same lifetime, the refresh token runs out no later than the access token
+            api.configureAuth({ tokenTtl: 500, refreshTtl: 500 });
+            api.login({ email, password }).then(({ body: session }) => {
+                waitForTokenRejection(session.token);
+
+                api.expectStatus(401).refresh({ refreshToken: session.refreshToken })
+                    .its('body.error').should('eq', 'Refresh token expired');
+            });
+        });
+    });
+});
@@ -157,7 +157,7 @@ describe('Dialog Testing - Alerts, Confirms, Prompts', () => {
          */
         it('should stub confirm for detailed assertions', () => {
             cy.window().then((win) => {
-                cy.stub(win, 'confirm').returns(true).as('confirmStub');
+                cy.stub(win, 'confirm').as('confirmStub').returns(true);
             });
 
             cy.getByTestId('confirm-btn').click();
@@ -180,7 +180,7 @@ describe('Dialog Testing - Alerts, Confirms, Prompts', () => {
          */
         it('should stub prompt and return value', () => {
             cy.window().then((win) => {
-                cy.stub(win, 'prompt').returns('Test User').as('promptStub');
+                cy.stub(win, 'prompt').as('promptStub').returns('Test User');
             });
 
             cy.getByTestId('prompt-btn').click();
@@ -194,7 +194,7 @@ describe('Dialog Testing - Alerts, Confirms, Prompts', () => {
          */
         it('should stub prompt to simulate cancel', () => {
             cy.window().then((win) => {
-                cy.stub(win, 'prompt').returns(null).as('promptStub');
+                cy.stub(win, 'prompt').as('promptStub').returns(null);
             });
 
             cy.getByTestId('prompt-btn').click();
@@ -207,7 +207,7 @@ describe('Dialog Testing - Alerts, Confirms, Prompts', () => {
          */
         it('should verify prompt default value', () => {
             cy.window().then((win) => {
-                cy.stub(win, 'prompt').returns('Entered Name').as('promptStub');
+                cy.stub(win, 'prompt').as('promptStub').returns('Entered Name');
             });
 
             cy.getByTestId('prompt-btn').click();
@@ -227,10 +227,10 @@ describe('Dialog Testing - Alerts, Confirms, Prompts', () => {
             let callCount = 0;
 
             cy.window().then((win) => {
-                cy.stub(win, 'prompt').callsFake(() => {
+                cy.stub(win, 'prompt').as('promptStub').callsFake(() => {
                     callCount++;
                     return `Response ${callCount}`;
-                }).as('promptStub');
+                });
             });
 
             cy.getByTestId('prompt-btn').click();
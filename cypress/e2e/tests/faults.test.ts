@@ -0,0 +1,162 @@
+/**
+ * ============================================================================
+ * RESILIENCE - Real Backend Faults - Cypress Test Suite
+ * ============================================================================
+ *
+ * PURPOSE:
+ * cy.withFault() makes the app-under-test itself fail (x-fault header, server
+ * started with TEST_API=true), so these tests cover the pages' real error
+ * handling rather than cy.intercept() stubs.
+ *
+ * FAULT TYPES:
+ * ┌─────────────────────────────────────────────────────────────────────────┐
+ * │  status     ──►  real 4xx/5xx response                                  │
+ * │  malformed  ──►  200 with an unparseable JSON body                      │
+ * │  drop       ──►  connection closed without a response                   │
+ * │  latency    ──►  real response after a delay                            │
+ * └─────────────────────────────────────────────────────────────────────────┘
+ *
+ * @author Veeresh Bikkaneti
+ */
+
+import { FAULT_HEADER, faultHeader } from '../../../tests/api/faults';
+import { TestIds } from '../../../tests/test-ids';
+
+describe('Resilience - Backend Faults', () => {
+
+    // ========================================================================
+    // PRODUCTS PAGE
+    // ========================================================================
+
+    describe('Products Page', () => {
+
+        /**
+         * Test: Server error on page load
+         */
+        it('should show an error when products fail to load', () => {
+            cy.withFault('/api/products', { type: 'status', status: 503 });
+            cy.visit('/');
+
+            cy.getByTestId(TestIds.index.productsGrid).should('contain.text', 'Failed to load products');
+        });
+
+        /**
+         * Test: Unparseable response body
+         */
+        it('should show an error when products return malformed JSON', () => {
+            cy.withFault('/api/products', { type: 'malformed' });
+            cy.visit('/');
+
+            cy.getByTestId(TestIds.index.productsGrid).should('contain.text', 'Failed to load products');
+        });
+
+        /**
+         * Test: Connection closed without a response
+         */
+        it('should show an error when the products connection drops', () => {
+            cy.withFault('/api/products', { type: 'drop' });
+            cy.visit('/');
+
+            cy.getByTestId(TestIds.index.productsGrid).should('contain.text', 'Failed to load products');
+        });
+
+        /**
+         * Test: `count` limits the fault to the first request
+         */
+        it('should load products after a transient failure', () => {
+            cy.withFault('/api/products', { type: 'status', status: 503, count: 1 });
+            cy.visit('/');
+            cy.getByTestId(TestIds.index.productsGrid).should('contain.text', 'Failed to load products');
+
+            cy.reload();
+            cy.getByTestId(TestIds.index.productCard).should('have.length', 5);
+        });
+
+    });
+
+    // ========================================================================
+    // DASHBOARD
+    // ========================================================================
+
+    describe('Dashboard', () => {
+
+        beforeEach(() => {
+            cy.loginAs('user');
+        });
+
+        /**
+         * Test: Orders request fails
+         */
+        it('should show an error when orders fail to load', () => {
+            cy.withFault('/api/orders', { type: 'status', status: 500 });
+            cy.visit('/dashboard');
+
+            cy.getByTestId(TestIds.dashboard.ordersTable).should('contain.text', 'Failed to load orders');
+        });
+
+        /**
+         * Test: Slow orders request keeps the loading row until it answers
+         */
+        it('should keep showing orders while the backend is slow', () => {
+            cy.withFault('/api/orders', { type: 'latency', delay: 1500 });
+            cy.visit('/dashboard');
+
+            cy.getByTestId(TestIds.dashboard.ordersTable).should('contain.text', 'Loading');
+            cy.getByTestId(TestIds.dashboard.ordersTable).should('not.contain.text', 'Loading');
+        });
+
+    });
+
+    // ========================================================================
+    // X-FAULT HEADER
+    // ========================================================================
+
+    describe('x-fault Header', () => {
+
+        /**
+         * Test: Header sent directly with cy.request
+         */
+        it('should fail a request carrying the x-fault header', () => {
+            cy.request({
+                url: '/api/products',
+                headers: { [FAULT_HEADER]: faultHeader({ type: 'status', status: 429 }) },
+                failOnStatusCode: false
+            }).then((response) => {
+                expect(response.status).to.eq(429);
+                expect(response.body).to.deep.eq({ error: 'Injected fault', code: 429 });
+            });
+        });
+
+        /**
+         * Test: Unknown fault types are rejected
+         */
+        it('should reject an invalid x-fault header', () => {
+            cy.request({
+                url: '/api/products',
+                headers: { [FAULT_HEADER]: 'explode' },
+                failOnStatusCode: false
+            }).then((response) => {
+                expect(response.status).to.eq(400);
+                expect(response.body.error).to.include('Invalid x-fault header');
+            });
+        });
+
+        /**
+         * Test: Empty, non-numeric and out-of-range probabilities are rejected
+         */
+        it('should reject x-fault probabilities outside 0..1', () => {
+            ['', 'abc', 'NaN', 'Infinity', '1.5', '-0.1'].forEach((probability) => {
+                cy.request({
+                    url: '/api/products',
+                    headers: { [FAULT_HEADER]: `status=503; probability=${probability}` },
+                    failOnStatusCode: false
+                }).then((response) => {
+                    expect(response.status).to.eq(400);
+                    expect(response.body.error).to.eq('Invalid x-fault header: probability must be between 0 and 1');
+                });
+            });
+        });
+
+    });
+
+});
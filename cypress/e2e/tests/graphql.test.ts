@@ -19,6 +19,24 @@
  * @author Veeresh Bikkaneti
  */
 
+import { api } from '../../../tests/api/cypress';
+import { graphqlErrors } from '../../../tests/api/graphql-mocks';
+import type { GraphQLRequest, GraphQLResponse } from '../../../tests/api/types';
+import type { Product, Query, QueryProductArgs } from '../../../tests/api/graphql-types';
+
+/**
+ * POST a GraphQL request from the app window, like the app's own fetch calls
+ */
+function postGraphQL(body: GraphQLRequest): Cypress.Chainable<GraphQLResponse> {
+    return cy.window().then((win) => {
+        return win.fetch('/api/graphql', {
+            method: 'POST',
+            headers: { 'Content-Type': 'application/json' },
+            body: JSON.stringify(body)
+        }).then(res => res.json());
+    });
+}
+
 describe('GraphQL API Testing', () => {
 
     // ========================================================================
@@ -56,9 +74,9 @@ describe('GraphQL API Testing', () => {
                 expect(response.body.data.products).to.be.an('array');
                 expect(response.body.data.products.length).to.be.greaterThan(0);
 
-                // Verify product structure
+                // Verify product structure: exactly the selected fields
                 const firstProduct = response.body.data.products[0];
-                expect(firstProduct).to.have.all.keys('id', 'name', 'price', 'category', 'inStock', '__typename');
+                expect(firstProduct).to.have.all.keys('id', 'name', 'price', 'category', 'inStock');
             });
         });
 
@@ -156,6 +174,101 @@ describe('GraphQL API Testing', () => {
 
     });
 
+    // ========================================================================
+    // SCHEMA & VALIDATION
+    // ========================================================================
+
+    describe('GraphQL Schema & Validation', () => {
+
+        /**
+         * Test: Aliases and fragments
+         * Only the selected fields come back, under the alias
+         */
+        it('should resolve aliases and fragments', () => {
+            api.graphql({
+                query: `
+                    query Pair {
+                        first: product(id: 1) { ...Summary }
+                        second: product(id: 2) { ...Summary }
+                    }
+                    fragment Summary on Product { id name }
+                `
+            }).then(({ body }) => {
+                const { first, second } = body.data as { first: Pick<Product, 'id' | 'name'>; second: Pick<Product, 'id' | 'name'> };
+                expect(first).to.deep.eq({ id: 1, name: 'Laptop' });
+                expect(second).to.have.all.keys('id', 'name');
+            });
+        });
+
+        /**
+         * Test: operationName picks one of several operations
+         */
+        it('should run the operation named by operationName', () => {
+            api.graphql({
+                query: `
+                    query Names { products { name } }
+                    query Prices { products { price } }
+                `,
+                operationName: 'Prices'
+            }).then(({ body }) => {
+                const { products } = body.data as Pick<Query, 'products'>;
+                expect(products[0]).to.have.all.keys('price');
+            });
+        });
+
+        /**
+         * Test: Validation errors are rejected before execution
+         */
+        it('should reject fields missing from the schema', () => {
+            api.expectStatus(400).graphql({
+                query: '{ products { id sku } }'
+            }).then(({ body }) => {
+                expect(body.data).to.be.undefined;
+                expect(body.errors[0].message).to.include('Cannot query field "sku"');
+                expect(body.errors[0].extensions.code).to.eq('GRAPHQL_VALIDATION_FAILED');
+            });
+        });
+
+        /**
+         * Test: Variables that are not an object are a 400, and the server keeps answering
+         */
+        it('should reject variables that are not an object', () => {
+            const query = 'query Products($limit: Int) { products(limit: $limit) { name } }';
+
+            api.expectStatus(400).graphql({ query, variables: 'x' as unknown as GraphQLRequest['variables'] }).then(({ body }) => {
+                expect(body.errors[0].message).to.eq('Variables must be an object');
+                expect(body.errors[0].extensions.code).to.eq('BAD_REQUEST');
+            });
+            api.expectStatus(400).graphql({ query, operationName: 1 as unknown as string })
+                .its('body.errors.0.message').should('eq', 'operationName must be a string');
+
+            // Still answering afterwards
+            api.graphql({ query, variables: { limit: 1 } }).then(({ body }) => {
+                expect((body.data as Pick<Query, 'products'>).products).to.have.length(1);
+            });
+        });
+
+        /**
+         * Test: Introspection
+         */
+        it('should describe the schema through introspection', () => {
+            api.graphql({
+                query: `
+                    {
+                        __type(name: "Product") {
+                            fields { name }
+                        }
+                    }
+                `
+            }).then(({ body }) => {
+                const { __type } = body.data as { __type: { fields: { name: string }[] } };
+                const fields = __type.fields.map(field => field.name);
+                expect(fields).to.include.members(['id', 'name', 'price', 'category', 'inStock']);
+            });
+        });
+
+    });
+
     // ========================================================================
     // AUTHENTICATED GRAPHQL QUERIES
     // ========================================================================
@@ -351,34 +464,86 @@ describe('GraphQL API Testing', () => {
 
         /**
          * Test: Mock GraphQL response
-         * Demonstrates stubbing GraphQL responses
+         * Operations are matched by name; without operationName in the body
+         * the name comes from the parsed query
          */
         it('should intercept and mock GraphQL products query', () => {
-            // Intercept GraphQL requests based on query content
-            cy.intercept('POST', '/api/graphql', (req) => {
-                if (req.body.query && req.body.query.includes('products')) {
-                    req.reply({
-                        data: {
-                            products: [
-                                { id: 99, name: 'Mocked Product', price: 1.99, category: 'Test', inStock: true, __typename: 'Product' }
-                            ]
-                        }
-                    });
+            cy.interceptGql({
+                GetProducts: {
+                    products: [
+                        { id: 99, name: 'Mocked Product', price: 1.99, category: 'Test', inStock: true }
+                    ]
                 }
-            }).as('graphqlProducts');
+            });
 
-            // Trigger a request via browser fetch to ensure interception works
-            cy.window().then((win) => {
-                return win.fetch('/api/graphql', {
-                    method: 'POST',
-                    headers: { 'Content-Type': 'application/json' },
-                    body: JSON.stringify({
-                        query: '{ products { id name price } }'
-                    })
-                }).then(res => res.json());
+            postGraphQL({ query: 'query GetProducts { products { id name price } }' }).then((response) => {
+                expect((response.data as Pick<Query, 'products'>).products[0].name).to.eq('Mocked Product');
+            });
+            cy.get('@gqlGetProducts.all').should('have.length', 1);
+        });
+
+        /**
+         * Test: Mock built from the operation variables
+         */
+        it('should build mocked data from the operation variables', () => {
+            cy.interceptGql({
+                GetProduct: ({ id }: QueryProductArgs) => ({ product: { id, name: `Product ${id}` } })
+            });
+
+            postGraphQL({
+                query: 'query GetProduct($id: Int!) { product(id: $id) { id name } }',
+                variables: { id: 42 },
+                operationName: 'GetProduct'
+            }).then((response) => {
+                expect((response.data as Pick<Query, 'product'>).product).to.deep.eq({ id: 42, name: 'Product 42' });
+            });
+        });
+
+        /**
+         * Test: Operations without a mock reach the server
+         */
+        it('should pass unmocked GraphQL operations through to the server', () => {
+            cy.interceptGql({ GetProducts: { products: [] } });
+
+            postGraphQL({
+                query: 'query GetProduct($id: Int!) { product(id: $id) { id name } }',
+                variables: { id: 1 }
             }).then((response) => {
-                expect(response.data.products[0].name).to.eq('Mocked Product');
+                expect((response.data as Pick<Query, 'product'>).product).to.deep.eq({ id: 1, name: 'Laptop' });
+            });
+            cy.wait('@gqlGetProduct').its('request.body.variables').should('deep.eq', { id: 1 });
+        });
+
+        /**
+         * Test: Mock an error payload
+         */
+        it('should mock GraphQL error payloads', () => {
+            cy.interceptGql({
+                GetProduct: graphqlErrors({ message: 'Product not found', extensions: { code: 'NOT_FOUND' } })
             });
+
+            postGraphQL({
+                query: 'query GetProduct($id: Int!) { product(id: $id) { id } }',
+                variables: { id: 1 }
+            }).then((response) => {
+                expect(response.data).to.be.null;
+                expect(response.errors?.[0].extensions?.code).to.eq('NOT_FOUND');
+            });
+        });
+
+        /**
+         * Test: Per-operation call counts through the gql<OperationName> aliases
+         */
+        it('should count GraphQL calls per operation', () => {
+            cy.interceptGql({ GetProducts: { products: [] } });
+
+            postGraphQL({ query: 'query GetProducts { products { id } }' });
+            postGraphQL({ query: 'query GetProducts { products { id } }' });
+            postGraphQL({ query: 'query GetProduct { product(id: 1) { id } }' });
+
+            cy.wait('@gqlGetProducts');
+            cy.get('@gqlGetProducts.all').should('have.length', 2);
+            cy.get('@gqlGetProduct.all').should('have.length', 1);
         });
 
         /**
@@ -0,0 +1,188 @@
+/**
+ * ============================================================================
+ * ORDERS EXPORT - CSV and PDF Downloads - Cypress Test Suite
+ * ============================================================================
+ *
+ * PURPOSE:
+ * /api/orders/export writes the signed-in user's orders as orders.csv or
+ * orders.pdf. The files are parsed with tests/api/exports.ts and compared
+ * with /api/orders, through the API and through the dashboard's Export
+ * button (cy.readCsvDownload / cy.readPdfDownload read downloadsFolder).
+ *
+ * FILE-CONTENT ASSERTIONS:
+ * ┌─────────────────────────────────────────────────────────────────────────┐
+ * │  Export button  ──►  downloadsFolder/orders.csv  ──►  cy.readCsvDownload│
+ * │  api.listOrders()  ──►  orders.map(orderCsvRecord)  ──►  deep.eq rows   │
+ * └─────────────────────────────────────────────────────────────────────────┘
+ *
+ * @author Veeresh Bikkaneti
+ */
+
+import { api } from '../../../tests/api/cypress';
+import { orderCsvRecord, orderPdfLine, parseCsvRecords, pdfText } from '../../../tests/api/exports';
+import type { ExportFormat, Order, Product, SeedData } from '../../../tests/api/types';
+import { users } from '../../../tests/fixtures/users';
+import { myAccountPage } from '../pages/myAccountPage';
+
+const { emailId: email, password } = users.validCredentials;
+
+// A comma and quotes in a product name exercise CSV quoting
+const cable: Product = { id: 1, name: 'Cable, "braided"', price: 12.5, category: 'Accessories', inStock: true };
+const monitor: Product = { id: 2, name: 'Monitor', price: 299.99, category: 'Electronics', inStock: true };
+
+const seededOrders: Order[] = [
+    {
+        id: 1,
+        userId: 1,
+        items: [{ productId: 1, name: cable.name, price: cable.price, quantity: 2 }],
+        total: 25,
+        status: 'pending',
+        createdAt: '2024-01-01T09:00:00.000Z'
+    },
+    {
+        id: 2,
+        userId: 1,
+        items: [
+            { productId: 2, name: monitor.name, price: monitor.price, quantity: 1 },
+            { productId: 1, name: cable.name, price: cable.price, quantity: 1 }
+        ],
+        total: 312.49,
+        status: 'delivered',
+        createdAt: '2024-01-02T15:30:00.000Z'
+    },
+    // Another user's order, never exported for Test User
+    {
+        id: 3,
+        userId: 2,
+        items: [{ productId: 2, name: monitor.name, price: monitor.price, quantity: 1 }],
+        total: 299.99,
+        status: 'pending',
+        createdAt: '2024-01-03T12:00:00.000Z'
+    }
+];
+
+describe('Orders Export', () => {
+
+    beforeEach(() => {
+        cy.task('seedApp', { products: [cable, monitor], orders: seededOrders } satisfies SeedData);
+    });
+
+    afterEach(() => {
+        cy.task('resetApp');
+    });
+
+    // ========================================================================
+    // API
+    // ========================================================================
+
+    context('API', () => {
+
+        beforeEach(() => {
+            api.login({ email, password });
+        });
+
+        /**
+         * Test: The CSV has one record per order from /api/orders
+         */
+        it('should export orders as CSV', () => {
+            api.exportOrders('csv').then(({ body, headers }) => {
+                expect(headers['content-type']).to.contain('text/csv');
+                expect(headers['content-disposition']).to.eq('attachment; filename="orders.csv"');
+
+                api.listOrders().then(({ body: { orders } }) => {
+                    expect(parseCsvRecords(body)).to.deep.eq(orders.map(orderCsvRecord));
+                });
+            });
+        });
+
+        /**
+         * Test: Fields with commas or quotes are quoted, quotes doubled
+         */
+        it('should quote CSV fields with commas and quotes', () => {
+            api.exportOrders('csv').then(({ body }) => {
+                expect(body).to.contain('"Cable, ""braided"" x2"');
+                expect(parseCsvRecords(body)[0].items).to.eq('Cable, "braided" x2');
+            });
+        });
+
+        /**
+         * Test: The PDF text has a header and one line per order
+         */
+        it('should export orders as PDF', () => {
+            api.exportOrders('pdf').then(({ body, headers }) => {
+                expect(headers['content-type']).to.eq('application/pdf');
+                expect(body.startsWith('%PDF-1.4')).to.be.true;
+
+                api.listOrders().then(({ body: { orders } }) => {
+                    expect(pdfText(body)).to.deep.eq([
+                        'Orders Export',
+                        'Test User <test@example.com>',
+                        'Orders: 2',
+                        '',
+                        ...orders.map(orderPdfLine)
+                    ]);
+                });
+            });
+        });
+
+        /**
+         * Test: Other users' orders stay out of the export
+         */
+        it('should only export the signed-in user\'s orders', () => {
+            api.exportOrders('csv').then(({ body }) => {
+                expect(parseCsvRecords(body).map(row => row.id)).to.deep.eq(['1', '2']);
+            });
+        });
+
+        /**
+         * Test: Unknown formats are a 400, anonymous requests a 401
+         */
+        it('should reject unknown formats and anonymous requests', () => {
+            api.expectStatus(400).exportOrders('xml' as unknown as ExportFormat)
+                .its('body.error').should('eq', 'Unsupported export format: xml');
+
+            api.logout();
+            api.expectStatus(401).exportOrders('csv');
+        });
+    });
+
+    // ========================================================================
+    // DASHBOARD EXPORT
+    // ========================================================================
+
+    context('Dashboard Export', () => {
+
+        beforeEach(() => {
+            cy.clearDownloads();
+            cy.loginAs('user');
+            cy.visit('/dashboard');
+        });
+
+        /**
+         * Test: The downloaded CSV matches /api/orders
+         */
+        it('should download the orders as CSV', () => {
+            myAccountPage.exportOrders('csv');
+
+            cy.readCsvDownload('orders.csv').then((rows) => {
+                api.listOrders().then(({ body: { orders } }) => {
+                    expect(rows).to.deep.eq(orders.map(orderCsvRecord));
+                });
+            });
+        });
+
+        /**
+         * Test: The downloaded PDF lists every order from /api/orders
+         */
+        it('should download the orders as PDF', () => {
+            myAccountPage.exportOrders('pdf');
+
+            cy.readPdfDownload('orders.pdf').then((lines) => {
+                expect(lines).to.include('Orders: 2');
+                api.listOrders().then(({ body: { orders } }) => {
+                    expect(lines.slice(-orders.length)).to.deep.eq(orders.map(orderPdfLine));
+                });
+            });
+        });
+    });
+});
@@ -0,0 +1,295 @@
+/**
+ * ============================================================================
+ * ORDER LIFECYCLE - State Machine Transitions - Cypress Test Suite
+ * ============================================================================
+ *
+ * PURPOSE:
+ * Orders move pending → paid → shipped → delivered, or pending → cancelled.
+ * Each transition is a REST call (POST /api/orders/:id/pay), a GraphQL
+ * mutation (payOrder) and a row action in the dashboard's orders table.
+ * Moves the state machine does not allow are a 409 listing the allowed ones.
+ * Paying and cancelling are the owner's; shipping and delivering the
+ * admin's, for any user's order (403 / FORBIDDEN for users).
+ *
+ * STATE MACHINE:
+ * ┌─────────────────────────────────────────────────────────────────────────┐
+ * │  pending ──pay──► paid ──ship──► shipped ──deliver──► delivered         │
+ * │     └──cancel──► cancelled                                              │
+ * │  anything else  ──►  409 { error, status, allowedActions }              │
+ * └─────────────────────────────────────────────────────────────────────────┘
+ *
+ * @author Veeresh Bikkaneti
+ */
+
+import { api, type CypressApiClient } from '../../../tests/api/cypress';
+import type { Mutation } from '../../../tests/api/graphql-types';
+import type { Order, SeedData } from '../../../tests/api/types';
+import { users } from '../../../tests/fixtures/users';
+import { myAccountPage } from '../pages/myAccountPage';
+
+const { emailId: email, password } = users.validCredentials;
+const { emailId: adminEmail, password: adminPassword } = users.adminCredentials;
+
+const pendingOrder = (id: number, userId = 1): Order => ({
+    id,
+    userId,
+    items: [{ productId: 1, name: 'Laptop', price: 999.99, quantity: 1 }],
+    total: 999.99,
+    status: 'pending',
+    createdAt: '2024-01-01T09:00:00.000Z'
+});
+
+// Orders 1 and 2 belong to Test User, order 3 to the admin
+const seededOrders: Order[] = [pendingOrder(1), pendingOrder(2), pendingOrder(3, 2)];
+
+describe('Order Lifecycle', () => {
+
+    beforeEach(() => {
+        cy.task('seedApp', { orders: seededOrders } satisfies SeedData);
+    });
+
+    afterEach(() => {
+        cy.task('resetApp');
+    });
+
+    // ========================================================================
+    // REST TRANSITIONS
+    // ========================================================================
+
+    context('REST Transitions', () => {
+        // Ships and delivers with a Bearer token; the user logs in last and keeps the cookie
+        let admin: CypressApiClient;
+
+        beforeEach(() => {
+            api.login({ email: adminEmail, password: adminPassword }).then(({ body }) => {
+                admin = api.withToken(body.token);
+            });
+            api.login({ email, password });
+        });
+
+        /**
+         * Test: pay, ship and deliver in order
+         */
+        it('should walk an order from pending to delivered', () => {
+            api.payOrder(1).then(({ body }) => {
+                expect(body.order.status).to.eq('paid');
+                expect(body.message).to.eq('Order #1 paid');
+            });
+            admin.shipOrder(1).its('body.order.status').should('eq', 'shipped');
+            admin.deliverOrder(1).its('body.order.status').should('eq', 'delivered');
+
+            api.listOrders().its('body.orders').then((orders) => {
+                expect(orders.map(order => order.status)).to.deep.eq(['delivered', 'pending']);
+            });
+        });
+
+        /**
+         * Test: A pending order can be cancelled
+         */
+        it('should cancel a pending order', () => {
+            api.cancelOrder(2).then(({ body }) => {
+                expect(body.order.status).to.eq('cancelled');
+                expect(body.message).to.eq('Order #2 cancelled');
+            });
+        });
+
+        /**
+         * Test: Skipping or repeating a step is a 409 with the allowed actions
+         */
+        it('should reject transitions the current status does not allow with 409', () => {
+            admin.expectStatus(409).shipOrder(1).its('body').should('deep.eq', {
+                error: 'Cannot ship a pending order',
+                status: 'pending',
+                allowedActions: ['pay', 'cancel']
+            });
+            admin.expectStatus(409).deliverOrder(1);
+
+            api.payOrder(1);
+
+            api.expectStatus(409).payOrder(1).then(({ body }) => {
+                expect(body.error).to.eq('Cannot pay a paid order');
+                expect(body.allowedActions).to.deep.eq(['ship']);
+            });
+            api.expectStatus(409).cancelOrder(1).its('body.error').should('eq', 'Cannot cancel a paid order');
+        });
+
+        /**
+         * Test: delivered and cancelled are final
+         */
+        it('should not move delivered or cancelled orders', () => {
+            api.payOrder(1);
+            admin.shipOrder(1);
+            admin.deliverOrder(1);
+            api.cancelOrder(2);
+
+            api.expectStatus(409).cancelOrder(1).its('body')
+                .should('deep.eq', { error: 'Cannot cancel a delivered order', status: 'delivered', allowedActions: [] });
+            api.expectStatus(409).payOrder(2).its('body')
+                .should('deep.eq', { error: 'Cannot pay a cancelled order', status: 'cancelled', allowedActions: [] });
+        });
+
+        /**
+         * Test: Users get a 403 for ship and deliver, admins fulfil any user's order
+         */
+        it('should only let admins ship and deliver', () => {
+            api.payOrder(1);
+
+            api.expectStatus(403).shipOrder(1).its('body.error').should('eq', 'Admin access required');
+            api.expectStatus(403).deliverOrder(1);
+
+            // Admins fulfil any user's order, paying and cancelling stay with the owner
+            admin.shipOrder(1).its('body.order.status').should('eq', 'shipped');
+            admin.expectStatus(404).payOrder(2);
+            admin.expectStatus(404).cancelOrder(2);
+        });
+
+        /**
+         * Test: Other users' orders are a 404, anonymous calls a 401
+         */
+        it('should not transition other users\' orders or anonymously', () => {
+            api.expectStatus(404).payOrder(3).its('body.error').should('eq', 'Order not found');
+            api.expectStatus(404).payOrder(99);
+
+            api.logout();
+            api.expectStatus(401).payOrder(1);
+        });
+    });
+
+    // ========================================================================
+    // GRAPHQL MUTATIONS
+    // ========================================================================
+
+    context('GraphQL Mutations', () => {
+        // GraphQL reads the Bearer token only: one client per role
+        let client: CypressApiClient;
+        let admin: CypressApiClient;
+
+        const transition = (mutation: string) => `
+            mutation Transition($id: Int!) {
+                ${mutation}(id: $id) {
+                    order { id status }
+                    success
+                    message
+                }
+            }
+        `;
+
+        beforeEach(() => {
+            api.login({ email, password }).then(({ body: session }) => {
+                client = api.withToken(session.token);
+            });
+            api.login({ email: adminEmail, password: adminPassword }).then(({ body: session }) => {
+                admin = api.withToken(session.token);
+            });
+        });
+
+        /**
+         * Test: payOrder (user), shipOrder and deliverOrder (admin) move the order along
+         */
+        it('should walk an order through the mutations', () => {
+            ([['payOrder', 'paid', client], ['shipOrder', 'shipped', admin], ['deliverOrder', 'delivered', admin]] as const).forEach(([mutation, status, caller]) => {
+                caller.graphql({ query: transition(mutation), variables: { id: 1 } })
+                    .its(`body.data.${mutation}`)
+                    .should('deep.eq', { order: { id: 1, status }, success: true, message: `Order #1 ${status}` });
+            });
+
+            client.graphql({ query: transition('cancelOrder'), variables: { id: 2 } })
+                .its('body.data.cancelOrder.order.status').should('eq', 'cancelled');
+        });
+
+        /**
+         * Test: Illegal moves are CONFLICT errors, other users' orders NOT_FOUND
+         */
+        it('should return CONFLICT errors for illegal transitions', () => {
+            admin.graphql({ query: transition('shipOrder'), variables: { id: 1 } }).then(({ body }) => {
+                expect((body.data as Partial<Mutation>).shipOrder).to.be.null;
+                expect(body.errors?.[0].message).to.eq('Cannot ship a pending order');
+                expect(body.errors?.[0].extensions).to.deep.eq({ code: 'CONFLICT', status: 'pending', allowedActions: ['pay', 'cancel'] });
+            });
+
+            client.graphql({ query: transition('payOrder'), variables: { id: 3 } })
+                .its('body.errors.0.extensions.code').should('eq', 'NOT_FOUND');
+        });
+
+        /**
+         * Test: shipOrder and deliverOrder are FORBIDDEN for users
+         */
+        it('should return FORBIDDEN when users ship or deliver', () => {
+            client.graphql({ query: transition('payOrder'), variables: { id: 1 } });
+
+            (['shipOrder', 'deliverOrder'] as const).forEach((mutation) => {
+                client.graphql({ query: transition(mutation), variables: { id: 1 } }).then(({ body }) => {
+                    expect((body.data as Partial<Mutation>)[mutation]).to.be.null;
+                    expect(body.errors?.[0].message).to.eq('Admin access required');
+                    expect(body.errors?.[0].extensions).to.deep.eq({ code: 'FORBIDDEN' });
+                });
+            });
+        });
+    });
+
+    // ========================================================================
+    // DASHBOARD ROW ACTIONS
+    // ========================================================================
+
+    context('Dashboard Row Actions', () => {
+
+        beforeEach(() => {
+            cy.loginAs('user');
+            cy.visit('/dashboard');
+        });
+
+        /**
+         * Test: Each row shows the buttons for its status only
+         */
+        it('should offer only the actions the status allows', () => {
+            myAccountPage.validateOrder(1, 'pending', ['pay', 'cancel']);
+            myAccountPage.validateOrder(2, 'pending', ['pay', 'cancel']);
+            myAccountPage.orderRow(3).should('not.exist');
+        });
+
+        /**
+         * Test: Pay through the table; the admin ships and delivers
+         */
+        it('should walk an order through the row actions', () => {
+            myAccountPage.transitionOrder(1, 'pay');
+            myAccountPage.orderActionResult.should('contain.text', 'Order #1 paid');
+            // Shipping is the admin's: no button for the user
+            myAccountPage.validateOrder(1, 'paid', []);
+
+            // The admin's login replaces the browser's cookies: sign the user back in after
+            api.login({ email: adminEmail, password: adminPassword }).then(({ body }) => {
+                const admin = api.withToken(body.token);
+                admin.shipOrder(1);
+                admin.deliverOrder(1);
+            });
+            cy.loginAs('user');
+            cy.visit('/dashboard');
+
+            myAccountPage.validateOrder(1, 'delivered', []);
+            myAccountPage.validateOrder(2, 'pending', ['pay', 'cancel']);
+        });
+
+        /**
+         * Test: Cancel through the table
+         */
+        it('should cancel an order from its row', () => {
+            myAccountPage.transitionOrder(2, 'cancel');
+
+            myAccountPage.orderActionResult.should('contain.text', 'Order #2 cancelled');
+            myAccountPage.validateOrder(2, 'cancelled', []);
+        });
+
+        /**
+         * Test: A stale row action gets the 409 and the table reloads
+         */
+        it('should show the 409 when the order changed since the table loaded', () => {
+            myAccountPage.validateOrder(1, 'pending', ['pay', 'cancel']);
+            api.payOrder(1);
+
+            myAccountPage.transitionOrder(1, 'cancel');
+
+            myAccountPage.orderActionResult.should('contain.text', 'Order #1: Cannot cancel a paid order');
+            myAccountPage.validateOrder(1, 'paid', []);
+        });
+    });
+});
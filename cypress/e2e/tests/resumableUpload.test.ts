@@ -0,0 +1,218 @@
+/**
+ * ============================================================================
+ * RESUMABLE UPLOADS - Chunks, Progress, Cancel and Resume - Cypress Test Suite
+ * ============================================================================
+ *
+ * PURPOSE:
+ * Covers the chunked upload protocol through the typed API client, then the
+ * upload page's progress bar, Cancel and Resume buttons. cy.withFault()
+ * slows chunks down or drops one connection on the real server (TEST_API=true),
+ * so the page goes through its real pause and resume path.
+ *
+ * PROTOCOL:
+ * ┌─────────────────────────────────────────────────────────────────────────┐
+ * │  initUpload  ──►  uploadChunk × n (CRC-32 each)  ──►  completeUpload    │
+ * │                        │ connection lost                                │
+ * │                        ▼                                                │
+ * │                   uploadStatus  ──►  send missingChunks  ──►  complete  │
+ * └─────────────────────────────────────────────────────────────────────────┘
+ *
+ * @author Veeresh Bikkaneti
+ */
+
+import { api } from '../../../tests/api/cypress';
+import { MAX_CHUNK_BYTES, crc32, splitChunks } from '../../../tests/api/chunks';
+import type { UploadFile } from '../../../tests/api/types';
+import { MAX_UPLOAD_BYTES } from '../../../tests/api/uploads';
+import { uploadPage } from '../pages/uploadPage';
+
+// The upload page sends 64 KB chunks; API tests use the 1 KB minimum
+const PAGE_CHUNK_SIZE = 64 * 1024;
+const API_CHUNK_SIZE = 1024;
+
+const textOfSize = (size: number) => 'resumable-upload-'.repeat(Math.ceil(size / 17)).slice(0, size);
+
+const apiContents = textOfSize(2 * API_CHUNK_SIZE + 452);
+const apiFile = { fileName: 'chunked.txt', mimeType: 'text/plain', size: apiContents.length, chunkSize: API_CHUNK_SIZE };
+
+// Five chunks on the page: four full ones and a short last one
+const pageFile: UploadFile = { name: 'resumable.txt', mimeType: 'text/plain', contents: textOfSize(4 * PAGE_CHUNK_SIZE + 1000) };
+
+describe('Resumable Uploads', () => {
+
+    // ========================================================================
+    // PROTOCOL
+    // ========================================================================
+
+    context('Protocol', () => {
+
+        /**
+         * Test: init, checksummed chunks and complete store the whole file
+         */
+        it('should upload a file in checksummed chunks', () => {
+            api.initUpload(apiFile).then(({ body: started }) => {
+                expect(started.totalChunks).to.eq(3);
+                expect(started.missingChunks).to.deep.eq([0, 1, 2]);
+
+                splitChunks(apiContents, API_CHUNK_SIZE).forEach((data, index) => {
+                    api.uploadChunk({ uploadId: started.uploadId, index, data });
+                });
+                api.completeUpload({ uploadId: started.uploadId, checksum: crc32(apiContents) }).then(({ body }) => {
+                    cy.trackUpload(body.file);
+                    expect(body.file.originalName).to.eq('chunked.txt');
+                    expect(body.file.size).to.eq(apiContents.length);
+                    api.download(body.file.filename).its('body').should('eq', apiContents);
+                });
+            });
+        });
+
+        /**
+         * Test: A chunk whose checksum does not match is not stored
+         */
+        it('should reject a chunk with a wrong checksum', () => {
+            const [first] = splitChunks(apiContents, API_CHUNK_SIZE);
+            api.initUpload(apiFile).then(({ body: started }) => {
+                api.expectStatus(422).uploadChunk({ uploadId: started.uploadId, index: 0, data: first, checksum: '00000000' })
+                    .then(({ body }) => {
+                        expect(body.error).to.eq('Checksum mismatch');
+                        expect(body.actual).to.eq(crc32(first));
+                    });
+
+                api.uploadStatus(started.uploadId).its('body.receivedChunks').should('deep.eq', []);
+            });
+        });
+
+        /**
+         * Test: a body over the chunk limit is a 413, not a server error
+         */
+        it('should reject a chunk over the size limit', () => {
+            api.initUpload(apiFile).then(({ body: started }) => {
+                api.expectStatus(413).uploadChunk({ uploadId: started.uploadId, index: 0, data: new Uint8Array(MAX_CHUNK_BYTES + 1) })
+                    .its('body.error').should('eq', 'Request body too large');
+
+                api.uploadStatus(started.uploadId).its('body.receivedChunks').should('deep.eq', []);
+            });
+        });
+
+        /**
+         * Test: complete lists what is missing; the status endpoint drives the resume
+         */
+        it('should resume from the chunks the server reports missing', () => {
+            const chunks = splitChunks(apiContents, API_CHUNK_SIZE);
+            api.initUpload(apiFile).then(({ body: started }) => {
+                const { uploadId } = started;
+                api.uploadChunk({ uploadId, index: 0, data: chunks[0] });
+                api.uploadChunk({ uploadId, index: 2, data: chunks[2] });
+
+                api.expectStatus(409).completeUpload({ uploadId }).its('body.missingChunks').should('deep.eq', [1]);
+
+                api.uploadStatus(uploadId).then(({ body: status }) => {
+                    expect(status.receivedChunks).to.deep.eq([0, 2]);
+                    status.missingChunks.forEach(index => api.uploadChunk({ uploadId, index, data: chunks[index] }));
+                });
+                api.completeUpload({ uploadId, checksum: crc32(apiContents) }).then(({ body }) => {
+                    cy.trackUpload(body.file);
+                    expect(body.file.size).to.eq(apiContents.length);
+                });
+            });
+        });
+
+        /**
+         * Test: A cancelled upload is gone, chunks included
+         */
+        it('should forget a cancelled upload', () => {
+            const [first] = splitChunks(apiContents, API_CHUNK_SIZE);
+            api.initUpload(apiFile).then(({ body: started }) => {
+                api.uploadChunk({ uploadId: started.uploadId, index: 0, data: first });
+
+                api.cancelUpload(started.uploadId).its('body.message').should('eq', 'Upload cancelled');
+
+                api.expectStatus(404).uploadStatus(started.uploadId).its('body.error').should('eq', 'Upload not found');
+                api.expectStatus(404).uploadChunk({ uploadId: started.uploadId, index: 1, data: first });
+            });
+        });
+
+        /**
+         * Test: Type and size are checked before any chunk is sent
+         */
+        it('should validate the file when the upload starts', () => {
+            api.expectStatus(400).initUpload({ ...apiFile, mimeType: 'application/x-sh' })
+                .its('body.error').should('eq', 'File upload error: Invalid file type');
+            // Same limit as /api/upload, so chunking cannot get around it
+            api.expectStatus(400).initUpload({ ...apiFile, size: MAX_UPLOAD_BYTES })
+                .its('body.error').should('eq', 'File upload error: File too large');
+            api.initUpload({ ...apiFile, size: MAX_UPLOAD_BYTES - 1 }).then(({ body: largest }) => {
+                api.cancelUpload(largest.uploadId);
+            });
+        });
+    });
+
+    // ========================================================================
+    // PROGRESS UI
+    // ========================================================================
+
+    context('Progress UI', () => {
+
+        beforeEach(() => {
+            cy.trackPageUploads();
+            uploadPage.visit();
+        });
+
+        /**
+         * Test: Throttled chunks show the progress bar moving
+         */
+        it('should report progress while chunks are throttled', () => {
+            cy.withFault('**/api/upload/*/chunks/*', { type: 'latency', delay: 400 });
+
+            uploadPage.startChunkedUpload(pageFile);
+
+            uploadPage.chunkedUploadStatus.should('have.text', 'Uploading...');
+            uploadPage.validateChunkedProgress(2, 5);
+            uploadPage.validateChunkedUploadSuccess();
+            uploadPage.validateChunkedProgress(5, 5);
+            uploadPage.chunkedProgress.should('have.attr', 'aria-valuenow', '100');
+        });
+
+        /**
+         * Test: Cancel stops sending and drops the upload on the server
+         */
+        it('should cancel an upload mid-way', () => {
+            cy.withFault('**/api/upload/*/chunks/*', { type: 'latency', delay: 1000 });
+
+            uploadPage.startChunkedUpload(pageFile);
+            uploadPage.validateChunkedProgress(1, 5);
+            uploadPage.cancelChunkedUpload();
+
+            uploadPage.chunkedUploadStatus.should('have.text', 'Upload cancelled');
+            uploadPage.chunkedCancelBtn.should('be.disabled');
+            uploadPage.chunkedUploadBtn.should('be.enabled');
+            uploadPage.chunkedUploadStatus.invoke('attr', 'data-upload-id').then((uploadId) => {
+                api.expectStatus(404).uploadStatus(uploadId!);
+            });
+        });
+
+        /**
+         * Test: A dropped connection pauses the upload; Resume sends only the rest
+         */
+        it('should resume after the connection drops mid-upload', () => {
+            cy.withFault('**/api/upload/*/chunks/2', { type: 'drop', count: 1 });
+
+            uploadPage.startChunkedUpload(pageFile);
+
+            uploadPage.chunkedUploadStatus.should('contain.text', 'Connection lost at chunk 3 of 5');
+            uploadPage.chunkedResumeBtn.should('be.visible');
+            uploadPage.validateChunkedProgress(2, 5);
+            uploadPage.chunkedUploadStatus.invoke('attr', 'data-upload-id').then((uploadId) => {
+                api.uploadStatus(uploadId!).its('body.missingChunks').should('deep.eq', [2, 3, 4]);
+            });
+
+            uploadPage.resumeChunkedUpload();
+
+            uploadPage.validateChunkedUploadSuccess();
+            uploadPage.chunkedResumeBtn.should('not.be.visible');
+            uploadPage.chunkedUploadedFilename.invoke('text').then((filename) => {
+                api.download(filename).its('body').should('eq', pageFile.contents);
+            });
+        });
+    });
+});
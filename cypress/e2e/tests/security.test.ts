@@ -28,36 +28,61 @@ describe('OWASP Security Checks', () => {
     });
 
     context('A01:2021 - Broken Access Control', () => {
-        it.skip('should redirect unauthenticated users identifying protected resources', () => {
+        it('should redirect unauthenticated users identifying protected resources', () => {
+            // The server redirects before any dashboard HTML is sent (no client-side checkAuth())
+            cy.request({ url: '/dashboard.html', followRedirect: false }).its('status').should('eq', 302);
+
             // Attempt to visit dashboard without login
             cy.visit('/dashboard.html');
 
             // Should be redirected to login
             cy.url().should('include', '/login');
-            cy.get('h1').should('contain', 'Login');
+            cy.get('h1').should('contain', 'Sign In');
         });
     });
 
     context('A05:2021 - Security Misconfiguration (Headers)', () => {
-        it('should have standard security headers', () => {
+        it('should have standard security headers', function () {
+            if (!Cypress.config('baseUrl')?.startsWith('https')) {
+                // Needs the app in SECURE_MODE (SECURE_MODE=true for the app and Cypress)
+                this.skip();
+            }
+
             cy.request('/').then((response) => {
+                // Nothing that names the server stack
+                expect(response.headers).to.not.have.property('x-powered-by');
+
                 // Check for common security headers
-                expect(response.headers).to.have.property('x-powered-by');
+                expect(response.headers['content-security-policy']).to.include("default-src 'self'");
+                expect(response.headers['content-security-policy']).to.include("object-src 'none'");
+                expect(response.headers['content-security-policy']).to.include("frame-ancestors 'none'");
+                expect(response.headers['strict-transport-security']).to.match(/max-age=\d+/);
+                expect(response.headers).to.have.property('x-frame-options', 'DENY');
+                expect(response.headers).to.have.property('referrer-policy', 'no-referrer');
+                expect(response.headers).to.have.property('x-content-type-options', 'nosniff');
             });
         });
     });
 
     context('A04:2021 - Insecure Design (Cookie Flags)', () => {
-        it.skip('should use Secure and HttpOnly flags for session cookies', () => {
+        it('should use Secure and HttpOnly flags for session cookies', () => {
             // Log in first to get a cookie (using custom command)
             cy.login('test@example.com', 'password123');
 
+            // The refresh token is only sent to /api/auth
+            cy.getCookies().then((cookies) => {
+                const refreshCookie = cookies.find(c => c.name === 'refreshToken');
+                expect(refreshCookie).to.have.property('httpOnly', true);
+                expect(refreshCookie).to.have.property('path', '/api/auth');
+            });
+
             // Check cookies
             cy.getCookie('authToken').should((cookie) => {
                 // In a real secure env, these should be true. 
                 // For this demo app running on localhost (http), 'secure' might be false.
                 if (Cypress.config('baseUrl')?.includes('https')) {
                     expect(cookie).to.have.property('secure', true);
+                    expect(cookie).to.have.property('sameSite', 'strict');
                 }
                 expect(cookie).to.have.property('httpOnly', true);
             });
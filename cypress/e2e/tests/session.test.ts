@@ -9,41 +9,21 @@
  * 
  * CAPABILITIES DEMONSTRATED:
  * - cy.session()
- * - cy.login() (custom command efficient usage)
+ * - cy.loginAs() (cy.session per role, validated against /api/auth/me)
  * - Validating session restoration
  * 
  * @author Veeresh Bikkaneti
  */
 
-describe('Session Testing - Caching / Restore', () => {
-
-    const testUser = {
-        email: 'test@example.com',
-        password: 'password123'
-    };
+import { TestIds } from '../../../tests/test-ids';
 
-    /**
-     * Define the login session
-     * This function will run once per session id, then restore from cache
-     */
-    const login = (user: typeof testUser) => {
-        cy.session([user.email], () => {
-            cy.visit('/login');
-            cy.get('[data-testid="email-input"]').type(user.email);
-            cy.get('[data-testid="password-input"]').type(user.password);
-            cy.get('[data-testid="submit-btn"]').click();
-
-            // Wait for redirect or success indicator to ensure session is established
-            cy.url().should('include', '/dashboard');
-            cy.getCookie('authToken').should('exist');
-        });
-    };
+describe('Session Testing - Caching / Restore', () => {
 
     /**
      * Test 1: First test uses the session
      */
     it('should log in via session for Test 1', () => {
-        login(testUser);
+        cy.loginAs('user');
 
         // Visit protected page directly
         cy.visit('/dashboard');
@@ -56,7 +36,7 @@ describe('Session Testing - Caching / Restore', () => {
      * Test 2: Second test restores the session (much faster)
      */
     it('should restore session for Test 2 behavior', () => {
-        login(testUser);
+        cy.loginAs('user');
 
         // Visit the dashboard again - session should be restored
         cy.visit('/dashboard');
@@ -70,7 +50,7 @@ describe('Session Testing - Caching / Restore', () => {
      * Test 3: Navigate using sidebar after session restore
      */
     it('should allow navigation with restored session', () => {
-        login(testUser);
+        cy.loginAs('user');
 
         cy.visit('/dashboard');
 
@@ -81,6 +61,21 @@ describe('Session Testing - Caching / Restore', () => {
         cy.get('[data-testid="orders-section"]').should('be.visible');
     });
 
+    /**
+     * Admin role: cached under its own session id
+     */
+    describe('Admin Session', () => {
+
+        it('should restore the admin session', () => {
+            cy.loginAs('admin');
+
+            cy.visit('/dashboard');
+
+            cy.getByTestId(TestIds.dashboard.userName).should('have.text', 'Admin User');
+            cy.getByTestId(TestIds.dashboard.userEmail).should('contain', 'admin@example.com');
+        });
+    });
+
     /**
      * Test 4: Clear session
      */
@@ -0,0 +1,167 @@
+/**
+ * ============================================================================
+ * FILE UPLOAD & DOWNLOAD - Cypress Test Suite
+ * ============================================================================
+ *
+ * PURPOSE:
+ * Drives /upload through the UploadPage object: files are attached with
+ * selectFile(), stored by multer in app-under-test/uploads, and downloads
+ * are read back from the configured downloadsFolder with cy.readFile().
+ * cy.trackPageUploads() marks every stored file for deletion after the test.
+ *
+ * UPLOAD RULES (server.js):
+ * ┌─────────────────────────────────────────────────────────────────────────┐
+ * │  jpeg / png / gif / text / pdf, under 5 MB  ──►  200 + stored filename  │
+ * │  any other MIME type                        ──►  400 Invalid file type  │
+ * │  5 MB or larger                             ──►  400 File too large     │
+ * └─────────────────────────────────────────────────────────────────────────┘
+ *
+ * @author Veeresh Bikkaneti
+ */
+
+import { api } from '../../../tests/api/cypress';
+import type { UploadFile } from '../../../tests/api/types';
+import { MAX_UPLOAD_BYTES } from '../../../tests/api/uploads';
+import { uploadPage } from '../pages/uploadPage';
+
+const notes: UploadFile = { name: 'notes.txt', mimeType: 'text/plain', contents: 'Upload page notes' };
+const report: UploadFile = { name: 'report.pdf', mimeType: 'application/pdf', contents: '%PDF-1.4 test report' };
+const script: UploadFile = { name: 'script.sh', mimeType: 'application/x-sh', contents: 'echo "not allowed"' };
+const oversized: UploadFile = { name: 'oversized.txt', mimeType: 'text/plain', contents: new Uint8Array(MAX_UPLOAD_BYTES) };
+
+describe('File Upload & Download', () => {
+
+    beforeEach(() => {
+        cy.trackPageUploads();
+        uploadPage.visit();
+    });
+
+    // ========================================================================
+    // SINGLE UPLOAD
+    // ========================================================================
+
+    context('Single Upload', () => {
+
+        /**
+         * Test: The selected file is shown before it is sent
+         */
+        it('should show the selected file before uploading', () => {
+            uploadPage.singleUploadBtn.should('be.disabled');
+
+            uploadPage.selectSingleFile(notes);
+
+            uploadPage.singleUploadArea.should('contain.text', 'notes.txt');
+            uploadPage.singleUploadBtn.should('be.enabled');
+        });
+
+        /**
+         * Test: An uploaded file is stored and can be downloaded again
+         */
+        it('should upload a single file', () => {
+            uploadPage.uploadSingleFile(notes);
+
+            uploadPage.validateUploadSuccess();
+            uploadPage.uploadedFilename.invoke('text').then((filename) => {
+                expect(filename).to.match(/^\d+-notes\.txt$/);
+                api.download(filename).its('body').should('eq', notes.contents);
+            });
+        });
+    });
+
+    // ========================================================================
+    // MULTIPLE UPLOAD
+    // ========================================================================
+
+    context('Multiple Upload', () => {
+
+        /**
+         * Test: Every selected file is listed and uploaded
+         */
+        it('should list and upload multiple files', () => {
+            uploadPage.selectMultipleFiles([notes, report]);
+
+            uploadPage.fileItems.should('have.length', 2);
+            uploadPage.fileNames.then(($names) => {
+                expect(Cypress._.map($names, 'textContent')).to.deep.eq(['notes.txt', 'report.pdf']);
+            });
+
+            uploadPage.multipleUploadBtn.click();
+            uploadPage.validateMultipleUploadResult(2, 2);
+        });
+
+        /**
+         * Test: A rejected file does not stop the others
+         */
+        it('should report partial success for a mixed selection', () => {
+            uploadPage.uploadMultipleFiles([notes, script]);
+
+            uploadPage.validateMultipleUploadResult(1, 2);
+            uploadPage.multipleUploadResult.find('.alert').should('have.class', 'alert-error');
+        });
+    });
+
+    // ========================================================================
+    // REJECTIONS
+    // ========================================================================
+
+    context('Rejections', () => {
+
+        /**
+         * Test: multer's fileFilter refuses types outside the allow-list
+         */
+        it('should reject a file type outside the allow-list', () => {
+            uploadPage.uploadSingleFile(script);
+
+            uploadPage.validateUploadFailure('Invalid file type');
+        });
+
+        /**
+         * Test: multer's 5 MB limit refuses the file
+         */
+        it('should reject files of 5 MB or more', () => {
+            uploadPage.uploadSingleFile(oversized);
+
+            uploadPage.validateUploadFailure('File too large');
+        });
+
+        /**
+         * Test: Both rejections are client errors; multer stops at 5 MB, so one byte less still fits
+         */
+        it('should answer rejected uploads with 400', () => {
+            api.expectStatus(400).upload(script).its('body.error').should('eq', 'File upload error: Invalid file type');
+            api.expectStatus(400).upload(oversized).its('body.error').should('eq', 'File upload error: File too large');
+
+            api.upload({ ...oversized, contents: new Uint8Array(MAX_UPLOAD_BYTES - 1) }).then(({ body }) => {
+                cy.trackUpload(body.file);
+                expect(body.file.size).to.eq(MAX_UPLOAD_BYTES - 1);
+            });
+        });
+    });
+
+    // ========================================================================
+    // DOWNLOADS
+    // ========================================================================
+
+    context('Downloads', () => {
+
+        /**
+         * Test: The sample link saves the bundled sample.txt
+         */
+        it('should download the sample file', () => {
+            uploadPage.downloadSample();
+
+            uploadPage.readDownload('sample.txt').should('contain', 'Sample download file');
+        });
+
+        /**
+         * Test: The generated file is saved under its download name
+         */
+        it('should download a generated file', () => {
+            uploadPage.generateDownload();
+
+            uploadPage.readDownload('generated-file.txt')
+                .should('contain', 'Generated file content')
+                .and('match', /Created at: \d{4}-\d{2}-\d{2}T/);
+        });
+    });
+});
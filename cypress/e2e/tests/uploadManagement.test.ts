@@ -0,0 +1,233 @@
+/**
+ * ============================================================================
+ * UPLOADED FILES - List, Metadata, Download and Delete by Id - Cypress Test Suite
+ * ============================================================================
+ *
+ * PURPOSE:
+ * /api/upload answers with a stable file id; /api/uploads lists, describes,
+ * downloads and deletes files by that id, and a retention sweep removes old
+ * files. cy.trackUpload / cy.trackPageUploads mark what a test uploaded and
+ * the global afterEach (support/e2e.ts) deletes it.
+ *
+ * FILE LIFECYCLE:
+ * ┌─────────────────────────────────────────────────────────────────────────┐
+ * │  POST /api/upload        ──►  { file: { id, filename, ... } }           │
+ * │  GET  /api/uploads/:id   ──►  metadata, /download for the contents      │
+ * │  DELETE /api/uploads/:id ──►  gone (404), or swept once old enough      │
+ * └─────────────────────────────────────────────────────────────────────────┘
+ *
+ * @author Veeresh Bikkaneti
+ */
+
+import { api } from '../../../tests/api/cypress';
+import type { UploadFile } from '../../../tests/api/types';
+import { uploadPage } from '../pages/uploadPage';
+
+const notes: UploadFile = { name: 'notes.txt', mimeType: 'text/plain', contents: 'Uploaded file notes' };
+const report: UploadFile = { name: 'report.pdf', mimeType: 'application/pdf', contents: '%PDF-1.4 uploaded report' };
+
+const ONE_HOUR = 60 * 60 * 1000;
+
+describe('Uploaded Files', () => {
+
+    // ========================================================================
+    // API
+    // ========================================================================
+
+    context('API', () => {
+
+        /**
+         * Test: Every upload gets its own id and shows up in the list
+         */
+        it('should list uploaded files by id', () => {
+            api.upload(notes).then(({ body: first }) => {
+                cy.trackUpload(first.file);
+                api.upload(report).then(({ body: second }) => {
+                    cy.trackUpload(second.file);
+
+                    api.listUploads().then(({ body }) => {
+                        expect(body.total).to.eq(body.files.length);
+                        expect(body.files).to.deep.include(first.file);
+                        expect(body.files).to.deep.include(second.file);
+                    });
+                    expect(first.file.id).to.not.eq(second.file.id);
+                });
+            });
+        });
+
+        /**
+         * Test: Metadata and contents are served by id, under the original name
+         */
+        it('should describe and download a file by id', () => {
+            api.upload(notes).then(({ body: uploaded }) => {
+                cy.trackUpload(uploaded.file);
+
+                api.getUpload(uploaded.file.id).then(({ body }) => {
+                    expect(body.file).to.deep.eq(uploaded.file);
+                    expect(body.file.originalName).to.eq('notes.txt');
+                    expect(Date.parse(body.file.uploadedAt)).to.not.be.NaN;
+                });
+
+                api.downloadUpload(uploaded.file.id).then(({ body: contents, headers }) => {
+                    expect(contents).to.eq(notes.contents);
+                    expect(headers['content-disposition']).to.contain('filename="notes.txt"');
+                });
+            });
+        });
+
+        /**
+         * Test: A deleted file is gone from every endpoint
+         */
+        it('should delete a file by id', () => {
+            api.upload(notes).then(({ body: uploaded }) => {
+                cy.trackUpload(uploaded.file);
+
+                api.deleteUpload(uploaded.file.id).then(({ body }) => {
+                    expect(body.message).to.eq('File deleted');
+                    expect(body.file.id).to.eq(uploaded.file.id);
+                });
+
+                api.expectStatus(404).getUpload(uploaded.file.id).its('body.error').should('eq', 'File not found');
+                api.expectStatus(404).download(uploaded.file.filename);
+                api.expectStatus(404).deleteUpload(uploaded.file.id);
+                api.listUploads().then(({ body: list }) => {
+                    expect(list.files.map(file => file.id)).to.not.include(uploaded.file.id);
+                });
+            });
+        });
+    });
+
+    // ========================================================================
+    // RETENTION
+    // ========================================================================
+
+    context('Retention', () => {
+
+        /**
+         * Test: A sweep leaves files younger than the retention period alone
+         */
+        it('should keep files younger than the retention period', () => {
+            api.upload(notes).then(({ body: uploaded }) => {
+                cy.trackUpload(uploaded.file);
+
+                api.sweepUploads({ maxAgeMs: ONE_HOUR }).its('body.removed').should('not.include', uploaded.file.filename);
+                api.getUpload(uploaded.file.id);
+            });
+        });
+
+        /**
+         * Test: A sweep deletes files at least maxAgeMs old
+         */
+        it('should sweep files older than the retention period', () => {
+            api.upload(notes).then(({ body: uploaded }) => {
+                cy.trackUpload(uploaded.file);
+
+                api.sweepUploads({ maxAgeMs: 0 }).its('body.removed').should('include', uploaded.file.filename);
+                api.expectStatus(404).getUpload(uploaded.file.id);
+                api.listUploads().its('body.total').should('eq', 0);
+            });
+        });
+
+        /**
+         * Test: The retention period must be a non-negative number of ms
+         */
+        it('should reject an invalid retention period', () => {
+            api.expectStatus(400).sweepUploads({ maxAgeMs: -1 }).its('body.error').should('contain', 'maxAgeMs');
+            api.expectStatus(400).sweepUploads({ chunkedIdleMs: -1 }).its('body.error').should('contain', 'chunkedIdleMs');
+        });
+
+        /**
+         * Test: Chunked uploads without a request for chunkedIdleMs are dropped
+         */
+        it('should drop chunked uploads left idle', () => {
+            api.initUpload({ fileName: 'idle.txt', mimeType: 'text/plain', size: 10 }).then(({ body: started }) => {
+                api.sweepUploads({ chunkedIdleMs: ONE_HOUR }).its('body.expiredUploads').should('not.include', started.uploadId);
+                api.uploadStatus(started.uploadId);
+
+                api.sweepUploads({ chunkedIdleMs: 0 }).its('body.expiredUploads').should('include', started.uploadId);
+                api.expectStatus(404).uploadStatus(started.uploadId);
+            });
+        });
+    });
+
+    // ========================================================================
+    // FILE LIST UI
+    // ========================================================================
+
+    context('File List UI', () => {
+
+        /**
+         * Test: The page lists stored files on load
+         */
+        it('should list uploaded files on the upload page', () => {
+            api.upload(report).then(({ body: uploaded }) => {
+                cy.trackUpload(uploaded.file);
+
+                uploadPage.visit();
+
+                uploadPage.uploadedFileRow(uploaded.file.id).should('contain.text', 'report.pdf');
+                uploadPage.uploadedFileRow(uploaded.file.id).should('contain.text', '24 Bytes');
+            });
+        });
+
+        /**
+         * Test: An upload from the page refreshes the list
+         */
+        it('should add a file uploaded on the page to the list', () => {
+            cy.trackPageUploads();
+            cy.intercept('POST', '/api/upload').as('upload');
+            uploadPage.visit();
+
+            uploadPage.uploadSingleFile(notes);
+            uploadPage.validateUploadSuccess();
+
+            cy.wait('@upload').its('response.body.file.id').then((id: string) => {
+                uploadPage.uploadedFileRow(id).should('contain.text', 'notes.txt');
+            });
+        });
+
+        /**
+         * Test: Refresh picks up files uploaded by someone else
+         */
+        it('should show files uploaded elsewhere after a refresh', () => {
+            uploadPage.visit();
+            api.upload(notes).then(({ body: uploaded }) => {
+                cy.trackUpload(uploaded.file);
+                uploadPage.uploadedFileRow(uploaded.file.id).should('not.exist');
+
+                uploadPage.refreshUploadedFiles();
+
+                uploadPage.uploadedFileRow(uploaded.file.id).should('be.visible');
+            });
+        });
+
+        /**
+         * Test: The Download link saves the file under its original name
+         */
+        it('should download a file under its original name', () => {
+            api.upload(notes).then(({ body: uploaded }) => {
+                cy.trackUpload(uploaded.file);
+                uploadPage.visit();
+
+                uploadPage.downloadUploadedFile(uploaded.file.id);
+
+                uploadPage.readDownload('notes.txt').should('eq', notes.contents);
+            });
+        });
+
+        /**
+         * Test: Delete removes the row and the file on the server
+         */
+        it('should delete a file from the list', () => {
+            api.upload(notes).then(({ body: uploaded }) => {
+                cy.trackUpload(uploaded.file);
+                uploadPage.visit();
+
+                uploadPage.deleteUploadedFile(uploaded.file.id);
+
+                uploadPage.uploadedFilesResult.should('contain.text', 'Deleted notes.txt');
+                api.expectStatus(404).getUpload(uploaded.file.id);
+            });
+        });
+    });
+});
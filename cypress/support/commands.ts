@@ -32,6 +32,15 @@
 
 /// <reference types="cypress" />
 
+import { api } from '../../tests/api/cypress';
+import { parseCsvRecords, pdfText, type CsvRecord } from '../../tests/api/exports';
+import { FAULT_HEADER, faultHeader } from '../../tests/api/faults';
+import { resolveGraphQLMock, type GraphQLMocks } from '../../tests/api/graphql-mocks';
+import type { Fault, UploadedFile, UploadResponse, UserRole } from '../../tests/api/types';
+import { UPLOAD_RESPONSE_PATH, trackedUploads } from '../../tests/api/uploads';
+import { users } from '../../tests/fixtures/users';
+import type { TestId } from '../../tests/test-ids';
+
 // ============================================================================
 // TYPE DEFINITIONS
 // ============================================================================
@@ -51,6 +60,13 @@ declare global {
              */
             login(email: string, password: string): Chainable<void>;
 
+            /**
+             * Login through the API as a role, cached per role with cy.session
+             * @param role - 'user' (valid_credentials) or 'admin' (admin_credentials)
+             * @example cy.loginAs('admin')
+             */
+            loginAs(role: UserRole): Chainable<void>;
+
             /**
              * Logout from the application
              * @example cy.logout()
@@ -59,10 +75,10 @@ declare global {
 
             /**
              * Get element by data-testid attribute
-             * @param testId - The data-testid value
-             * @example cy.getByTestId('submit-btn')
+             * @param testId - The data-testid value, checked against tests/test-ids.ts
+             * @example cy.getByTestId(TestIds.login.submitBtn)
              */
-            getByTestId(testId: string): Chainable<JQuery<HTMLElement>>;
+            getByTestId(testId: TestId): Chainable<JQuery<HTMLElement>>;
 
             /**
              * Wait for API response and validate status
@@ -73,6 +89,64 @@ declare global {
              */
             interceptAndWait(method: string, url: string, alias: string): Chainable<void>;
 
+            /**
+             * Answer GraphQL operations from mocks keyed by operation name.
+             * Every operation is aliased `gql<OperationName>`; unmocked ones
+             * go through to the server.
+             * @param mocks - Data, a function of the variables, or graphqlErrors(...)
+             * @param url - GraphQL endpoint (default /api/graphql)
+             * @example cy.interceptGql({ GetProducts: { products: [] } })
+             * @example cy.wait('@gqlGetProducts')
+             */
+            interceptGql(mocks: GraphQLMocks, url?: string): Chainable<null>;
+
+            /**
+             * Make the real backend fail requests to a URL (app started with TEST_API=true)
+             * @param url - URL to match, as in cy.intercept
+             * @param fault - latency, status, malformed or drop; `count` limits faulted requests
+             * @example cy.withFault('/api/products', { type: 'status', status: 503 })
+             */
+            withFault(url: string, fault: Fault): Chainable<null>;
+
+            /**
+             * Delete an uploaded file after the test (see cy.deleteTrackedUploads)
+             * @param file - The `file` of an /api/upload or complete response
+             * @example api.upload(file).then(({ body }) => cy.trackUpload(body.file))
+             */
+            trackUpload(file: UploadedFile): Chainable<UploadedFile>;
+
+            /**
+             * Delete every file the page uploads (single, multiple and chunked) after the test
+             * @example cy.trackPageUploads()
+             */
+            trackPageUploads(): Chainable<null>;
+
+            /**
+             * Delete the tracked uploads; runs after every test (support/e2e.ts)
+             * @example cy.deleteTrackedUploads()
+             */
+            deleteTrackedUploads(): Chainable<void>;
+
+            /**
+             * Empty downloadsFolder, so a repeated download keeps its file name
+             * @example cy.clearDownloads()
+             */
+            clearDownloads(): Chainable<null>;
+
+            /**
+             * Read a downloaded CSV as records keyed by its header row
+             * @param fileName - File name in downloadsFolder
+             * @example cy.readCsvDownload('orders.csv').then(rows => ...)
+             */
+            readCsvDownload(fileName: string): Chainable<CsvRecord[]>;
+
+            /**
+             * Read the text lines of a downloaded PDF
+             * @param fileName - File name in downloadsFolder
+             * @example cy.readPdfDownload('orders.pdf').should('include', 'Orders Export')
+             */
+            readPdfDownload(fileName: string): Chainable<string[]>;
+
             /**
              * Type text and then clear the input (child command)
              * @param text - Text to type
@@ -146,6 +220,42 @@ Cypress.Commands.add('login', (email: string, password: string) => {
     cy.url().should('include', '/dashboard');
 });
 
+/**
+ * Login As Command (Parent)
+ * 
+ * FLOW:
+ * ┌─────────────────────────────────────────────────────────────────────────┐
+ * │  First call per role (cy.session setup):                                │
+ * │  1. POST /api/auth/login with the role's credentials                    │
+ * │  2. Seed the authToken cookie                                           │
+ * │  3. Seed localStorage authToken / user (read by dashboard.html)         │
+ * │                                                                         │
+ * │  Every call (cy.session validate):                                      │
+ * │  4. GET /api/auth/me must return 200 with the same role                 │
+ * │     otherwise the session is recreated                                  │
+ * └─────────────────────────────────────────────────────────────────────────┘
+ */
+Cypress.Commands.add('loginAs', (role: UserRole) => {
+    // Credentials per role (cypress/fixtures/users.json)
+    const credentials = { user: users.validCredentials, admin: users.adminCredentials }[role];
+    if (!credentials) {
+        throw new Error(`loginAs: unknown role "${role}"`);
+    }
+
+    cy.session(['loginAs', role], () => {
+        api.login({ email: credentials.emailId, password: credentials.password }).then(({ body }) => {
+            cy.setCookie('authToken', body.token, { path: '/', httpOnly: true });
+            window.localStorage.setItem('authToken', body.token);
+            window.localStorage.setItem('user', JSON.stringify(body.user));
+        });
+    }, {
+        validate() {
+            api.me().its('body.user.role').should('eq', role);
+        },
+        cacheAcrossSpecs: true
+    });
+});
+
 /**
  * Logout Command (Parent)
  */
@@ -186,6 +296,120 @@ Cypress.Commands.add('interceptAndWait', (method: string, url: string, alias: st
     cy.wait(`@${alias}`);
 });
 
+/**
+ * Intercept GraphQL Command (Parent)
+ * 
+ * Matches operations by operationName, falling back to the name of the only
+ * operation in the query, and replies with the operation's mock.
+ * Playwright equivalent: mockGraphQL (playwright/fixtures/graphql.fixture.ts)
+ */
+Cypress.Commands.add('interceptGql', (mocks: GraphQLMocks, url = '/api/graphql') => {
+    return cy.intercept('POST', url, (req) => {
+        const { call, response } = resolveGraphQLMock(mocks, req.body);
+        if (call.operationName) {
+            req.alias = `gql${call.operationName}`;
+        }
+        if (response) {
+            req.reply({ statusCode: response.status, body: response.body });
+        }
+    });
+});
+
+/**
+ * With Fault Command (Parent)
+ * 
+ * Adds an x-fault header to matching requests, so the app-under-test's fault
+ * middleware fails them for real. Intercepts are cleared between tests.
+ * Playwright equivalent: withFault (playwright/fixtures/fault.fixture.ts)
+ */
+Cypress.Commands.add('withFault', (url: string, fault: Fault) => {
+    let requests = 0;
+    return cy.intercept(url, (req) => {
+        if (fault.count !== undefined && requests >= fault.count) {
+            return;
+        }
+        requests++;
+        req.headers[FAULT_HEADER] = faultHeader(fault);
+    });
+});
+
+/**
+ * Track Upload Command (Parent)
+ * 
+ * Records an uploaded file for deletion after the test.
+ * Playwright equivalent: uploads.track (playwright/fixtures/uploads.fixture.ts)
+ */
+Cypress.Commands.add('trackUpload', (file: UploadedFile) => {
+    trackedUploads.add(file.id);
+    return cy.wrap(file, { log: false });
+});
+
+/**
+ * Track Page Uploads Command (Parent)
+ * 
+ * Records the file of every successful POST /api/upload and
+ * POST /api/upload/:uploadId/complete the page sends.
+ * Playwright equivalent: uploads.trackPage (playwright/fixtures/uploads.fixture.ts)
+ */
+Cypress.Commands.add('trackPageUploads', () => {
+    return cy.intercept({ method: 'POST', url: UPLOAD_RESPONSE_PATH }, (req) => {
+        req.continue((res) => {
+            const body = res.body as UploadResponse;
+            if (res.statusCode === 200 && body?.file?.id) {
+                trackedUploads.add(body.file.id);
+            }
+        });
+    });
+});
+
+/**
+ * Delete Tracked Uploads Command (Parent)
+ * 
+ * Deletes the tracked files by id. Files the test deleted itself answer 404,
+ * which is ignored.
+ * Playwright equivalent: the uploads fixture's teardown (playwright/fixtures/uploads.fixture.ts)
+ */
+Cypress.Commands.add('deleteTrackedUploads', () => {
+    const ids = [...trackedUploads];
+    trackedUploads.clear();
+    ids.forEach((id) => {
+        cy.request({ method: 'DELETE', url: `/api/uploads/${id}`, failOnStatusCode: false, log: false });
+    });
+});
+
+/**
+ * Clear Downloads Command (Parent)
+ * 
+ * Chrome renames a download whose name is taken ("orders (1).csv"), so specs
+ * that download the same file twice clear the folder first.
+ * Playwright equivalent: captureDownload (playwright/fixtures/downloads.fixture.ts), each Download keeps its own file
+ */
+Cypress.Commands.add('clearDownloads', () => {
+    return cy.task('clearDownloads', null, { log: false });
+});
+
+/**
+ * Read CSV Download Command (Parent)
+ * 
+ * cy.readFile() retries until the download is complete.
+ * Playwright equivalent: readCsvDownload (playwright/fixtures/downloads.fixture.ts)
+ */
+Cypress.Commands.add('readCsvDownload', (fileName: string) => {
+    return cy.readFile(`${Cypress.config('downloadsFolder')}/${fileName}`, 'utf8')
+        .then((text: string) => parseCsvRecords(text));
+});
+
+/**
+ * Read PDF Download Command (Parent)
+ * 
+ * Read as 'binary' (Latin-1), the encoding pdfText() expects for strings.
+ * Playwright equivalent: readPdfDownload (playwright/fixtures/downloads.fixture.ts)
+ */
+Cypress.Commands.add('readPdfDownload', (fileName: string) => {
+    return cy.readFile(`${Cypress.config('downloadsFolder')}/${fileName}`, 'binary')
+        .then((contents: string) => pdfText(contents));
+});
+
 /**
  * Set Auth Cookie Command (Parent)
  * 
@@ -50,6 +50,14 @@ beforeEach(() => {
     cy.log('**Test started with clean state**');
 });
 
+/**
+ * Global afterEach hook
+ * Deletes the files a test tracked with cy.trackUpload / cy.trackPageUploads
+ */
+afterEach(() => {
+    cy.deleteTrackedUploads();
+});
+
 // ============================================================================
 // ERROR HANDLING
 // ============================================================================
@@ -1,7 +1,13 @@
 import { defineConfig, devices } from '@playwright/test';
 
+/* SECURE_MODE=true serves the app over HTTPS (self-signed) with security headers and Secure cookies */
+const SECURE_MODE = process.env.SECURE_MODE === 'true';
+const APP_URL = `${SECURE_MODE ? 'https' : 'http'}://127.0.0.1:3000`;
+
 export default defineConfig({
-  testDir: './playwright/e2e',
+  testDir: '.',
+  /* Playwright specs plus the scenarios shared with Cypress (tests/scenarios/dsl.ts) */
+  testMatch: ['playwright/e2e/**/*.spec.ts', 'tests/scenarios/**/*.scenario.ts'],
   /* Run tests in files in parallel */
   fullyParallel: true,
   /* Fail the build on CI if you accidentally left test.only in the source code. */
@@ -16,7 +22,9 @@ export default defineConfig({
   /* Shared settings for all the projects below. See https://playwright.dev/docs/api/class-testoptions. */
   use: {
     /* Base URL to use in actions like `await page.goto('/')`. */
-    baseURL: 'http://127.0.0.1:3000',
+    baseURL: APP_URL,
+    /* Trust the app's self-signed certificate in secure mode */
+    ignoreHTTPSErrors: SECURE_MODE,
 
     /* Collect trace when retrying the failed test. See https://playwright.dev/docs/trace-viewer */
     trace: 'on-first-retry',
@@ -25,7 +33,10 @@ export default defineConfig({
   /* Configure web server to start before tests (automatically starts test app) */
   webServer: {
     command: 'cd app-under-test && npm run dev',
-    url: 'http://127.0.0.1:3000',
+    url: APP_URL,
+    ignoreHTTPSErrors: SECURE_MODE,
+    /* Serves /__test__/reset, /__test__/seed and /__test__/state (app-state.fixture.ts) */
+    env: { TEST_API: 'true', SECURE_MODE: String(SECURE_MODE) },
     reuseExistingServer: !process.env.CI,
     timeout: 120 * 1000,
     stdout: 'pipe',
@@ -34,19 +45,28 @@ export default defineConfig({
 
   /* Configure projects for major browsers */
   projects: [
+    /* Logs in once per role and saves playwright/.auth/<role>.json (test.use({ role })) */
+    {
+      name: 'setup',
+      testMatch: 'playwright/setup/**/*.setup.ts',
+    },
+
     {
       name: 'chromium',
       use: { ...devices['Desktop Chrome'] },
+      dependencies: ['setup'],
     },
 
     {
       name: 'firefox',
       use: { ...devices['Desktop Firefox'] },
+      dependencies: ['setup'],
     },
 
     {
       name: 'webkit',
       use: { ...devices['Desktop Safari'] },
+      dependencies: ['setup'],
     },
   ],
 });
@@ -0,0 +1,190 @@
+import { mergeTests, type Page } from '@playwright/test';
+import { test as apiTest, expect, waitForTokenRejection } from '../fixtures/api.fixture';
+import { test as appStateTest } from '../fixtures/app-state.fixture';
+import { test as isolatedServerTest } from '../fixtures/isolated-server.fixture';
+import { roleCredentials, type Role } from '../fixtures/roles';
+import { createPlaywrightClient } from '../../tests/api/playwright';
+import type { LoginResponse } from '../../tests/api/types';
+import { TestIds } from '../../tests/test-ids';
+
+// Token lifetimes are shortened per test: each worker gets its own app instance
+const test = mergeTests(isolatedServerTest, apiTest, appStateTest);
+
+// ============================================================================
+// ACCESS CONTROL - Server-Side Page Guards
+// ============================================================================
+// /dashboard and /admin are checked against the authToken cookie before any
+// HTML is sent: anonymous or expired sessions are redirected to /login,
+// signed-in users without the admin role get a 403 page.
+
+// Express routes these to the same pages: the guard must not be sidestepped by them
+const dashboardVariants = ['/dashboard/', '/DASHBOARD', '/Dashboard.html'];
+const adminVariants = ['/admin/', '/Admin', '/ADMIN/'];
+// Percent-encoded file names the guard does not match but a static server decodes
+const encodedVariants = ['/adm%69n.html', '/dash%62oard.html', '/%64ashboard.html', '/forbidd%65n.html'];
+
+/**
+ * Log in through the page's own request context (sets the authToken cookie)
+ * and seed the localStorage entries the pages read
+ */
+async function signIn(page: Page, role: Role): Promise<LoginResponse> {
+    const { emailId: email, password } = roleCredentials[role];
+    const { body } = await createPlaywrightClient(page.request).login({ email, password });
+    await page.addInitScript(({ token, user }) => {
+        localStorage.setItem('authToken', token);
+        localStorage.setItem('user', JSON.stringify(user));
+    }, { token: body.token, user: body.user });
+    return body;
+}
+
+/**
+ * Put a token back into the authToken cookie, e.g. after the browser dropped it
+ */
+async function setAuthCookie(page: Page, baseURL: string, token: string): Promise<void> {
+    await page.context().addCookies([{ name: 'authToken', value: token, url: baseURL }]);
+}
+
+test.describe('Access Control - Protected Pages', () => {
+    test.afterEach(async ({ resetApp }) => {
+        await resetApp();
+    });
+
+    test.describe('Direct Navigation', () => {
+
+        test('should redirect anonymous users from the dashboard to login', async ({ page }) => {
+            const response = await page.request.get('/dashboard', { maxRedirects: 0 });
+            expect(response.status()).toBe(302);
+
+            await page.goto('/dashboard');
+            await expect(page).toHaveURL(/\/login\?redirect=%2Fdashboard$/);
+            await expect(page.locator('h1')).toContainText('Sign In');
+        });
+
+        test('should guard the HTML file of a protected page', async ({ page }) => {
+            await page.goto('/dashboard.html');
+
+            await expect(page).toHaveURL(/\/login\?redirect=%2Fdashboard$/);
+        });
+
+        test('should guard protected pages under any letter case or trailing slash', async ({ request }) => {
+            for (const [variant, page] of [...dashboardVariants.map(v => [v, 'dashboard']), ...adminVariants.map(v => [v, 'admin'])]) {
+                const response = await request.get(variant, { maxRedirects: 0 });
+
+                expect(response.status(), variant).toBe(302);
+                expect(response.headers()['location'], variant).toBe(`/login?redirect=%2F${page}`);
+            }
+        });
+
+        test('should return to the requested page after login', async ({ page }) => {
+            const { emailId, password } = roleCredentials.admin;
+            await page.goto('/admin');
+
+            await page.getByTestId(TestIds.login.emailInput).fill(emailId);
+            await page.getByTestId(TestIds.login.passwordInput).fill(password);
+            await page.getByTestId(TestIds.login.submitBtn).click();
+
+            await expect(page).toHaveURL(/\/admin$/);
+            await expect(page.getByTestId(TestIds.admin.adminTitle)).toHaveText('Admin Console');
+        });
+
+        test('should not serve the 403 template directly', async ({ request }) => {
+            const response = await request.get('/forbidden.html');
+
+            expect(response.status()).toBe(404);
+        });
+
+        test('should not serve protected pages under an encoded path', async ({ request }) => {
+            for (const variant of encodedVariants) {
+                const response = await request.get(variant, { maxRedirects: 0 });
+
+                expect(response.status(), variant).toBe(404);
+            }
+        });
+    });
+
+    test.describe('Expired Cookies', () => {
+
+        test('should send expired sessions back to login with a notice', async ({ page, api, baseURL }) => {
+            await api.configureAuth({ tokenTtl: 500 });
+            const { token } = await signIn(page, 'user');
+
+            await waitForTokenRejection(page.request, token);
+            // The browser drops the cookie with the token; a stale copy must not get in either
+            await setAuthCookie(page, baseURL!, token);
+            await page.goto('/dashboard');
+
+            await expect(page).toHaveURL(/\/login\?redirect=%2Fdashboard&reason=expired$/);
+            await expect(page.getByTestId(TestIds.login.loginAlert)).toContainText('session has expired');
+        });
+
+        test('should treat a revoked session like an expired one', async ({ page, api }) => {
+            const { token } = await signIn(page, 'user');
+            await api.withToken(token).logout();
+
+            await page.goto('/dashboard');
+
+            await expect(page).toHaveURL(/reason=expired/);
+        });
+
+        test('should drop a forged auth cookie', async ({ page, baseURL }) => {
+            await setAuthCookie(page, baseURL!, 'mock-token');
+
+            await page.goto('/dashboard');
+
+            await expect(page).toHaveURL(/\/login\?redirect=%2Fdashboard$/);
+            const cookies = await page.context().cookies();
+            expect(cookies.find(cookie => cookie.name === 'authToken')).toBeUndefined();
+        });
+    });
+
+    test.describe('Role Escalation', () => {
+
+        test('should show the 403 page to users opening the admin console', async ({ page }) => {
+            await signIn(page, 'user');
+
+            const response = await page.goto('/admin');
+
+            expect(response?.status()).toBe(403);
+            await expect(page.getByTestId(TestIds.forbidden.forbiddenTitle)).toContainText('403');
+            await expect(page.getByTestId(TestIds.forbidden.forbiddenMessage)).toHaveText('Admin access required.');
+            await expect(page.getByTestId(TestIds.forbidden.forbiddenUser)).toHaveText('Test User');
+            await expect(page.getByTestId(TestIds.forbidden.forbiddenRole)).toHaveText('user');
+            await expect(page.getByTestId(TestIds.forbidden.forbiddenRequiredRole)).toHaveText('admin');
+        });
+
+        test('should show the 403 page for admin path variants', async ({ page }) => {
+            await signIn(page, 'user');
+
+            for (const variant of adminVariants) {
+                const response = await page.request.get(variant, { maxRedirects: 0 });
+                expect(response.status(), variant).toBe(403);
+            }
+        });
+
+        test('should not let users escalate by editing their stored role', async ({ page, api }) => {
+            const { token, user } = await signIn(page, 'user');
+            await page.addInitScript(stored => {
+                localStorage.setItem('user', JSON.stringify({ ...stored, role: 'admin' }));
+            }, user);
+
+            // The client shows the shortcut, the server still refuses
+            await page.goto('/dashboard');
+            await expect(page.getByTestId(TestIds.dashboard.navAdmin)).toBeVisible();
+            await page.getByTestId(TestIds.dashboard.navAdmin).click();
+            await expect(page.getByTestId(TestIds.forbidden.forbiddenTitle)).toBeVisible();
+
+            const { body } = await api.withToken(token).expectStatus(403).listUsers();
+            expect(body.error).toBe('Admin access required');
+        });
+
+        test('should open the admin console for admins', async ({ page }) => {
+            await signIn(page, 'admin');
+
+            await page.goto('/dashboard');
+            await page.getByTestId(TestIds.dashboard.navAdmin).click();
+
+            await expect(page).toHaveURL(/\/admin$/);
+            await expect(page.getByTestId(TestIds.admin.userRow)).toHaveCount(2);
+        });
+    });
+});
@@ -1,4 +1,5 @@
-import { test, expect } from '@playwright/test';
+import { test, expect } from '../fixtures/network.fixture';
+import { TestIds } from '../../tests/test-ids';
 
 // ============================================================================
 // API TESTING - Network Interception & Direct API Requests
@@ -18,56 +19,54 @@ test.describe('API Testing - Network Capabilities', () => {
             // Verify real products load from API
             // Verify real products load from API
             // Wait for at least one product to appear
-            await expect(page.locator('[data-testid="product-card"]').first()).toBeVisible();
+            await expect(page.getByTestId(TestIds.index.productCard).first()).toBeVisible();
 
-            const count = await page.locator('[data-testid="product-card"]').count();
+            const count = await page.getByTestId(TestIds.index.productCard).count();
             expect(count).toBeGreaterThan(0);
 
-            const firstCard = page.locator('[data-testid="product-card"]').first();
+            const firstCard = page.getByTestId(TestIds.index.productCard).first();
             await expect(firstCard.locator('h3')).toHaveCount(1);
             await expect(firstCard.locator('.price')).toHaveCount(1);
         });
 
-        test('should display multiple products - mocked', async ({ page }) => {
+        test('should display multiple products - mocked', async ({ page, network }) => {
             // Mock the API response
-            await page.route('**/api/products', async route => {
-                const json = {
-                    products: [
-                        { id: 1, name: 'Product A', price: 10 },
-                        { id: 2, name: 'Product B', price: 20 }
-                    ]
-                };
-                await route.fulfill({ json });
-            });
+            await network.intercept('GET', '/api/products', {
+                products: [
+                    { id: 1, name: 'Product A', price: 10 },
+                    { id: 2, name: 'Product B', price: 20 }
+                ]
+            }).as('getProducts');
 
             await page.goto('/');
+            await network.wait('@getProducts');
 
             // Verify multiple products are displayed
-            const count = await page.locator('[data-testid="product-card"]').count();
+            const count = await page.getByTestId(TestIds.index.productCard).count();
             expect(count).toBeGreaterThan(1);
         });
 
-        test('should match URL patterns for products endpoint', async ({ page }) => {
-            // Setup listener to verify call
-            const requestPromise = page.waitForRequest('**/api/products');
+        test('should match URL patterns for products endpoint', async ({ page, network }) => {
+            // Spy on the call without stubbing it
+            await network.intercept('GET', '/api/products*').as('getProducts');
             await page.goto('/');
-            await requestPromise;
-            await expect(page.locator('body')).toBeVisible();
+
+            const { request, response } = await network.wait('@getProducts');
+            expect(request.method).toBe('GET');
+            expect(response?.statusCode).toBe(200);
+            expect(network.count('@getProducts')).toBeGreaterThan(0);
         });
 
-        test('should display product details correctly - mocked', async ({ page }) => {
-            await page.route('**/api/products', async route => {
-                const json = {
-                    products: [
-                        { id: 1, name: 'Mock Product', price: 99.00 }
-                    ]
-                };
-                await route.fulfill({ json });
+        test('should display product details correctly - mocked', async ({ page, network }) => {
+            await network.intercept('GET', '/api/products', {
+                products: [
+                    { id: 1, name: 'Mock Product', price: 99.00 }
+                ]
             });
 
             await page.goto('/');
 
-            const firstCard = page.locator('[data-testid="product-card"]').first();
+            const firstCard = page.getByTestId(TestIds.index.productCard).first();
             await expect(firstCard.locator('h3')).not.toBeEmpty();
             await expect(firstCard.locator('.price')).toContainText('$');
         });
@@ -75,22 +74,64 @@ test.describe('API Testing - Network Capabilities', () => {
         test('should load products quickly', async ({ page }) => {
             const start = Date.now();
             await page.goto('/');
-            await expect(page.locator('[data-testid="product-card"]').first()).toBeVisible({ timeout: 3000 });
+            await expect(page.getByTestId(TestIds.index.productCard).first()).toBeVisible({ timeout: 3000 });
             const duration = Date.now() - start;
             expect(duration).toBeLessThan(5000); // Relaxed timeout for Playwright execution
         });
 
-        test('should handle empty result set from API', async ({ page }) => {
+        test('should handle empty result set from API', async ({ page, network }) => {
             // Force empty response
-            await page.route('**/api/products*', async route => {
-                await route.fulfill({ json: { products: [] } });
-            });
+            await network.intercept('GET', '/api/products*', { body: { products: [] } });
 
             await page.goto('/?minPrice=1000000');
 
             // Grid should exist but be empty
             // Grid should exist but be empty
-            await expect(page.locator('[data-testid="product-card"]')).toHaveCount(0);
+            await expect(page.getByTestId(TestIds.index.productCard)).toHaveCount(0);
+        });
+    });
+
+    // ==========================================================================
+    // network.wait() / count() - Alias Semantics (cy.wait('@alias') / '@alias.all')
+    // ==========================================================================
+
+    test.describe('Network Aliases', () => {
+
+        test('should let a spy see the response of an earlier stub', async ({ page, network }) => {
+            const stubbed = { products: [{ id: 7, name: 'Stubbed Product', price: 5 }] };
+            await network.intercept('GET', '/api/products', stubbed);
+            await network.intercept('GET', '/api/products').as('products');
+
+            await page.goto('/');
+
+            const { response } = await network.wait('@products');
+            expect(response?.body).toEqual(stubbed);
+            await expect(page.getByTestId(TestIds.index.productCard)).toHaveCount(1);
+        });
+
+        test('should yield a different call to each wait on an alias', async ({ page, network }) => {
+            await network.intercept('GET', '/api/products*').as('products');
+            await page.goto('/');
+            await page.evaluate(() => fetch('/api/products?category=Accessories'));
+
+            const first = await network.wait('@products');
+            const second = await network.wait('@products');
+            expect(first.request.url).not.toContain('category');
+            expect(second.request.url).toContain('category=Accessories');
+        });
+
+        test('should count calls that are still in flight', async ({ page, network }) => {
+            await page.goto('/');
+            await network.intercept('GET', '/api/products?slow=1', { delay: 1000, body: { products: [] } }).as('slow');
+
+            await page.evaluate(() => {
+                void fetch('/api/products?slow=1');
+            });
+
+            await expect.poll(() => network.count('@slow')).toBe(1);
+            expect(network.calls('@slow')).toHaveLength(0);
+            const { response } = await network.wait('@slow');
+            expect(response?.body).toEqual({ products: [] });
         });
     });
 
@@ -0,0 +1,67 @@
+import { mergeTests } from '@playwright/test';
+import { test as apiTest, expect } from '../fixtures/api.fixture';
+import { test as uploadsTest } from '../fixtures/uploads.fixture';
+import type { Query } from '../../tests/api/graphql-types';
+import { users } from '../../tests/fixtures/users';
+
+const test = mergeTests(apiTest, uploadsTest);
+
+// ============================================================================
+// API CLIENT - Typed Requests Shared With Cypress
+// ============================================================================
+// Every call asserts the status declared for its endpoint in
+// tests/api/endpoints.ts, so the tests only assert on bodies.
+
+const { emailId: email, password } = users.validCredentials;
+
+test.describe('API Client - Typed Requests', () => {
+
+    test('should filter products', async ({ api }) => {
+        const { body } = await api.listProducts({ category: 'Electronics', inStock: true });
+        expect(body.total).toBe(body.products.length);
+        for (const product of body.products) {
+            expect(product.category).toBe('Electronics');
+            expect(product.inStock).toBe(true);
+        }
+    });
+
+    test('should create an order with a token', async ({ api }) => {
+        const { body: session } = await api.login({ email, password });
+        const { body } = await api.withToken(session.token).createOrder({ items: [{ productId: 1, quantity: 2 }] });
+
+        expect(body.order.userId).toBe(session.user.id);
+        expect(body.order.items[0].quantity).toBe(2);
+        expect(body.order.status).toBe('pending');
+    });
+
+    test('should reject invalid credentials with 401', async ({ api }) => {
+        const { emailId, password: wrongPassword } = users.invalidCredentials.invalidPassword;
+        const { body } = await api.expectStatus(401).login({ email: emailId, password: wrongPassword });
+        expect(typeof body.error).toBe('string');
+    });
+
+    test('should return the requested error status', async ({ api }) => {
+        const { body } = await api.error(503);
+        expect(body.code).toBe(503);
+    });
+
+    test('should upload and download a file', async ({ api, uploads }) => {
+        const contents = 'typed client upload';
+        const { body } = await api.upload({ name: 'client.txt', mimeType: 'text/plain', contents });
+        uploads.track(body.file);
+        expect(body.file.originalName).toBe('client.txt');
+
+        const download = await api.download(body.file.filename);
+        expect(download.body).toBe(contents);
+    });
+
+    test('should query products over GraphQL', async ({ api }) => {
+        const { body } = await api.graphql({
+            query: 'query Products($limit: Int) { products(limit: $limit) { id name } }',
+            variables: { limit: 2 },
+        });
+        const data = body.data as Pick<Query, 'products'> | undefined;
+        expect(body.errors).toBeUndefined();
+        expect(data?.products).toHaveLength(2);
+    });
+});
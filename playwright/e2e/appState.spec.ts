@@ -0,0 +1,102 @@
+import { mergeTests } from '@playwright/test';
+import { test as apiTest, expect } from '../fixtures/api.fixture';
+import { test as appStateTest } from '../fixtures/app-state.fixture';
+import { test as isolatedServerTest } from '../fixtures/isolated-server.fixture';
+import { users } from '../../tests/fixtures/users';
+import type { Order, Product, SeedData } from '../../tests/api/types';
+
+// Each worker resets and seeds its own app instance
+const test = mergeTests(isolatedServerTest, apiTest, appStateTest);
+
+// ============================================================================
+// TEST CONTROL API - Deterministic App State
+// ============================================================================
+// /__test__/reset, /__test__/seed and /__test__/state are served when the
+// app runs with TEST_API=true. The Cypress suite reaches them via cy.task.
+
+const { emailId: email, password } = users.validCredentials;
+
+const onlyProduct: Product = { id: 1, name: 'Seeded Lamp', price: 10, category: 'Home', inStock: true };
+
+test.describe('Test Control API', () => {
+    test.afterEach(async ({ resetApp }) => {
+        await resetApp();
+    });
+
+    test('should restore the initial data on reset', async ({ api, resetApp }) => {
+        const { body: session } = await api.login({ email, password });
+        await api.withToken(session.token).createOrder({ items: [{ productId: 1 }] });
+
+        const state = await resetApp();
+
+        expect(state.orders).toEqual([]);
+        expect(state.nextOrderId).toBe(1);
+        expect(state.products).toHaveLength(5);
+        expect(state.users[0]).not.toHaveProperty('password');
+    });
+
+    test('should load a seeded data set', async ({ api, seedApp }) => {
+        await seedApp({ products: [onlyProduct] });
+
+        const { body } = await api.listProducts();
+        expect(body.products).toEqual([onlyProduct]);
+
+        // Collections left out keep their initial data
+        await api.login({ email, password });
+    });
+
+    test('should number new orders after seeded orders', async ({ api, seedApp, appState }) => {
+        const seededOrder: Order = {
+            id: 7,
+            userId: 1,
+            items: [{ productId: 1, name: 'Laptop', price: 999.99, quantity: 1 }],
+            total: 999.99,
+            status: 'pending',
+            createdAt: '2024-01-01T00:00:00.000Z'
+        };
+        await seedApp({ orders: [seededOrder] });
+
+        const { body: session } = await api.login({ email, password });
+        const { body } = await api.withToken(session.token).createOrder({ items: [{ productId: 2 }] });
+
+        expect(body.order.id).toBe(8);
+        expect((await appState()).orders.map(order => order.id)).toEqual([7, 8]);
+    });
+
+    test('should reject malformed seed data', async ({ api }) => {
+        const { body } = await api.expectStatus(400).seedApp({ products: 'none' } as unknown as SeedData);
+        expect(body.error).toContain('products');
+
+        const { body: notObject } = await api.expectStatus(400).seedApp([1] as unknown as SeedData);
+        expect(notObject.error).toBe('Seed data must be an object');
+        const { body: unknownKey } = await api.expectStatus(400).seedApp({ product: [onlyProduct] } as unknown as SeedData);
+        expect(unknownKey.error).toBe('Unknown seed keys: product');
+    });
+
+    test('should reject seeded orders outside the order lifecycle', async ({ api }) => {
+        const order = { id: 1, userId: 1, items: [], total: 0, status: 'refunded', createdAt: '2024-01-01T00:00:00.000Z' };
+        const { body } = await api.expectStatus(400).seedApp({ orders: [order] } as unknown as SeedData);
+        expect(body.error).toBe('Order 1 status must be one of pending, paid, shipped, delivered, cancelled');
+    });
+
+    test('should fail requests through a fault rule until its count runs out', async ({ api }) => {
+        const { body: rule } = await api.addFault({ path: '/api/products*', method: 'GET', type: 'status', status: 502, count: 2 });
+        expect(rule.fault.hits).toBe(0);
+
+        await api.expectStatus(502).listProducts();
+        await api.expectStatus(502).getProduct(1);
+        await api.listProducts();
+
+        const { body } = await api.listFaults();
+        expect(body.faults).toEqual([]);
+    });
+
+    test('should remove fault rules on reset', async ({ api, resetApp }) => {
+        await api.addFault({ path: '/api/time', type: 'latency', delay: 50 });
+
+        await resetApp();
+
+        const { body } = await api.listFaults();
+        expect(body.faults).toEqual([]);
+    });
+});
@@ -0,0 +1,150 @@
+import { mergeTests } from '@playwright/test';
+import { test as apiTest, expect, waitForTokenRejection } from '../fixtures/api.fixture';
+import { test as appStateTest } from '../fixtures/app-state.fixture';
+import { test as isolatedServerTest } from '../fixtures/isolated-server.fixture';
+import { decodeToken, tamperToken } from '../../tests/api/tokens';
+import { users } from '../../tests/fixtures/users';
+
+// Token lifetimes are shortened per test: each worker gets its own app instance
+const test = mergeTests(isolatedServerTest, apiTest, appStateTest);
+
+// ============================================================================
+// AUTH TOKENS - Signing, Revocation, Refresh and Expiry
+// ============================================================================
+// Access tokens are HMAC-signed and tied to a server-side session; logout
+// revokes the session and /api/auth/refresh rotates the refresh token.
+// api.configureAuth() (TEST_API=true) shortens the lifetimes; reset restores them.
+
+const { emailId: email, password } = users.validCredentials;
+
+test.describe('Auth Tokens', () => {
+    test.afterEach(async ({ resetApp }) => {
+        await resetApp();
+    });
+
+    test.describe('Signing', () => {
+
+        test('should issue signed tokens on login', async ({ api }) => {
+            const { body: session } = await api.login({ email, password });
+
+            const payload = decodeToken(session.token);
+            expect(payload.email).toBe(email);
+            expect(payload.exp).toBeGreaterThan(Date.now());
+            expect(session.refreshToken).toBeTruthy();
+            expect(session.expiresIn).toBe(3600000);
+        });
+
+        test('should reject a token with a tampered payload', async ({ api }) => {
+            const { body: session } = await api.login({ email, password });
+            const { body: admin } = await api.login({ email: users.adminCredentials.emailId, password: users.adminCredentials.password });
+            const forged = tamperToken(session.token, { id: decodeToken(admin.token).id });
+
+            const { body } = await api.withToken(forged).expectStatus(401).me();
+
+            expect(body.error).toBe('Invalid token');
+        });
+
+        test('should reject an unsigned token', async ({ api }) => {
+            const { body: session } = await api.login({ email, password });
+            const [payload] = session.token.split('.');
+
+            const { body } = await api.withToken(payload).expectStatus(401).me();
+
+            expect(body.error).toBe('Invalid token');
+        });
+    });
+
+    test.describe('Revocation', () => {
+
+        test('should revoke the session on logout', async ({ api }) => {
+            const { body: session } = await api.login({ email, password });
+            await api.withToken(session.token).logout();
+
+            const { body } = await api.withToken(session.token).expectStatus(401).me();
+            expect(body.error).toBe('Session revoked');
+
+            await api.expectStatus(401).refresh({ refreshToken: session.refreshToken });
+        });
+
+        test('should keep other sessions of the user signed in', async ({ api }) => {
+            const { body: first } = await api.login({ email, password });
+            const { body: second } = await api.login({ email, password });
+
+            await api.withToken(first.token).logout();
+
+            const { body } = await api.withToken(second.token).me();
+            expect(body.user.email).toBe(email);
+        });
+
+        test('should revoke the session of an expired access token on logout', async ({ api, request }) => {
+            await api.configureAuth({ tokenTtl: 500 });
+            const { body: expired } = await api.login({ email, password });
+            // The second login replaces the refresh cookie: only the token names the first session
+            const { body: current } = await api.login({ email, password });
+            await waitForTokenRejection(request, expired.token);
+
+            await api.withToken(expired.token).logout();
+
+            const { body } = await api.expectStatus(401).refresh({ refreshToken: expired.refreshToken });
+            expect(body.error).toBe('Invalid refresh token');
+            await api.refresh({ refreshToken: current.refreshToken });
+        });
+
+        test('should revoke the session of the refresh cookie on logout', async ({ api, request }) => {
+            await api.configureAuth({ tokenTtl: 500 });
+            const { body: session } = await api.login({ email, password });
+            await waitForTokenRejection(request, session.token);
+
+            // No access token left, like a browser that dropped the expired authToken cookie
+            await api.logout();
+
+            const { body } = await api.expectStatus(401).refresh({ refreshToken: session.refreshToken });
+            expect(body.error).toBe('Invalid refresh token');
+        });
+    });
+
+    test.describe('Refresh', () => {
+
+        test('should rotate tokens on refresh', async ({ api }) => {
+            const { body: session } = await api.login({ email, password });
+
+            const { body: refreshed } = await api.refresh({ refreshToken: session.refreshToken });
+
+            expect(refreshed.refreshToken).not.toBe(session.refreshToken);
+            expect(decodeToken(refreshed.token).sid).toBe(decodeToken(session.token).sid);
+            await api.withToken(refreshed.token).me();
+
+            // The used refresh token stops working
+            const { body } = await api.expectStatus(401).refresh({ refreshToken: session.refreshToken });
+            expect(body.error).toBe('Invalid refresh token');
+        });
+    });
+
+    test.describe('Expiry', () => {
+
+        test('should expire access tokens and recover with refresh', async ({ api, request }) => {
+            await api.configureAuth({ tokenTtl: 500 });
+            const { body: session } = await api.login({ email, password });
+            expect(session.expiresIn).toBe(500);
+
+            await waitForTokenRejection(request, session.token);
+
+            const { body } = await api.withToken(session.token).expectStatus(401).me();
+            expect(body.error).toBe('Token expired');
+
+            const { body: refreshed } = await api.refresh({ refreshToken: session.refreshToken });
+            await api.withToken(refreshed.token).me();
+        });
+
+        test('should expire refresh tokens', async ({ api, request }) => {
+            // Issued together with the same lifetime, the refresh token runs out no later than the access token
+            await api.configureAuth({ tokenTtl: 500, refreshTtl: 500 });
+            const { body: session } = await api.login({ email, password });
+
+            await waitForTokenRejection(request, session.token);
+
+            const { body } = await api.expectStatus(401).refresh({ refreshToken: session.refreshToken });
+            expect(body.error).toBe('Refresh token expired');
+        });
+    });
+});
@@ -0,0 +1,99 @@
+import { mergeTests } from '@playwright/test';
+import { test as authTest, expect } from '../fixtures/auth.fixture';
+import { test as faultTest } from '../fixtures/fault.fixture';
+import { FAULT_HEADER, faultHeader } from '../../tests/api/faults';
+import { TestIds } from '../../tests/test-ids';
+
+const test = mergeTests(authTest, faultTest);
+
+// ============================================================================
+// RESILIENCE - Real Backend Faults
+// ============================================================================
+// withFault() makes the app-under-test itself fail (x-fault header, server
+// started with TEST_API=true), so these tests cover the pages' real error
+// handling rather than page.route() fakes.
+
+test.describe('Resilience - Backend Faults', () => {
+
+    test.describe('Products Page', () => {
+
+        test('should show an error when products fail to load', async ({ page, withFault }) => {
+            await withFault('/api/products', { type: 'status', status: 503 });
+            await page.goto('/');
+
+            await expect(page.getByTestId(TestIds.index.productsGrid)).toContainText('Failed to load products');
+        });
+
+        test('should show an error when products return malformed JSON', async ({ page, withFault }) => {
+            await withFault('/api/products', { type: 'malformed' });
+            await page.goto('/');
+
+            await expect(page.getByTestId(TestIds.index.productsGrid)).toContainText('Failed to load products');
+        });
+
+        test('should show an error when the products connection drops', async ({ page, withFault }) => {
+            await withFault('/api/products', { type: 'drop' });
+            await page.goto('/');
+
+            await expect(page.getByTestId(TestIds.index.productsGrid)).toContainText('Failed to load products');
+        });
+
+        test('should load products after a transient failure', async ({ page, withFault }) => {
+            const fault = await withFault('/api/products', { type: 'status', status: 503, count: 1 });
+            await page.goto('/');
+            await expect(page.getByTestId(TestIds.index.productsGrid)).toContainText('Failed to load products');
+
+            await page.reload();
+            await expect(page.getByTestId(TestIds.index.productCard)).toHaveCount(5);
+            expect(fault.requests).toBe(1);
+        });
+    });
+
+    test.describe('Dashboard', () => {
+        test.use({ role: 'user' });
+
+        test('should show an error when orders fail to load', async ({ page, withFault }) => {
+            await withFault('/api/orders', { type: 'status', status: 500 });
+            await page.goto('/dashboard');
+
+            await expect(page.getByTestId(TestIds.dashboard.ordersTable)).toContainText('Failed to load orders');
+        });
+
+        test('should keep showing orders while the backend is slow', async ({ page, withFault }) => {
+            await withFault('/api/orders', { type: 'latency', delay: 1500 });
+            await page.goto('/dashboard');
+
+            await expect(page.getByTestId(TestIds.dashboard.ordersTable)).toContainText('Loading', { timeout: 1000 });
+            await expect(page.getByTestId(TestIds.dashboard.ordersTable)).not.toContainText('Loading');
+        });
+    });
+
+    test.describe('x-fault Header', () => {
+
+        test('should fail a request carrying the x-fault header', async ({ request }) => {
+            const response = await request.get('/api/products', {
+                headers: { [FAULT_HEADER]: faultHeader({ type: 'status', status: 429 }) }
+            });
+
+            expect(response.status()).toBe(429);
+            expect(await response.json()).toEqual({ error: 'Injected fault', code: 429 });
+        });
+
+        test('should reject an invalid x-fault header', async ({ request }) => {
+            const response = await request.get('/api/products', { headers: { [FAULT_HEADER]: 'explode' } });
+
+            expect(response.status()).toBe(400);
+            expect((await response.json()).error).toContain('Invalid x-fault header');
+        });
+
+        test('should reject x-fault probabilities outside 0..1', async ({ request }) => {
+            for (const probability of ['', 'abc', 'NaN', 'Infinity', '1.5', '-0.1']) {
+                const header = `status=503; probability=${probability}`;
+                const response = await request.get('/api/products', { headers: { [FAULT_HEADER]: header } });
+
+                expect(response.status(), header).toBe(400);
+                expect((await response.json()).error, header).toBe('Invalid x-fault header: probability must be between 0 and 1');
+            }
+        });
+    });
+});
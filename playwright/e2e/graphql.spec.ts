@@ -1,4 +1,28 @@
-import { test, expect } from '@playwright/test';
+import { mergeTests, type Page } from '@playwright/test';
+import { test as networkTest, expect } from '../fixtures/network.fixture';
+import { test as apiTest } from '../fixtures/api.fixture';
+import { test as graphqlTest } from '../fixtures/graphql.fixture';
+import { test as isolatedServerTest } from '../fixtures/isolated-server.fixture';
+import { graphqlErrors } from '../../tests/api/graphql-mocks';
+import type { GraphQLRequest, GraphQLResponse } from '../../tests/api/types';
+import type { CreateOrderPayload, Product, Query, QueryProductArgs } from '../../tests/api/graphql-types';
+
+// createOrder and friends change server data: each worker gets its own app instance
+const test = mergeTests(isolatedServerTest, networkTest, apiTest, graphqlTest);
+
+/**
+ * POST a GraphQL request from the page, like the app's own fetch calls
+ */
+function postGraphQL(page: Page, body: GraphQLRequest): Promise<GraphQLResponse> {
+    return page.evaluate(async data => {
+        const res = await fetch('/api/graphql', {
+            method: 'POST',
+            headers: { 'Content-Type': 'application/json' },
+            body: JSON.stringify(data)
+        });
+        return res.json();
+    }, body);
+}
 
 // ============================================================================
 // GRAPHQL API TESTING
@@ -62,6 +86,82 @@ test.describe('GraphQL API Testing', () => {
         });
     });
 
+    // ========================================================================
+    // Schema & Validation
+    // ========================================================================
+
+    test.describe('GraphQL Schema & Validation', () => {
+
+        test('should resolve aliases and fragments', async ({ api }) => {
+            const { body } = await api.graphql({
+                query: `
+                    query Pair {
+                        first: product(id: 1) { ...Summary }
+                        second: product(id: 2) { ...Summary }
+                    }
+                    fragment Summary on Product { id name }
+                `
+            });
+
+            const { first, second } = body.data as { first: Pick<Product, 'id' | 'name'>; second: Pick<Product, 'id' | 'name'> };
+            expect(first).toEqual({ id: 1, name: 'Laptop' });
+            expect(Object.keys(second)).toEqual(['id', 'name']);
+        });
+
+        test('should run the operation named by operationName', async ({ api }) => {
+            const { body } = await api.graphql({
+                query: `
+                    query Names { products { name } }
+                    query Prices { products { price } }
+                `,
+                operationName: 'Prices'
+            });
+
+            const data = body.data as Pick<Query, 'products'>;
+            expect(Object.keys(data.products[0])).toEqual(['price']);
+        });
+
+        test('should reject fields missing from the schema', async ({ api }) => {
+            const { body } = await api.expectStatus(400).graphql({
+                query: '{ products { id sku } }'
+            });
+
+            expect(body.data).toBeUndefined();
+            expect(body.errors?.[0].message).toContain('Cannot query field "sku"');
+            expect(body.errors?.[0].extensions?.code).toBe('GRAPHQL_VALIDATION_FAILED');
+        });
+
+        test('should reject variables that are not an object', async ({ api }) => {
+            const query = 'query Products($limit: Int) { products(limit: $limit) { name } }';
+
+            const { body } = await api.expectStatus(400).graphql({ query, variables: 'x' as unknown as GraphQLRequest['variables'] });
+            expect(body.errors?.[0].message).toBe('Variables must be an object');
+            expect(body.errors?.[0].extensions?.code).toBe('BAD_REQUEST');
+            const { body: operation } = await api.expectStatus(400).graphql({ query, operationName: 1 as unknown as string });
+            expect(operation.errors?.[0].message).toBe('operationName must be a string');
+
+            // Still answering afterwards
+            const { body: next } = await api.graphql({ query, variables: { limit: 1 } });
+            expect((next.data as Pick<Query, 'products'>).products).toHaveLength(1);
+        });
+
+        test('should describe the schema through introspection', async ({ api }) => {
+            const { body } = await api.graphql({
+                query: `
+                    {
+                        __type(name: "Product") {
+                            fields { name }
+                        }
+                    }
+                `
+            });
+
+            const data = body.data as { __type: { fields: { name: string }[] } };
+            const fields = data.__type.fields.map(field => field.name);
+            expect(fields).toEqual(expect.arrayContaining(['id', 'name', 'price', 'category', 'inStock']));
+        });
+    });
+
     // ========================================================================
     // Authenticated GraphQL
     // ========================================================================
@@ -98,6 +198,44 @@ test.describe('GraphQL API Testing', () => {
         });
     });
 
+    // ========================================================================
+    // GraphQL Mutations
+    // ========================================================================
+
+    test.describe('GraphQL Mutations', () => {
+        const createOrder = `
+            mutation CreateOrder($items: [OrderItemInput!]!) {
+                createOrder(items: $items) {
+                    order { id items { productId quantity } total status }
+                    success
+                }
+            }
+        `;
+
+        test('should create order using mutation', async ({ api }) => {
+            const { body: session } = await api.login({ email: 'test@example.com', password: 'password123' });
+            const { body } = await api.withToken(session.token).graphql({
+                query: createOrder,
+                variables: { items: [{ productId: 1, quantity: 2 }, { productId: 2, quantity: 1 }] }
+            });
+
+            const { order, success } = (body.data as { createOrder: CreateOrderPayload }).createOrder;
+            expect(success).toBe(true);
+            expect(order.items).toHaveLength(2);
+            expect(order.total).toBeGreaterThan(0);
+        });
+
+        test('should return error for empty order items', async ({ api }) => {
+            const { body: session } = await api.login({ email: 'test@example.com', password: 'password123' });
+            const { body } = await api.withToken(session.token).graphql({
+                query: createOrder,
+                variables: { items: [] }
+            });
+
+            expect(body.errors?.[0].message).toContain('required');
+        });
+    });
+
     // ========================================================================
     // Intercepting GraphQL Requests (Mocking)
     // ========================================================================
@@ -107,38 +245,93 @@ test.describe('GraphQL API Testing', () => {
             await page.goto('/');
         });
 
-        test('should intercept and mock GraphQL products query', async ({ page }) => {
-            await page.route('**/api/graphql', async route => {
-                const request = route.request();
-                const postData = request.postDataJSON();
-
-                // Check if it's the products query
-                if (postData.query && postData.query.includes('products')) {
-                    await route.fulfill({
-                        json: {
-                            data: {
-                                products: [
-                                    { id: 99, name: 'Mocked Product', price: 1.99, category: 'Test', inStock: true }
-                                ]
-                            }
-                        }
-                    });
-                } else {
-                    await route.continue();
+        test('should intercept and mock GraphQL products query', async ({ page, mockGraphQL }) => {
+            // No operationName in the body: the operation is found by parsing the query
+            const gql = await mockGraphQL({
+                GetProducts: {
+                    products: [
+                        { id: 99, name: 'Mocked Product', price: 1.99, category: 'Test', inStock: true }
+                    ]
                 }
             });
 
-            // Trigger request (using evaluate to mimic app behavior or just manual fetch)
-            const result = await page.evaluate(async () => {
-                const res = await fetch('/api/graphql', {
+            const result = await postGraphQL(page, { query: 'query GetProducts { products { id name price } }' });
+
+            expect((result.data as Pick<Query, 'products'>).products[0].name).toBe('Mocked Product');
+            expect(gql.count('GetProducts')).toBe(1);
+        });
+
+        test('should build mocked data from the operation variables', async ({ page, mockGraphQL }) => {
+            await mockGraphQL({
+                GetProduct: ({ id }: QueryProductArgs) => ({ product: { id, name: `Product ${id}` } })
+            });
+
+            const result = await postGraphQL(page, {
+                query: 'query GetProduct($id: Int!) { product(id: $id) { id name } }',
+                variables: { id: 42 },
+                operationName: 'GetProduct'
+            });
+
+            expect((result.data as Pick<Query, 'product'>).product).toEqual({ id: 42, name: 'Product 42' });
+        });
+
+        test('should pass unmocked GraphQL operations through to the server', async ({ page, mockGraphQL }) => {
+            const gql = await mockGraphQL({ GetProducts: { products: [] } });
+
+            const result = await postGraphQL(page, {
+                query: 'query GetProduct($id: Int!) { product(id: $id) { id name } }',
+                variables: { id: 1 }
+            });
+
+            expect((result.data as Pick<Query, 'product'>).product).toEqual({ id: 1, name: 'Laptop' });
+            const [call] = gql.calls('GetProduct');
+            expect(call.mocked).toBe(false);
+            expect(call.variables).toEqual({ id: 1 });
+        });
+
+        test('should mock GraphQL error payloads', async ({ page, mockGraphQL }) => {
+            await mockGraphQL({
+                GetProduct: graphqlErrors({ message: 'Product not found', extensions: { code: 'NOT_FOUND' } })
+            });
+
+            const result = await postGraphQL(page, {
+                query: 'query GetProduct($id: Int!) { product(id: $id) { id } }',
+                variables: { id: 1 }
+            });
+
+            expect(result.data).toBeNull();
+            expect(result.errors?.[0].extensions?.code).toBe('NOT_FOUND');
+        });
+
+        test('should count GraphQL calls per operation', async ({ page, mockGraphQL }) => {
+            const gql = await mockGraphQL({ GetProducts: { products: [] } });
+
+            await postGraphQL(page, { query: 'query GetProducts { products { id } }' });
+            await postGraphQL(page, { query: 'query GetProducts { products { id } }' });
+            await postGraphQL(page, { query: 'query GetProduct { product(id: 1) { id } }' });
+
+            await gql.wait('GetProducts');
+            expect(gql.count('GetProducts')).toBe(2);
+            expect(gql.count('GetProduct')).toBe(1);
+        });
+
+        test('should spy on GraphQL requests and verify query', async ({ page, network }) => {
+            await network.intercept('POST', '/api/graphql').as('graphql');
+
+            await page.evaluate(() => {
+                fetch('/api/graphql', {
                     method: 'POST',
                     headers: { 'Content-Type': 'application/json' },
-                    body: JSON.stringify({ query: '{ products { id name price } }' })
+                    body: JSON.stringify({ query: '{ products { id name } }' })
                 });
-                return res.json();
             });
 
-            expect(result.data.products[0].name).toBe('Mocked Product');
+            const interception = await network.wait('@graphql');
+            const request = interception.request.body as GraphQLRequest;
+            const response = interception.response?.body as GraphQLResponse<Pick<Query, 'products'>> | undefined;
+            expect(request.query).toContain('products');
+            expect(interception.request.method).toBe('POST');
+            expect(Array.isArray(response?.data?.products)).toBe(true);
         });
     });
 });
@@ -1,11 +1,7 @@
 import { test, expect } from '@playwright/test';
 import { LoginPage } from '../pages/LoginPage';
 import { MyAccountPage } from '../pages/MyAccountPage';
-import fs from 'fs';
-import path from 'path';
-
-// Load fixture data
-const users = JSON.parse(fs.readFileSync(path.join(__dirname, '../../cypress/fixtures/users.json'), 'utf-8'));
+import { users } from '../../tests/fixtures/users';
 
 test.describe('Login Functionality', () => {
     let loginPage: LoginPage;
@@ -17,7 +13,7 @@ test.describe('Login Functionality', () => {
     });
 
     test('login with valid credentials', async ({ page }) => {
-        await loginPage.login(users.valid_credentials.emailId, users.valid_credentials.password);
+        await loginPage.login(users.validCredentials.emailId, users.validCredentials.password);
         await myAccountPage.validateSuccessfulLogin();
         await myAccountPage.logout();
         await myAccountPage.validateSuccessfulLogout();
@@ -25,7 +21,7 @@ test.describe('Login Functionality', () => {
 
     // Since we loaded data from fixture, this test is effectively the same as above but with explicit data usage
     test('login with valid credentials read data from fixture', async ({ page }) => {
-        await loginPage.login(users.valid_credentials.emailId, users.valid_credentials.password);
+        await loginPage.login(users.validCredentials.emailId, users.validCredentials.password);
         await myAccountPage.validateSuccessfulLogin();
         await myAccountPage.logout();
         await myAccountPage.validateSuccessfulLogout();
@@ -33,24 +29,24 @@ test.describe('Login Functionality', () => {
 
     test('login with invalid email credentials read data from fixture', async ({ page }) => {
         await loginPage.login(
-            users.invalid_credentials.invalid_email.emailId,
-            users.invalid_credentials.invalid_email.password
+            users.invalidCredentials.invalidEmail.emailId,
+            users.invalidCredentials.invalidEmail.password
         );
         await loginPage.validateLoginError('Invalid email or password');
     });
 
     test('login with invalid password credentials read data from fixture', async ({ page }) => {
         await loginPage.login(
-            users.invalid_credentials.invalid_password.emailId,
-            users.invalid_credentials.invalid_password.password
+            users.invalidCredentials.invalidPassword.emailId,
+            users.invalidCredentials.invalidPassword.password
         );
         await loginPage.validateLoginError('Invalid email or password');
     });
 
     test('login with wrong email format credentials read data from fixture', async ({ page }) => {
         await loginPage.login(
-            users.invalid_credentials.wrong_email_format.emailId,
-            users.invalid_credentials.wrong_email_format.password
+            users.invalidCredentials.wrongEmailFormat.emailId,
+            users.invalidCredentials.wrongEmailFormat.password
         );
         // The test-app validates email format client-side
         await loginPage.validateEmailError();
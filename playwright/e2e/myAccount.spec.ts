@@ -1,10 +1,7 @@
 import { test, expect } from '@playwright/test';
 import { LoginPage } from '../pages/LoginPage';
 import { MyAccountPage } from '../pages/MyAccountPage';
-import fs from 'fs';
-import path from 'path';
-
-const users = JSON.parse(fs.readFileSync(path.join(__dirname, '../../cypress/fixtures/users.json'), 'utf-8'));
+import { users } from '../../tests/fixtures/users';
 
 test.describe('My Account Functionality', () => {
     let loginPage: LoginPage;
@@ -16,25 +13,25 @@ test.describe('My Account Functionality', () => {
     });
 
     test('should display dashboard after login', async ({ page }) => {
-        await loginPage.login(users.valid_credentials.emailId, users.valid_credentials.password);
+        await loginPage.login(users.validCredentials.emailId, users.validCredentials.password);
         await myAccountPage.validateSuccessfulLogin();
     });
 
     test('should display user information on dashboard', async ({ page }) => {
-        await loginPage.login(users.valid_credentials.emailId, users.valid_credentials.password);
+        await loginPage.login(users.validCredentials.emailId, users.validCredentials.password);
 
         await expect(myAccountPage.userName).toBeVisible();
         await expect(myAccountPage.userEmail).toBeVisible();
     });
 
     test('should navigate to orders section', async ({ page }) => {
-        await loginPage.login(users.valid_credentials.emailId, users.valid_credentials.password);
+        await loginPage.login(users.validCredentials.emailId, users.validCredentials.password);
         await myAccountPage.navigateToOrders();
         await expect(myAccountPage.ordersSection).toBeVisible();
     });
 
     test('should handle storage operations', async ({ page }) => {
-        await loginPage.login(users.valid_credentials.emailId, users.valid_credentials.password);
+        await loginPage.login(users.validCredentials.emailId, users.validCredentials.password);
 
         await myAccountPage.setStorageBtn.click();
         await expect(myAccountPage.storageResult).toContainText('localStorage');
@@ -44,7 +41,7 @@ test.describe('My Account Functionality', () => {
     });
 
     test('should logout and redirect to login', async ({ page }) => {
-        await loginPage.login(users.valid_credentials.emailId, users.valid_credentials.password);
+        await loginPage.login(users.validCredentials.emailId, users.validCredentials.password);
         await myAccountPage.logout();
         await myAccountPage.validateSuccessfulLogout();
     });
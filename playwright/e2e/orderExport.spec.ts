@@ -0,0 +1,143 @@
+import { mergeTests } from '@playwright/test';
+import { test as apiTest, expect } from '../fixtures/api.fixture';
+import { test as appStateTest } from '../fixtures/app-state.fixture';
+import { test as authTest } from '../fixtures/auth.fixture';
+import { test as downloadsTest, readCsvDownload, readPdfDownload } from '../fixtures/downloads.fixture';
+import { test as isolatedServerTest } from '../fixtures/isolated-server.fixture';
+import { orderCsvRecord, orderPdfLine, parseCsvRecords, pdfText } from '../../tests/api/exports';
+import { createPlaywrightClient } from '../../tests/api/playwright';
+import type { ExportFormat, Order, Product } from '../../tests/api/types';
+import { users } from '../../tests/fixtures/users';
+
+// Orders are seeded per test: each worker gets its own app instance
+const test = mergeTests(isolatedServerTest, authTest, apiTest, appStateTest, downloadsTest);
+
+// ============================================================================
+// ORDERS EXPORT - CSV and PDF Downloads
+// ============================================================================
+// /api/orders/export writes the signed-in user's orders as orders.csv or
+// orders.pdf. The files are parsed with tests/api/exports.ts and compared
+// with /api/orders, through the API and through the dashboard's Export button.
+
+const { emailId: email, password } = users.validCredentials;
+
+// A comma and quotes in a product name exercise CSV quoting
+const cable: Product = { id: 1, name: 'Cable, "braided"', price: 12.5, category: 'Accessories', inStock: true };
+const monitor: Product = { id: 2, name: 'Monitor', price: 299.99, category: 'Electronics', inStock: true };
+
+const seededOrders: Order[] = [
+    {
+        id: 1,
+        userId: 1,
+        items: [{ productId: 1, name: cable.name, price: cable.price, quantity: 2 }],
+        total: 25,
+        status: 'pending',
+        createdAt: '2024-01-01T09:00:00.000Z'
+    },
+    {
+        id: 2,
+        userId: 1,
+        items: [
+            { productId: 2, name: monitor.name, price: monitor.price, quantity: 1 },
+            { productId: 1, name: cable.name, price: cable.price, quantity: 1 }
+        ],
+        total: 312.49,
+        status: 'delivered',
+        createdAt: '2024-01-02T15:30:00.000Z'
+    },
+    // Another user's order, never exported for Test User
+    {
+        id: 3,
+        userId: 2,
+        items: [{ productId: 2, name: monitor.name, price: monitor.price, quantity: 1 }],
+        total: 299.99,
+        status: 'pending',
+        createdAt: '2024-01-03T12:00:00.000Z'
+    }
+];
+
+test.describe('Orders Export', () => {
+    test.beforeEach(async ({ seedApp }) => {
+        await seedApp({ products: [cable, monitor], orders: seededOrders });
+    });
+
+    test.describe('API', () => {
+        test.beforeEach(async ({ api }) => {
+            await api.login({ email, password });
+        });
+
+        test('should export orders as CSV', async ({ api }) => {
+            const { body, headers } = await api.exportOrders('csv');
+
+            expect(headers['content-type']).toContain('text/csv');
+            expect(headers['content-disposition']).toBe('attachment; filename="orders.csv"');
+            const { body: { orders } } = await api.listOrders();
+            expect(parseCsvRecords(body)).toEqual(orders.map(orderCsvRecord));
+        });
+
+        test('should quote CSV fields with commas and quotes', async ({ api }) => {
+            const { body } = await api.exportOrders('csv');
+
+            expect(body).toContain('"Cable, ""braided"" x2"');
+            expect(parseCsvRecords(body)[0].items).toBe('Cable, "braided" x2');
+        });
+
+        test('should export orders as PDF', async ({ api }) => {
+            const { body, headers } = await api.exportOrders('pdf');
+
+            expect(headers['content-type']).toBe('application/pdf');
+            expect(body.startsWith('%PDF-1.4')).toBe(true);
+            const { body: { orders } } = await api.listOrders();
+            expect(pdfText(body)).toEqual([
+                'Orders Export',
+                'Test User <test@example.com>',
+                'Orders: 2',
+                '',
+                ...orders.map(orderPdfLine)
+            ]);
+        });
+
+        test('should only export the signed-in user\'s orders', async ({ api }) => {
+            const { body } = await api.exportOrders('csv');
+
+            expect(parseCsvRecords(body).map(row => row.id)).toEqual(['1', '2']);
+        });
+
+        test('should reject unknown formats and anonymous requests', async ({ api }) => {
+            const { body } = await api.expectStatus(400).exportOrders('xml' as unknown as ExportFormat);
+            expect(body.error).toBe('Unsupported export format: xml');
+
+            await api.logout();
+            await api.expectStatus(401).exportOrders('csv');
+        });
+    });
+
+    test.describe('Dashboard Export', () => {
+        test.beforeEach(async ({ page }) => {
+            const { body } = await createPlaywrightClient(page.request).login({ email, password });
+            await page.addInitScript(({ token, user }) => {
+                localStorage.setItem('authToken', token);
+                localStorage.setItem('user', JSON.stringify(user));
+            }, { token: body.token, user: body.user });
+            await page.goto('/dashboard');
+        });
+
+        test('should download the orders as CSV', async ({ page, myAccountPage, captureDownload }) => {
+            const download = await captureDownload(() => myAccountPage.exportOrders('csv'));
+
+            expect(download.suggestedFilename()).toBe('orders.csv');
+            const { body: { orders } } = await createPlaywrightClient(page.request).listOrders();
+            expect(await readCsvDownload(download)).toEqual(orders.map(orderCsvRecord));
+        });
+
+        test('should download the orders as PDF', async ({ page, myAccountPage, captureDownload }) => {
+            const download = await captureDownload(() => myAccountPage.exportOrders('pdf'));
+
+            expect(download.suggestedFilename()).toBe('orders.pdf');
+            const { body: { orders } } = await createPlaywrightClient(page.request).listOrders();
+            const lines = await readPdfDownload(download);
+            expect(lines).toContain('Orders: 2');
+            expect(lines.slice(-orders.length)).toEqual(orders.map(orderPdfLine));
+        });
+    });
+});
@@ -0,0 +1,236 @@
+import { mergeTests } from '@playwright/test';
+import { test as apiTest, expect } from '../fixtures/api.fixture';
+import { test as appStateTest } from '../fixtures/app-state.fixture';
+import { test as authTest } from '../fixtures/auth.fixture';
+import { test as isolatedServerTest } from '../fixtures/isolated-server.fixture';
+import { createPlaywrightClient, type PlaywrightApiClient } from '../../tests/api/playwright';
+import type { Mutation } from '../../tests/api/graphql-types';
+import type { Order } from '../../tests/api/types';
+import { users } from '../../tests/fixtures/users';
+
+// Orders are seeded per test: each worker gets its own app instance
+const test = mergeTests(isolatedServerTest, authTest, apiTest, appStateTest);
+
+// ============================================================================
+// ORDER LIFECYCLE - pending → paid → shipped → delivered, pending → cancelled
+// ============================================================================
+// Each transition is a REST call (POST /api/orders/:id/pay), a GraphQL
+// mutation (payOrder) and a row action in the dashboard's orders table.
+// Moves the state machine does not allow are a 409 listing the allowed ones.
+// Paying and cancelling are the owner's; shipping and delivering the admin's.
+
+const { emailId: email, password } = users.validCredentials;
+const { emailId: adminEmail, password: adminPassword } = users.adminCredentials;
+
+const pendingOrder = (id: number, userId = 1): Order => ({
+    id,
+    userId,
+    items: [{ productId: 1, name: 'Laptop', price: 999.99, quantity: 1 }],
+    total: 999.99,
+    status: 'pending',
+    createdAt: '2024-01-01T09:00:00.000Z'
+});
+
+// Orders 1 and 2 belong to Test User, order 3 to the admin
+const seededOrders: Order[] = [pendingOrder(1), pendingOrder(2), pendingOrder(3, 2)];
+
+test.describe('Order Lifecycle', () => {
+    test.beforeEach(async ({ seedApp }) => {
+        await seedApp({ orders: seededOrders });
+    });
+
+    test.describe('REST Transitions', () => {
+        // Ships and delivers with a Bearer token; the user logs in last and keeps the cookie
+        let admin: PlaywrightApiClient;
+
+        test.beforeEach(async ({ api }) => {
+            const { body } = await api.login({ email: adminEmail, password: adminPassword });
+            admin = api.withToken(body.token);
+            await api.login({ email, password });
+        });
+
+        test('should walk an order from pending to delivered', async ({ api }) => {
+            const { body: paid } = await api.payOrder(1);
+            expect(paid.order.status).toBe('paid');
+            expect(paid.message).toBe('Order #1 paid');
+
+            const { body: shipped } = await admin.shipOrder(1);
+            expect(shipped.order.status).toBe('shipped');
+
+            const { body: delivered } = await admin.deliverOrder(1);
+            expect(delivered.order.status).toBe('delivered');
+
+            const { body: { orders } } = await api.listOrders();
+            expect(orders.map(order => order.status)).toEqual(['delivered', 'pending']);
+        });
+
+        test('should cancel a pending order', async ({ api }) => {
+            const { body } = await api.cancelOrder(2);
+
+            expect(body.order.status).toBe('cancelled');
+            expect(body.message).toBe('Order #2 cancelled');
+        });
+
+        test('should reject transitions the current status does not allow with 409', async ({ api }) => {
+            const { body: shipPending } = await admin.expectStatus(409).shipOrder(1);
+            expect(shipPending).toEqual({
+                error: 'Cannot ship a pending order',
+                status: 'pending',
+                allowedActions: ['pay', 'cancel']
+            });
+            await admin.expectStatus(409).deliverOrder(1);
+
+            await api.payOrder(1);
+
+            const { body: payTwice } = await api.expectStatus(409).payOrder(1);
+            expect(payTwice.error).toBe('Cannot pay a paid order');
+            expect(payTwice.allowedActions).toEqual(['ship']);
+            const { body: cancelPaid } = await api.expectStatus(409).cancelOrder(1);
+            expect(cancelPaid.error).toBe('Cannot cancel a paid order');
+        });
+
+        test('should not move delivered or cancelled orders', async ({ api }) => {
+            await api.payOrder(1);
+            await admin.shipOrder(1);
+            await admin.deliverOrder(1);
+            await api.cancelOrder(2);
+
+            const { body: delivered } = await api.expectStatus(409).cancelOrder(1);
+            expect(delivered).toEqual({ error: 'Cannot cancel a delivered order', status: 'delivered', allowedActions: [] });
+            const { body: cancelled } = await api.expectStatus(409).payOrder(2);
+            expect(cancelled).toEqual({ error: 'Cannot pay a cancelled order', status: 'cancelled', allowedActions: [] });
+        });
+
+        test('should only let admins ship and deliver', async ({ api }) => {
+            await api.payOrder(1);
+
+            const { body: ship } = await api.expectStatus(403).shipOrder(1);
+            expect(ship.error).toBe('Admin access required');
+            await api.expectStatus(403).deliverOrder(1);
+
+            // Admins fulfil any user's order, paying and cancelling stay with the owner
+            const { body: shipped } = await admin.shipOrder(1);
+            expect(shipped.order.status).toBe('shipped');
+            await admin.expectStatus(404).payOrder(2);
+            await admin.expectStatus(404).cancelOrder(2);
+        });
+
+        test('should not transition other users\' orders or anonymously', async ({ api }) => {
+            const { body: other } = await api.expectStatus(404).payOrder(3);
+            expect(other.error).toBe('Order not found');
+            await api.expectStatus(404).payOrder(99);
+
+            await api.logout();
+            await api.expectStatus(401).payOrder(1);
+        });
+    });
+
+    test.describe('GraphQL Mutations', () => {
+        const transition = (mutation: string) => `
+            mutation Transition($id: Int!) {
+                ${mutation}(id: $id) {
+                    order { id status }
+                    success
+                    message
+                }
+            }
+        `;
+
+        // GraphQL reads the Bearer token only: one client per role
+        let client: PlaywrightApiClient;
+        let admin: PlaywrightApiClient;
+
+        test.beforeEach(async ({ api }) => {
+            const { body: session } = await api.login({ email, password });
+            client = api.withToken(session.token);
+            const { body: adminSession } = await api.login({ email: adminEmail, password: adminPassword });
+            admin = api.withToken(adminSession.token);
+        });
+
+        test('should walk an order through the mutations', async () => {
+            for (const [mutation, status, caller] of [['payOrder', 'paid', client], ['shipOrder', 'shipped', admin], ['deliverOrder', 'delivered', admin]] as const) {
+                const { body } = await caller.graphql({ query: transition(mutation), variables: { id: 1 } });
+                const data = body.data as Partial<Mutation>;
+
+                expect(data[mutation]).toEqual({ order: { id: 1, status }, success: true, message: `Order #1 ${status}` });
+            }
+
+            const { body } = await client.graphql({ query: transition('cancelOrder'), variables: { id: 2 } });
+            expect((body.data as Partial<Mutation>).cancelOrder?.order.status).toBe('cancelled');
+        });
+
+        test('should return CONFLICT errors for illegal transitions', async () => {
+            const { body } = await admin.graphql({ query: transition('shipOrder'), variables: { id: 1 } });
+
+            expect((body.data as Partial<Mutation>).shipOrder).toBeNull();
+            expect(body.errors?.[0].message).toBe('Cannot ship a pending order');
+            expect(body.errors?.[0].extensions).toEqual({ code: 'CONFLICT', status: 'pending', allowedActions: ['pay', 'cancel'] });
+
+            const { body: other } = await client.graphql({ query: transition('payOrder'), variables: { id: 3 } });
+            expect(other.errors?.[0].extensions?.code).toBe('NOT_FOUND');
+        });
+
+        test('should return FORBIDDEN when users ship or deliver', async () => {
+            await client.graphql({ query: transition('payOrder'), variables: { id: 1 } });
+
+            for (const mutation of ['shipOrder', 'deliverOrder'] as const) {
+                const { body } = await client.graphql({ query: transition(mutation), variables: { id: 1 } });
+
+                expect((body.data as Partial<Mutation>)[mutation]).toBeNull();
+                expect(body.errors?.[0].message).toBe('Admin access required');
+                expect(body.errors?.[0].extensions).toEqual({ code: 'FORBIDDEN' });
+            }
+        });
+    });
+
+    test.describe('Dashboard Row Actions', () => {
+        test.beforeEach(async ({ page }) => {
+            const { body } = await createPlaywrightClient(page.request).login({ email, password });
+            await page.addInitScript(({ token, user }) => {
+                localStorage.setItem('authToken', token);
+                localStorage.setItem('user', JSON.stringify(user));
+            }, { token: body.token, user: body.user });
+            await page.goto('/dashboard');
+        });
+
+        test('should offer only the actions the status allows', async ({ myAccountPage }) => {
+            await myAccountPage.validateOrder(1, 'pending', ['pay', 'cancel']);
+            await myAccountPage.validateOrder(2, 'pending', ['pay', 'cancel']);
+            await expect(myAccountPage.orderRow(3)).toHaveCount(0);
+        });
+
+        test('should walk an order through the row actions', async ({ page, api, myAccountPage }) => {
+            await myAccountPage.transitionOrder(1, 'pay');
+            await expect(myAccountPage.orderActionResult).toContainText('Order #1 paid');
+            // Shipping is the admin's: no button for the user
+            await myAccountPage.validateOrder(1, 'paid', []);
+
+            // `api` is a separate request context: the page stays signed in as the user
+            const { body } = await api.login({ email: adminEmail, password: adminPassword });
+            const admin = api.withToken(body.token);
+            await admin.shipOrder(1);
+            await admin.deliverOrder(1);
+            await page.reload();
+
+            await myAccountPage.validateOrder(1, 'delivered', []);
+            await myAccountPage.validateOrder(2, 'pending', ['pay', 'cancel']);
+        });
+
+        test('should cancel an order from its row', async ({ myAccountPage }) => {
+            await myAccountPage.transitionOrder(2, 'cancel');
+
+            await expect(myAccountPage.orderActionResult).toContainText('Order #2 cancelled');
+            await myAccountPage.validateOrder(2, 'cancelled', []);
+        });
+
+        test('should show the 409 when the order changed since the table loaded', async ({ page, myAccountPage }) => {
+            await myAccountPage.validateOrder(1, 'pending', ['pay', 'cancel']);
+            await createPlaywrightClient(page.request).payOrder(1);
+
+            await myAccountPage.transitionOrder(1, 'cancel');
+
+            await expect(myAccountPage.orderActionResult).toContainText('Order #1: Cannot cancel a paid order');
+            await myAccountPage.validateOrder(1, 'paid', []);
+        });
+    });
+});
@@ -0,0 +1,170 @@
+import { mergeTests } from '@playwright/test';
+import { test as apiTest, expect } from '../fixtures/api.fixture';
+import { test as authTest } from '../fixtures/auth.fixture';
+import { test as faultTest } from '../fixtures/fault.fixture';
+import { test as uploadsTest } from '../fixtures/uploads.fixture';
+import { MAX_CHUNK_BYTES, crc32, splitChunks } from '../../tests/api/chunks';
+import type { UploadFile } from '../../tests/api/types';
+import { MAX_UPLOAD_BYTES } from '../../tests/api/uploads';
+
+const test = mergeTests(authTest, apiTest, faultTest, uploadsTest);
+
+// ============================================================================
+// RESUMABLE UPLOADS - Chunks, Progress, Cancel and Resume
+// ============================================================================
+// Covers the chunked upload protocol through the typed API client, then the
+// upload page's progress bar, Cancel and Resume buttons. withFault() slows
+// chunks down or drops one connection on the real server (TEST_API=true), so
+// the page goes through its real pause and resume path.
+
+// The upload page sends 64 KB chunks; API tests use the 1 KB minimum
+const PAGE_CHUNK_SIZE = 64 * 1024;
+const API_CHUNK_SIZE = 1024;
+
+const textOfSize = (size: number) => 'resumable-upload-'.repeat(Math.ceil(size / 17)).slice(0, size);
+
+const apiContents = textOfSize(2 * API_CHUNK_SIZE + 452);
+const apiFile = { fileName: 'chunked.txt', mimeType: 'text/plain', size: apiContents.length, chunkSize: API_CHUNK_SIZE };
+
+// Five chunks on the page: four full ones and a short last one
+const pageFile: UploadFile = { name: 'resumable.txt', mimeType: 'text/plain', contents: textOfSize(4 * PAGE_CHUNK_SIZE + 1000) };
+
+test.describe('Resumable Uploads', () => {
+
+    test.describe('Protocol', () => {
+
+        test('should upload a file in checksummed chunks', async ({ api, uploads }) => {
+            const { body: started } = await api.initUpload(apiFile);
+            expect(started.totalChunks).toBe(3);
+            expect(started.missingChunks).toEqual([0, 1, 2]);
+
+            for (const [index, data] of splitChunks(apiContents, API_CHUNK_SIZE).entries()) {
+                await api.uploadChunk({ uploadId: started.uploadId, index, data });
+            }
+            const { body } = await api.completeUpload({ uploadId: started.uploadId, checksum: crc32(apiContents) });
+            uploads.track(body.file);
+
+            expect(body.file.originalName).toBe('chunked.txt');
+            expect(body.file.size).toBe(apiContents.length);
+            const { body: downloaded } = await api.download(body.file.filename);
+            expect(downloaded).toBe(apiContents);
+        });
+
+        test('should reject a chunk with a wrong checksum', async ({ api }) => {
+            const [first] = splitChunks(apiContents, API_CHUNK_SIZE);
+            const { body: started } = await api.initUpload(apiFile);
+
+            const { body } = await api.expectStatus(422).uploadChunk({ uploadId: started.uploadId, index: 0, data: first, checksum: '00000000' });
+            expect(body.error).toBe('Checksum mismatch');
+            expect(body.actual).toBe(crc32(first));
+
+            const { body: status } = await api.uploadStatus(started.uploadId);
+            expect(status.receivedChunks).toEqual([]);
+        });
+
+        test('should reject a chunk over the size limit', async ({ api }) => {
+            const { body: started } = await api.initUpload(apiFile);
+
+            const { body } = await api.expectStatus(413).uploadChunk({ uploadId: started.uploadId, index: 0, data: new Uint8Array(MAX_CHUNK_BYTES + 1) });
+            expect(body.error).toBe('Request body too large');
+
+            const { body: status } = await api.uploadStatus(started.uploadId);
+            expect(status.receivedChunks).toEqual([]);
+        });
+
+        test('should resume from the chunks the server reports missing', async ({ api, uploads }) => {
+            const chunks = splitChunks(apiContents, API_CHUNK_SIZE);
+            const { body: { uploadId } } = await api.initUpload(apiFile);
+            await api.uploadChunk({ uploadId, index: 0, data: chunks[0] });
+            await api.uploadChunk({ uploadId, index: 2, data: chunks[2] });
+
+            const { body: incomplete } = await api.expectStatus(409).completeUpload({ uploadId });
+            expect(incomplete.missingChunks).toEqual([1]);
+
+            const { body: status } = await api.uploadStatus(uploadId);
+            expect(status.receivedChunks).toEqual([0, 2]);
+            for (const index of status.missingChunks) {
+                await api.uploadChunk({ uploadId, index, data: chunks[index] });
+            }
+            const { body } = await api.completeUpload({ uploadId, checksum: crc32(apiContents) });
+            uploads.track(body.file);
+            expect(body.file.size).toBe(apiContents.length);
+        });
+
+        test('should forget a cancelled upload', async ({ api }) => {
+            const [first] = splitChunks(apiContents, API_CHUNK_SIZE);
+            const { body: started } = await api.initUpload(apiFile);
+            await api.uploadChunk({ uploadId: started.uploadId, index: 0, data: first });
+
+            const { body } = await api.cancelUpload(started.uploadId);
+            expect(body.message).toBe('Upload cancelled');
+
+            const { body: missing } = await api.expectStatus(404).uploadStatus(started.uploadId);
+            expect(missing.error).toBe('Upload not found');
+            await api.expectStatus(404).uploadChunk({ uploadId: started.uploadId, index: 1, data: first });
+        });
+
+        test('should validate the file when the upload starts', async ({ api }) => {
+            const { body: typeError } = await api.expectStatus(400).initUpload({ ...apiFile, mimeType: 'application/x-sh' });
+            expect(typeError.error).toBe('File upload error: Invalid file type');
+            // Same limit as /api/upload, so chunking cannot get around it
+            const { body: sizeError } = await api.expectStatus(400).initUpload({ ...apiFile, size: MAX_UPLOAD_BYTES });
+            expect(sizeError.error).toBe('File upload error: File too large');
+            const { body: largest } = await api.initUpload({ ...apiFile, size: MAX_UPLOAD_BYTES - 1 });
+            await api.cancelUpload(largest.uploadId);
+        });
+    });
+
+    test.describe('Progress UI', () => {
+        test.beforeEach(async ({ page, uploadPage, uploads }) => {
+            uploads.trackPage(page);
+            await uploadPage.visit();
+        });
+
+        test('should report progress while chunks are throttled', async ({ uploadPage, withFault }) => {
+            await withFault('**/api/upload/*/chunks/*', { type: 'latency', delay: 400 });
+
+            await uploadPage.startChunkedUpload(pageFile);
+
+            await expect(uploadPage.chunkedUploadStatus).toHaveText('Uploading...');
+            await uploadPage.validateChunkedProgress(2, 5);
+            await uploadPage.validateChunkedUploadSuccess();
+            await uploadPage.validateChunkedProgress(5, 5);
+            await expect(uploadPage.chunkedProgress).toHaveAttribute('aria-valuenow', '100');
+        });
+
+        test('should cancel an upload mid-way', async ({ uploadPage, withFault, api }) => {
+            await withFault('**/api/upload/*/chunks/*', { type: 'latency', delay: 1000 });
+
+            await uploadPage.startChunkedUpload(pageFile);
+            await uploadPage.validateChunkedProgress(1, 5);
+            await uploadPage.cancelChunkedUpload();
+
+            await expect(uploadPage.chunkedUploadStatus).toHaveText('Upload cancelled');
+            await expect(uploadPage.chunkedCancelBtn).toBeDisabled();
+            await expect(uploadPage.chunkedUploadBtn).toBeEnabled();
+            const uploadId = await uploadPage.chunkedUploadStatus.getAttribute('data-upload-id');
+            await api.expectStatus(404).uploadStatus(uploadId!);
+        });
+
+        test('should resume after the connection drops mid-upload', async ({ uploadPage, withFault, api }) => {
+            await withFault('**/api/upload/*/chunks/2', { type: 'drop', count: 1 });
+
+            await uploadPage.startChunkedUpload(pageFile);
+
+            await expect(uploadPage.chunkedUploadStatus).toContainText('Connection lost at chunk 3 of 5');
+            await expect(uploadPage.chunkedResumeBtn).toBeVisible();
+            await uploadPage.validateChunkedProgress(2, 5);
+            const uploadId = await uploadPage.chunkedUploadStatus.getAttribute('data-upload-id');
+            const { body: status } = await api.uploadStatus(uploadId!);
+            expect(status.missingChunks).toEqual([2, 3, 4]);
+
+            await uploadPage.resumeChunkedUpload();
+
+            await uploadPage.validateChunkedUploadSuccess();
+            await expect(uploadPage.chunkedResumeBtn).toBeHidden();
+            const { body: downloaded } = await api.download(await uploadPage.chunkedUploadedFilename.innerText());
+            expect(downloaded).toBe(pageFile.contents);
+        });
+    });
+});
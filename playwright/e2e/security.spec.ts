@@ -35,38 +35,55 @@ test.describe('OWASP Security Checks', () => {
     });
 
     test.describe('Broken Access Control', () => {
-        test.skip('should redirect unauthenticated users identifying protected resources', async ({ page }) => {
+        test('should redirect unauthenticated users identifying protected resources', async ({ page }) => {
+            // The server redirects before any dashboard HTML is sent (no client-side checkAuth())
+            const response = await page.request.get('/dashboard', { maxRedirects: 0 });
+            expect(response.status()).toBe(302);
+
             await page.goto('/dashboard');
             await expect(page).toHaveURL(/.*\/login/);
-            await expect(page.locator('h1')).toContainText('Login');
+            await expect(page.locator('h1')).toContainText('Sign In');
         });
     });
 
     test.describe('Security Misconfiguration (Headers)', () => {
-        test('should have standard security headers', async ({ request }) => {
+        test('should have standard security headers', async ({ request, baseURL }) => {
+            test.skip(!baseURL?.startsWith('https'), 'Needs the app in SECURE_MODE (SECURE_MODE=true npx playwright test)');
+
             const response = await request.get('/');
             const headers = response.headers();
-            expect(headers['x-powered-by']).toBeDefined();
+
+            // Nothing that names the server stack
+            expect(headers['x-powered-by']).toBeUndefined();
+            expect(headers['content-security-policy']).toContain("default-src 'self'");
+            expect(headers['content-security-policy']).toContain("object-src 'none'");
+            expect(headers['content-security-policy']).toContain("frame-ancestors 'none'");
+            expect(headers['strict-transport-security']).toMatch(/max-age=\d+/);
+            expect(headers['x-frame-options']).toBe('DENY');
+            expect(headers['referrer-policy']).toBe('no-referrer');
+            expect(headers['x-content-type-options']).toBe('nosniff');
         });
     });
 
     test.describe('Insecure Design (Cookie Flags)', () => {
-        test.skip('should use Secure and HttpOnly flags for session cookies', async ({ page, request }) => {
-            // Login to get cookie
-            await request.post('/api/auth/login', {
+        test('should use Secure and HttpOnly flags for session cookies', async ({ page, baseURL }) => {
+            // Login through the page's request context, so the cookies land in the browser
+            await page.request.post('/api/auth/login', {
                 data: { email: 'test@example.com', password: 'password123' }
             });
 
-            // Reload page to get cookies in context
-            await page.reload();
-
             const cookies = await page.context().cookies();
             const authCookie = cookies.find(c => c.name === 'authToken');
+            const refreshCookie = cookies.find(c => c.name === 'refreshToken');
 
-            if (authCookie) {
-                expect(authCookie.httpOnly).toBe(true);
-                // Secure flag depends on HTTPS environment
-                // expect(authCookie.secure).toBe(true);
+            expect(authCookie?.httpOnly).toBe(true);
+            expect(refreshCookie?.httpOnly).toBe(true);
+            expect(refreshCookie?.path).toBe('/api/auth');
+            // Secure and SameSite are set in SECURE_MODE (HTTPS)
+            if (baseURL?.startsWith('https')) {
+                expect(authCookie?.secure).toBe(true);
+                expect(authCookie?.sameSite).toBe('Strict');
+                expect(refreshCookie?.secure).toBe(true);
             }
         });
     });
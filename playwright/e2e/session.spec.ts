@@ -1,52 +1,36 @@
-import { test, expect } from '@playwright/test';
+import { test, expect } from '../fixtures/auth.fixture';
+import { TestIds } from '../../tests/test-ids';
 
 // ============================================================================
 // SESSION TESTING - Caching Authentication State
 // ============================================================================
+// The `setup` project logs in once per role (playwright/setup/auth.setup.ts);
+// test.use({ role }) restores that storage state instead of logging in again.
 
 test.describe('Session Testing - Caching / Restore', () => {
 
-    const testUser = {
-        email: 'test@example.com',
-        password: 'password123'
-    };
-
-    /**
-     * Simple login helper for Playwright
-     */
-    async function login(page: any) {
-        await page.goto('/login');
-        await page.getByTestId('email-input').fill(testUser.email);
-        await page.getByTestId('password-input').fill(testUser.password);
-        await page.getByTestId('submit-btn').click();
-        await expect(page).toHaveURL(/.*\/dashboard/);
-    }
+    test.use({ role: 'user' });
 
     test('should log in for Test 1', async ({ page }) => {
-        await login(page);
         await page.goto('/dashboard');
         await expect(page.locator('h1')).toContainText('Dashboard');
     });
 
     test('should demonstrate session restore concept (Playwright uses storageState)', async ({ page }) => {
-        // In Playwright, you typically save storage state to a file and reuse it.
-        // For this migration parity, we will just login again, but in a real PW suite, 
-        // you would use test.use({ storageState: 'auth.json' }).
-        await login(page);
+        // Cookie and localStorage come from playwright/.auth/user.json
         await page.goto('/dashboard');
-        await expect(page.getByTestId('page-title')).toContainText('Dashboard');
-        await expect(page.getByTestId('sidebar')).toBeVisible();
+        await expect(page.getByTestId(TestIds.dashboard.pageTitle)).toContainText('Dashboard');
+        await expect(page.getByTestId(TestIds.dashboard.sidebar)).toBeVisible();
     });
 
     test('should allow navigation with session', async ({ page }) => {
-        await login(page);
         await page.goto('/dashboard');
-        await page.getByTestId('nav-orders').click();
-        await expect(page.getByTestId('orders-section')).toBeVisible();
+        await page.getByTestId(TestIds.dashboard.navOrders).click();
+        await expect(page.getByTestId(TestIds.dashboard.ordersSection)).toBeVisible();
     });
 
     test('should handle session clearing', async ({ page }) => {
-        await login(page);
+        await page.goto('/dashboard');
 
         // Clear context (cookies/storage)
         await page.context().clearCookies();
@@ -56,4 +40,15 @@ test.describe('Session Testing - Caching / Restore', () => {
         await page.goto('/dashboard');
         await expect(page).toHaveURL(/.*\/login/);
     });
+
+    test.describe('Admin Session', () => {
+
+        test.use({ role: 'admin' });
+
+        test('should restore the admin session', async ({ page }) => {
+            await page.goto('/dashboard');
+            await expect(page.getByTestId(TestIds.dashboard.userName)).toHaveText('Admin User');
+            await expect(page.getByTestId(TestIds.dashboard.userEmail)).toContainText('admin@example.com');
+        });
+    });
 });
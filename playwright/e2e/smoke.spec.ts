@@ -1,65 +1,24 @@
-import { test, expect } from '@playwright/test';
+import { test, expect } from '../fixtures/api.fixture';
+import { users } from '../../tests/fixtures/users';
 
 // ============================================================================
 // SMOKE TEST - Verify Basic Connectivity + Test App Integration
 // ============================================================================
+// The checks that both runners share live in tests/scenarios/smoke.scenario.ts;
+// this file keeps the ones that need Playwright-specific APIs.
 
 test.describe('Smoke Test - Basic Verification', () => {
 
-    test('should load the home page', async ({ page }) => {
-        await page.goto('/');
-        await expect(page.getByTestId('main-heading')).toBeVisible();
-        await expect(page).toHaveTitle(/Cypress Test Application/);
-    });
-
-    test('should load products from API', async ({ page }) => {
-        await page.goto('/');
-        // Wait for products to load
-        await expect(page.getByTestId('products-grid')).toBeVisible();
-        await expect(page.getByTestId('product-card').first()).toBeVisible({ timeout: 10000 });
-        expect(await page.getByTestId('product-card').count()).toBeGreaterThan(0);
-    });
-
-    test('should navigate to login page', async ({ page }) => {
-        await page.goto('/login');
-        await expect(page.getByTestId('login-form')).toBeVisible();
-        await expect(page.getByTestId('email-input')).toBeVisible();
-        await expect(page.getByTestId('password-input')).toBeVisible();
-        await expect(page.getByTestId('submit-btn')).toBeVisible();
-    });
-
-    test('should make a direct API request', async ({ request }) => {
-        const response = await request.get('/api/products');
-        expect(response.status()).toBe(200);
-        const body = await response.json();
-        expect(Array.isArray(body.products)).toBeTruthy();
-        expect(body.products.length).toBeGreaterThan(0);
-    });
-
-    test('should login successfully via UI', async ({ page }) => {
-        await page.goto('/login');
-        await page.getByTestId('email-input').fill('test@example.com');
-        await page.getByTestId('password-input').fill('password123');
-        await page.getByTestId('submit-btn').click();
-
-        // Wait for redirect to dashboard
-        await expect(page).toHaveURL(/.*\/dashboard/, { timeout: 10000 });
-    });
-
-    test('should login via API and access dashboard', async ({ request, page }) => {
+    test('should login via API and access dashboard', async ({ api, page }) => {
         // Login via API
-        const response = await request.post('/api/auth/login', {
-            data: {
-                email: 'test@example.com',
-                password: 'password123'
-            }
-        });
-        expect(response.status()).toBe(200);
-        const body = await response.json();
+        const { emailId: email, password } = users.validCredentials;
+        const { body } = await api.login({ email, password });
         expect(body.token).toBeDefined();
 
-        // Inject token into browser context
+        // Inject token into browser context: the cookie for the server's page
+        // guard, localStorage for the dashboard's own checks
         await page.goto('/');
+        await page.context().addCookies([{ name: 'authToken', value: body.token, url: page.url() }]);
         await page.evaluate(({ token, user }) => {
             localStorage.setItem('authToken', token);
             localStorage.setItem('user', JSON.stringify(user));
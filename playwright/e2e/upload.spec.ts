@@ -0,0 +1,116 @@
+import { mergeTests } from '@playwright/test';
+import { test as apiTest, expect } from '../fixtures/api.fixture';
+import { test as authTest } from '../fixtures/auth.fixture';
+import { test as uploadsTest } from '../fixtures/uploads.fixture';
+import type { UploadFile } from '../../tests/api/types';
+import { MAX_UPLOAD_BYTES } from '../../tests/api/uploads';
+
+const test = mergeTests(authTest, apiTest, uploadsTest);
+
+// ============================================================================
+// FILE UPLOAD & DOWNLOAD
+// ============================================================================
+// Drives /upload through the UploadPage object: files are attached with
+// setInputFiles(), stored by multer in app-under-test/uploads, and downloads
+// are caught with the page's `download` event and read from disk.
+// multer accepts jpeg/png/gif/text/pdf under 5 MB; anything else is a 400.
+// The `uploads` fixture deletes every file a test stored.
+
+const notes: UploadFile = { name: 'notes.txt', mimeType: 'text/plain', contents: 'Upload page notes' };
+const report: UploadFile = { name: 'report.pdf', mimeType: 'application/pdf', contents: '%PDF-1.4 test report' };
+const script: UploadFile = { name: 'script.sh', mimeType: 'application/x-sh', contents: 'echo "not allowed"' };
+const oversized: UploadFile = { name: 'oversized.txt', mimeType: 'text/plain', contents: new Uint8Array(MAX_UPLOAD_BYTES) };
+
+test.describe('File Upload & Download', () => {
+    test.beforeEach(async ({ page, uploadPage, uploads }) => {
+        uploads.trackPage(page);
+        await uploadPage.visit();
+    });
+
+    test.describe('Single Upload', () => {
+
+        test('should show the selected file before uploading', async ({ uploadPage }) => {
+            await expect(uploadPage.singleUploadBtn).toBeDisabled();
+
+            await uploadPage.selectSingleFile(notes);
+
+            await expect(uploadPage.singleUploadArea).toContainText('notes.txt');
+            await expect(uploadPage.singleUploadBtn).toBeEnabled();
+        });
+
+        test('should upload a single file', async ({ uploadPage, api }) => {
+            await uploadPage.uploadSingleFile(notes);
+
+            await uploadPage.validateUploadSuccess();
+            const filename = await uploadPage.uploadedFilename.innerText();
+            expect(filename).toMatch(/^\d+-notes\.txt$/);
+            const { body } = await api.download(filename);
+            expect(body).toBe(notes.contents);
+        });
+    });
+
+    test.describe('Multiple Upload', () => {
+
+        test('should list and upload multiple files', async ({ uploadPage }) => {
+            await uploadPage.selectMultipleFiles([notes, report]);
+
+            await expect(uploadPage.fileItems).toHaveCount(2);
+            await expect(uploadPage.fileNames).toHaveText(['notes.txt', 'report.pdf']);
+
+            await uploadPage.multipleUploadBtn.click();
+            await uploadPage.validateMultipleUploadResult(2, 2);
+        });
+
+        test('should report partial success for a mixed selection', async ({ uploadPage }) => {
+            await uploadPage.uploadMultipleFiles([notes, script]);
+
+            await uploadPage.validateMultipleUploadResult(1, 2);
+            await expect(uploadPage.multipleUploadResult.locator('.alert')).toHaveClass(/alert-error/);
+        });
+    });
+
+    test.describe('Rejections', () => {
+
+        test('should reject a file type outside the allow-list', async ({ uploadPage }) => {
+            await uploadPage.uploadSingleFile(script);
+
+            await uploadPage.validateUploadFailure('Invalid file type');
+        });
+
+        test('should reject files of 5 MB or more', async ({ uploadPage }) => {
+            await uploadPage.uploadSingleFile(oversized);
+
+            await uploadPage.validateUploadFailure('File too large');
+        });
+
+        test('should answer rejected uploads with 400', async ({ api, uploads }) => {
+            const { body: typeError } = await api.expectStatus(400).upload(script);
+            expect(typeError.error).toBe('File upload error: Invalid file type');
+            const { body: sizeError } = await api.expectStatus(400).upload(oversized);
+            expect(sizeError.error).toBe('File upload error: File too large');
+
+            const { body } = await api.upload({ ...oversized, contents: new Uint8Array(MAX_UPLOAD_BYTES - 1) });
+            uploads.track(body.file);
+            expect(body.file.size).toBe(MAX_UPLOAD_BYTES - 1);
+        });
+    });
+
+    test.describe('Downloads', () => {
+
+        test('should download the sample file', async ({ uploadPage }) => {
+            const download = await uploadPage.downloadSample();
+
+            expect(download.suggestedFilename()).toBe('sample.txt');
+            expect(await uploadPage.readDownload(download)).toContain('Sample download file');
+        });
+
+        test('should download a generated file', async ({ uploadPage }) => {
+            const download = await uploadPage.generateDownload();
+
+            expect(download.suggestedFilename()).toBe('generated-file.txt');
+            const contents = await uploadPage.readDownload(download);
+            expect(contents).toContain('Generated file content');
+            expect(contents).toMatch(/Created at: \d{4}-\d{2}-\d{2}T/);
+        });
+    });
+});
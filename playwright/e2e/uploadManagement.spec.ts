@@ -0,0 +1,173 @@
+import { mergeTests } from '@playwright/test';
+import { test as apiTest, expect } from '../fixtures/api.fixture';
+import { test as authTest } from '../fixtures/auth.fixture';
+import { test as isolatedServerTest } from '../fixtures/isolated-server.fixture';
+import { test as uploadsTest } from '../fixtures/uploads.fixture';
+import type { UploadFile } from '../../tests/api/types';
+
+// Retention sweeps delete every old enough file: each worker gets its own app instance
+const test = mergeTests(isolatedServerTest, authTest, apiTest, uploadsTest);
+
+// ============================================================================
+// UPLOADED FILES - List, Metadata, Download and Delete by Id
+// ============================================================================
+// /api/upload answers with a stable file id; /api/uploads lists, describes,
+// downloads and deletes files by that id, and a retention sweep removes old
+// files. The `uploads` fixture deletes whatever a test uploaded.
+
+const notes: UploadFile = { name: 'notes.txt', mimeType: 'text/plain', contents: 'Uploaded file notes' };
+const report: UploadFile = { name: 'report.pdf', mimeType: 'application/pdf', contents: '%PDF-1.4 uploaded report' };
+
+const ONE_HOUR = 60 * 60 * 1000;
+
+test.describe('Uploaded Files', () => {
+
+    test.describe('API', () => {
+
+        test('should list uploaded files by id', async ({ api, uploads }) => {
+            const { body: first } = await api.upload(notes);
+            const { body: second } = await api.upload(report);
+            uploads.track(first.file);
+            uploads.track(second.file);
+
+            const { body } = await api.listUploads();
+
+            expect(body.total).toBe(body.files.length);
+            expect(body.files).toEqual(expect.arrayContaining([first.file, second.file]));
+            expect(first.file.id).not.toBe(second.file.id);
+        });
+
+        test('should describe and download a file by id', async ({ api, uploads }) => {
+            const { body: uploaded } = await api.upload(notes);
+            uploads.track(uploaded.file);
+
+            const { body } = await api.getUpload(uploaded.file.id);
+            expect(body.file).toEqual(uploaded.file);
+            expect(body.file.originalName).toBe('notes.txt');
+            expect(Date.parse(body.file.uploadedAt)).not.toBeNaN();
+
+            const { body: contents, headers } = await api.downloadUpload(uploaded.file.id);
+            expect(contents).toBe(notes.contents);
+            expect(headers['content-disposition']).toContain('filename="notes.txt"');
+        });
+
+        test('should delete a file by id', async ({ api, uploads }) => {
+            const { body: uploaded } = await api.upload(notes);
+            uploads.track(uploaded.file);
+
+            const { body } = await api.deleteUpload(uploaded.file.id);
+            expect(body.message).toBe('File deleted');
+            expect(body.file.id).toBe(uploaded.file.id);
+
+            const { body: missing } = await api.expectStatus(404).getUpload(uploaded.file.id);
+            expect(missing.error).toBe('File not found');
+            await api.expectStatus(404).download(uploaded.file.filename);
+            await api.expectStatus(404).deleteUpload(uploaded.file.id);
+            const { body: list } = await api.listUploads();
+            expect(list.files.map(file => file.id)).not.toContain(uploaded.file.id);
+        });
+    });
+
+    test.describe('Retention', () => {
+
+        test('should keep files younger than the retention period', async ({ api, uploads }) => {
+            const { body: uploaded } = await api.upload(notes);
+            uploads.track(uploaded.file);
+
+            const { body } = await api.sweepUploads({ maxAgeMs: ONE_HOUR });
+
+            expect(body.removed).not.toContain(uploaded.file.filename);
+            await api.getUpload(uploaded.file.id);
+        });
+
+        test('should sweep files older than the retention period', async ({ api, uploads }) => {
+            const { body: uploaded } = await api.upload(notes);
+            uploads.track(uploaded.file);
+
+            const { body } = await api.sweepUploads({ maxAgeMs: 0 });
+
+            expect(body.removed).toContain(uploaded.file.filename);
+            await api.expectStatus(404).getUpload(uploaded.file.id);
+            const { body: list } = await api.listUploads();
+            expect(list.total).toBe(0);
+        });
+
+        test('should reject an invalid retention period', async ({ api }) => {
+            const { body } = await api.expectStatus(400).sweepUploads({ maxAgeMs: -1 });
+            expect(body.error).toContain('maxAgeMs');
+            const { body: idle } = await api.expectStatus(400).sweepUploads({ chunkedIdleMs: -1 });
+            expect(idle.error).toContain('chunkedIdleMs');
+        });
+
+        test('should drop chunked uploads left idle', async ({ api }) => {
+            const { body: started } = await api.initUpload({ fileName: 'idle.txt', mimeType: 'text/plain', size: 10 });
+
+            const { body: kept } = await api.sweepUploads({ chunkedIdleMs: ONE_HOUR });
+            expect(kept.expiredUploads).not.toContain(started.uploadId);
+            await api.uploadStatus(started.uploadId);
+
+            const { body } = await api.sweepUploads({ chunkedIdleMs: 0 });
+            expect(body.expiredUploads).toContain(started.uploadId);
+            await api.expectStatus(404).uploadStatus(started.uploadId);
+        });
+    });
+
+    test.describe('File List UI', () => {
+
+        test('should list uploaded files on the upload page', async ({ uploadPage, api, uploads }) => {
+            const { body: uploaded } = await api.upload(report);
+            uploads.track(uploaded.file);
+
+            await uploadPage.visit();
+
+            const row = uploadPage.uploadedFileRow(uploaded.file.id);
+            await expect(row).toContainText('report.pdf');
+            await expect(row).toContainText('24 Bytes');
+        });
+
+        test('should add a file uploaded on the page to the list', async ({ page, uploadPage, uploads }) => {
+            uploads.trackPage(page);
+            await uploadPage.visit();
+
+            await uploadPage.uploadSingleFile(notes);
+            await uploadPage.validateUploadSuccess();
+
+            await expect.poll(() => uploads.ids.size).toBe(1);
+            const [id] = uploads.ids;
+            await expect(uploadPage.uploadedFileRow(id)).toContainText('notes.txt');
+        });
+
+        test('should show files uploaded elsewhere after a refresh', async ({ uploadPage, api, uploads }) => {
+            await uploadPage.visit();
+            const { body: uploaded } = await api.upload(notes);
+            uploads.track(uploaded.file);
+            await expect(uploadPage.uploadedFileRow(uploaded.file.id)).toHaveCount(0);
+
+            await uploadPage.refreshUploadedFiles();
+
+            await expect(uploadPage.uploadedFileRow(uploaded.file.id)).toBeVisible();
+        });
+
+        test('should download a file under its original name', async ({ uploadPage, api, uploads }) => {
+            const { body: uploaded } = await api.upload(notes);
+            uploads.track(uploaded.file);
+            await uploadPage.visit();
+
+            const download = await uploadPage.downloadUploadedFile(uploaded.file.id);
+
+            expect(download.suggestedFilename()).toBe('notes.txt');
+            expect(await uploadPage.readDownload(download)).toBe(notes.contents);
+        });
+
+        test('should delete a file from the list', async ({ uploadPage, api, uploads }) => {
+            const { body: uploaded } = await api.upload(notes);
+            uploads.track(uploaded.file);
+            await uploadPage.visit();
+
+            await uploadPage.deleteUploadedFile(uploaded.file.id);
+
+            await expect(uploadPage.uploadedFilesResult).toContainText('Deleted notes.txt');
+            await api.expectStatus(404).getUpload(uploaded.file.id);
+        });
+    });
+});
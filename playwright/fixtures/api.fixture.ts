@@ -0,0 +1,54 @@
+// File: playwright/fixtures/api.fixture.ts
+import { test as base, expect, type APIRequestContext } from '@playwright/test';
+import { createPlaywrightClient, type PlaywrightApiClient } from '../../tests/api/playwright';
+
+/**
+ * API Client Fixture
+ * Typed client for the app-under-test REST and GraphQL endpoints.
+ * The Cypress suite uses the same endpoint table via tests/api/cypress.ts.
+ *
+ * Usage:
+ * import { test, expect } from '../fixtures/api.fixture';
+ *
+ * test('my test', async ({ api }) => {
+ *   const { body } = await api.listProducts({ inStock: true });
+ *   expect(body.total).toBeGreaterThan(0);
+ * });
+ */
+
+// ============================================================================
+// HELPERS
+// ============================================================================
+
+/**
+ * Poll /api/auth/me until the server rejects `token`, e.g. once a tokenTtl
+ * shortened with api.configureAuth() has run out
+ */
+export async function waitForTokenRejection(request: APIRequestContext, token: string): Promise<void> {
+    await expect.poll(async () => {
+        const response = await request.get('/api/auth/me', { headers: { Authorization: `Bearer ${token}` } });
+        return response.status();
+    }, { message: 'token still accepted by /api/auth/me' }).toBe(401);
+}
+
+// ============================================================================
+// FIXTURES
+// ============================================================================
+
+type ApiFixtures = {
+    /**
+     * Typed client over the test's `request` context
+     */
+    api: PlaywrightApiClient;
+};
+
+export const test = base.extend<ApiFixtures>({
+    /**
+     * Provides a client sharing the `request` fixture's cookies and baseURL
+     */
+    api: async ({ request }, use) => {
+        await use(createPlaywrightClient(request));
+    },
+});
+
+export { expect };
@@ -0,0 +1,60 @@
+// File: playwright/fixtures/app-state.fixture.ts
+import { test as base } from '@playwright/test';
+import { createPlaywrightClient } from '../../tests/api/playwright';
+import type { AppState, SeedData } from '../../tests/api/types';
+
+/**
+ * App State Fixture
+ * Replaces Cypress cy.task('resetApp') / cy.task('seedApp', data) / cy.task('appState')
+ * Needs the app-under-test started with TEST_API=true (playwright.config.ts does this).
+ *
+ * Usage:
+ * import { test, expect } from '../fixtures/app-state.fixture';
+ *
+ * test('my test', async ({ page, seedApp }) => {
+ *   await seedApp({ products: [{ id: 1, name: 'Only', price: 1, category: 'Test', inStock: true }] });
+ *   await page.goto('/');
+ * });
+ */
+
+type AppStateFixtures = {
+    /**
+     * Restore the initial users and products and drop all orders
+     */
+    resetApp: () => Promise<AppState>;
+    /**
+     * Load a data set; collections left out keep their initial data
+     */
+    seedApp: (data: SeedData) => Promise<AppState>;
+    /**
+     * Current server data (users without passwords)
+     */
+    appState: () => Promise<AppState>;
+};
+
+export const test = base.extend<AppStateFixtures>({
+    resetApp: async ({ request }, use) => {
+        const api = createPlaywrightClient(request);
+        await use(async () => (await api.resetApp()).body);
+    },
+
+    /**
+     * Seeded data is reset again after the test
+     */
+    seedApp: async ({ request }, use) => {
+        const api = createPlaywrightClient(request);
+        let seeded = false;
+        await use(async data => {
+            seeded = true;
+            return (await api.seedApp(data)).body;
+        });
+        if (seeded) await api.resetApp();
+    },
+
+    appState: async ({ request }, use) => {
+        const api = createPlaywrightClient(request);
+        await use(async () => (await api.appState()).body);
+    },
+});
+
+export { expect } from '@playwright/test';
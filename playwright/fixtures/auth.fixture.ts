@@ -1,7 +1,10 @@
 // File: playwright/fixtures/auth.fixture.ts
-import { test as base, Page } from '@playwright/test';
+import { test as base, expect, Page } from '@playwright/test';
 import { LoginPage } from '../pages/LoginPage';
 import { MyAccountPage } from '../pages/MyAccountPage';
+import { UploadPage } from '../pages/UploadPage';
+import { TestIds } from '../../tests/test-ids';
+import { restoreRoleSession, storageStatePath, type Role } from './roles';
 
 /**
  * Authentication Fixture
@@ -13,8 +16,20 @@ import { MyAccountPage } from '../pages/MyAccountPage';
  * test('my test', async ({ authenticatedPage }) => {
  *   // Page is already logged in
  * });
+ *
+ * Sessions come from the `setup` project (see roles.ts), so no test pays for
+ * the login UI. Start every page of a file logged in as a role with:
+ *
+ * test.use({ role: 'admin' });
  */
 
+type AuthOptions = {
+    /**
+     * Role whose saved session every page starts with; anonymous when unset
+     */
+    role: Role | undefined;
+};
+
 type AuthFixtures = {
     /**
      * Page that is already logged in with valid credentials
@@ -30,20 +45,35 @@ type AuthFixtures = {
      * My Account / Dashboard page helper
      */
     myAccountPage: MyAccountPage;
+
+    /**
+     * Upload / Download page helper
+     */
+    uploadPage: UploadPage;
 };
 
-export const test = base.extend<AuthFixtures>({
+export const test = base.extend<AuthFixtures & AuthOptions>({
+    role: [undefined, { option: true }],
+
     /**
-     * Provides pre-authenticated page
+     * Loads the role's saved session into every new context
      */
-    authenticatedPage: async ({ page }, use) => {
-        const loginPage = new LoginPage(page);
+    storageState: async ({ role, storageState }, use) => {
+        await use(role ? storageStatePath(role) : storageState);
+    },
 
-        // Use valid credentials from test data
-        await loginPage.login('test@example.com', 'password123');
+    /**
+     * Provides pre-authenticated page (the `user` session unless a role is set)
+     */
+    authenticatedPage: async ({ page, role }, use) => {
+        if (!role) {
+            // Restore the saved user session into this context
+            await restoreRoleSession(page, 'user');
+        }
 
-        // Verify login was successful
-        await loginPage.validateSuccessfulLogin();
+        // Verify the session is accepted
+        await page.goto('/dashboard');
+        await expect(page.getByTestId(TestIds.dashboard.authWarning)).toHaveClass(/hidden/);
 
         // Provide the authenticated page to the test
         await use(page);
@@ -64,6 +94,13 @@ export const test = base.extend<AuthFixtures>({
     myAccountPage: async ({ page }, use) => {
         await use(new MyAccountPage(page));
     },
+
+    /**
+     * Provides UploadPage instance
+     */
+    uploadPage: async ({ page }, use) => {
+        await use(new UploadPage(page));
+    },
 });
 
-export { expect } from '@playwright/test';
+export { expect };
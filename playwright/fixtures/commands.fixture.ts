@@ -0,0 +1,219 @@
+// Generated by scripts/migration/commands-to-fixtures.ts from cypress/support/commands.ts
+// Do not edit by hand: update the Cypress command and run `npm run migrate:commands`.
+import { Page, Locator } from '@playwright/test';
+import { test as base, expect, NetworkAliases } from './network.fixture';
+import type { GraphQLMocks } from '../../tests/api/graphql-mocks';
+import type { Fault, UserRole } from '../../tests/api/types';
+import type { TestId } from '../../tests/test-ids';
+import { restoreRoleSession } from './roles';
+import { mockGraphQL, type GraphQLOperations } from './graphql.fixture';
+import { withFault as routeWithFault, type FaultHandle } from './fault.fixture';
+
+/**
+ * Playwright equivalents of the Cypress custom commands
+ *
+ * Usage:
+ * import { test, expect } from '../fixtures/commands.fixture';
+ *
+ * test('my test', async ({ commands }) => {
+ *   await commands.login(email, password);
+ * });
+ *
+ * Not generated, their Cypress bodies have no automatic translation:
+ * - cy.trackUpload(): use uploads.track (playwright/fixtures/uploads.fixture.ts)
+ * - cy.trackPageUploads(): use uploads.trackPage (playwright/fixtures/uploads.fixture.ts)
+ * - cy.deleteTrackedUploads(): use the uploads fixture's teardown (playwright/fixtures/uploads.fixture.ts)
+ * - cy.clearDownloads(): use captureDownload (playwright/fixtures/downloads.fixture.ts), each Download keeps its own file
+ * - cy.readCsvDownload(): use readCsvDownload (playwright/fixtures/downloads.fixture.ts)
+ * - cy.readPdfDownload(): use readPdfDownload (playwright/fixtures/downloads.fixture.ts)
+ * - cy.highlight()
+ */
+
+// ============================================================================
+// PARENT COMMANDS → page helpers
+// ============================================================================
+
+/**
+ * Login to the application
+ * @param email - User email address
+ * @param password - User password
+ */
+export async function login(page: Page, email: string, password: string): Promise<void> {
+    // Input validation (sanitization - prevent empty/malformed input)
+    if (!email || typeof email !== 'string') {
+        throw new Error('Login: email is required and must be a string');
+    }
+    if (!password || typeof password !== 'string') {
+        throw new Error('Login: password is required and must be a string');
+    }
+
+    base.info().annotations.push({ type: 'log', description: `**Login as:** ${email}` });
+
+    // Navigate to login page
+    await page.goto('/login');
+
+    // Fill in credentials
+    // Using data-testid for reliable element selection
+    await expect(page.locator('[data-testid="email-input"]')).toBeVisible();
+    await page.locator('[data-testid="email-input"]').fill(email);
+    await expect(page.locator('[data-testid="password-input"]')).toBeVisible();
+    await page.locator('[data-testid="password-input"]').fill(password);
+
+    // Submit form
+    await page.locator('[data-testid="submit-btn"]').click();
+
+    // Verify successful login by checking redirect
+    await expect(page).toHaveURL(/\/dashboard/);
+}
+
+/**
+ * Login through the API as a role, cached per role with cy.session
+ * @param role - 'user' (valid_credentials) or 'admin' (admin_credentials)
+ */
+export async function loginAs(page: Page, role: UserRole): Promise<void> {
+    await restoreRoleSession(page, role);
+}
+
+/**
+ * Logout from the application
+ */
+export async function logout(page: Page): Promise<void> {
+    base.info().annotations.push({ type: 'log', description: '**Logging out**' });
+
+    // Click logout link
+    await page.locator('[data-testid="logout-link"]').click();
+
+    // Verify redirect to login page
+    await expect(page).toHaveURL(/\/login/);
+
+    // Clear stored tokens
+    if (page.url() !== 'about:blank') await page.evaluate(key => localStorage.removeItem(key), 'authToken');
+    if (page.url() !== 'about:blank') await page.evaluate(() => sessionStorage.clear());
+}
+
+/**
+ * Get element by data-testid attribute
+ * @param testId - The data-testid value, checked against tests/test-ids.ts
+ */
+export function getByTestId(page: Page, testId: TestId): Locator {
+    if (!testId || typeof testId !== 'string') {
+        throw new Error('getByTestId: testId is required and must be a string');
+    }
+
+    return page.locator(`[data-testid="${testId}"]`);
+}
+
+/**
+ * Wait for API response and validate status
+ * @param method - HTTP method
+ * @param url - URL pattern to match
+ * @param alias - Alias name for the intercept
+ */
+export async function interceptAndWait(network: NetworkAliases, method: string, url: string, alias: string): Promise<void> {
+    await network.intercept(method, url).as(alias);
+    await network.wait(`@${alias}`);
+}
+
+/**
+ * Answer GraphQL operations from mocks keyed by operation name.
+ * Every operation is aliased `gql<OperationName>`; unmocked ones
+ * go through to the server.
+ * @param mocks - Data, a function of the variables, or graphqlErrors(...)
+ * @param url - GraphQL endpoint (default /api/graphql)
+ */
+export async function interceptGql(page: Page, mocks: GraphQLMocks, url?: string): Promise<GraphQLOperations> {
+    return mockGraphQL(page, mocks, { url });
+}
+
+/**
+ * Make the real backend fail requests to a URL (app started with TEST_API=true)
+ * @param url - URL to match, as in cy.intercept
+ * @param fault - latency, status, malformed or drop; `count` limits faulted requests
+ */
+export async function withFault(page: Page, url: string, fault: Fault): Promise<FaultHandle> {
+    return routeWithFault(page, url, fault);
+}
+
+/**
+ * Set authentication cookie for API testing
+ * @param token - Authentication token
+ */
+export async function setAuthCookie(page: Page, baseURL: string | undefined, token: string): Promise<void> {
+    if (!token) {
+        throw new Error('setAuthCookie: token is required');
+    }
+
+    await page.context().addCookies([{ name: 'authToken', value: token, url: baseURL!, httpOnly: true }]);
+
+    base.info().annotations.push({ type: 'log', description: '**Auth cookie set**' });
+}
+
+// ============================================================================
+// CHILD COMMANDS → Locator helpers
+// ============================================================================
+
+/**
+ * Type text and then clear the input (child command)
+ * @param text - Text to type
+ */
+export async function typeAndClear(subject: Locator, text: string): Promise<Locator> {
+    await expect(subject).toBeVisible();
+    await subject.fill(text);
+    await expect(subject).toHaveValue(text);
+    await subject.clear();
+    await expect(subject).toHaveValue('');
+
+    return subject;
+}
+
+/**
+ * Assert element has specific data attribute
+ * @param attr - Data attribute name (without 'data-' prefix)
+ * @param value - Expected value
+ */
+export async function shouldHaveData(subject: Locator, attr: string, value: string): Promise<Locator> {
+    await expect(subject).toHaveAttribute(`data-${attr}`, value);
+    return subject;
+}
+
+// ============================================================================
+// FIXTURES
+// ============================================================================
+
+/**
+ * Parent commands bound to the current page
+ */
+export type PageCommands = {
+    login: (email: string, password: string) => Promise<void>;
+    loginAs: (role: UserRole) => Promise<void>;
+    logout: () => Promise<void>;
+    getByTestId: (testId: TestId) => Locator;
+    interceptAndWait: (method: string, url: string, alias: string) => Promise<void>;
+    interceptGql: (mocks: GraphQLMocks, url?: string) => Promise<GraphQLOperations>;
+    withFault: (url: string, fault: Fault) => Promise<FaultHandle>;
+    setAuthCookie: (token: string) => Promise<void>;
+};
+
+type CommandFixtures = {
+    /**
+     * Parent custom commands, e.g. `commands.login(email, password)`
+     */
+    commands: PageCommands;
+};
+
+export const test = base.extend<CommandFixtures>({
+    commands: async ({ page, network, baseURL }, use) => {
+        await use({
+            login: (email, password) => login(page, email, password),
+            loginAs: (role) => loginAs(page, role),
+            logout: () => logout(page),
+            getByTestId: (testId) => getByTestId(page, testId),
+            interceptAndWait: (method, url, alias) => interceptAndWait(network, method, url, alias),
+            interceptGql: (mocks, url) => interceptGql(page, mocks, url),
+            withFault: (url, fault) => withFault(page, url, fault),
+            setAuthCookie: (token) => setAuthCookie(page, baseURL, token),
+        });
+    },
+});
+
+export { expect };
@@ -0,0 +1,75 @@
+// File: playwright/fixtures/downloads.fixture.ts
+import fs from 'fs';
+import { test as base, Download, Page } from '@playwright/test';
+import { parseCsvRecords, pdfText, type CsvRecord } from '../../tests/api/exports';
+
+/**
+ * Downloads Fixture
+ * Replaces Cypress cy.readCsvDownload / cy.readPdfDownload (cypress/support/commands.ts)
+ *
+ * FLOW:
+ * ┌─────────────────────────────────────────────────────────────────────────┐
+ * │  captureDownload(() => click)  ──►  Download (page `download` event)    │
+ * │  readCsvDownload(download)     ──►  [{ id: '1', status: ... }]          │
+ * │  readPdfDownload(download)     ──►  ['Orders Export', ...]              │
+ * └─────────────────────────────────────────────────────────────────────────┘
+ *
+ * Cypress reads the same files from downloadsFolder by name; parsing is shared
+ * through tests/api/exports.ts, so both suites compare contents the same way.
+ *
+ * Usage:
+ * import { test, expect } from '../fixtures/downloads.fixture';
+ *
+ * test('my test', async ({ captureDownload }) => {
+ *   const download = await captureDownload(() => myAccountPage.exportOrders('csv'));
+ *   const rows = await readCsvDownload(download);
+ * });
+ */
+
+// ============================================================================
+// HELPERS
+// ============================================================================
+
+/**
+ * Run `trigger` and return the download it starts
+ */
+export async function captureDownload(page: Page, trigger: () => Promise<unknown>): Promise<Download> {
+    const [download] = await Promise.all([page.waitForEvent('download'), trigger()]);
+    return download;
+}
+
+/**
+ * Records of a downloaded CSV, keyed by its header row
+ */
+export async function readCsvDownload(download: Download): Promise<CsvRecord[]> {
+    return parseCsvRecords(await fs.promises.readFile(await download.path(), 'utf8'));
+}
+
+/**
+ * Text lines of a downloaded PDF
+ */
+export async function readPdfDownload(download: Download): Promise<string[]> {
+    return pdfText(await fs.promises.readFile(await download.path()));
+}
+
+// ============================================================================
+// FIXTURES
+// ============================================================================
+
+type DownloadsFixtures = {
+    /**
+     * Run an action and return the file download it starts
+     */
+    captureDownload: (trigger: () => Promise<unknown>) => Promise<Download>;
+};
+
+export const test = base.extend<DownloadsFixtures>({
+    /**
+     * Provides captureDownload() bound to the test's page
+     */
+    captureDownload: async ({ page }, use) => {
+        await use(trigger => captureDownload(page, trigger));
+    },
+});
+
+export { expect } from '@playwright/test';
@@ -0,0 +1,82 @@
+// File: playwright/fixtures/fault.fixture.ts
+import { test as base, Page } from '@playwright/test';
+import { toPlaywrightMatcher, type UrlMatcher } from './network.fixture';
+import { FAULT_HEADER, faultHeader } from '../../tests/api/faults';
+import type { Fault } from '../../tests/api/types';
+
+/**
+ * Fault Fixture
+ * Replaces Cypress cy.withFault(url, fault) (cypress/support/commands.ts)
+ *
+ * FLOW:
+ * ┌─────────────────────────────────────────────────────────────────────────┐
+ * │  page fetch('/api/products')                                            │
+ * │      ──►  route adds `x-fault: status=503`                              │
+ * │      ──►  real server answers 503 (fault middleware, TEST_API=true)     │
+ * └─────────────────────────────────────────────────────────────────────────┘
+ *
+ * Unlike page.route() fakes, the failure comes from the real backend, and
+ * unlike server-side rules (api.addFault) it only affects this page.
+ * URLs match like network.intercept / cy.intercept.
+ *
+ * Usage:
+ * import { test, expect } from '../fixtures/fault.fixture';
+ *
+ * test('my test', async ({ page, withFault }) => {
+ *   await withFault('/api/products', { type: 'status', status: 503 });
+ *   await page.goto('/');
+ * });
+ */
+
+// ============================================================================
+// TYPES
+// ============================================================================
+
+export interface FaultHandle {
+    /** Requests sent with the fault header so far */
+    readonly requests: number;
+}
+
+// ============================================================================
+// HELPERS
+// ============================================================================
+
+/**
+ * Send the page's requests to `url` with an x-fault header, at most
+ * `fault.count` times
+ */
+export async function withFault(page: Page, url: UrlMatcher, fault: Fault): Promise<FaultHandle> {
+    const handle = { requests: 0 };
+
+    await page.route(toPlaywrightMatcher(url), async route => {
+        if (fault.count !== undefined && handle.requests >= fault.count) {
+            await route.fallback();
+            return;
+        }
+        handle.requests++;
+        await route.fallback({ headers: { ...route.request().headers(), [FAULT_HEADER]: faultHeader(fault) } });
+    });
+    return handle;
+}
+
+// ============================================================================
+// FIXTURES
+// ============================================================================
+
+type FaultFixtures = {
+    /**
+     * Real backend failures for the test's page (cy.withFault equivalent)
+     */
+    withFault: (url: UrlMatcher, fault: Fault) => Promise<FaultHandle>;
+};
+
+export const test = base.extend<FaultFixtures>({
+    /**
+     * Provides withFault() bound to the test's page
+     */
+    withFault: async ({ page }, use) => {
+        await use((url, fault) => withFault(page, url, fault));
+    },
+});
+
+export { expect } from '@playwright/test';
@@ -0,0 +1,163 @@
+// File: playwright/fixtures/graphql.fixture.ts
+import { test as base, Page } from '@playwright/test';
+import { resolveGraphQLMock, type GraphQLCall, type GraphQLMocks } from '../../tests/api/graphql-mocks';
+import type { GraphQLRequest } from '../../tests/api/types';
+
+/**
+ * GraphQL Mocking Fixture
+ * Replaces Cypress cy.interceptGql(...) (cypress/support/commands.ts)
+ *
+ * FLOW:
+ * ┌─────────────────────────────────────────────────────────────────────────┐
+ * │  cy.interceptGql({ GetProducts: data })                                 │
+ * │      ──►  const gql = await mockGraphQL({ GetProducts: data })          │
+ * │  cy.wait('@gqlGetProducts')                                             │
+ * │      ──►  await gql.wait('GetProducts')                                 │
+ * │  cy.get('@gqlGetProducts.all').should('have.length', 2)                 │
+ * │      ──►  expect(gql.count('GetProducts')).toBe(2)                      │
+ * └─────────────────────────────────────────────────────────────────────────┘
+ *
+ * Operations are matched by `operationName`, falling back to the name of the
+ * only operation in the query. Operations without a mock go through to the
+ * server (or to routes registered earlier, e.g. network.intercept).
+ *
+ * Usage:
+ * import { test, expect } from '../fixtures/graphql.fixture';
+ * import { graphqlErrors } from '../../tests/api/graphql-mocks';
+ *
+ * test('my test', async ({ page, mockGraphQL }) => {
+ *   const gql = await mockGraphQL({
+ *     GetProducts: ({ limit }) => ({ products: [] }),
+ *     GetProduct: graphqlErrors('Product not found'),
+ *   });
+ *   await page.goto('/');
+ *   await gql.wait('GetProducts');
+ * });
+ */
+
+const DEFAULT_WAIT_TIMEOUT = 5000;
+
+// ============================================================================
+// TYPES
+// ============================================================================
+
+export interface MockGraphQLOptions {
+    /** Endpoint glob, defaults to any `/api/graphql` */
+    url?: string | RegExp;
+}
+
+// ============================================================================
+// GRAPHQL OPERATIONS
+// ============================================================================
+
+/**
+ * Calls seen by one mockGraphQL() registration, grouped by operation
+ */
+export class GraphQLOperations {
+    private readonly seen: GraphQLCall[] = [];
+    private readonly waited = new Map<string, number>();
+    private listeners: Array<() => void> = [];
+
+    record(call: GraphQLCall): void {
+        this.seen.push(call);
+        this.listeners.forEach(listener => listener());
+    }
+
+    /**
+     * Calls of an operation (all calls when omitted), oldest first
+     */
+    calls(operationName?: string): GraphQLCall[] {
+        return operationName === undefined
+            ? [...this.seen]
+            : this.seen.filter(call => call.operationName === operationName);
+    }
+
+    /**
+     * Number of calls of an operation (cy.get('@gqlGetProducts.all'))
+     */
+    count(operationName?: string): number {
+        return this.calls(operationName).length;
+    }
+
+    /**
+     * Wait for the next call of an operation that has not been waited for yet
+     */
+    async wait(operationName: string, options: { timeout?: number } = {}): Promise<GraphQLCall> {
+        const index = this.waited.get(operationName) ?? 0;
+        this.waited.set(operationName, index + 1);
+        const timeout = options.timeout ?? DEFAULT_WAIT_TIMEOUT;
+
+        if (!this.calls(operationName)[index]) {
+            await new Promise<void>((resolve, reject) => {
+                const timer = setTimeout(() => {
+                    this.listeners = this.listeners.filter(listener => listener !== check);
+                    reject(new Error(`wait('${operationName}') timed out after ${timeout}ms: ${this.count(operationName)} call(s) seen, expected call #${index + 1}`));
+                }, timeout);
+                const check = (): void => {
+                    if (!this.calls(operationName)[index]) return;
+                    clearTimeout(timer);
+                    this.listeners = this.listeners.filter(listener => listener !== check);
+                    resolve();
+                };
+                this.listeners.push(check);
+            });
+        }
+        return this.calls(operationName)[index];
+    }
+}
+
+/**
+ * Answer GraphQL operations on a page from `mocks`, keyed by operation name
+ */
+export async function mockGraphQL(
+    page: Page,
+    mocks: GraphQLMocks,
+    options: MockGraphQLOptions = {}
+): Promise<GraphQLOperations> {
+    const operations = new GraphQLOperations();
+
+    await page.route(options.url ?? '**/api/graphql', async (route, request) => {
+        if (request.method() !== 'POST') {
+            await route.fallback();
+            return;
+        }
+
+        let body: Partial<GraphQLRequest> | undefined;
+        try {
+            body = request.postDataJSON();
+        } catch {
+            body = undefined;
+        }
+        const { call, response } = resolveGraphQLMock(mocks, body);
+        operations.record(call);
+
+        if (response) {
+            await route.fulfill({ status: response.status, json: response.body });
+        } else {
+            await route.fallback();
+        }
+    });
+    return operations;
+}
+
+// ============================================================================
+// FIXTURES
+// ============================================================================
+
+type GraphQLFixtures = {
+    /**
+     * Operation-aware GraphQL mocks for the test's page (cy.interceptGql equivalent)
+     */
+    mockGraphQL: (mocks: GraphQLMocks, options?: MockGraphQLOptions) => Promise<GraphQLOperations>;
+};
+
+export const test = base.extend<GraphQLFixtures>({
+    /**
+     * Provides mockGraphQL() bound to the test's page
+     */
+    mockGraphQL: async ({ page }, use) => {
+        await use((mocks, options) => mockGraphQL(page, mocks, options));
+    },
+});
+
+export { expect } from '@playwright/test';
@@ -0,0 +1,159 @@
+// File: playwright/fixtures/isolated-server.fixture.ts
+import { test as base } from '@playwright/test';
+import { spawn } from 'child_process';
+import { once } from 'events';
+import fs from 'fs';
+import net from 'net';
+import os from 'os';
+import path from 'path';
+
+/**
+ * Isolated Server Fixture
+ * One app-under-test instance per worker, so specs that change server data
+ * (orders, products, seeded state) can run fully parallel without cross-talk.
+ *
+ * FLOW:
+ * ┌─────────────────────────────────────────────────────────────────────────┐
+ * │  worker 1 ──► node server.js  PORT=51234  PORT_SECONDARY=51235          │
+ * │  worker 2 ──► node server.js  PORT=51240  PORT_SECONDARY=51241          │
+ * │               (TEST_API=true, baseURL overridden for the worker)        │
+ * │               (UPLOAD_DIR: a temporary directory per worker)            │
+ * └─────────────────────────────────────────────────────────────────────────┘
+ *
+ * The shared server from playwright.config.ts `webServer` keeps serving
+ * every spec that does not use this fixture.
+ *
+ * Usage:
+ * import { test, expect } from '../fixtures/isolated-server.fixture';
+ *
+ * test('my test', async ({ page, appServer }) => {
+ *   await page.goto('/');                     // this worker's instance
+ *   await page.goto(appServer.secondaryURL);  // its cross-origin listener
+ * });
+ */
+
+const SERVER_SCRIPT = path.join(__dirname, '../../app-under-test/server.js');
+const STARTUP_TIMEOUT = 15000;
+
+// ============================================================================
+// TYPES
+// ============================================================================
+
+export interface AppServer {
+    /** e.g. http://127.0.0.1:51234 */
+    baseURL: string;
+    /** Secondary listener for cross-origin tests, e.g. http://127.0.0.1:51235 */
+    secondaryURL: string;
+    port: number;
+    secondaryPort: number;
+    /** Where this instance stores uploads; removed when it stops */
+    uploadDir: string;
+}
+
+// ============================================================================
+// SERVER LIFECYCLE
+// ============================================================================
+
+function reservePort(): Promise<net.Server> {
+    return new Promise((resolve, reject) => {
+        const server = net.createServer();
+        server.on('error', reject);
+        server.listen(0, '127.0.0.1', () => resolve(server));
+    });
+}
+
+/**
+ * Two distinct ports that are free right now
+ */
+export async function freePortPair(): Promise<[number, number]> {
+    const servers = [await reservePort(), await reservePort()];
+    const [port, secondaryPort] = servers.map(server => (server.address() as net.AddressInfo).port);
+    await Promise.all(servers.map(server => new Promise(resolve => server.close(resolve))));
+    return [port, secondaryPort];
+}
+
+/**
+ * Boot app-under-test/server.js on a free port pair and wait until it answers
+ */
+export async function startAppServer(): Promise<AppServer & { stop: () => Promise<void> }> {
+    const [port, secondaryPort] = await freePortPair();
+    const uploadDir = await fs.promises.mkdtemp(path.join(os.tmpdir(), 'app-under-test-uploads-'));
+    const server: AppServer = {
+        baseURL: `http://127.0.0.1:${port}`,
+        secondaryURL: `http://127.0.0.1:${secondaryPort}`,
+        port,
+        secondaryPort,
+        uploadDir,
+    };
+
+    const child = spawn(process.execPath, [SERVER_SCRIPT], {
+        // Always plain HTTP: SECURE_MODE is for the shared webServer
+        env: {
+            ...process.env,
+            PORT: String(port),
+            PORT_SECONDARY: String(secondaryPort),
+            TEST_API: 'true',
+            SECURE_MODE: 'false',
+            UPLOAD_DIR: uploadDir,
+        },
+        stdio: ['ignore', 'pipe', 'pipe'],
+    });
+    let output = '';
+    child.stdout.on('data', chunk => (output += chunk));
+    child.stderr.on('data', chunk => (output += chunk));
+
+    const stop = async (): Promise<void> => {
+        if (child.exitCode === null && child.signalCode === null) {
+            child.kill();
+            await once(child, 'exit');
+        }
+        await fs.promises.rm(uploadDir, { recursive: true, force: true });
+    };
+
+    const deadline = Date.now() + STARTUP_TIMEOUT;
+    while (Date.now() < deadline) {
+        if (child.exitCode !== null) {
+            throw new Error(`app-under-test exited with code ${child.exitCode} on port ${port}:\n${output}`);
+        }
+        const ready = await fetch(`${server.baseURL}/api/time`).then(res => res.ok, () => false);
+        if (ready) return { ...server, stop };
+        await new Promise(resolve => setTimeout(resolve, 100));
+    }
+
+    await stop();
+    throw new Error(`app-under-test did not answer on port ${port} within ${STARTUP_TIMEOUT}ms:\n${output}`);
+}
+
+// ============================================================================
+// FIXTURES
+// ============================================================================
+
+type IsolatedServerWorkerFixtures = {
+    /**
+     * This worker's app-under-test instance
+     */
+    appServer: AppServer;
+};
+
+export const test = base.extend<{}, IsolatedServerWorkerFixtures>({
+    /**
+     * Started before the worker's first test, stopped after its last
+     */
+    appServer: [async ({}, use) => {
+        const { stop, ...server } = await startAppServer();
+        try {
+            await use(server);
+        } finally {
+            await stop();
+        }
+    }, { scope: 'worker' }],
+
+    /**
+     * page.goto('/') and request.get('/api/...') go to the worker's instance
+     */
+    baseURL: async ({ appServer }, use) => {
+        await use(appServer.baseURL);
+    },
+});
+
+export { expect } from '@playwright/test';
@@ -0,0 +1,409 @@
+// File: playwright/fixtures/network.fixture.ts
+import { test as base, Page, Request, Route } from '@playwright/test';
+import fs from 'fs';
+import path from 'path';
+
+/**
+ * Network Aliases Fixture
+ * Replaces Cypress cy.intercept(...).as('alias') and cy.wait('@alias')
+ *
+ * FLOW:
+ * ┌─────────────────────────────────────────────────────────────────────────┐
+ * │  cy.intercept('GET', '/api/products').as('products')                    │
+ * │      ──►  await network.intercept('GET', '/api/products').as('products')│
+ * │  cy.wait('@products').its('response.statusCode').should('eq', 200)      │
+ * │      ──►  const call = await network.wait('@products')                  │
+ * │           expect(call.response?.statusCode).toBe(200)                   │
+ * │  cy.get('@products.all').should('have.length', 2)                       │
+ * │      ──►  expect(network.count('@products')).toBe(2)                    │
+ * └─────────────────────────────────────────────────────────────────────────┘
+ *
+ * Like Cypress, each wait('@alias') yields the next call that has not been
+ * waited for yet, so two waits on the same alias return two different calls.
+ * Intercepts without a response (spies) fall through to the ones registered
+ * before them, so a spy on a stubbed URL records the stubbed response.
+ *
+ * Usage:
+ * import { test, expect } from '../fixtures/network.fixture';
+ *
+ * test('my test', async ({ page, network }) => {
+ *   await network.intercept('GET', '/api/products', { fixture: 'products.json' }).as('products');
+ *   await page.goto('/');
+ *   const { response } = await network.wait('@products');
+ * });
+ */
+
+const FIXTURES_DIR = path.join(__dirname, '../../cypress/fixtures');
+const DEFAULT_WAIT_TIMEOUT = 5000;
+const STATIC_RESPONSE_KEYS = ['statusCode', 'body', 'headers', 'fixture', 'delay', 'forceNetworkError'];
+
+// ============================================================================
+// TYPES
+// ============================================================================
+
+/**
+ * URL to match: a path (`/api/products`), a glob (`/api/products*`) or a RegExp
+ */
+export type UrlMatcher = string | RegExp;
+
+/**
+ * cy.intercept StaticResponse subset
+ */
+export interface StaticResponse {
+    statusCode?: number;
+    headers?: Record<string, string>;
+    body?: unknown;
+    /** File name inside cypress/fixtures */
+    fixture?: string;
+    /** Milliseconds to wait before replying */
+    delay?: number;
+    forceNetworkError?: boolean;
+}
+
+export interface InterceptedRequest {
+    method: string;
+    url: string;
+    headers: Record<string, string>;
+    /** Parsed JSON body, the raw text otherwise */
+    body: unknown;
+    query: Record<string, string>;
+    /**
+     * Stub the response: `reply({ data })`, `reply(404)` or `reply({ statusCode, body })`
+     */
+    reply(response?: StaticResponse | number | object | string, body?: unknown): Promise<void>;
+    /**
+     * Send the request to the server unchanged, skipping earlier intercepts
+     * (a handler that neither replies nor continues falls through to them)
+     */
+    continue(): Promise<void>;
+}
+
+export type RouteHandler = (req: InterceptedRequest) => void | Promise<void>;
+
+export interface Interception {
+    id: number;
+    alias?: string;
+    request: Omit<InterceptedRequest, 'reply' | 'continue'>;
+    /** Undefined when the request failed (forceNetworkError, aborted) */
+    response?: {
+        statusCode: number;
+        headers: Record<string, string>;
+        body: unknown;
+    };
+    error?: string;
+}
+
+interface AliasState {
+    calls: Interception[];
+    /** Number of calls already handed out by wait() */
+    waited: number;
+    /** Requests matched so far, including ones still in flight */
+    requested: number;
+    listeners: (() => void)[];
+}
+
+// ============================================================================
+// NETWORK ALIASES
+// ============================================================================
+
+/**
+ * A route registered by intercept() as soon as it is created, like cy.intercept();
+ * await it (optionally after .as()) to be sure page.route() has finished
+ */
+export class Intercept implements PromiseLike<void> {
+    private name?: string;
+    private readonly registration: Promise<void>;
+
+    constructor(register: (intercept: Intercept) => Promise<void>) {
+        this.registration = register(this);
+    }
+
+    /**
+     * Alias given with .as(), read each time a request is handled
+     */
+    get alias(): string | undefined {
+        return this.name;
+    }
+
+    /**
+     * Name the intercept so it can be waited for with wait('@alias')
+     */
+    as(alias: string): this {
+        this.name = alias;
+        return this;
+    }
+
+    then<TResult1 = void, TResult2 = never>(
+        onfulfilled?: ((value: void) => TResult1 | PromiseLike<TResult1>) | null,
+        onrejected?: ((reason: unknown) => TResult2 | PromiseLike<TResult2>) | null
+    ): PromiseLike<TResult1 | TResult2> {
+        return this.registration.then(onfulfilled, onrejected);
+    }
+}
+
+export class NetworkAliases {
+    private readonly aliases = new Map<string, AliasState>();
+    private nextId = 1;
+
+    constructor(private readonly page: Page) {}
+
+    /**
+     * Register a route, mirroring the cy.intercept() signatures
+     * intercept(url, response?) or intercept(method, url, response?)
+     */
+    intercept(url: UrlMatcher, response?: StaticResponse | RouteHandler | object): Intercept;
+    intercept(method: string, url: UrlMatcher, response?: StaticResponse | RouteHandler | object): Intercept;
+    intercept(...args: unknown[]): Intercept {
+        const hasMethod = typeof args[1] === 'string' || args[1] instanceof RegExp;
+        const method = hasMethod ? (args[0] as string).toUpperCase() : '*';
+        const url = (hasMethod ? args[1] : args[0]) as UrlMatcher;
+        const response = (hasMethod ? args[2] : args[1]) as StaticResponse | RouteHandler | object | undefined;
+
+        return new Intercept(intercept =>
+            this.page.route(toPlaywrightMatcher(url), async (route, request) => {
+                if (method !== '*' && request.method() !== method) {
+                    await route.fallback();
+                    return;
+                }
+                await this.handle(route, request, response, intercept.alias);
+            })
+        );
+    }
+
+    /**
+     * Wait for the next call of an alias (or of each alias, in order)
+     */
+    async wait(alias: string, options?: { timeout?: number }): Promise<Interception>;
+    async wait(aliases: string[], options?: { timeout?: number }): Promise<Interception[]>;
+    async wait(target: string | string[], options: { timeout?: number } = {}): Promise<Interception | Interception[]> {
+        if (Array.isArray(target)) {
+            const calls: Interception[] = [];
+            for (const alias of target) calls.push(await this.wait(alias, options));
+            return calls;
+        }
+
+        const name = aliasName(target);
+        const state = this.state(name);
+        const index = state.waited++;
+        const timeout = options.timeout ?? DEFAULT_WAIT_TIMEOUT;
+
+        if (!state.calls[index]) {
+            await new Promise<void>((resolve, reject) => {
+                const timer = setTimeout(() => {
+                    state.listeners = state.listeners.filter(listener => listener !== check);
+                    reject(new Error(`wait('@${name}') timed out after ${timeout}ms: ${state.calls.length} call(s) completed, expected call #${index + 1}`));
+                }, timeout);
+                const check = (): void => {
+                    if (!state.calls[index]) return;
+                    clearTimeout(timer);
+                    state.listeners = state.listeners.filter(listener => listener !== check);
+                    resolve();
+                };
+                state.listeners.push(check);
+            });
+        }
+        return state.calls[index];
+    }
+
+    /**
+     * Number of requests matched by an alias so far (cy.get('@alias.all'))
+     */
+    count(alias: string): number {
+        return this.aliases.get(aliasName(alias))?.requested ?? 0;
+    }
+
+    /**
+     * Completed calls of an alias, oldest first
+     */
+    calls(alias: string): Interception[] {
+        return [...(this.aliases.get(aliasName(alias))?.calls ?? [])];
+    }
+
+    /**
+     * Most recent completed call of an alias (cy.get('@alias'))
+     */
+    last(alias: string): Interception | undefined {
+        return this.calls(alias).pop();
+    }
+
+    // ==========================================================================
+    // Route handling
+    // ==========================================================================
+
+    private async handle(
+        route: Route,
+        request: Request,
+        response: StaticResponse | RouteHandler | object | undefined,
+        alias?: string
+    ): Promise<void> {
+        const state = alias ? this.state(alias) : undefined;
+        if (state) state.requested++;
+
+        const interception: Interception = { id: this.nextId++, alias, request: describeRequest(request) };
+        // Handlers may call reply()/continue() without awaiting them, like in Cypress
+        let settled: Promise<void> | undefined;
+
+        const reply = async (staticResponse: StaticResponse): Promise<void> => {
+            if (staticResponse.delay) await new Promise(resolve => setTimeout(resolve, staticResponse.delay));
+            if (staticResponse.forceNetworkError) {
+                interception.error = 'forceNetworkError';
+                await route.abort('failed');
+                return;
+            }
+            const body = staticResponse.fixture ? readFixture(staticResponse.fixture) : staticResponse.body;
+            const statusCode = staticResponse.statusCode ?? 200;
+            const headers = { ...staticResponse.headers };
+            if (body === undefined || typeof body === 'string') {
+                await route.fulfill({ status: statusCode, headers, body: body ?? '' });
+            } else {
+                await route.fulfill({ status: statusCode, headers, json: body });
+            }
+            interception.response = { statusCode, headers, body };
+        };
+
+        const passThrough = async (): Promise<void> => {
+            try {
+                const fetched = await route.fetch();
+                const text = await fetched.text();
+                interception.response = { statusCode: fetched.status(), headers: fetched.headers(), body: parseBody(text) };
+                await route.fulfill({ response: fetched, body: text });
+            } catch (error) {
+                interception.error = error instanceof Error ? error.message : String(error);
+                await route.abort().catch(() => undefined);
+            }
+        };
+
+        // Resolves once a fallen-through request has its response recorded
+        let received: Promise<void> | undefined;
+
+        // Hand the request to earlier intercepts (or the server). Playwright runs
+        // them only after this handler returns, so the response is recorded later
+        const fallThrough = async (): Promise<void> => {
+            await route.fallback();
+            received = recordResponse(request, interception);
+        };
+
+        if (typeof response === 'function') {
+            await (response as RouteHandler)({
+                ...interception.request,
+                reply: (value, body) => (settled ??= reply(toStaticResponse(value, body))),
+                continue: () => (settled ??= passThrough()),
+            });
+            await (settled ?? fallThrough());
+        } else if (response !== undefined) {
+            await reply(toStaticResponse(response));
+        } else {
+            await fallThrough();
+        }
+
+        if (state) {
+            const complete = (): void => {
+                state.calls.push(interception);
+                state.listeners.forEach(listener => listener());
+            };
+            if (received) void received.then(complete);
+            else complete();
+        }
+    }
+
+    private state(alias: string): AliasState {
+        let state = this.aliases.get(alias);
+        if (!state) {
+            state = { calls: [], waited: 0, requested: 0, listeners: [] };
+            this.aliases.set(alias, state);
+        }
+        return state;
+    }
+}
+
+// ============================================================================
+// HELPERS
+// ============================================================================
+
+function aliasName(alias: string): string {
+    return alias.startsWith('@') ? alias.slice(1) : alias;
+}
+
+/**
+ * Cypress matches a plain path against the whole URL; Playwright needs a glob
+ */
+export function toPlaywrightMatcher(url: UrlMatcher): string | RegExp | ((url: URL) => boolean) {
+    if (url instanceof RegExp) return url;
+    if (url.includes('*')) return url.startsWith('/') ? `**${url}` : url;
+    return candidate =>
+        candidate.href === url || candidate.pathname === url || candidate.pathname + candidate.search === url;
+}
+
+function toStaticResponse(value: unknown, body?: unknown): StaticResponse {
+    if (typeof value === 'number') return { statusCode: value, body };
+    if (
+        value !== null &&
+        typeof value === 'object' &&
+        !Array.isArray(value) &&
+        Object.keys(value).some(key => STATIC_RESPONSE_KEYS.includes(key))
+    ) {
+        return value as StaticResponse;
+    }
+    return { body: value };
+}
+
+function describeRequest(request: Request): Interception['request'] {
+    const url = new URL(request.url());
+    return {
+        method: request.method(),
+        url: request.url(),
+        headers: request.headers(),
+        body: parseBody(request.postData() ?? undefined),
+        query: Object.fromEntries(url.searchParams),
+    };
+}
+
+/**
+ * Record the response (or failure) of a request that went on to another handler
+ */
+async function recordResponse(request: Request, interception: Interception): Promise<void> {
+    const response = await request.response().catch(() => null);
+    if (!response) {
+        interception.error = request.failure()?.errorText ?? 'failed';
+        return;
+    }
+    // Redirects have no body to read
+    const text = await response.text().catch(() => undefined);
+    interception.response = { statusCode: response.status(), headers: response.headers(), body: parseBody(text) };
+}
+
+function parseBody(text: string | undefined): unknown {
+    if (text === undefined || text === '') return text;
+    try {
+        return JSON.parse(text);
+    } catch {
+        return text;
+    }
+}
+
+function readFixture(fixture: string): unknown {
+    const text = fs.readFileSync(path.join(FIXTURES_DIR, fixture), 'utf-8');
+    return fixture.endsWith('.json') ? JSON.parse(text) : text;
+}
+
+// ============================================================================
+// FIXTURES
+// ============================================================================
+
+type NetworkFixtures = {
+    /**
+     * Named intercepts for the current page (cy.intercept / cy.wait equivalents)
+     */
+    network: NetworkAliases;
+};
+
+export const test = base.extend<NetworkFixtures>({
+    /**
+     * Provides NetworkAliases bound to the test's page
+     */
+    network: async ({ page }, use) => {
+        await use(new NetworkAliases(page));
+    },
+});
+
+export { expect } from '@playwright/test';
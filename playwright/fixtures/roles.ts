@@ -0,0 +1,72 @@
+// File: playwright/fixtures/roles.ts
+import fs from 'fs';
+import path from 'path';
+import type { BrowserContext, Page } from '@playwright/test';
+import type { UserRole } from '../../tests/api/types';
+import { testData, type Credentials } from './test-data';
+
+/**
+ * Roles
+ * Replaces: cy.session() per user
+ *
+ * The `setup` project (playwright/setup/auth.setup.ts) logs in once per role
+ * and saves the session to `playwright/.auth/<role>.json`. Tests pick one
+ * with `test.use({ role: 'admin' })` from auth.fixture.ts, or load one into
+ * a running test with restoreRoleSession(page, role).
+ */
+
+export type Role = UserRole;
+
+export type StorageState = Awaited<ReturnType<BrowserContext['storageState']>>;
+
+export const ROLES: readonly Role[] = ['user', 'admin'];
+
+export const roleCredentials: Record<Role, Credentials> = {
+    user: testData.validCredentials,
+    admin: testData.adminCredentials,
+};
+
+export const STORAGE_STATE_DIR = path.join(__dirname, '../.auth');
+
+/**
+ * Storage state file of a role, written by the setup project
+ */
+export function storageStatePath(role: Role): string {
+    return path.join(STORAGE_STATE_DIR, `${role}.json`);
+}
+
+/**
+ * Storage state for a logged-in session: the authToken cookie plus the
+ * `authToken` / `user` localStorage entries the app pages read
+ */
+export function loggedInState(
+    baseURL: string,
+    cookies: StorageState['cookies'],
+    session: { token: string; user: object }
+): StorageState {
+    return {
+        cookies,
+        origins: [
+            {
+                origin: new URL(baseURL).origin,
+                localStorage: [
+                    { name: 'authToken', value: session.token },
+                    { name: 'user', value: JSON.stringify(session.user) },
+                ],
+            },
+        ],
+    };
+}
+
+/**
+ * Load a role's saved session into the page's context, like cy.loginAs(role):
+ * the cookies, then the localStorage entries (visits `/` to reach the origin)
+ */
+export async function restoreRoleSession(page: Page, role: Role): Promise<void> {
+    const state = JSON.parse(fs.readFileSync(storageStatePath(role), 'utf8')) as StorageState;
+    await page.context().addCookies(state.cookies);
+    await page.goto('/');
+    await page.evaluate(entries => {
+        entries.forEach(({ name, value }) => localStorage.setItem(name, value));
+    }, state.origins[0]?.localStorage ?? []);
+}
@@ -1,38 +1,15 @@
 // File: playwright/fixtures/test-data.ts
+import { users } from '../../tests/fixtures/users';
 
 /**
  * Test Data
  * Replaces: cypress/fixtures/users.json
- * 
- * Migrated to TypeScript for type safety and easier access
+ *
+ * Generated from the JSON fixture by `npm run migrate:fixtures`
+ * (tests/fixtures/users.ts), so both suites share the same credentials.
  */
 
-export const testData = {
-    validCredentials: {
-        emailId: 'test@example.com',
-        password: 'password123'
-    },
-
-    adminCredentials: {
-        emailId: 'admin@example.com',
-        password: 'admin123'
-    },
-
-    invalidCredentials: {
-        invalidEmail: {
-            emailId: 'invalidUser@example.com',
-            password: 'password123'
-        },
-        invalidPassword: {
-            emailId: 'test@example.com',
-            password: 'wrongpassword'
-        },
-        wrongEmailFormat: {
-            emailId: 'testautomationresstest.com', // Missing @
-            password: 'password123'
-        }
-    }
-} as const;
+export const testData = users;
 
 // Type for credentials
 export type Credentials = {
@@ -0,0 +1,104 @@
+// File: playwright/fixtures/uploads.fixture.ts
+import { test as base, APIRequestContext, Page, Response } from '@playwright/test';
+import type { UploadedFile, UploadResponse } from '../../tests/api/types';
+import { UPLOAD_RESPONSE_PATH } from '../../tests/api/uploads';
+
+/**
+ * Uploads Fixture
+ * Replaces Cypress cy.trackUpload / cy.trackPageUploads / cy.deleteTrackedUploads
+ * (cypress/support/commands.ts)
+ *
+ * FLOW:
+ * ┌─────────────────────────────────────────────────────────────────────────┐
+ * │  api.upload(file)         ──►  uploads.track(body.file)                 │
+ * │  page POST /api/upload    ──►  uploads.trackPage(page) records file.id  │
+ * │  after the test           ──►  DELETE /api/uploads/:id for each id      │
+ * └─────────────────────────────────────────────────────────────────────────┘
+ *
+ * Files the test deleted itself are already gone; their 404 is ignored.
+ *
+ * Usage:
+ * import { test, expect } from '../fixtures/uploads.fixture';
+ *
+ * test('my test', async ({ page, api, uploads }) => {
+ *   uploads.trackPage(page);
+ *   const { body } = await api.upload(file);
+ *   uploads.track(body.file);
+ * });
+ */
+
+// ============================================================================
+// TYPES
+// ============================================================================
+
+export interface UploadTracker {
+    /** Ids of the files this test uploaded */
+    readonly ids: ReadonlySet<string>;
+    /** Delete this file after the test */
+    track(file: UploadedFile): UploadedFile;
+    /** Delete every file the page uploads (single, multiple and chunked) */
+    trackPage(page: Page): void;
+}
+
+// ============================================================================
+// HELPERS
+// ============================================================================
+
+function isUploadResponse(response: Response): boolean {
+    return response.request().method() === 'POST'
+        && response.ok()
+        && UPLOAD_RESPONSE_PATH.test(new URL(response.url()).pathname);
+}
+
+/**
+ * Delete uploaded files by id, ignoring the ones that are already gone
+ */
+export async function deleteUploads(request: APIRequestContext, ids: Iterable<string>): Promise<void> {
+    for (const id of ids) {
+        await request.delete(`/api/uploads/${id}`);
+    }
+}
+
+// ============================================================================
+// FIXTURES
+// ============================================================================
+
+type UploadsFixtures = {
+    /**
+     * Tracks the test's uploads and deletes them afterwards
+     */
+    uploads: UploadTracker;
+};
+
+export const test = base.extend<UploadsFixtures>({
+    /**
+     * Provides the tracker; files are deleted through the `request` context
+     */
+    uploads: async ({ request }, use) => {
+        const ids = new Set<string>();
+        const pending: Promise<void>[] = [];
+
+        const recordResponse = (response: Response) => {
+            if (!isUploadResponse(response)) return;
+            pending.push(response.json()
+                .then((body: UploadResponse) => { ids.add(body.file.id); })
+                .catch(() => undefined));
+        };
+
+        await use({
+            ids,
+            track: (file) => {
+                ids.add(file.id);
+                return file;
+            },
+            trackPage: (page) => {
+                page.on('response', recordResponse);
+            },
+        });
+
+        await Promise.all(pending);
+        await deleteUploads(request, ids);
+    },
+});
+
+export { expect } from '@playwright/test';
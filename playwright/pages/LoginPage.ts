@@ -1,4 +1,5 @@
 import { Page, Locator, expect } from '@playwright/test';
+import { TestIds } from '../../tests/test-ids';
 
 export class LoginPage {
     readonly page: Page;
@@ -16,17 +17,17 @@ export class LoginPage {
 
     constructor(page: Page) {
         this.page = page;
-        this.loginContainer = page.locator('[data-testid="login-container"]');
-        this.emailAddressTxt = page.locator('[data-testid="email-input"]');
-        this.passwordTxt = page.locator('[data-testid="password-input"]');
-        this.signinBtn = page.locator('[data-testid="submit-btn"]');
-        this.rememberCheckbox = page.locator('[data-testid="remember-checkbox"]');
-        this.loginAlert = page.locator('[data-testid="login-alert"]');
-        this.emailError = page.locator('[data-testid="email-error"]');
-        this.passwordError = page.locator('[data-testid="password-error"]');
-        this.forgotPasswordLink = page.locator('[data-testid="forgot-password-link"]');
-        this.backToHomeLink = page.locator('[data-testid="back-to-home-link"]');
-        this.navLoginLink = page.locator('[data-testid="nav-login"]');
+        this.loginContainer = page.getByTestId(TestIds.login.loginContainer);
+        this.emailAddressTxt = page.getByTestId(TestIds.login.emailInput);
+        this.passwordTxt = page.getByTestId(TestIds.login.passwordInput);
+        this.signinBtn = page.getByTestId(TestIds.login.submitBtn);
+        this.rememberCheckbox = page.getByTestId(TestIds.login.rememberCheckbox);
+        this.loginAlert = page.getByTestId(TestIds.login.loginAlert);
+        this.emailError = page.getByTestId(TestIds.login.emailError);
+        this.passwordError = page.getByTestId(TestIds.login.passwordError);
+        this.forgotPasswordLink = page.getByTestId(TestIds.login.forgotPasswordLink);
+        this.backToHomeLink = page.getByTestId(TestIds.login.backToHomeLink);
+        this.navLoginLink = page.getByTestId(TestIds.index.navLogin);
     }
 
     async launchApplication() {
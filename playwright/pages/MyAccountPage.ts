@@ -1,4 +1,6 @@
 import { Page, Locator, expect } from '@playwright/test';
+import { TestIds } from '../../tests/test-ids';
+import type { ExportFormat, OrderAction } from '../../tests/api/types';
 import { LoginPage } from './LoginPage';
 
 export class MyAccountPage {
@@ -20,7 +22,12 @@ export class MyAccountPage {
     readonly statsGrid: Locator;
     readonly ordersSection: Locator;
     readonly ordersTable: Locator;
+    readonly orderRows: Locator;
+    readonly orderActionResult: Locator;
     readonly createOrderBtn: Locator;
+    readonly exportFormat: Locator;
+    readonly exportOrdersBtn: Locator;
+    readonly exportResult: Locator;
     readonly storageSection: Locator;
     readonly setCookieBtn: Locator;
     readonly getCookieBtn: Locator;
@@ -31,31 +38,36 @@ export class MyAccountPage {
 
     constructor(page: Page) {
         this.page = page;
-        this.pageTitle = page.locator('[data-testid="page-title"]');
-        this.userInfo = page.locator('[data-testid="user-info"]');
-        this.userName = page.locator('[data-testid="user-name"]');
-        this.userEmail = page.locator('[data-testid="user-email"]');
-        this.userAvatar = page.locator('[data-testid="user-avatar"]');
-        this.sidebar = page.locator('[data-testid="sidebar"]');
-        this.sidebarNav = page.locator('[data-testid="sidebar-nav"]');
-        this.navOverview = page.locator('[data-testid="nav-overview"]');
-        this.navOrders = page.locator('[data-testid="nav-orders"]');
-        this.navProducts = page.locator('[data-testid="nav-products"]');
-        this.navSettings = page.locator('[data-testid="nav-settings"]');
-        this.logoutLink = page.locator('[data-testid="logout-link"]');
-        this.dashboardHeader = page.locator('[data-testid="dashboard-header"]');
-        this.mainContent = page.locator('[data-testid="main-content"]');
-        this.statsGrid = page.locator('[data-testid="stats-grid"]');
-        this.ordersSection = page.locator('[data-testid="orders-section"]');
-        this.ordersTable = page.locator('[data-testid="orders-table"]');
-        this.createOrderBtn = page.locator('[data-testid="create-order-btn"]');
-        this.storageSection = page.locator('[data-testid="storage-section"]');
-        this.setCookieBtn = page.locator('[data-testid="set-cookie-btn"]');
-        this.getCookieBtn = page.locator('[data-testid="get-cookie-btn"]');
-        this.clearCookiesBtn = page.locator('[data-testid="clear-cookies-btn"]');
-        this.setStorageBtn = page.locator('[data-testid="set-storage-btn"]');
-        this.clearStorageBtn = page.locator('[data-testid="clear-storage-btn"]');
-        this.storageResult = page.locator('[data-testid="storage-result"]');
+        this.pageTitle = page.getByTestId(TestIds.dashboard.pageTitle);
+        this.userInfo = page.getByTestId(TestIds.dashboard.userInfo);
+        this.userName = page.getByTestId(TestIds.dashboard.userName);
+        this.userEmail = page.getByTestId(TestIds.dashboard.userEmail);
+        this.userAvatar = page.getByTestId(TestIds.dashboard.userAvatar);
+        this.sidebar = page.getByTestId(TestIds.dashboard.sidebar);
+        this.sidebarNav = page.getByTestId(TestIds.dashboard.sidebarNav);
+        this.navOverview = page.getByTestId(TestIds.dashboard.navOverview);
+        this.navOrders = page.getByTestId(TestIds.dashboard.navOrders);
+        this.navProducts = page.getByTestId(TestIds.dashboard.navProducts);
+        this.navSettings = page.getByTestId(TestIds.dashboard.navSettings);
+        this.logoutLink = page.getByTestId(TestIds.dashboard.logoutLink);
+        this.dashboardHeader = page.getByTestId(TestIds.dashboard.dashboardHeader);
+        this.mainContent = page.getByTestId(TestIds.dashboard.mainContent);
+        this.statsGrid = page.getByTestId(TestIds.dashboard.statsGrid);
+        this.ordersSection = page.getByTestId(TestIds.dashboard.ordersSection);
+        this.ordersTable = page.getByTestId(TestIds.dashboard.ordersTable);
+        this.orderRows = page.getByTestId(TestIds.dashboard.orderRow);
+        this.orderActionResult = page.getByTestId(TestIds.dashboard.orderActionResult);
+        this.createOrderBtn = page.getByTestId(TestIds.dashboard.createOrderBtn);
+        this.exportFormat = page.getByTestId(TestIds.dashboard.exportFormat);
+        this.exportOrdersBtn = page.getByTestId(TestIds.dashboard.exportOrdersBtn);
+        this.exportResult = page.getByTestId(TestIds.dashboard.exportResult);
+        this.storageSection = page.getByTestId(TestIds.dashboard.storageSection);
+        this.setCookieBtn = page.getByTestId(TestIds.dashboard.setCookieBtn);
+        this.getCookieBtn = page.getByTestId(TestIds.dashboard.getCookieBtn);
+        this.clearCookiesBtn = page.getByTestId(TestIds.dashboard.clearCookiesBtn);
+        this.setStorageBtn = page.getByTestId(TestIds.dashboard.setStorageBtn);
+        this.clearStorageBtn = page.getByTestId(TestIds.dashboard.clearStorageBtn);
+        this.storageResult = page.getByTestId(TestIds.dashboard.storageResult);
     }
 
     async validateSuccessfulLogin() {
@@ -81,6 +93,42 @@ export class MyAccountPage {
         await this.navOrders.click();
     }
 
+    orderRow(id: number): Locator {
+        return this.orderRows.and(this.page.locator(`[data-order-id="${id}"]`));
+    }
+
+    orderActionBtn(id: number, action: OrderAction): Locator {
+        return this.orderRow(id).getByTestId(TestIds.dashboard.orderActionBtn).and(this.page.locator(`[data-action="${action}"]`));
+    }
+
+    /**
+     * Click an order's row action; the result reads "Order #1 paid", or the error (e.g. a 409)
+     */
+    async transitionOrder(id: number, action: OrderAction) {
+        await this.orderActionBtn(id, action).click();
+        await expect(this.orderActionResult).toContainText(`Order #${id}`);
+    }
+
+    /**
+     * Check an order's status badge and that its row offers exactly `actions`
+     */
+    async validateOrder(id: number, status: string, actions: OrderAction[]) {
+        await expect(this.orderRow(id).getByTestId(TestIds.dashboard.orderStatus)).toHaveText(status);
+        await expect(this.orderRow(id).getByTestId(TestIds.dashboard.orderActionBtn)).toHaveCount(actions.length);
+        for (const action of actions) {
+            await expect(this.orderActionBtn(id, action)).toBeVisible();
+        }
+    }
+
+    /**
+     * Export the orders; capture the file with captureDownload (downloads.fixture.ts)
+     */
+    async exportOrders(format: ExportFormat) {
+        await this.exportFormat.selectOption(format);
+        await this.exportOrdersBtn.click();
+        await expect(this.exportResult).toContainText(`Exported orders.${format}`);
+    }
+
     async navigateToProducts() {
         await this.navProducts.click();
     }
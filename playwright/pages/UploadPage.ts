@@ -0,0 +1,183 @@
+import fs from 'fs';
+import { Page, Locator, Download, expect } from '@playwright/test';
+import { TestIds } from '../../tests/test-ids';
+import type { UploadFile } from '../../tests/api/types';
+
+type FilePayload = { name: string; mimeType: string; buffer: Buffer };
+
+export class UploadPage {
+    readonly page: Page;
+    readonly uploadContainer: Locator;
+    readonly pageTitle: Locator;
+    readonly backLink: Locator;
+    readonly singleUploadArea: Locator;
+    readonly singleFileInput: Locator;
+    readonly singleUploadBtn: Locator;
+    readonly singleUploadResult: Locator;
+    readonly uploadedFilename: Locator;
+    readonly multipleUploadArea: Locator;
+    readonly multipleFileInput: Locator;
+    readonly fileList: Locator;
+    readonly fileItems: Locator;
+    readonly fileNames: Locator;
+    readonly multipleUploadBtn: Locator;
+    readonly multipleUploadResult: Locator;
+    readonly chunkedFileInput: Locator;
+    readonly chunkedUploadBtn: Locator;
+    readonly chunkedResumeBtn: Locator;
+    readonly chunkedCancelBtn: Locator;
+    readonly chunkedProgress: Locator;
+    readonly chunkedProgressText: Locator;
+    readonly chunkedUploadStatus: Locator;
+    readonly chunkedUploadResult: Locator;
+    readonly chunkedUploadedFilename: Locator;
+    readonly refreshUploadsBtn: Locator;
+    readonly uploadedFilesList: Locator;
+    readonly uploadedFileRows: Locator;
+    readonly uploadedFilesEmpty: Locator;
+    readonly uploadedFilesResult: Locator;
+    readonly sampleDownloadLink: Locator;
+    readonly generateDownloadBtn: Locator;
+    readonly downloadResult: Locator;
+
+    constructor(page: Page) {
+        this.page = page;
+        this.uploadContainer = page.getByTestId(TestIds.upload.uploadContainer);
+        this.pageTitle = page.getByTestId(TestIds.upload.pageTitle);
+        this.backLink = page.getByTestId(TestIds.upload.backLink);
+        this.singleUploadArea = page.getByTestId(TestIds.upload.singleUploadArea);
+        this.singleFileInput = page.getByTestId(TestIds.upload.singleFileInput);
+        this.singleUploadBtn = page.getByTestId(TestIds.upload.singleUploadBtn);
+        this.singleUploadResult = page.getByTestId(TestIds.upload.singleUploadResult);
+        this.uploadedFilename = page.getByTestId(TestIds.upload.uploadedFilename);
+        this.multipleUploadArea = page.getByTestId(TestIds.upload.multipleUploadArea);
+        this.multipleFileInput = page.getByTestId(TestIds.upload.multipleFileInput);
+        this.fileList = page.getByTestId(TestIds.upload.fileList);
+        this.fileItems = page.getByTestId(TestIds.upload.fileItem);
+        this.fileNames = page.getByTestId(TestIds.upload.fileName);
+        this.multipleUploadBtn = page.getByTestId(TestIds.upload.multipleUploadBtn);
+        this.multipleUploadResult = page.getByTestId(TestIds.upload.multipleUploadResult);
+        this.chunkedFileInput = page.getByTestId(TestIds.upload.chunkedFileInput);
+        this.chunkedUploadBtn = page.getByTestId(TestIds.upload.chunkedUploadBtn);
+        this.chunkedResumeBtn = page.getByTestId(TestIds.upload.chunkedResumeBtn);
+        this.chunkedCancelBtn = page.getByTestId(TestIds.upload.chunkedCancelBtn);
+        this.chunkedProgress = page.getByTestId(TestIds.upload.chunkedProgress);
+        this.chunkedProgressText = page.getByTestId(TestIds.upload.chunkedProgressText);
+        this.chunkedUploadStatus = page.getByTestId(TestIds.upload.chunkedUploadStatus);
+        this.chunkedUploadResult = page.getByTestId(TestIds.upload.chunkedUploadResult);
+        this.chunkedUploadedFilename = page.getByTestId(TestIds.upload.chunkedUploadedFilename);
+        this.refreshUploadsBtn = page.getByTestId(TestIds.upload.refreshUploadsBtn);
+        this.uploadedFilesList = page.getByTestId(TestIds.upload.uploadedFilesList);
+        this.uploadedFileRows = page.getByTestId(TestIds.upload.uploadedFileRow);
+        this.uploadedFilesEmpty = page.getByTestId(TestIds.upload.uploadedFilesEmpty);
+        this.uploadedFilesResult = page.getByTestId(TestIds.upload.uploadedFilesResult);
+        this.sampleDownloadLink = page.getByTestId(TestIds.upload.sampleDownloadLink);
+        this.generateDownloadBtn = page.getByTestId(TestIds.upload.generateDownloadBtn);
+        this.downloadResult = page.getByTestId(TestIds.upload.downloadResult);
+    }
+
+    async visit() {
+        await this.page.goto('/upload');
+        await expect(this.pageTitle).toHaveText('File Upload Testing');
+    }
+
+    async selectSingleFile(file: UploadFile) {
+        await this.singleFileInput.setInputFiles(this.asInputFile(file));
+    }
+
+    async uploadSingleFile(file: UploadFile) {
+        await this.selectSingleFile(file);
+        await this.singleUploadBtn.click();
+    }
+
+    async selectMultipleFiles(files: UploadFile[]) {
+        await this.multipleFileInput.setInputFiles(files.map(file => this.asInputFile(file)));
+    }
+
+    async uploadMultipleFiles(files: UploadFile[]) {
+        await this.selectMultipleFiles(files);
+        await this.multipleUploadBtn.click();
+    }
+
+    async validateUploadSuccess() {
+        await expect(this.singleUploadResult).toContainText('Upload successful!');
+    }
+
+    async validateUploadFailure(message: string) {
+        await expect(this.singleUploadResult).toContainText('Upload failed:');
+        await expect(this.singleUploadResult).toContainText(message);
+    }
+
+    async validateMultipleUploadResult(uploaded: number, total: number) {
+        await expect(this.multipleUploadResult).toContainText(`${uploaded}/${total} files uploaded successfully`);
+    }
+
+    async startChunkedUpload(file: UploadFile) {
+        await this.chunkedFileInput.setInputFiles(this.asInputFile(file));
+        await this.chunkedUploadBtn.click();
+    }
+
+    async resumeChunkedUpload() {
+        await this.chunkedResumeBtn.click();
+    }
+
+    async cancelChunkedUpload() {
+        await this.chunkedCancelBtn.click();
+    }
+
+    async validateChunkedProgress(sent: number, total: number) {
+        await expect(this.chunkedProgressText).toContainText(`${sent} / ${total} chunks`);
+    }
+
+    async validateChunkedUploadSuccess() {
+        await expect(this.chunkedUploadStatus).toHaveText('Upload complete');
+        await expect(this.chunkedUploadResult).toContainText('Upload successful!');
+    }
+
+    /**
+     * Row of the uploaded files list for a file id from /api/upload
+     */
+    uploadedFileRow(id: string): Locator {
+        return this.uploadedFileRows.and(this.page.locator(`[data-file-id="${id}"]`));
+    }
+
+    async refreshUploadedFiles() {
+        await this.refreshUploadsBtn.click();
+    }
+
+    async downloadUploadedFile(id: string): Promise<Download> {
+        const download = this.page.waitForEvent('download');
+        await this.uploadedFileRow(id).getByTestId(TestIds.upload.uploadedFileDownload).click();
+        return download;
+    }
+
+    async deleteUploadedFile(id: string) {
+        await this.uploadedFileRow(id).getByTestId(TestIds.upload.uploadedFileDelete).click();
+        await expect(this.uploadedFilesResult).toContainText('Deleted');
+        await expect(this.uploadedFileRow(id)).toHaveCount(0);
+    }
+
+    async downloadSample(): Promise<Download> {
+        const download = this.page.waitForEvent('download');
+        await this.sampleDownloadLink.click();
+        return download;
+    }
+
+    async generateDownload(): Promise<Download> {
+        const download = this.page.waitForEvent('download');
+        await this.generateDownloadBtn.click();
+        await expect(this.downloadResult).toContainText('download started');
+        return download;
+    }
+
+    /**
+     * Read a finished download from Playwright's temporary download path
+     */
+    async readDownload(download: Download): Promise<string> {
+        return fs.promises.readFile(await download.path(), 'utf8');
+    }
+
+    private asInputFile(file: UploadFile): FilePayload {
+        return { name: file.name, mimeType: file.mimeType, buffer: Buffer.from(file.contents) };
+    }
+}
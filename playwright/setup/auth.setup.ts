@@ -0,0 +1,24 @@
+import fs from 'fs';
+import { test as setup, expect } from '../fixtures/api.fixture';
+import { loggedInState, roleCredentials, ROLES, STORAGE_STATE_DIR, storageStatePath } from '../fixtures/roles';
+
+// ============================================================================
+// AUTH SETUP - One Login Per Role (Equivalent to cy.session)
+// ============================================================================
+// Runs as the `setup` project before the browser projects. Logs in through
+// /api/auth/login and saves cookie + localStorage to playwright/.auth/<role>.json,
+// so tests using `test.use({ role })` start logged in without the login UI.
+
+for (const role of ROLES) {
+    setup(`authenticate as ${role}`, async ({ api, request, baseURL }) => {
+        const { emailId: email, password } = roleCredentials[role];
+        const { body } = await api.login({ email, password });
+        expect(body.user.role).toBe(role);
+
+        const { cookies } = await request.storageState();
+        expect(cookies.map(cookie => cookie.name)).toContain('authToken');
+
+        fs.mkdirSync(STORAGE_STATE_DIR, { recursive: true });
+        fs.writeFileSync(storageStatePath(role), JSON.stringify(loggedInState(baseURL!, cookies, body), null, 2));
+    });
+}
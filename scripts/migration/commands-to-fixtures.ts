@@ -0,0 +1,570 @@
+/**
+ * ============================================================================
+ * CYPRESS CUSTOM COMMANDS → PLAYWRIGHT FIXTURES GENERATOR
+ * ============================================================================
+ *
+ * PURPOSE:
+ * Reads the `Cypress.Commands.add(...)` registrations and the
+ * `declare global { namespace Cypress { interface Chainable ... } }` typings
+ * of a support file and emits a typed Playwright module with one helper
+ * function per command plus a `commands` fixture.
+ *
+ * COMMAND MAPPING:
+ * ┌─────────────────────────────────────────────────────────────────────────┐
+ * │  PARENT  cy.login(email, pw)        ──►  login(page, email, pw)         │
+ * │                                          commands.login(email, pw)      │
+ * │  CHILD   cy.get(x).typeAndClear(t)  ──►  typeAndClear(locator, t)       │
+ * │  DUAL    cy.get(x).highlight()      ──►  highlight(locator | undefined) │
+ * │  HAND-PORTED  cy.loginAs(role)      ──►  restoreRoleSession(page, role) │
+ * │  OVERWRITE                          ──►  TODO(migrate) note only        │
+ * │  UNTRANSLATABLE                     ──►  left out, listed in the header │
+ * └─────────────────────────────────────────────────────────────────────────┘
+ *
+ * Command bodies are translated with the same chain translator as the spec
+ * codemod. A command with any untranslatable statement is left out of the
+ * module instead of becoming a helper that silently does nothing; the
+ * header lists it, with the `Playwright equivalent:` note of its
+ * registration when there is one, so it gets ported by hand. Commands with a hand-written
+ * Playwright counterpart (PORTED_COMMANDS) delegate to it instead.
+ *
+ * USAGE:
+ *   npm run migrate:commands
+ *   npm run migrate:commands -- --check
+ *   npm run migrate:commands -- cypress/support/commands.ts --out playwright/fixtures/commands.fixture.ts
+ */
+
+import fs from 'fs';
+import path from 'path';
+import ts from 'typescript';
+import { parseArgs } from 'util';
+import {
+    calleePath,
+    containsNode,
+    dedentedText,
+    escapeRegExp,
+    flattenChain,
+    hasBlankLineBefore,
+    leadingComments,
+    parseSource,
+    referencesAny,
+    sharedImport,
+    stringValue,
+} from './shared/ast';
+import { CYPRESS_GLOBALS, ChainTranslator, Subject, Untranslatable, isChaiAccess } from './shared/cypress-chains';
+import { CodeWriter } from './shared/writer';
+
+export type CommandKind = 'parent' | 'child' | 'dual';
+
+export interface CustomCommand {
+    name: string;
+    kind: CommandKind;
+    fn: ts.ArrowFunction | ts.FunctionExpression;
+    /** Matching `Chainable` method signature, when declared */
+    typing?: ts.MethodSignature;
+}
+
+export interface SkippedCommand {
+    name: string;
+    /** `Playwright equivalent:` note from the command's registration comment */
+    equivalent?: string;
+}
+
+export interface CommandsModuleResult {
+    code: string;
+    todos: number;
+    commands: { name: string; kind: CommandKind }[];
+    /** Commands left out because part of their body has no translation */
+    skipped: SkippedCommand[];
+}
+
+/**
+ * Collect `Cypress.Commands.add` registrations in source order
+ */
+export function findCommands(sf: ts.SourceFile): { commands: CustomCommand[]; overwrites: ts.CallExpression[] } {
+    const typings = chainableTypings(sf);
+    const commands: CustomCommand[] = [];
+    const overwrites: ts.CallExpression[] = [];
+
+    const visit = (node: ts.Node): void => {
+        if (ts.isCallExpression(node)) {
+            const callee = calleePath(node);
+            if (callee === 'Cypress.Commands.overwrite') overwrites.push(node);
+            if (callee === 'Cypress.Commands.add') {
+                const name = stringValue(node.arguments[0]);
+                const fn = node.arguments[node.arguments.length - 1];
+                if (name && fn && (ts.isArrowFunction(fn) || ts.isFunctionExpression(fn))) {
+                    const options = node.arguments.length > 2 ? node.arguments[1] : undefined;
+                    commands.push({ name, kind: commandKind(options), fn, typing: typings.get(name) });
+                }
+            }
+        }
+        ts.forEachChild(node, visit);
+    };
+    visit(sf);
+
+    return { commands, overwrites };
+}
+
+/**
+ * Method signatures declared on `Cypress.Chainable`
+ */
+function chainableTypings(sf: ts.SourceFile): Map<string, ts.MethodSignature> {
+    const typings = new Map<string, ts.MethodSignature>();
+    const visit = (node: ts.Node): void => {
+        if (ts.isInterfaceDeclaration(node) && node.name.text === 'Chainable') {
+            node.members.forEach(member => {
+                if (ts.isMethodSignature(member) && ts.isIdentifier(member.name)) {
+                    typings.set(member.name.text, member);
+                }
+            });
+        }
+        ts.forEachChild(node, visit);
+    };
+    visit(sf);
+    return typings;
+}
+
+function commandKind(options: ts.Expression | undefined): CommandKind {
+    if (!options || !ts.isObjectLiteralExpression(options)) return 'parent';
+    const prevSubject = options.properties.find(
+        (p): p is ts.PropertyAssignment => ts.isPropertyAssignment(p) && p.name.getText() === 'prevSubject'
+    );
+    if (!prevSubject || prevSubject.initializer.kind === ts.SyntaxKind.FalseKeyword) return 'parent';
+    return stringValue(prevSubject.initializer) === 'optional' ? 'dual' : 'child';
+}
+
+class CommandsGenerator {
+    private readonly unsafe = new Set(CYPRESS_GLOBALS);
+
+    constructor(
+        private readonly sf: ts.SourceFile,
+        private readonly outPath: string
+    ) {}
+
+    run(sourcePath: string): CommandsModuleResult {
+        const { commands, overwrites } = findCommands(this.sf);
+        const helpers = new CodeWriter();
+        const parents: HelperSignature[] = [];
+        const skipped: SkippedCommand[] = [];
+
+        for (const kind of ['parent', 'child', 'dual'] as CommandKind[]) {
+            const group: HelperSignature[] = [];
+            commands
+                .filter(command => command.kind === kind)
+                .forEach(command => {
+                    const helper = this.helper(command);
+                    if (helper) group.push(helper);
+                    else skipped.push({ name: command.name, equivalent: this.equivalent(command) });
+                });
+            if (group.length === 0) continue;
+
+            helpers.line();
+            helpers.line('// ============================================================================');
+            helpers.line(`// ${SECTION_TITLES[kind]}`);
+            helpers.line('// ============================================================================');
+
+            for (const helper of group) {
+                helpers.line();
+                helpers.append(helper.code);
+                if (kind === 'parent') parents.push(helper);
+            }
+        }
+
+        overwrites.forEach(call => {
+            helpers.line();
+            helpers.todo('overwritten Cypress command, wrap the Playwright API by hand', dedentedText(call, this.sf));
+        });
+
+        // Commands that intercept network calls share the NetworkAliases fixture
+        const usesNetwork = parents.some(p => p.fixtures.includes('network'));
+        const fixtures = Object.keys(FIXTURE_TYPES).filter(name => parents.some(p => p.fixtures.includes(name)));
+        const w = new CodeWriter();
+        w.line(`// Generated by scripts/migration/commands-to-fixtures.ts from ${sourcePath}`);
+        w.line('// Do not edit by hand: update the Cypress command and run `npm run migrate:commands`.');
+        if (usesNetwork) {
+            w.line("import { Page, Locator } from '@playwright/test';");
+            w.line("import { test as base, expect, NetworkAliases } from './network.fixture';");
+        } else {
+            w.line("import { test as base, Page, Locator, expect } from '@playwright/test';");
+        }
+        // Shared modules (test ids, test data) the generated helpers still use;
+        // names only referenced from TODO(migrate) blocks are dropped
+        const used = (name: string) => helpers.uses(new RegExp(`\\b${escapeRegExp(name)}\\b`));
+        this.sf.statements
+            .filter(ts.isImportDeclaration)
+            .map(stmt => sharedImport(stmt, this.sf, sourcePath, this.outPath, used))
+            .forEach(line => line && w.line(line));
+        new Set(parents.map(p => PORTED_COMMANDS[p.name]?.import).filter(Boolean)).forEach(line => w.line(line!));
+        w.line();
+        w.line('/**');
+        w.line(' * Playwright equivalents of the Cypress custom commands');
+        w.line(' *');
+        w.line(' * Usage:');
+        w.line(" * import { test, expect } from '../fixtures/commands.fixture';");
+        w.line(' *');
+        w.line(" * test('my test', async ({ commands }) => {");
+        w.line(' *   await commands.login(email, password);');
+        w.line(' * });');
+        if (skipped.length > 0) {
+            w.line(' *');
+            w.line(' * Not generated, their Cypress bodies have no automatic translation:');
+            skipped.forEach(({ name, equivalent }) => w.line(` * - cy.${name}()${equivalent ? `: use ${equivalent}` : ''}`));
+        }
+        w.line(' */');
+        w.append(helpers);
+
+        w.line();
+        w.line('// ============================================================================');
+        w.line('// FIXTURES');
+        w.line('// ============================================================================');
+        w.line();
+        w.line('/**');
+        w.line(' * Parent commands bound to the current page');
+        w.line(' */');
+        w.line('export type PageCommands = {').indent();
+        parents.forEach(p => w.line(`${p.name}: (${p.params.join(', ')}) => ${p.returns};`));
+        w.dedent().line('};');
+        w.line();
+        w.line('type CommandFixtures = {').indent();
+        w.line('/**');
+        w.line(' * Parent custom commands, e.g. `commands.login(email, password)`');
+        w.line(' */');
+        w.line('commands: PageCommands;');
+        w.dedent().line('};');
+        w.line();
+        w.line('export const test = base.extend<CommandFixtures>({').indent();
+        w.line(`commands: async ({ ${fixtures.join(', ')} }, use) => {`).indent();
+        w.line('await use({').indent();
+        parents.forEach(p => w.line(`${p.name}: (${p.args.join(', ')}) => ${p.name}(${[...p.fixtures, ...p.args].join(', ')}),`));
+        w.dedent().line('});');
+        w.dedent().line('},');
+        w.dedent().line('});');
+        w.line();
+        w.line("export { expect };");
+
+        return {
+            code: w.toString(),
+            todos: w.todoCount,
+            commands: commands
+                .filter(({ name }) => !skipped.some(command => command.name === name))
+                .map(({ name, kind }) => ({ name, kind })),
+            skipped,
+        };
+    }
+
+    // ==========================================================================
+    // Helpers
+    // ==========================================================================
+
+    /**
+     * Helper function for a command, or undefined when part of its body has
+     * no translation
+     */
+    private helper(command: CustomCommand): HelperSignature | undefined {
+        const fnParams = [...command.fn.parameters];
+        const subjectParam = command.kind === 'parent' ? undefined : fnParams.shift();
+        const subject = subjectParam && ts.isIdentifier(subjectParam.name) ? subjectParam.name.text : 'subject';
+        const typed = command.typing?.parameters ?? [];
+
+        const params = fnParams.map((param, i) => {
+            const name = param.name.getText(this.sf);
+            const type = typed[i]?.type ?? param.type;
+            const optional = param.questionToken || param.initializer || typed[i]?.questionToken ? '?' : '';
+            return `${name}${optional}: ${playwrightType(type?.getText(this.sf))}`;
+        });
+        const args = fnParams.map(param => param.name.getText(this.sf));
+        const ported = command.kind === 'parent' ? PORTED_COMMANDS[command.name] : undefined;
+        if (ported) return this.ported(command, ported, params, args);
+
+        const chains = new ChainTranslator({
+            sf: this.sf,
+            page: 'page',
+            network: command.kind === 'parent' ? 'network' : undefined,
+            baseURL: command.kind === 'parent' ? 'baseURL' : undefined,
+            test: 'base',
+            isSafe: n => this.isSafe(n),
+        });
+        const body = new CodeWriter();
+        const statements = ts.isBlock(command.fn.body) ? command.fn.body.statements : [command.fn.body];
+        statements.forEach((stmt, i) => {
+            if (i > 0 && hasBlankLineBefore(stmt, this.sf)) body.line();
+            this.statement(stmt, chains, subject, body);
+        });
+        if (body.todoCount > 0) return undefined;
+
+        const isAsync = body.uses(/\bawait\b/);
+        const returnsLocator = body.uses(/\breturn\b/);
+        const usesPage = body.uses(/\bpage\b/);
+        const fixtures = command.kind === 'parent' && usesPage ? ['page'] : [];
+        if (body.uses(/\bnetwork\.(intercept|wait)\(/)) fixtures.push('network');
+        if (command.kind === 'parent' && body.uses(/\bbaseURL\b/)) fixtures.push('baseURL');
+
+        let signature: string[];
+        if (command.kind === 'parent') {
+            signature = [...fixtures.map(name => `${name}: ${FIXTURE_TYPES[name]}`), ...params];
+        } else if (command.kind === 'child') {
+            signature = [`${subject}: Locator`, ...params];
+        } else {
+            signature = [...(usesPage ? ['page: Page'] : []), `${subject}: Locator | undefined`, ...params];
+        }
+
+        let result = returnsLocator ? (command.kind === 'dual' ? 'Locator | undefined' : 'Locator') : 'void';
+        if (isAsync) result = `Promise<${result}>`;
+
+        const w = new CodeWriter();
+        w.many(this.docs(command));
+        w.line(`export ${isAsync ? 'async ' : ''}function ${command.name}(${signature.join(', ')}): ${result} {`).indent();
+        if (command.kind === 'child' && usesPage) w.line(`const page = ${subject}.page();`);
+        w.append(body);
+        w.trimBlank().dedent().line('}');
+
+        return { name: command.name, fixtures, params, args, returns: result, code: w };
+    }
+
+    /**
+     * Parent command delegating to its hand-written Playwright counterpart
+     */
+    private ported(command: CustomCommand, port: PortedCommand, params: string[], args: string[]): HelperSignature {
+        const returns = `Promise<${port.returns ?? 'void'}>`;
+        const w = new CodeWriter();
+        w.many(this.docs(command));
+        w.line(`export async function ${command.name}(${['page: Page', ...params].join(', ')}): ${returns} {`).indent();
+        w.line(port.returns ? `return ${port.call};` : `await ${port.call};`);
+        w.dedent().line('}');
+        return { name: command.name, fixtures: ['page'], params, args, returns, code: w };
+    }
+
+    /**
+     * `Playwright equivalent: ...` note in the comment above the registration
+     */
+    private equivalent(command: CustomCommand): string | undefined {
+        const registration = command.fn.parent.parent;
+        for (const line of leadingComments(registration, this.sf)) {
+            const note = /Playwright equivalent:\s*(.+)$/.exec(line);
+            if (note) return note[1].trim();
+        }
+        return undefined;
+    }
+
+    /**
+     * JSDoc from the Chainable typing, minus the Cypress-specific @example
+     */
+    private docs(command: CustomCommand): string[] {
+        const source = command.typing ?? command.fn;
+        const lines = leadingComments(source, this.sf).filter(line => !/@example\b/.test(line));
+        if (lines.length > 0) return lines;
+        return ['/**', ` * Playwright port of cy.${command.name}()`, ' */'];
+    }
+
+    private statement(stmt: ts.Node, chains: ChainTranslator, subject: string, w: CodeWriter): void {
+        w.many(leadingComments(stmt, this.sf));
+
+        try {
+            if (ts.isReturnStatement(stmt) && stmt.expression) {
+                w.line(`return ${this.returned(stmt.expression, chains, subject)};`);
+                return;
+            }
+            const expr = ts.isExpressionStatement(stmt) ? stmt.expression : ts.isBlock(stmt) ? undefined : (stmt as ts.Expression);
+            if (expr && !ts.isIfStatement(stmt)) {
+                const lines = this.expression(expr, chains, subject);
+                if (lines) {
+                    w.many(lines);
+                    return;
+                }
+            }
+        } catch (error) {
+            if (!(error instanceof Untranslatable)) throw error;
+            w.todo(error.message, dedentedText(stmt, this.sf));
+            return;
+        }
+
+        if (ts.isIfStatement(stmt) && this.isSafe(stmt.expression)) {
+            w.line(`if (${stmt.expression.getText(this.sf)}) {`).indent();
+            this.blockContents(stmt.thenStatement, chains, subject, w);
+            w.dedent();
+            if (stmt.elseStatement) {
+                w.line('} else {').indent();
+                this.blockContents(stmt.elseStatement, chains, subject, w);
+                w.dedent();
+            }
+            w.line('}');
+        } else if (this.isSafe(stmt)) {
+            w.many(dedentedText(stmt, this.sf));
+        } else {
+            w.todo('depends on Cypress-only commands', dedentedText(stmt, this.sf));
+        }
+    }
+
+    private blockContents(stmt: ts.Statement, chains: ChainTranslator, subject: string, w: CodeWriter): void {
+        const statements = ts.isBlock(stmt) ? stmt.statements : [stmt];
+        statements.forEach((child, i) => {
+            if (i > 0 && hasBlankLineBefore(child, this.sf)) w.line();
+            this.statement(child, chains, subject, w);
+        });
+    }
+
+    /**
+     * cy.* statement, optionally starting from `cy.wrap(subject)`
+     */
+    private expression(expr: ts.Expression, chains: ChainTranslator, subject: string): string[] | undefined {
+        const { head, links } = flattenChain(expr);
+        if (ts.isIdentifier(head) && head.text === 'cy') {
+            const [start, rest] = this.wrapped(links, subject);
+            return chains.commands(rest, start);
+        }
+        if (ts.isCallExpression(head) && links.length > 0 && chains.isChaiChain(links)) {
+            return [chains.chaiExpect(head, links)];
+        }
+        return undefined;
+    }
+
+    private returned(expr: ts.Expression, chains: ChainTranslator, subject: string): string {
+        const { head, links } = flattenChain(expr);
+        if (!ts.isIdentifier(head) || head.text !== 'cy') {
+            if (this.isSafe(expr)) return expr.getText(this.sf);
+            throw new Untranslatable('returns a Cypress-only value');
+        }
+        const [start, rest] = this.wrapped(links, subject);
+        if (rest.length === 0 && start.kind === 'locator') return start.expr;
+        return chains.query(rest, start);
+    }
+
+    private wrapped(links: ReturnType<typeof flattenChain>['links'], subject: string): [Subject, typeof links] {
+        const [first, ...rest] = links;
+        const arg = first?.args?.[0];
+        if (first?.name === 'wrap' && arg && ts.isIdentifier(arg) && arg.text === subject) {
+            return [{ kind: 'locator', expr: subject }, rest];
+        }
+        return [{ kind: 'none' }, links];
+    }
+
+    private isSafe(node: ts.Node): boolean {
+        return (
+            !referencesAny(node, this.unsafe) &&
+            !containsNode(node, n => n.kind === ts.SyntaxKind.ThisKeyword) &&
+            !containsNode(node, isChaiAccess)
+        );
+    }
+}
+
+interface HelperSignature {
+    name: string;
+    /** Leading fixture arguments bound by the `commands` fixture */
+    fixtures: string[];
+    params: string[];
+    args: string[];
+    returns: string;
+    code: CodeWriter;
+}
+
+interface PortedCommand {
+    /** Import of the Playwright counterpart, relative to the generated module */
+    import: string;
+    /** Call made with `page` and the command's parameters */
+    call: string;
+    /** Resolved value of the call, when the command yields one */
+    returns?: string;
+}
+
+const DEFAULT_OUT = 'playwright/fixtures/commands.fixture.ts';
+
+/**
+ * Commands whose Cypress body cannot be translated but that have a
+ * hand-written Playwright counterpart
+ */
+const PORTED_COMMANDS: Record<string, PortedCommand> = {
+    loginAs: {
+        import: "import { restoreRoleSession } from './roles';",
+        call: 'restoreRoleSession(page, role)',
+    },
+    interceptGql: {
+        import: "import { mockGraphQL, type GraphQLOperations } from './graphql.fixture';",
+        call: 'mockGraphQL(page, mocks, { url })',
+        returns: 'GraphQLOperations',
+    },
+    withFault: {
+        import: "import { withFault as routeWithFault, type FaultHandle } from './fault.fixture';",
+        call: 'routeWithFault(page, url, fault)',
+        returns: 'FaultHandle',
+    },
+};
+
+const FIXTURE_TYPES: Record<string, string> = {
+    page: 'Page',
+    network: 'NetworkAliases',
+    baseURL: 'string | undefined',
+};
+
+const SECTION_TITLES: Record<CommandKind, string> = {
+    parent: 'PARENT COMMANDS → page helpers',
+    child: 'CHILD COMMANDS → Locator helpers',
+    dual: 'DUAL COMMANDS → optional Locator helpers',
+};
+
+/**
+ * Map a Cypress parameter type onto its Playwright counterpart
+ */
+function playwrightType(type: string | undefined): string {
+    if (!type) return 'unknown';
+    const mapped = type.replace(/JQuery<HTMLElement>/g, 'Locator');
+    return /Cypress\.|Chainable|JQuery/.test(mapped) ? 'unknown' : mapped;
+}
+
+/**
+ * Generate the Playwright fixture module for a Cypress support file
+ */
+export function generateCommandsModule(
+    source: string,
+    sourcePath = 'commands.ts',
+    outPath = DEFAULT_OUT
+): CommandsModuleResult {
+    const sf = parseSource(sourcePath, source);
+    return new CommandsGenerator(sf, outPath).run(sourcePath.split(path.sep).join('/'));
+}
+
+// ============================================================================
+// CLI
+// ============================================================================
+
+function main(): void {
+    const { values, positionals } = parseArgs({
+        allowPositionals: true,
+        options: {
+            out: { type: 'string', default: DEFAULT_OUT },
+            stdout: { type: 'boolean', default: false },
+            check: { type: 'boolean', default: false },
+        },
+    });
+
+    const input = positionals[0] ?? 'cypress/support/commands.ts';
+    const relative = path.relative(process.cwd(), path.resolve(input));
+    const target = values.out as string;
+    const result = generateCommandsModule(fs.readFileSync(input, 'utf8'), relative, target);
+
+    if (values.stdout) {
+        process.stdout.write(result.code);
+        return;
+    }
+
+    if (values.check) {
+        const current = fs.existsSync(target) ? fs.readFileSync(target, 'utf8') : '';
+        if (current !== result.code) {
+            console.error(`❌ ${target} is out of date with ${relative} (run npm run migrate:commands)`);
+            process.exit(1);
+        }
+        console.log(`✅ ${target} is up to date`);
+        return;
+    }
+
+    fs.mkdirSync(path.dirname(target), { recursive: true });
+    fs.writeFileSync(target, result.code, 'utf8');
+    result.commands.forEach(command => console.log(`   ${command.kind.padEnd(6)} ${command.name}`));
+    result.skipped.forEach(({ name, equivalent }) =>
+        console.log(`   ${'skip'.padEnd(6)} ${name} (no automatic translation${equivalent ? `, use ${equivalent}` : ', port by hand'})`)
+    );
+    console.log(`✅ ${relative} → ${target} (${result.todos} TODO(migrate) left)`);
+}
+
+if (require.main === module) {
+    main();
+}
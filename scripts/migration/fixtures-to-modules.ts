@@ -0,0 +1,262 @@
+/**
+ * ============================================================================
+ * CYPRESS JSON FIXTURES → TYPED TYPESCRIPT DATA MODULES
+ * ============================================================================
+ *
+ * PURPOSE:
+ * Turns every `cypress/fixtures/*.json` file into an `as const` TypeScript
+ * module in `tests/fixtures/`, so Cypress and Playwright share one typed
+ * source of test data. The JSON files stay the source of truth.
+ *
+ * MAPPING:
+ * ┌─────────────────────────────────────────────────────────────────────────┐
+ * │  users.json                     ──►  tests/fixtures/users.ts            │
+ * │    { "valid_credentials": ... }        export const users = {           │
+ * │                                            validCredentials: ...        │
+ * │                                        } as const satisfies Users;      │
+ * │  "products": [{ ... }, ...]     ──►  export interface Product { ... }   │
+ * └─────────────────────────────────────────────────────────────────────────┘
+ *
+ * Keys are converted to camelCase (`valid_credentials` → `validCredentials`)
+ * and types are inferred from the values: arrays of objects get a named
+ * element interface whose keys are optional when not every element has them.
+ * Scratch files written by the system tests (`temp-*.json`) are skipped.
+ *
+ * USAGE:
+ *   npm run migrate:fixtures
+ *   npm run migrate:fixtures -- --check
+ */
+
+import fs from 'fs';
+import path from 'path';
+import { parseArgs } from 'util';
+import { quote } from './shared/ast';
+import { CodeWriter } from './shared/writer';
+
+type Json = null | boolean | number | string | Json[] | { [key: string]: Json };
+
+export interface GeneratedModule {
+    /** Module file name, e.g. `users.ts` */
+    fileName: string;
+    code: string;
+}
+
+const SKIPPED_FIXTURES = /^temp-/;
+const IDENTIFIER = /^[A-Za-z_$][\w$]*$/;
+
+// ============================================================================
+// NAMING
+// ============================================================================
+
+/**
+ * `valid_credentials` / `wrong-email-format` => `validCredentials` / `wrongEmailFormat`
+ */
+export function camelCase(key: string): string {
+    const camel = key.replace(/[-_\s]+([A-Za-z0-9])/g, (_, c: string) => c.toUpperCase());
+    return camel.charAt(0).toLowerCase() + camel.slice(1);
+}
+
+function pascalCase(key: string): string {
+    const camel = camelCase(key);
+    return camel.charAt(0).toUpperCase() + camel.slice(1);
+}
+
+function singular(name: string): string {
+    if (/ies$/.test(name)) return name.replace(/ies$/, 'y');
+    if (/ss$/.test(name)) return name;
+    return name.replace(/s$/, '');
+}
+
+function propertyName(key: string): string {
+    return IDENTIFIER.test(key) ? key : quote(key);
+}
+
+// ============================================================================
+// GENERATION
+// ============================================================================
+
+class ModuleGenerator {
+    /** Named interfaces for array elements, in declaration order */
+    private readonly interfaces = new Map<string, string[]>();
+
+    constructor(private readonly stem: string) {}
+
+    run(data: Json, sourcePath: string): string {
+        const constName = camelCase(this.stem);
+        const typeName = pascalCase(this.stem);
+        const rootType = this.type(data, typeName, 0);
+
+        const w = new CodeWriter();
+        w.line(`// Generated by scripts/migration/fixtures-to-modules.ts from ${sourcePath}`);
+        w.line('// Do not edit by hand: update the JSON fixture and run `npm run migrate:fixtures`.');
+
+        this.interfaces.forEach((lines, name) => {
+            w.line();
+            w.line(`export interface ${name} ${lines[0]}`);
+            w.many(lines.slice(1));
+        });
+
+        w.line();
+        if (rootType.startsWith('{')) {
+            const lines = rootType.split('\n');
+            w.line(`export interface ${typeName} ${lines[0]}`);
+            w.many(lines.slice(1));
+        } else {
+            w.line(`export type ${typeName} = ${rootType};`);
+        }
+
+        w.line();
+        const value = `export const ${constName} = ${this.value(data, 0)} as const satisfies ${typeName};`;
+        w.many(value.split('\n'));
+
+        return w.toString();
+    }
+
+    /**
+     * Widened, readonly type for a JSON value; `name` is used for array elements
+     */
+    private type(value: Json, name: string, depth: number): string {
+        if (value === null) return 'null';
+        if (Array.isArray(value)) return `readonly ${this.elementType(value, name, depth)}[]`;
+        if (typeof value === 'object') return this.objectType([value], name, depth);
+        return typeof value;
+    }
+
+    private elementType(items: Json[], name: string, depth: number): string {
+        if (items.length === 0) return 'unknown';
+        const objects = items.filter(
+            (item): item is { [key: string]: Json } => !!item && typeof item === 'object' && !Array.isArray(item)
+        );
+        if (objects.length === items.length) {
+            const elementName = singular(name);
+            if (!this.interfaces.has(elementName)) {
+                this.interfaces.set(elementName, this.objectType(objects, elementName, 0).split('\n'));
+            }
+            return elementName;
+        }
+        const types = [...new Set(items.map(item => this.type(item, name, depth)))];
+        return types.length === 1 ? types[0] : `(${types.join(' | ')})`;
+    }
+
+    /**
+     * Object type merged from one or more samples; keys missing in a sample are optional
+     */
+    private objectType(samples: { [key: string]: Json }[], name: string, depth: number): string {
+        const keys = [...new Set(samples.flatMap(sample => Object.keys(sample)))];
+        if (keys.length === 0) return 'Record<string, never>';
+
+        const indent = '    '.repeat(depth + 1);
+        const lines = keys.map(key => {
+            const present = samples.filter(sample => key in sample);
+            const optional = present.length < samples.length ? '?' : '';
+            const childName = pascalCase(key);
+            const types = [...new Set(present.map(sample => this.type(sample[key], childName, depth + 1)))];
+            return `${indent}readonly ${propertyName(camelCase(key))}${optional}: ${types.join(' | ')};`;
+        });
+        return ['{', ...lines, `${'    '.repeat(depth)}}`].join('\n');
+    }
+
+    /**
+     * TypeScript literal for a JSON value with camelCased keys
+     */
+    private value(value: Json, depth: number): string {
+        const indent = '    '.repeat(depth + 1);
+        const closing = '    '.repeat(depth);
+        if (value === null || typeof value !== 'object') {
+            return typeof value === 'string' ? quote(value) : String(value);
+        }
+        if (Array.isArray(value)) {
+            if (value.length === 0) return '[]';
+            return ['[', ...value.map(item => `${indent}${this.value(item, depth + 1)},`), `${closing}]`].join('\n');
+        }
+        const entries = Object.entries(value);
+        if (entries.length === 0) return '{}';
+        return [
+            '{',
+            ...entries.map(([key, item]) => `${indent}${propertyName(camelCase(key))}: ${this.value(item, depth + 1)},`),
+            `${closing}}`,
+        ].join('\n');
+    }
+}
+
+/**
+ * Generate the TypeScript module for one JSON fixture
+ */
+export function generateFixtureModule(json: string, sourcePath: string): GeneratedModule {
+    const stem = path.basename(sourcePath, '.json');
+    const data = JSON.parse(json) as Json;
+    return {
+        fileName: `${stem}.ts`,
+        code: new ModuleGenerator(stem).run(data, sourcePath.split(path.sep).join('/')),
+    };
+}
+
+/**
+ * Barrel module re-exporting every generated fixture module
+ */
+export function generateIndex(modules: GeneratedModule[]): GeneratedModule {
+    const w = new CodeWriter();
+    w.line('// Generated by scripts/migration/fixtures-to-modules.ts');
+    w.line('// Do not edit by hand: run `npm run migrate:fixtures`.');
+    w.line();
+    modules.forEach(module => w.line(`export * from './${module.fileName.replace(/\.ts$/, '')}';`));
+    return { fileName: 'index.ts', code: w.toString() };
+}
+
+// ============================================================================
+// CLI
+// ============================================================================
+
+function main(): void {
+    const { values } = parseArgs({
+        options: {
+            'fixtures-dir': { type: 'string', default: 'cypress/fixtures' },
+            'out-dir': { type: 'string', default: 'tests/fixtures' },
+            check: { type: 'boolean', default: false },
+        },
+    });
+
+    const fixturesDir = values['fixtures-dir'] as string;
+    const outDir = values['out-dir'] as string;
+
+    const sources = fs
+        .readdirSync(fixturesDir)
+        .filter(name => name.endsWith('.json') && !SKIPPED_FIXTURES.test(name))
+        .sort();
+    const modules = sources.map(name => {
+        const sourcePath = path.join(fixturesDir, name);
+        return generateFixtureModule(fs.readFileSync(sourcePath, 'utf8'), sourcePath);
+    });
+    modules.push(generateIndex(modules));
+
+    if (values.check) {
+        const stale = modules.filter(module => {
+            const target = path.join(outDir, module.fileName);
+            return !fs.existsSync(target) || fs.readFileSync(target, 'utf8') !== module.code;
+        });
+        const expected = new Set(modules.map(module => module.fileName));
+        const orphaned = fs.existsSync(outDir)
+            ? fs.readdirSync(outDir).filter(name => name.endsWith('.ts') && !expected.has(name))
+            : [];
+
+        stale.forEach(module => console.error(`❌ ${path.join(outDir, module.fileName)} differs from its JSON fixture`));
+        orphaned.forEach(name => console.error(`❌ ${path.join(outDir, name)} has no JSON fixture in ${fixturesDir}`));
+        if (stale.length > 0 || orphaned.length > 0) {
+            console.error('   Run `npm run migrate:fixtures` to regenerate the modules.');
+            process.exit(1);
+        }
+        console.log(`✅ ${modules.length} module(s) in ${outDir} match ${fixturesDir}`);
+        return;
+    }
+
+    fs.mkdirSync(outDir, { recursive: true });
+    modules.forEach(module => {
+        fs.writeFileSync(path.join(outDir, module.fileName), module.code, 'utf8');
+        console.log(`   ${path.join(outDir, module.fileName)}`);
+    });
+    console.log(`✅ ${sources.length} fixture(s) from ${fixturesDir} → ${outDir}`);
+}
+
+if (require.main === module) {
+    main();
+}
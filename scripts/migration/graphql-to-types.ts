@@ -0,0 +1,157 @@
+/**
+ * ============================================================================
+ * GRAPHQL SCHEMA → TYPESCRIPT TYPES
+ * ============================================================================
+ *
+ * PURPOSE:
+ * Reads `app-under-test/schema.graphql` (the schema POST /api/graphql is
+ * served with) and emits `tests/api/graphql-types.ts`, so both suites type
+ * query results and variables against the real schema.
+ *
+ * MAPPING:
+ * ┌─────────────────────────────────────────────────────────────────────────┐
+ * │  type Product { id: Int! name: String }  ──►  interface Product {       │
+ * │                                                  id: number;            │
+ * │                                                  name: string | null;   │
+ * │  input OrderItemInput { quantity: Int }  ──►  quantity?: number | null; │
+ * │  product(id: Int!): Product              ──►  QueryProductArgs {        │
+ * │                                                  id: number; }          │
+ * └─────────────────────────────────────────────────────────────────────────┘
+ *
+ * Object types list every field; a query result only contains the selected
+ * ones, so type responses with `Pick<Product, 'id' | 'name'>`.
+ *
+ * USAGE:
+ *   npm run migrate:graphql
+ *   npm run migrate:graphql -- --check
+ */
+
+import fs from 'fs';
+import path from 'path';
+import { parseArgs } from 'util';
+import {
+    buildSchema,
+    GraphQLArgument,
+    GraphQLField,
+    GraphQLInputField,
+    GraphQLSchema,
+    GraphQLType,
+    isEnumType,
+    isInputObjectType,
+    isListType,
+    isNonNullType,
+    isObjectType,
+    isScalarType,
+} from 'graphql';
+import { CodeWriter } from './shared/writer';
+
+const SCALARS: Record<string, string> = {
+    Int: 'number',
+    Float: 'number',
+    String: 'string',
+    ID: 'string',
+    Boolean: 'boolean',
+};
+
+/**
+ * TypeScript type of a GraphQL input or output type
+ */
+export function tsType(type: GraphQLType): string {
+    if (isNonNullType(type)) return nonNull(type.ofType);
+    return `${nonNull(type)} | null`;
+}
+
+function nonNull(type: GraphQLType): string {
+    if (isNonNullType(type)) return nonNull(type.ofType);
+    if (isListType(type)) {
+        const item = tsType(type.ofType);
+        return item.includes('|') ? `Array<${item}>` : `${item}[]`;
+    }
+    if (isScalarType(type)) return SCALARS[type.name] ?? 'unknown';
+    return type.name;
+}
+
+function description(w: CodeWriter, text: string | null | undefined): void {
+    if (text) w.line(`/** ${text.replace(/\s+/g, ' ').trim()} */`);
+}
+
+function field(w: CodeWriter, f: GraphQLField<unknown, unknown> | GraphQLInputField | GraphQLArgument, input: boolean): void {
+    description(w, f.description);
+    const optional = input && !isNonNullType(f.type) ? '?' : '';
+    w.line(`${f.name}${optional}: ${tsType(f.type)};`);
+}
+
+/**
+ * The `tests/api/graphql-types.ts` module for a schema
+ */
+export function generateGraphQLTypesModule(schema: GraphQLSchema, schemaPath: string): string {
+    const w = new CodeWriter();
+    w.line(`// Generated by scripts/migration/graphql-to-types.ts from ${schemaPath.split(path.sep).join('/')}`);
+    w.line('// Do not edit by hand: update the schema and run `npm run migrate:graphql`.');
+
+    const types = Object.values(schema.getTypeMap())
+        .filter(type => !type.name.startsWith('__') && !isScalarType(type))
+        .sort((a, b) => a.name.localeCompare(b.name));
+    const roots = [schema.getQueryType(), schema.getMutationType()].filter(type => type != null);
+
+    for (const type of types) {
+        w.line();
+        description(w, type.description);
+        if (isEnumType(type)) {
+            w.line(`export type ${type.name} = ${type.getValues().map(v => `'${v.name}'`).join(' | ')};`);
+        } else if (isObjectType(type) || isInputObjectType(type)) {
+            w.line(`export interface ${type.name} {`).indent();
+            Object.values(type.getFields()).forEach(f => field(w, f, isInputObjectType(type)));
+            w.dedent().line('}');
+        }
+    }
+
+    // Arguments of root fields: `product(id: Int!)` => QueryProductArgs
+    for (const root of roots) {
+        for (const f of Object.values(root.getFields())) {
+            if (f.args.length === 0) continue;
+            w.line();
+            w.line(`export interface ${root.name}${f.name[0].toUpperCase()}${f.name.slice(1)}Args {`).indent();
+            f.args.forEach(arg => field(w, arg, true));
+            w.dedent().line('}');
+        }
+    }
+    return w.toString();
+}
+
+// ============================================================================
+// CLI
+// ============================================================================
+
+function main(): void {
+    const { values } = parseArgs({
+        options: {
+            schema: { type: 'string', default: 'app-under-test/schema.graphql' },
+            out: { type: 'string', default: 'tests/api/graphql-types.ts' },
+            check: { type: 'boolean', default: false },
+        },
+    });
+
+    const schemaPath = values.schema as string;
+    const out = values.out as string;
+    const schema = buildSchema(fs.readFileSync(schemaPath, 'utf8'));
+    const code = generateGraphQLTypesModule(schema, schemaPath);
+
+    if (values.check) {
+        if (!fs.existsSync(out) || fs.readFileSync(out, 'utf8') !== code) {
+            console.error(`❌ ${out} differs from ${schemaPath}`);
+            console.error('   Run `npm run migrate:graphql` to regenerate it.');
+            process.exit(1);
+        }
+        console.log(`✅ ${out} matches ${schemaPath}`);
+        return;
+    }
+
+    fs.mkdirSync(path.dirname(out), { recursive: true });
+    fs.writeFileSync(out, code, 'utf8');
+    console.log(`✅ ${schemaPath} → ${out}`);
+}
+
+if (require.main === module) {
+    main();
+}
@@ -0,0 +1,154 @@
+/**
+ * ============================================================================
+ * APP HTML → TYPED data-testid REGISTRY
+ * ============================================================================
+ *
+ * PURPOSE:
+ * Scans `app-under-test/public/*.html` and the guarded pages in
+ * `app-under-test/views/*.html` for data-testid attributes and emits
+ * `tests/test-ids.ts`, one `as const` map per page. Both POM families and the
+ * specs reference `TestIds.login.emailInput` instead of `'email-input'`, so a
+ * renamed or removed test id fails `npm run type-check` instead of a test run.
+ *
+ * MAPPING:
+ * ┌─────────────────────────────────────────────────────────────────────────┐
+ * │  login.html                           ──►  TestIds.login                │
+ * │    <input data-testid="email-input">        emailInput: 'email-input'   │
+ * │  index.html                           ──►  TestIds.index                │
+ * │    `<div data-testid="product-card">`       productCard: 'product-card' │
+ * └─────────────────────────────────────────────────────────────────────────┘
+ *
+ * Ids inside inline scripts (rendered templates) are included; ids built
+ * from `${...}` expressions are not, since their values are only known at
+ * runtime. Pages without any test id are kept as empty maps and reported.
+ *
+ * USAGE:
+ *   npm run migrate:testids
+ *   npm run migrate:testids -- --check
+ *   npm run migrate:testids -- --html-dir app-under-test/public --html-dir other/pages
+ */
+
+import fs from 'fs';
+import path from 'path';
+import { parseArgs } from 'util';
+import { quote } from './shared/ast';
+import { CodeWriter } from './shared/writer';
+import { camelCase } from './fixtures-to-modules';
+
+export interface PageTestIds {
+    /** Page key, e.g. `login` for login.html */
+    page: string;
+    sourcePath: string;
+    /** Property name → data-testid value, in document order */
+    ids: Map<string, string>;
+}
+
+const TEST_ID_ATTRIBUTE = /data-testid\s*=\s*(?:"([^"]*)"|'([^']*)')/g;
+
+/**
+ * Test ids declared in one HTML page
+ */
+export function extractTestIds(html: string, sourcePath: string): PageTestIds {
+    const ids = new Map<string, string>();
+    for (const match of html.matchAll(TEST_ID_ATTRIBUTE)) {
+        const value = match[1] ?? match[2];
+        if (!value || value.includes('${')) continue;
+
+        const key = camelCase(value);
+        const existing = ids.get(key);
+        if (existing !== undefined && existing !== value) {
+            throw new Error(`${sourcePath}: test ids "${existing}" and "${value}" both map to "${key}"`);
+        }
+        ids.set(key, value);
+    }
+    return {
+        page: camelCase(path.basename(sourcePath, '.html')),
+        sourcePath: sourcePath.split(path.sep).join('/'),
+        ids,
+    };
+}
+
+/**
+ * The `tests/test-ids.ts` module for a set of pages
+ */
+export function generateTestIdsModule(pages: PageTestIds[], htmlDirs: string[]): string {
+    const w = new CodeWriter();
+    const sources = htmlDirs.map(dir => `${dir.split(path.sep).join('/')}/*.html`).join(', ');
+    w.line(`// Generated by scripts/migration/html-to-testids.ts from ${sources}`);
+    w.line('// Do not edit by hand: update the HTML and run `npm run migrate:testids`.');
+    w.line();
+    w.line('export const TestIds = {').indent();
+    pages.forEach(({ page, sourcePath, ids }) => {
+        w.line(`/** ${sourcePath} */`);
+        if (ids.size === 0) {
+            w.line(`${page}: {},`);
+            return;
+        }
+        w.line(`${page}: {`).indent();
+        ids.forEach((value, key) => w.line(`${key}: ${quote(value)},`));
+        w.dedent().line('},');
+    });
+    w.dedent().line('} as const;');
+    w.line();
+    w.line('export type TestIdPage = keyof typeof TestIds;');
+    w.line();
+    w.line('/**');
+    w.line(' * Any data-testid value of the app, or of one page: `TestId<\'login\'>`');
+    w.line(' */');
+    w.line('export type TestId<P extends TestIdPage = TestIdPage> = {').indent();
+    w.line('[K in P]: (typeof TestIds)[K][keyof (typeof TestIds)[K]];');
+    w.dedent().line('}[P];');
+    w.line();
+    w.line('/**');
+    w.line(' * CSS selector for a test id, for APIs that take selectors: `[data-testid="email-input"]`');
+    w.line(' */');
+    w.line('export const testIdSelector = (id: TestId): string => `[data-testid="${id}"]`;');
+    return w.toString();
+}
+
+// ============================================================================
+// CLI
+// ============================================================================
+
+function main(): void {
+    const { values } = parseArgs({
+        options: {
+            'html-dir': { type: 'string', multiple: true, default: ['app-under-test/public', 'app-under-test/views'] },
+            out: { type: 'string', default: 'tests/test-ids.ts' },
+            check: { type: 'boolean', default: false },
+        },
+    });
+
+    const htmlDirs = values['html-dir'] as string[];
+    const out = values.out as string;
+
+    // One registry in page order, whichever directory a page lives in
+    const pages = htmlDirs
+        .flatMap(dir => fs.readdirSync(dir).filter(name => name.endsWith('.html')).map(name => path.join(dir, name)))
+        .sort((a, b) => path.basename(a).localeCompare(path.basename(b)))
+        .map(sourcePath => extractTestIds(fs.readFileSync(sourcePath, 'utf8'), sourcePath));
+    const code = generateTestIdsModule(pages, htmlDirs);
+
+    if (values.check) {
+        if (!fs.existsSync(out) || fs.readFileSync(out, 'utf8') !== code) {
+            console.error(`❌ ${out} differs from the test ids in ${htmlDirs.join(', ')}`);
+            console.error('   Run `npm run migrate:testids` to regenerate it.');
+            process.exit(1);
+        }
+        console.log(`✅ ${out} matches ${htmlDirs.join(', ')}`);
+        return;
+    }
+
+    fs.mkdirSync(path.dirname(out), { recursive: true });
+    fs.writeFileSync(out, code, 'utf8');
+    pages.forEach(({ sourcePath, ids }) => {
+        const icon = ids.size === 0 ? '⚠️ ' : '  ';
+        console.log(`${icon} ${sourcePath}: ${ids.size} test id(s)`);
+    });
+    const total = pages.reduce((sum, page) => sum + page.ids.size, 0);
+    console.log(`✅ ${total} test id(s) from ${pages.length} page(s) → ${out}`);
+}
+
+if (require.main === module) {
+    main();
+}
@@ -0,0 +1,364 @@
+/**
+ * ============================================================================
+ * CYPRESS ↔ PLAYWRIGHT MIGRATION PARITY CHECKER
+ * ============================================================================
+ *
+ * PURPOSE:
+ * Pairs every Cypress test with its Playwright counterpart by title path
+ * (describe titles + test title) and reports what is left to migrate.
+ *
+ * REPORT:
+ * ┌─────────────────────────────────────────────────────────────────────────┐
+ * │  MISSING     Cypress test without a Playwright test of the same path    │
+ * │  RENAMED     Same spec and test title, but the describe titles differ   │
+ * │  EXTRA       Playwright test without a Cypress test of the same path    │
+ * │  DUPLICATE   Same title path declared more than once in one suite       │
+ * │  PARITY      migrated Cypress tests / all Cypress tests (percent)       │
+ * └─────────────────────────────────────────────────────────────────────────┘
+ *
+ * Titles are compared case-insensitively with whitespace collapsed, so
+ * `describe('Login', () => it('works'))` pairs with
+ * `test.describe('login', () => test('works'))`.
+ *
+ * USAGE:
+ *   npm run migrate:parity
+ *   npm run migrate:parity -- --threshold 90 --out-dir test-output/migration
+ */
+
+import fs from 'fs';
+import path from 'path';
+import ts from 'typescript';
+import { parseArgs } from 'util';
+import { calleePath, parseSource } from './shared/ast';
+
+export type Framework = 'cypress' | 'playwright';
+
+export interface DiscoveredTest {
+    framework: Framework;
+    /** Repo-relative file path with forward slashes */
+    file: string;
+    line: number;
+    /** describe titles followed by the test title */
+    titlePath: string[];
+    skipped: boolean;
+}
+
+export interface DuplicateGroup {
+    framework: Framework;
+    titlePath: string[];
+    locations: { file: string; line: number }[];
+}
+
+export interface RenamedPair {
+    cypress: DiscoveredTest;
+    playwright: DiscoveredTest;
+}
+
+export interface ParityReport {
+    generatedAt: string;
+    threshold: number;
+    parity: number;
+    passed: boolean;
+    totals: {
+        cypress: number;
+        playwright: number;
+        matched: number;
+        renamed: number;
+        missing: number;
+        extra: number;
+        duplicates: number;
+    };
+    missing: DiscoveredTest[];
+    extra: DiscoveredTest[];
+    renamed: RenamedPair[];
+    duplicates: DuplicateGroup[];
+}
+
+const SUITE_CALLEES: Record<Framework, string[]> = {
+    cypress: ['describe', 'context'],
+    playwright: ['test.describe', 'test.describe.serial', 'test.describe.parallel'],
+};
+
+const TEST_CALLEES: Record<Framework, string[]> = {
+    cypress: ['it', 'specify'],
+    playwright: ['test'],
+};
+
+const SKIP_MODIFIERS = ['skip', 'fixme'];
+
+// ============================================================================
+// DISCOVERY
+// ============================================================================
+
+/**
+ * Find every test declared in a spec file, with its describe title path
+ */
+export function discoverTests(source: string, file: string, framework: Framework): DiscoveredTest[] {
+    const sf = parseSource(file, source);
+    const tests: DiscoveredTest[] = [];
+
+    const visit = (node: ts.Node, titles: string[], skipped: boolean): void => {
+        if (ts.isCallExpression(node)) {
+            const callee = calleePath(node);
+            const declaration = callee && classify(callee, framework);
+            const title = titleText(node.arguments[0], sf);
+
+            if (declaration && title !== undefined) {
+                const isSkipped = skipped || declaration.skipped;
+                if (declaration.kind === 'test') {
+                    tests.push({
+                        framework,
+                        file,
+                        line: sf.getLineAndCharacterOfPosition(node.getStart(sf)).line + 1,
+                        titlePath: [...titles, title],
+                        skipped: isSkipped,
+                    });
+                    return;
+                }
+                node.arguments.slice(1).forEach(arg => visit(arg, [...titles, title], isSkipped));
+                return;
+            }
+        }
+        ts.forEachChild(node, child => visit(child, titles, skipped));
+    };
+    visit(sf, [], false);
+
+    return tests;
+}
+
+/**
+ * Recognise `describe`, `it.skip`, `test.describe.only`, ... for a framework
+ */
+function classify(callee: string, framework: Framework): { kind: 'suite' | 'test'; skipped: boolean } | undefined {
+    const parts = callee.split('.');
+    const modifier = parts[parts.length - 1];
+    const hasModifier = ['only', ...SKIP_MODIFIERS].includes(modifier);
+    const base = hasModifier ? parts.slice(0, -1).join('.') : callee;
+    const skipped = hasModifier && SKIP_MODIFIERS.includes(modifier);
+
+    if (SUITE_CALLEES[framework].includes(base)) return { kind: 'suite', skipped };
+    if (TEST_CALLEES[framework].includes(base)) return { kind: 'test', skipped };
+    return undefined;
+}
+
+/**
+ * Literal title text; template substitutions are kept as `${...}` source
+ */
+function titleText(node: ts.Expression | undefined, sf: ts.SourceFile): string | undefined {
+    if (!node) return undefined;
+    if (ts.isStringLiteral(node) || ts.isNoSubstitutionTemplateLiteral(node)) return node.text;
+    if (ts.isTemplateExpression(node)) return node.getText(sf).slice(1, -1);
+    return undefined;
+}
+
+/**
+ * Spec files below a directory, matching a file-name suffix
+ */
+export function findSpecFiles(dir: string, suffix: string): string[] {
+    if (!fs.existsSync(dir)) return [];
+    return fs
+        .readdirSync(dir, { withFileTypes: true })
+        .flatMap(entry => {
+            const full = path.join(dir, entry.name);
+            if (entry.isDirectory()) return findSpecFiles(full, suffix);
+            return entry.name.endsWith(suffix) ? [full] : [];
+        })
+        .sort();
+}
+
+// ============================================================================
+// COMPARISON
+// ============================================================================
+
+function pathKey(titlePath: string[]): string {
+    return titlePath.map(title => title.replace(/\s+/g, ' ').trim().toLowerCase()).join(' › ');
+}
+
+/**
+ * `cypress/e2e/tests/dialogs.test.ts` and `playwright/e2e/dialogs.spec.ts` => `dialogs`
+ */
+function specStem(file: string): string {
+    return path.basename(file).replace(/\.(test|spec|cy)\.[jt]s$/, '');
+}
+
+function groupByPath(tests: DiscoveredTest[]): Map<string, DiscoveredTest[]> {
+    const groups = new Map<string, DiscoveredTest[]>();
+    tests.forEach(test => {
+        const key = pathKey(test.titlePath);
+        groups.set(key, [...(groups.get(key) ?? []), test]);
+    });
+    return groups;
+}
+
+/**
+ * Compare both suites and compute the parity percentage
+ */
+export function compareSuites(cypress: DiscoveredTest[], playwright: DiscoveredTest[], threshold: number): ParityReport {
+    const cypressGroups = groupByPath(cypress);
+    const playwrightGroups = groupByPath(playwright);
+
+    let missing = [...cypressGroups]
+        .filter(([key]) => !playwrightGroups.has(key))
+        .map(([, group]) => group[0]);
+    let extra = [...playwrightGroups]
+        .filter(([key]) => !cypressGroups.has(key))
+        .map(([, group]) => group[0]);
+
+    // Fall back to spec file + test title when only the describe titles were renamed
+    const renamed: RenamedPair[] = [];
+    missing.forEach(cy => {
+        const titleKey = pathKey(cy.titlePath.slice(-1));
+        const pw = extra.find(
+            candidate =>
+                specStem(candidate.file) === specStem(cy.file) &&
+                pathKey(candidate.titlePath.slice(-1)) === titleKey &&
+                !renamed.some(pair => pair.playwright === candidate)
+        );
+        if (pw) renamed.push({ cypress: cy, playwright: pw });
+    });
+    missing = missing.filter(test => !renamed.some(pair => pair.cypress === test));
+    extra = extra.filter(test => !renamed.some(pair => pair.playwright === test));
+    const duplicates = [...cypressGroups.values(), ...playwrightGroups.values()]
+        .filter(group => group.length > 1)
+        .map(group => ({
+            framework: group[0].framework,
+            titlePath: group[0].titlePath,
+            locations: group.map(({ file, line }) => ({ file, line })),
+        }));
+
+    const matched = cypressGroups.size - missing.length;
+    const parity = cypressGroups.size === 0 ? 100 : Math.round((matched / cypressGroups.size) * 1000) / 10;
+
+    return {
+        generatedAt: new Date().toISOString(),
+        threshold,
+        parity,
+        passed: parity >= threshold,
+        totals: {
+            cypress: cypress.length,
+            playwright: playwright.length,
+            matched,
+            renamed: renamed.length,
+            missing: missing.length,
+            extra: extra.length,
+            duplicates: duplicates.length,
+        },
+        missing,
+        extra,
+        renamed,
+        duplicates,
+    };
+}
+
+// ============================================================================
+// REPORTING
+// ============================================================================
+
+function describeTest(test: DiscoveredTest): string {
+    const skipped = test.skipped ? ' _(skipped)_' : '';
+    return `| ${test.titlePath.join(' › ')}${skipped} | \`${test.file}:${test.line}\` |`;
+}
+
+/**
+ * Render the report as Markdown (used for the console and the CI summary)
+ */
+export function toMarkdown(report: ParityReport): string {
+    const { totals } = report;
+    const lines = [
+        '# Migration Parity Report',
+        '',
+        `**Parity:** ${report.parity}% (threshold ${report.threshold}%) ${report.passed ? '✅' : '❌'}`,
+        '',
+        '| Metric | Count |',
+        '|--------|-------|',
+        `| Cypress tests | ${totals.cypress} |`,
+        `| Playwright tests | ${totals.playwright} |`,
+        `| Migrated | ${totals.matched} |`,
+        `| ↳ with renamed describe titles | ${totals.renamed} |`,
+        `| Missing in Playwright | ${totals.missing} |`,
+        `| Extra in Playwright | ${totals.extra} |`,
+        `| Duplicated title paths | ${totals.duplicates} |`,
+    ];
+
+    const section = (title: string, rows: string[], header: string): void => {
+        lines.push('', `## ${title} (${rows.length})`, '');
+        if (rows.length === 0) {
+            lines.push('_None_');
+            return;
+        }
+        lines.push(header, '|------|----------|', ...rows);
+    };
+
+    section('Missing in Playwright', report.missing.map(describeTest), '| Test | Cypress source |');
+    section('Extra in Playwright', report.extra.map(describeTest), '| Test | Playwright source |');
+    section(
+        'Renamed Describe Titles',
+        report.renamed.map(
+            pair =>
+                `| ${pair.cypress.titlePath.join(' › ')}<br>→ ${pair.playwright.titlePath.join(' › ')} | \`${pair.playwright.file}:${pair.playwright.line}\` |`
+        ),
+        '| Test | Playwright source |'
+    );
+    section(
+        'Duplicates',
+        report.duplicates.map(
+            group =>
+                `| ${group.titlePath.join(' › ')} (${group.framework}) | ${group.locations
+                    .map(l => `\`${l.file}:${l.line}\``)
+                    .join('<br>')} |`
+        ),
+        '| Test | Declared in |'
+    );
+
+    return lines.join('\n') + '\n';
+}
+
+// ============================================================================
+// CLI
+// ============================================================================
+
+function main(): void {
+    const { values } = parseArgs({
+        options: {
+            cypress: { type: 'string', default: 'cypress/e2e' },
+            playwright: { type: 'string', default: 'playwright/e2e' },
+            threshold: { type: 'string', default: '80' },
+            'out-dir': { type: 'string', default: 'test-output/migration' },
+        },
+    });
+
+    const threshold = Number(values.threshold);
+    if (Number.isNaN(threshold) || threshold < 0 || threshold > 100) {
+        console.error(`❌ --threshold must be a percentage between 0 and 100, got "${values.threshold}"`);
+        process.exit(2);
+    }
+
+    const collect = (dir: string, suffix: string, framework: Framework): DiscoveredTest[] =>
+        findSpecFiles(dir, suffix).flatMap(file =>
+            discoverTests(fs.readFileSync(file, 'utf8'), path.relative(process.cwd(), file).split(path.sep).join('/'), framework)
+        );
+
+    const report = compareSuites(
+        collect(values.cypress as string, '.test.ts', 'cypress'),
+        collect(values.playwright as string, '.spec.ts', 'playwright'),
+        threshold
+    );
+    const markdown = toMarkdown(report);
+
+    const outDir = values['out-dir'] as string;
+    fs.mkdirSync(outDir, { recursive: true });
+    fs.writeFileSync(path.join(outDir, 'parity-report.md'), markdown, 'utf8');
+    fs.writeFileSync(path.join(outDir, 'parity-report.json'), JSON.stringify(report, null, 2) + '\n', 'utf8');
+
+    console.log(markdown);
+    console.log(`📄 Reports written to ${outDir}/parity-report.{md,json}`);
+
+    if (!report.passed) {
+        console.error(`❌ Parity ${report.parity}% is below the ${report.threshold}% threshold`);
+        process.exit(1);
+    }
+}
+
+if (require.main === module) {
+    main();
+}
@@ -0,0 +1,462 @@
+/**
+ * ============================================================================
+ * CYPRESS → PLAYWRIGHT PAGE OBJECT CONVERTER
+ * ============================================================================
+ *
+ * PURPOSE:
+ * Reads a Cypress page object (getter-based, exported as a singleton) and
+ * emits the matching Playwright class, so the two POM families stay in sync.
+ *
+ * CONVERSION RULES:
+ * ┌─────────────────────────────────────────────────────────────────────────┐
+ * │  get x() { return cy.get(sel) }   ──►  readonly x: Locator              │
+ * │                                        this.x = page.locator(sel)       │
+ * │  public doThing() { ... }         ──►  async doThing() { await ... }    │
+ * │  this.x.should('have.class', c)   ──►  await expect(this.x).toHaveClass │
+ * │  cy.url().should('include', p)    ──►  await expect(this.page).toHaveURL│
+ * │  otherPage.x (singleton import)   ──►  new OtherPage(this.page).x       │
+ * │  import ... from '<..>/tests/x'   ──►  same import, re-pointed          │
+ * │  export const x = new X()         ──►  (dropped, use new X(page))       │
+ * └─────────────────────────────────────────────────────────────────────────┘
+ *
+ * USAGE:
+ *   npm run migrate:pom -- cypress/e2e/pages/loginPage.ts
+ *   npm run migrate:pom -- cypress/e2e/pages/*.ts --check
+ *   npm run migrate:pom -- cypress/e2e/pages/myAccountPage.ts --stdout
+ *
+ * `--check` does not write anything: it compares every generated class with
+ * its Playwright twin in --out-dir and fails when a locator or method is
+ * missing there.
+ */
+
+import fs from 'fs';
+import path from 'path';
+import ts from 'typescript';
+import { parseArgs } from 'util';
+import {
+    containsNode,
+    dedentedText,
+    flattenChain,
+    leadingComments,
+    parseSource,
+    referencesAny,
+    sharedImport,
+} from './shared/ast';
+import { CYPRESS_GLOBALS, ChainTranslator, Untranslatable, isChaiAccess } from './shared/cypress-chains';
+import { CodeWriter } from './shared/writer';
+
+export interface PomConversionResult {
+    className: string;
+    fileName: string;
+    code: string;
+    todos: number;
+    locators: string[];
+    methods: string[];
+}
+
+/**
+ * `export const loginPage = new LoginPage()` => loginPage → LoginPage
+ */
+export function findSingletons(sf: ts.SourceFile): Map<string, string> {
+    const singletons = new Map<string, string>();
+    for (const stmt of sf.statements) {
+        if (!ts.isVariableStatement(stmt)) continue;
+        for (const decl of stmt.declarationList.declarations) {
+            const init = decl.initializer;
+            if (ts.isIdentifier(decl.name) && init && ts.isNewExpression(init) && ts.isIdentifier(init.expression)) {
+                singletons.set(decl.name.text, init.expression.text);
+            }
+        }
+    }
+    return singletons;
+}
+
+class PomConverter {
+    private readonly unsafe = new Set(CYPRESS_GLOBALS);
+    /** Imported singleton instance name → Playwright class name */
+    private readonly pageRefs = new Map<string, string>();
+    private readonly locators = new Set<string>();
+    private readonly unavailable = new Set<string>();
+    private readonly methods = new Set<string>();
+    private readonly imports = new Set<string>();
+
+    constructor(
+        private readonly sf: ts.SourceFile,
+        private readonly singletons: ReadonlyMap<string, string>,
+        private readonly outDir: string
+    ) {}
+
+    run(sourcePath: string): PomConversionResult {
+        const cls = this.sf.statements.find(ts.isClassDeclaration);
+        if (!cls || !cls.name) {
+            throw new Error(`${sourcePath}: no page object class found`);
+        }
+        const className = cls.name.text;
+        const target = path.join(this.outDir, `${className}.ts`);
+
+        const preamble = new CodeWriter();
+        for (const stmt of this.sf.statements) {
+            if (ts.isImportDeclaration(stmt)) this.importDeclaration(stmt, preamble, sourcePath, target);
+        }
+        cls.members.forEach(member => {
+            if (ts.isMethodDeclaration(member) && member.name && ts.isIdentifier(member.name)) {
+                this.methods.add(member.name.text);
+            }
+        });
+
+        // Locator fields first: methods may only reference getters that converted
+        const fields = new CodeWriter();
+        const assignments = new CodeWriter();
+        for (const member of cls.members) {
+            if (ts.isGetAccessorDeclaration(member)) this.getter(member, fields, assignments);
+        }
+
+        const body = new CodeWriter();
+        for (const member of cls.members) {
+            if (ts.isGetAccessorDeclaration(member)) continue;
+            body.line();
+            this.member(member, body);
+        }
+
+        const w = new CodeWriter();
+        w.line(`// Generated by scripts/migration/pom-converter.ts from ${sourcePath}`);
+        const playwrightImports = ['Page'];
+        if (this.locators.size > 0 || body.uses(/\): Locator/)) playwrightImports.push('Locator');
+        if (body.uses(/\bexpect\(/)) playwrightImports.push('expect');
+        w.line(`import { ${playwrightImports.join(', ')} } from '@playwright/test';`);
+        [...this.imports].sort().forEach(name => w.line(`import { ${name} } from './${name}';`));
+        w.append(preamble);
+        w.line();
+
+        w.many(leadingComments(cls, this.sf).filter(line => !line.startsWith('/// <reference')));
+        w.line(`export class ${className} {`).indent();
+        w.line('readonly page: Page;');
+        w.append(fields);
+        w.line();
+        w.line('constructor(page: Page) {').indent();
+        w.line('this.page = page;');
+        w.append(assignments);
+        w.dedent().line('}');
+        w.append(body);
+        w.trimBlank().dedent().line('}');
+
+        return {
+            className,
+            fileName: `${className}.ts`,
+            code: w.toString(),
+            todos: w.todoCount,
+            locators: [...this.locators],
+            methods: [...this.methods],
+        };
+    }
+
+    // ==========================================================================
+    // Imports and members
+    // ==========================================================================
+
+    private importDeclaration(stmt: ts.ImportDeclaration, w: CodeWriter, sourcePath: string, target: string): void {
+        // Shared modules (test ids, test data) work in both suites
+        const shared = sharedImport(stmt, this.sf, sourcePath, target);
+        if (shared) {
+            w.line(shared);
+            return;
+        }
+
+        const bindings = stmt.importClause?.namedBindings;
+        const names = bindings && ts.isNamedImports(bindings) ? bindings.elements.map(e => e.name.text) : [];
+        const pages = names.filter(name => this.singletons.has(name));
+
+        pages.forEach(name => {
+            const className = this.singletons.get(name) as string;
+            this.pageRefs.set(name, className);
+            this.imports.add(className);
+        });
+
+        if (pages.length === 0 || pages.length !== names.length || stmt.importClause?.name) {
+            const clause = stmt.importClause;
+            if (clause?.name) this.unsafe.add(clause.name.text);
+            names.filter(name => !this.singletons.has(name)).forEach(name => this.unsafe.add(name));
+            w.todo('Cypress-side import, point it at the Playwright equivalent', dedentedText(stmt, this.sf));
+        }
+    }
+
+    private getter(member: ts.GetAccessorDeclaration, fields: CodeWriter, assignments: CodeWriter): void {
+        const name = member.name.getText(this.sf);
+        const comments = leadingComments(member, this.sf);
+        const returned = member.body?.statements.length === 1 ? member.body.statements[0] : undefined;
+
+        try {
+            if (!returned || !ts.isReturnStatement(returned) || !returned.expression) {
+                throw new Untranslatable('getter is not a single `return` of a Cypress query');
+            }
+            const locator = this.query(returned.expression, new ChainTranslator({ sf: this.sf, page: 'page', isSafe: n => this.isSafe(n) }));
+            if (comments.length > 0) fields.line();
+            fields.many(comments);
+            fields.line(`readonly ${name}: Locator;`);
+            assignments.line(`this.${name} = ${locator};`);
+            this.locators.add(name);
+        } catch (error) {
+            if (!(error instanceof Untranslatable)) throw error;
+            this.unavailable.add(name);
+            assignments.todo(`getter '${name}': ${error.message}`, dedentedText(member, this.sf));
+        }
+    }
+
+    private member(member: ts.ClassElement, w: CodeWriter): void {
+        w.many(leadingComments(member, this.sf));
+
+        if (ts.isMethodDeclaration(member) && member.body && ts.isIdentifier(member.name)) {
+            this.method(member, member.name.text, member.body, w);
+        } else if (ts.isPropertyDeclaration(member) && this.isSafe(member)) {
+            w.many(dedentedText(member, this.sf));
+        } else {
+            w.todo('class member has no automatic Playwright translation', dedentedText(member, this.sf));
+        }
+    }
+
+    private method(member: ts.MethodDeclaration, name: string, body: ts.Block, w: CodeWriter): void {
+        const params = member.parameters.map(p => p.getText(this.sf)).join(', ');
+        const chains = new ChainTranslator({ sf: this.sf, page: 'this.page', isSafe: n => this.isSafe(n) });
+
+        // A method that only returns a query stays synchronous and returns a Locator
+        const only = body.statements.length === 1 ? body.statements[0] : undefined;
+        if (only && ts.isReturnStatement(only) && only.expression) {
+            try {
+                const locator = this.query(only.expression, chains);
+                w.line(`${name}(${params}): Locator {`).indent();
+                w.line(`return ${locator};`);
+                w.dedent().line('}');
+                return;
+            } catch (error) {
+                if (!(error instanceof Untranslatable)) throw error;
+            }
+        }
+
+        const inner = new CodeWriter();
+        body.statements.forEach(stmt => this.statement(stmt, chains, inner));
+
+        w.line(`async ${name}(${params}) {`).indent();
+        [...this.pageRefs]
+            .filter(([instance]) => referencesAny(body, new Set([instance])))
+            .forEach(([instance, className]) => w.line(`const ${instance} = new ${className}(this.page);`));
+        w.append(inner);
+        w.dedent().line('}');
+    }
+
+    // ==========================================================================
+    // Method statements
+    // ==========================================================================
+
+    private statement(stmt: ts.Statement, chains: ChainTranslator, w: CodeWriter): void {
+        w.many(leadingComments(stmt, this.sf));
+
+        if (ts.isExpressionStatement(stmt)) {
+            try {
+                const lines = this.expression(stmt.expression, chains);
+                if (lines) {
+                    w.many(lines);
+                    return;
+                }
+            } catch (error) {
+                if (!(error instanceof Untranslatable)) throw error;
+                w.todo(error.message, dedentedText(stmt, this.sf));
+                return;
+            }
+        }
+
+        if (this.isSafe(stmt)) {
+            w.many(dedentedText(stmt, this.sf));
+        } else {
+            w.todo('depends on Cypress-only commands or imports', dedentedText(stmt, this.sf));
+        }
+    }
+
+    /**
+     * Translate one expression statement, or return undefined to copy it verbatim
+     */
+    private expression(expr: ts.Expression, chains: ChainTranslator): string[] | undefined {
+        const { head, links } = flattenChain(expr);
+
+        if (ts.isIdentifier(head) && head.text === 'cy') {
+            return chains.commands(links);
+        }
+
+        if (ts.isCallExpression(head) && links.length > 0 && chains.isChaiChain(links)) {
+            return [chains.chaiExpect(head, links)];
+        }
+
+        // this.member... or otherPage.member...
+        const owner =
+            head.kind === ts.SyntaxKind.ThisKeyword
+                ? 'this'
+                : ts.isIdentifier(head) && this.pageRefs.has(head.text)
+                  ? head.text
+                  : undefined;
+        if (!owner || links.length === 0) return undefined;
+
+        const [first, ...rest] = links;
+        if (owner === 'this' && this.unavailable.has(first.name)) {
+            throw new Untranslatable(`'${first.name}' getter was not converted`);
+        }
+
+        if (first.args) {
+            // Page object method call: always awaited now that methods are async
+            if (rest.length > 0) throw new Untranslatable('chained call on a page object method');
+            if (!first.args.every(arg => this.isSafe(arg))) return undefined;
+            return [`await ${expr.getText(this.sf)};`];
+        }
+
+        if (rest.length === 0) return undefined;
+        return chains.commands(rest, { kind: 'locator', expr: `${owner}.${first.name}` });
+    }
+
+    /**
+     * Translate `cy.get(...)...` or `this.x.find(...)` into a Locator expression
+     */
+    private query(expr: ts.Expression, chains: ChainTranslator): string {
+        const { head, links } = flattenChain(expr);
+        if (ts.isIdentifier(head) && head.text === 'cy') {
+            return chains.query(links);
+        }
+        if (head.kind === ts.SyntaxKind.ThisKeyword && links.length > 0 && !links[0].args) {
+            const [first, ...rest] = links;
+            if (!this.locators.has(first.name)) {
+                throw new Untranslatable(`'${first.name}' is not a converted locator`);
+            }
+            const start = { kind: 'locator' as const, expr: `this.${first.name}` };
+            return rest.length > 0 ? chains.query(rest, start) : start.expr;
+        }
+        throw new Untranslatable('not a Cypress query');
+    }
+
+    private isSafe(node: ts.Node): boolean {
+        return (
+            !referencesAny(node, this.unsafe) &&
+            !containsNode(node, isChaiAccess) &&
+            !containsNode(
+                node,
+                n =>
+                    ts.isPropertyAccessExpression(n) &&
+                    n.expression.kind === ts.SyntaxKind.ThisKeyword &&
+                    this.unavailable.has(n.name.text)
+            )
+        );
+    }
+}
+
+/**
+ * Convert the source of a Cypress page object into a Playwright page object
+ *
+ * @param singletons - instance → class names of other page objects the
+ *                     file may import (see findSingletons)
+ * @param outDir     - folder of the generated class, used to re-point shared imports
+ */
+export function convertPageObject(
+    source: string,
+    sourcePath = 'page.ts',
+    singletons: ReadonlyMap<string, string> = new Map(),
+    outDir = 'playwright/pages'
+): PomConversionResult {
+    const sf = parseSource(sourcePath, source);
+    return new PomConverter(sf, singletons, outDir).run(sourcePath.split(path.sep).join('/'));
+}
+
+/**
+ * Locator fields and methods declared by an existing Playwright page object
+ */
+export function playwrightMembers(source: string, fileName: string): Set<string> {
+    const sf = parseSource(fileName, source);
+    const members = new Set<string>();
+    sf.statements.filter(ts.isClassDeclaration).forEach(cls =>
+        cls.members.forEach(member => {
+            if ((ts.isPropertyDeclaration(member) || ts.isMethodDeclaration(member)) && ts.isIdentifier(member.name)) {
+                members.add(member.name.text);
+            }
+        })
+    );
+    return members;
+}
+
+// ============================================================================
+// CLI
+// ============================================================================
+
+function main(): void {
+    const { values, positionals } = parseArgs({
+        allowPositionals: true,
+        options: {
+            'out-dir': { type: 'string', default: 'playwright/pages' },
+            stdout: { type: 'boolean', default: false },
+            force: { type: 'boolean', default: false },
+            check: { type: 'boolean', default: false },
+        },
+    });
+
+    if (positionals.length === 0) {
+        console.error('Usage: npm run migrate:pom -- <cypress-page-object...> [--out-dir <dir>] [--stdout] [--force] [--check]');
+        process.exit(1);
+    }
+
+    // Singletons from every page object next to the inputs, so cross-page
+    // references (myAccountPage → loginPage) resolve to Playwright classes
+    const singletons = new Map<string, string>();
+    new Set(positionals.map(input => path.dirname(input))).forEach(dir => {
+        fs.readdirSync(dir)
+            .filter(file => file.endsWith('.ts'))
+            .forEach(file => {
+                const full = path.join(dir, file);
+                findSingletons(parseSource(full, fs.readFileSync(full, 'utf8'))).forEach((cls, name) => singletons.set(name, cls));
+            });
+    });
+
+    let failed = false;
+    for (const input of positionals) {
+        const relative = path.relative(process.cwd(), path.resolve(input));
+        const result = convertPageObject(fs.readFileSync(input, 'utf8'), relative, singletons, values['out-dir'] as string);
+        const target = path.join(values['out-dir'] as string, result.fileName);
+
+        if (values.stdout) {
+            process.stdout.write(result.code);
+        } else if (values.check) {
+            failed = checkTwin(relative, target, result) || failed;
+        } else if (fs.existsSync(target) && !values.force) {
+            console.error(`❌ ${target} already exists (use --force to overwrite or --check to compare)`);
+            failed = true;
+        } else {
+            fs.mkdirSync(path.dirname(target), { recursive: true });
+            fs.writeFileSync(target, result.code, 'utf8');
+            console.log(`✅ ${relative} → ${target} (${result.todos} TODO(migrate) left)`);
+        }
+    }
+
+    process.exit(failed ? 1 : 0);
+}
+
+/**
+ * Report members of the Cypress page object that its Playwright twin lacks
+ * @returns true when the twin is missing or has drifted
+ */
+function checkTwin(source: string, target: string, result: PomConversionResult): boolean {
+    if (!fs.existsSync(target)) {
+        console.error(`❌ ${source}: no Playwright twin at ${target}`);
+        return true;
+    }
+
+    const existing = playwrightMembers(fs.readFileSync(target, 'utf8'), target);
+    const missingLocators = result.locators.filter(name => !existing.has(name));
+    const missingMethods = result.methods.filter(name => !existing.has(name));
+
+    if (missingLocators.length === 0 && missingMethods.length === 0) {
+        console.log(`✅ ${source} ↔ ${target} in sync`);
+        return false;
+    }
+
+    console.error(`❌ ${source} ↔ ${target} drifted`);
+    missingLocators.forEach(name => console.error(`   missing locator: ${name}`));
+    missingMethods.forEach(name => console.error(`   missing method:  ${name}()`));
+    return true;
+}
+
+if (require.main === module) {
+    main();
+}
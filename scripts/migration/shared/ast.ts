@@ -0,0 +1,235 @@
+/**
+ * ============================================================================
+ * MIGRATION TOOLING - Shared TypeScript AST Helpers
+ * ============================================================================
+ *
+ * PURPOSE:
+ * Small helpers on top of the TypeScript compiler API that every migration
+ * tool in scripts/migration needs: parsing, flattening Cypress-style call
+ * chains, reading literals and carrying comments over to generated code.
+ */
+
+import path from 'path';
+import ts from 'typescript';
+
+/**
+ * One link of a fluent chain, e.g. `.should('be.visible')` or `.to`
+ * `args` is undefined for plain property access links.
+ */
+export interface ChainLink {
+    name: string;
+    args?: ts.NodeArray<ts.Expression>;
+    node: ts.Expression;
+}
+
+/**
+ * A flattened chain: `cy.get('a').click()` => head `cy`, links [get, click]
+ */
+export interface FlatChain {
+    head: ts.Expression;
+    links: ChainLink[];
+}
+
+/**
+ * Parse a TypeScript source file with parent pointers set
+ */
+export function parseSource(fileName: string, text: string): ts.SourceFile {
+    return ts.createSourceFile(fileName, text, ts.ScriptTarget.Latest, true, ts.ScriptKind.TS);
+}
+
+/**
+ * Flatten a fluent call chain into its head expression and ordered links
+ */
+export function flattenChain(expr: ts.Expression): FlatChain {
+    const links: ChainLink[] = [];
+    let node: ts.Expression = expr;
+
+    for (;;) {
+        if (ts.isNonNullExpression(node) || ts.isParenthesizedExpression(node)) {
+            node = node.expression;
+        } else if (ts.isCallExpression(node) && ts.isPropertyAccessExpression(node.expression)) {
+            links.unshift({ name: node.expression.name.text, args: node.arguments, node });
+            node = node.expression.expression;
+        } else if (ts.isPropertyAccessExpression(node)) {
+            links.unshift({ name: node.name.text, node });
+            node = node.expression;
+        } else {
+            break;
+        }
+    }
+
+    return { head: node, links };
+}
+
+/**
+ * Name of a call's callee when it is a plain identifier or a dotted path
+ * e.g. `describe` or `describe.only`
+ */
+export function calleePath(call: ts.CallExpression): string | undefined {
+    const parts: string[] = [];
+    let node: ts.Expression = call.expression;
+    while (ts.isPropertyAccessExpression(node)) {
+        parts.unshift(node.name.text);
+        node = node.expression;
+    }
+    if (!ts.isIdentifier(node)) return undefined;
+    parts.unshift(node.text);
+    return parts.join('.');
+}
+
+/**
+ * Value of a string literal or substitution-free template, otherwise undefined
+ */
+export function stringValue(node: ts.Node | undefined): string | undefined {
+    if (node && (ts.isStringLiteral(node) || ts.isNoSubstitutionTemplateLiteral(node))) {
+        return node.text;
+    }
+    return undefined;
+}
+
+/**
+ * Value of a numeric literal, otherwise undefined
+ */
+export function numberValue(node: ts.Node | undefined): number | undefined {
+    if (node && ts.isNumericLiteral(node)) return Number(node.text);
+    if (
+        node &&
+        ts.isPrefixUnaryExpression(node) &&
+        node.operator === ts.SyntaxKind.MinusToken &&
+        ts.isNumericLiteral(node.operand)
+    ) {
+        return -Number(node.operand.text);
+    }
+    return undefined;
+}
+
+/**
+ * True when the node (or any descendant) matches the predicate
+ */
+export function containsNode(node: ts.Node, predicate: (n: ts.Node) => boolean): boolean {
+    if (predicate(node)) return true;
+    return ts.forEachChild(node, child => containsNode(child, predicate) || undefined) === true;
+}
+
+/**
+ * True when the node references any identifier from `names`
+ * Property names (`obj.cy`) are not counted as references.
+ */
+export function referencesAny(node: ts.Node, names: ReadonlySet<string>): boolean {
+    return containsNode(node, n => {
+        if (!ts.isIdentifier(n) || !names.has(n.text)) return false;
+        const parent = n.parent;
+        if (parent && ts.isPropertyAccessExpression(parent) && parent.name === n) return false;
+        if (parent && ts.isPropertyAssignment(parent) && parent.name === n) return false;
+        return true;
+    });
+}
+
+/**
+ * Source text of a node with its continuation lines dedented to column 0
+ */
+export function dedentedText(node: ts.Node, sf: ts.SourceFile): string[] {
+    const column = sf.getLineAndCharacterOfPosition(node.getStart(sf)).character;
+    return node
+        .getText(sf)
+        .split(/\r?\n/)
+        .map((line, i) => (i === 0 ? line : stripIndent(line, column)));
+}
+
+/**
+ * Leading comments of a node (JSDoc, line and block comments), dedented
+ */
+export function leadingComments(node: ts.Node, sf: ts.SourceFile): string[] {
+    const ranges = ts.getLeadingCommentRanges(sf.text, node.getFullStart()) ?? [];
+    const lines: string[] = [];
+    for (const range of ranges) {
+        const column = sf.getLineAndCharacterOfPosition(range.pos).character;
+        sf.text
+            .slice(range.pos, range.end)
+            .split(/\r?\n/)
+            .forEach((line, i) => lines.push(i === 0 ? line : stripIndent(line, column).trimEnd()));
+    }
+    return lines;
+}
+
+/**
+ * True when the node is separated from the previous token by a blank line
+ */
+export function hasBlankLineBefore(node: ts.Node, sf: ts.SourceFile): boolean {
+    const trivia = sf.text.slice(node.getFullStart(), node.getStart(sf));
+    return /\n[ \t]*\r?\n/.test(trivia);
+}
+
+/**
+ * Escape a string so it can be embedded in a regular expression literal
+ */
+export function escapeRegExp(text: string): string {
+    return text.replace(/[.*+?^${}()|[\]\\/]/g, '\\$&');
+}
+
+/**
+ * Quote a string as a single-quoted TypeScript literal
+ */
+export function quote(text: string): string {
+    return `'${text.replace(/\\/g, '\\\\').replace(/'/g, "\\'").replace(/\n/g, '\\n')}'`;
+}
+
+/**
+ * Folders whose modules both suites import (generated test data, test ids)
+ */
+export const SHARED_MODULE_DIRS = ['tests'];
+
+/**
+ * An import of a shared module (see SHARED_MODULE_DIRS) re-pointed from the
+ * Cypress file to the generated file, or undefined for any other import
+ *
+ * `import { TestIds } from '../../../tests/test-ids'` in cypress/e2e/pages/
+ *   => `import { TestIds } from '../../tests/test-ids';` for playwright/pages/
+ *
+ * With `keep`, only the bindings it accepts are imported (undefined when none are)
+ */
+export function sharedImport(
+    stmt: ts.ImportDeclaration,
+    sf: ts.SourceFile,
+    fromFile: string,
+    toFile: string,
+    keep?: (name: string) => boolean
+): string | undefined {
+    const specifier = stringValue(stmt.moduleSpecifier);
+    if (!specifier?.startsWith('.') || !stmt.importClause) return undefined;
+
+    const resolved = path.relative(process.cwd(), path.resolve(path.dirname(fromFile), specifier));
+    const [root] = resolved.split(path.sep);
+    if (!SHARED_MODULE_DIRS.includes(root)) return undefined;
+
+    let target = path.relative(path.dirname(toFile), resolved).split(path.sep).join('/');
+    if (!target.startsWith('.')) target = `./${target}`;
+    const clause = keep ? keptBindings(stmt.importClause, sf, keep) : stmt.importClause.getText(sf);
+    return clause ? `import ${clause} from ${quote(target)};` : undefined;
+}
+
+function keptBindings(clause: ts.ImportClause, sf: ts.SourceFile, keep: (name: string) => boolean): string | undefined {
+    const parts: string[] = [];
+    if (clause.name && keep(clause.name.text)) parts.push(clause.name.text);
+    const bindings = clause.namedBindings;
+    if (bindings && ts.isNamespaceImport(bindings) && keep(bindings.name.text)) parts.push(bindings.getText(sf));
+    let typeOnly = clause.isTypeOnly;
+    if (bindings && ts.isNamedImports(bindings)) {
+        const elements = bindings.elements.filter(el => keep(el.name.text));
+        // `import { type A }` => `import type { A }` once no value binding is left
+        if (parts.length === 0 && elements.length > 0 && elements.every(el => el.isTypeOnly)) {
+            typeOnly = true;
+            parts.push(`{ ${elements.map(el => el.getText(sf).replace(/^type\s+/, '')).join(', ')} }`);
+        } else if (elements.length > 0) {
+            parts.push(`{ ${elements.map(el => el.getText(sf)).join(', ')} }`);
+        }
+    }
+    if (parts.length === 0) return undefined;
+    return `${typeOnly ? 'type ' : ''}${parts.join(', ')}`;
+}
+
+function stripIndent(line: string, column: number): string {
+    let i = 0;
+    while (i < column && (line[i] === ' ' || line[i] === '\t')) i++;
+    return line.slice(i);
+}
@@ -0,0 +1,788 @@
+/**
+ * ============================================================================
+ * MIGRATION TOOLING - Cypress Chain Translator
+ * ============================================================================
+ *
+ * PURPOSE:
+ * Turns flattened Cypress command chains (`cy.get(...).should(...)`) and
+ * chai `expect()` chains into Playwright statements. Shared by the spec
+ * codemod and the page-object converter; the only difference between the
+ * two is the expression that holds the Page (`page` vs `this.page`).
+ *
+ * Chains that cannot be translated throw `Untranslatable`; callers turn the
+ * message into a `// TODO(migrate)` comment.
+ */
+
+import ts from 'typescript';
+import { ChainLink, calleePath, escapeRegExp, numberValue, quote, stringValue } from './ast';
+
+/** Identifiers that only exist inside the Cypress runner */
+export const CYPRESS_GLOBALS = ['cy', 'Cypress', 'assert', 'chai', 'sinon'];
+
+export type Subject =
+    | { kind: 'none' }
+    | { kind: 'locator'; expr: string }
+    | { kind: 'url' }
+    | { kind: 'title' }
+    | { kind: 'location'; part?: string }
+    | { kind: 'value'; expr: string };
+
+/**
+ * Thrown while translating a chain; the message becomes the TODO reason
+ */
+export class Untranslatable extends Error {}
+
+/** Cypress `type()` special sequences and their Playwright key names */
+const KEYS: Record<string, string> = {
+    enter: 'Enter',
+    esc: 'Escape',
+    backspace: 'Backspace',
+    del: 'Delete',
+    tab: 'Tab',
+    selectall: 'ControlOrMeta+A',
+    movetostart: 'Home',
+    movetoend: 'End',
+    home: 'Home',
+    end: 'End',
+    leftarrow: 'ArrowLeft',
+    rightarrow: 'ArrowRight',
+    uparrow: 'ArrowUp',
+    downarrow: 'ArrowDown',
+    pageup: 'PageUp',
+    pagedown: 'PageDown',
+    insert: 'Insert',
+};
+
+/** chai words that carry no meaning for the translation */
+const CHAI_FILLERS = new Set(['to', 'be', 'been', 'is', 'that', 'which', 'and', 'has', 'have', 'with', 'at', 'of', 'same', 'does', 'still', 'also']);
+
+const LOCATION_PARTS = new Set(['hash', 'host', 'hostname', 'href', 'origin', 'pathname', 'port', 'protocol', 'search']);
+
+/**
+ * `expect(x).to` / `expect(x).not.to` - a chai assertion Playwright cannot run
+ */
+export function isChaiAccess(node: ts.Node): boolean {
+    if (!ts.isPropertyAccessExpression(node) || node.name.text !== 'to') return false;
+    let target = node.expression;
+    if (ts.isPropertyAccessExpression(target) && target.name.text === 'not') target = target.expression;
+    return ts.isCallExpression(target) && calleePath(target) === 'expect';
+}
+
+export interface ChainTranslatorOptions {
+    sf: ts.SourceFile;
+    /** Expression holding the Playwright Page, e.g. `page` or `this.page` */
+    page: string;
+    /** Expression holding the NetworkAliases fixture; intercepts stay TODOs without it */
+    network?: string;
+    /** Expression holding the baseURL fixture; `cy.setCookie()` stays a TODO without it */
+    baseURL?: string;
+    /** Expression holding the Playwright `test`; `cy.log()` becomes an annotation on it */
+    test?: string;
+    /** False for nodes that reference Cypress-only values */
+    isSafe: (node: ts.Node) => boolean;
+}
+
+export class ChainTranslator {
+    private readonly sf: ts.SourceFile;
+    private readonly page: string;
+    private readonly network?: string;
+    private readonly baseURL?: string;
+    private readonly test?: string;
+    private readonly isSafe: (node: ts.Node) => boolean;
+
+    constructor(options: ChainTranslatorOptions) {
+        this.sf = options.sf;
+        this.page = options.page;
+        this.network = options.network;
+        this.baseURL = options.baseURL;
+        this.test = options.test;
+        this.isSafe = options.isSafe;
+    }
+
+    // ==========================================================================
+    // cy.* command chains
+    // ==========================================================================
+
+    /**
+     * Translate a `cy.*` statement chain into Playwright statements
+     */
+    commands(links: ChainLink[], start: Subject = { kind: 'none' }): string[] {
+        const out: string[] = [];
+        this.run(start, links, out);
+        if (out.length === 0) {
+            throw new Untranslatable('query without an action or assertion');
+        }
+        return out;
+    }
+
+    /**
+     * Translate a side-effect free query chain into a Locator expression
+     */
+    query(links: ChainLink[], start: Subject = { kind: 'none' }): string {
+        const out: string[] = [];
+        const subject = this.run(start, links, out);
+        if (out.length > 0 || subject.kind !== 'locator') {
+            throw new Untranslatable('expected a query that yields an element');
+        }
+        return subject.expr;
+    }
+
+    private run(start: Subject, links: ChainLink[], out: string[]): Subject {
+        let subject: Subject = start;
+
+        for (let i = 0; i < links.length; i++) {
+            const link = links[i];
+            const args = link.args;
+            if (!args) throw new Untranslatable(`property access \`.${link.name}\` on a Cypress chain`);
+            args.forEach(arg => {
+                if (!this.isSafe(arg)) {
+                    throw new Untranslatable(`\`${link.name}()\` arguments use callbacks or Cypress-only values`);
+                }
+            });
+            const a = args.map(arg => arg.getText(this.sf));
+
+            switch (link.name) {
+                // ------------------------------------------------------------
+                // Parent commands
+                // ------------------------------------------------------------
+                case 'visit':
+                    out.push(`await ${this.page}.goto(${a[0]});`);
+                    subject = { kind: 'none' };
+                    break;
+                case 'get': {
+                    if (stringValue(args[0])?.startsWith('@')) {
+                        throw new Untranslatable('`cy.get(\'@alias\')` has no Playwright equivalent, keep a variable instead');
+                    }
+                    subject = { kind: 'locator', expr: `${this.page}.locator(${a[0]})` };
+                    break;
+                }
+                case 'getByTestId':
+                    subject = { kind: 'locator', expr: `${this.page}.getByTestId(${a[0]})` };
+                    break;
+                case 'contains': {
+                    const scope: string = subject.kind === 'locator' ? subject.expr : this.page;
+                    subject = {
+                        kind: 'locator',
+                        expr:
+                            args.length >= 2
+                                ? `${scope}.locator(${a[0]}, { hasText: ${a[1]} }).first()`
+                                : `${scope}.getByText(${a[0]}).first()`,
+                    };
+                    break;
+                }
+                case 'focused':
+                    subject = { kind: 'locator', expr: `${this.page}.locator(':focus')` };
+                    break;
+                case 'url':
+                    subject = { kind: 'url' };
+                    break;
+                case 'title':
+                    subject = { kind: 'title' };
+                    break;
+                case 'location': {
+                    const part = stringValue(args[0]);
+                    if (args.length > 0 && (!part || !LOCATION_PARTS.has(part))) {
+                        throw new Untranslatable('unsupported `cy.location()` key');
+                    }
+                    subject = { kind: 'location', part };
+                    break;
+                }
+                case 'hash':
+                    subject = { kind: 'location', part: 'hash' };
+                    break;
+                case 'reload':
+                    out.push(`await ${this.page}.reload();`);
+                    break;
+                case 'go':
+                    out.push(this.history(args[0]));
+                    break;
+                case 'viewport':
+                    if (args.length < 2 || stringValue(args[0]) !== undefined) {
+                        throw new Untranslatable('viewport presets need an explicit width and height');
+                    }
+                    out.push(`await ${this.page}.setViewportSize({ width: ${a[0]}, height: ${a[1]} });`);
+                    break;
+                case 'intercept': {
+                    const network = this.networkFixture(link);
+                    const alias = links[i + 1]?.name === 'as' ? links[++i] : undefined;
+                    const aliasArg = alias?.args?.[0];
+                    if (alias && (!aliasArg || !this.isSafe(aliasArg))) {
+                        throw new Untranslatable('`.as()` needs an alias name');
+                    }
+                    const as = aliasArg ? `.as(${aliasArg.getText(this.sf)})` : '';
+                    out.push(`await ${network}.intercept(${a.join(', ')})${as};`);
+                    subject = { kind: 'none' };
+                    break;
+                }
+                case 'wait':
+                    if (
+                        stringValue(args[0]) !== undefined ||
+                        ts.isTemplateExpression(args[0]) ||
+                        ts.isArrayLiteralExpression(args[0])
+                    ) {
+                        const call = `await ${this.networkFixture(link)}.wait(${a.join(', ')})`;
+                        if (i === links.length - 1) {
+                            out.push(`${call};`);
+                        } else {
+                            subject = { kind: 'value', expr: `(${call})` };
+                        }
+                        break;
+                    }
+                    out.push(`await ${this.page}.waitForTimeout(${a[0]});`);
+                    break;
+                case 'its': {
+                    const property = stringValue(args[0]);
+                    if (subject.kind !== 'value' || !property || !/^[\w$]+(\.[\w$]+)*$/.test(property)) {
+                        throw new Untranslatable('`.its()` is only translated on cy.wait(\'@alias\') results');
+                    }
+                    const [head, ...rest] = property.split('.');
+                    const access = (key: string) => (/^\d+$/.test(key) ? `[${key}]` : `.${key}`);
+                    subject = {
+                        kind: 'value',
+                        expr: subject.expr + access(head) + rest.map(key => `?.${access(key).replace(/^\./, '')}`).join(''),
+                    };
+                    break;
+                }
+                case 'log':
+                    if (!this.test) throw new Untranslatable('`cy.log()` needs the Playwright test for an annotation');
+                    out.push(`${this.test}.info().annotations.push({ type: 'log', description: ${a[0]} });`);
+                    break;
+                case 'setCookie':
+                    out.push(`await ${this.page}.context().addCookies([${this.cookie(args, a)}]);`);
+                    break;
+                case 'clearCookies':
+                case 'clearAllCookies':
+                    out.push(`await ${this.page}.context().clearCookies();`);
+                    break;
+                case 'clearLocalStorage':
+                case 'clearAllLocalStorage':
+                    if (args[0] && ts.isRegularExpressionLiteral(args[0])) {
+                        throw new Untranslatable('`cy.clearLocalStorage(/regex/)` needs an explicit key loop');
+                    }
+                    out.push(
+                        args.length > 0
+                            ? this.clearStorage(`key => localStorage.removeItem(key), ${a[0]}`)
+                            : this.clearStorage('() => localStorage.clear()')
+                    );
+                    break;
+                case 'clearAllSessionStorage':
+                    out.push(this.clearStorage('() => sessionStorage.clear()'));
+                    break;
+                case 'screenshot': {
+                    const name = stringValue(args[0]);
+                    out.push(
+                        name
+                            ? `await ${this.page}.screenshot({ path: ${quote(`test-output/playwright-output/screenshots/${name}.png`)} });`
+                            : `await ${this.page}.screenshot();`
+                    );
+                    break;
+                }
+                case 'scrollTo':
+                    out.push(this.scrollTo(subject, args, a));
+                    break;
+
+                // ------------------------------------------------------------
+                // Child commands (locator subject)
+                // ------------------------------------------------------------
+                case 'find':
+                    subject = { kind: 'locator', expr: `${this.locator(subject, link)}.locator(${a[0]})` };
+                    break;
+                case 'first':
+                case 'last':
+                    subject = { kind: 'locator', expr: `${this.locator(subject, link)}.${link.name}()` };
+                    break;
+                case 'eq': {
+                    const index = numberValue(args[0]);
+                    if (index !== undefined && index < 0) {
+                        throw new Untranslatable('negative `.eq()` index');
+                    }
+                    subject = { kind: 'locator', expr: `${this.locator(subject, link)}.nth(${a[0]})` };
+                    break;
+                }
+                case 'parent':
+                    subject = { kind: 'locator', expr: `${this.locator(subject, link)}.locator('..')` };
+                    break;
+                case 'children': {
+                    const selector = args.length > 0 ? stringValue(args[0]) : '*';
+                    if (selector === undefined) throw new Untranslatable('dynamic `.children()` selector');
+                    subject = { kind: 'locator', expr: `${this.locator(subject, link)}.locator(${quote(`:scope > ${selector}`)})` };
+                    break;
+                }
+                case 'click':
+                case 'dblclick':
+                    out.push(`await ${this.locator(subject, link)}.${link.name}(${this.forceOption(args[0])});`);
+                    break;
+                case 'rightclick':
+                    out.push(`await ${this.locator(subject, link)}.click({ button: 'right' });`);
+                    break;
+                case 'clear': {
+                    // clear().type('x') collapses into a single fill('x')
+                    const next = links[i + 1];
+                    if (!(next?.name === 'type' && this.isPlainText(next.args?.[0]))) {
+                        out.push(`await ${this.locator(subject, link)}.clear();`);
+                    }
+                    break;
+                }
+                case 'type':
+                    out.push(...this.type(this.locator(subject, link), args[0], a[0]));
+                    break;
+                case 'check':
+                case 'uncheck':
+                    if (args.length > 0 && !ts.isObjectLiteralExpression(args[0])) {
+                        throw new Untranslatable(`\`.${link.name}(value)\` needs a locator for the specific input`);
+                    }
+                    out.push(`await ${this.locator(subject, link)}.${link.name}(${this.forceOption(args[0])});`);
+                    break;
+                case 'select':
+                    out.push(
+                        numberValue(args[0]) !== undefined
+                            ? `await ${this.locator(subject, link)}.selectOption({ index: ${a[0]} });`
+                            : `await ${this.locator(subject, link)}.selectOption(${a[0]});`
+                    );
+                    break;
+                case 'focus':
+                case 'blur':
+                    out.push(`await ${this.locator(subject, link)}.${link.name}();`);
+                    break;
+                case 'realHover':
+                    out.push(`await ${this.locator(subject, link)}.hover();`);
+                    break;
+                case 'trigger': {
+                    const event = stringValue(args[0]);
+                    out.push(
+                        event === 'mouseover' || event === 'mouseenter'
+                            ? `await ${this.locator(subject, link)}.hover();`
+                            : `await ${this.locator(subject, link)}.dispatchEvent(${a[0]});`
+                    );
+                    break;
+                }
+                case 'scrollIntoView':
+                    out.push(`await ${this.locator(subject, link)}.scrollIntoViewIfNeeded();`);
+                    break;
+                case 'selectFile':
+                    out.push(`await ${this.locator(subject, link)}.setInputFiles(${a[0]});`);
+                    break;
+
+                // ------------------------------------------------------------
+                // Assertions
+                // ------------------------------------------------------------
+                case 'should':
+                case 'and':
+                    out.push(this.should(subject, args, a));
+                    break;
+
+                default:
+                    throw new Untranslatable(`\`${link.name}()\` has no automatic Playwright translation`);
+            }
+        }
+
+        return subject;
+    }
+
+    private networkFixture(link: ChainLink): string {
+        if (!this.network) {
+            throw new Untranslatable(`\`${link.name}()\` needs the NetworkAliases fixture (playwright/fixtures/network.fixture.ts)`);
+        }
+        return this.network;
+    }
+
+    private locator(subject: Subject, link: ChainLink): string {
+        if (subject.kind !== 'locator') {
+            throw new Untranslatable(`\`.${link.name}()\` needs an element subject`);
+        }
+        return subject.expr;
+    }
+
+    private history(arg: ts.Expression | undefined): string {
+        const direction = stringValue(arg) ?? numberValue(arg);
+        if (direction === 'back' || direction === -1) return `await ${this.page}.goBack();`;
+        if (direction === 'forward' || direction === 1) return `await ${this.page}.goForward();`;
+        throw new Untranslatable('`cy.go()` only translates back/forward');
+    }
+
+    private scrollTo(subject: Subject, args: ts.NodeArray<ts.Expression>, a: string[]): string {
+        if (subject.kind !== 'none') throw new Untranslatable('element `.scrollTo()`');
+        const position = stringValue(args[0]);
+        if (position === 'top') return `await ${this.page}.evaluate(() => window.scrollTo(0, 0));`;
+        if (position === 'bottom') {
+            return `await ${this.page}.evaluate(() => window.scrollTo(0, document.body.scrollHeight));`;
+        }
+        if (args.length >= 2 && position === undefined) {
+            return `await ${this.page}.evaluate(([x, y]) => window.scrollTo(x, y), [${a[0]}, ${a[1]}]);`;
+        }
+        throw new Untranslatable('unsupported `cy.scrollTo()` position');
+    }
+
+    /**
+     * `cy.setCookie(name, value, options)` as an addCookies() entry scoped to
+     * baseURL; Playwright takes either a url or a domain and path, so only
+     * the default path '/' translates
+     */
+    private cookie(args: readonly ts.Expression[], a: string[]): string {
+        if (!this.baseURL) throw new Untranslatable('`cy.setCookie()` needs the baseURL fixture');
+        if (args.length < 2) throw new Untranslatable('`cy.setCookie()` without a value');
+
+        const fields = [`name: ${a[0]}`, `value: ${a[1]}`, `url: ${this.baseURL}!`];
+        const options = args[2];
+        if (options && !ts.isObjectLiteralExpression(options)) throw new Untranslatable('dynamic `cy.setCookie()` options');
+        options?.properties.forEach(p => {
+            const name = p.name?.getText(this.sf);
+            if (!ts.isPropertyAssignment(p) || !name) throw new Untranslatable('dynamic `cy.setCookie()` options');
+            if (name === 'path' && stringValue(p.initializer) === '/') return;
+            if (name !== 'httpOnly' && name !== 'secure') {
+                throw new Untranslatable(`\`cy.setCookie()\` option \`${name}\` has no url-scoped Playwright equivalent`);
+            }
+            fields.push(`${name}: ${p.initializer.getText(this.sf)}`);
+        });
+        return `{ ${fields.join(', ')} }`;
+    }
+
+    private forceOption(options: ts.Expression | undefined): string {
+        if (!options || !ts.isObjectLiteralExpression(options)) return '';
+        const force = options.properties.some(
+            p => ts.isPropertyAssignment(p) && p.name.getText(this.sf) === 'force' && p.initializer.kind === ts.SyntaxKind.TrueKeyword
+        );
+        return force ? '{ force: true }' : '';
+    }
+
+    private isPlainText(arg: ts.Expression | undefined): boolean {
+        const text = stringValue(arg);
+        return arg !== undefined && (text === undefined || !text.includes('{'));
+    }
+
+    /**
+     * `type()` becomes `fill()` for plain text, or a press/pressSequentially
+     * sequence when the text contains `{enter}`-style special keys
+     */
+    private type(locator: string, arg: ts.Expression | undefined, argText: string): string[] {
+        if (!arg) throw new Untranslatable('`.type()` without text');
+        const text = stringValue(arg);
+        if (text === undefined || !text.includes('{')) {
+            return [`await ${locator}.fill(${argText});`];
+        }
+
+        const out: string[] = [];
+        const pattern = /\{([^}]*)\}/g;
+        let buffer = '';
+        let last = 0;
+        let match: RegExpExecArray | null;
+        while ((match = pattern.exec(text)) !== null) {
+            buffer += text.slice(last, match.index);
+            last = pattern.lastIndex;
+            if (match[1] === '{') {
+                buffer += '{';
+                continue;
+            }
+            const key = KEYS[match[1].toLowerCase()];
+            if (!key) throw new Untranslatable(`unknown \`.type()\` key sequence {${match[1]}}`);
+            if (buffer) out.push(`await ${locator}.pressSequentially(${quote(buffer)});`);
+            buffer = '';
+            out.push(`await ${locator}.press(${quote(key)});`);
+        }
+        buffer += text.slice(last);
+        if (buffer) out.push(`await ${locator}.pressSequentially(${quote(buffer)});`);
+        return out;
+    }
+
+    // ==========================================================================
+    // .should() → web-first assertions
+    // ==========================================================================
+
+    private should(subject: Subject, args: ts.NodeArray<ts.Expression>, a: string[]): string {
+        const chainer = stringValue(args[0]);
+        if (chainer === undefined) {
+            throw new Untranslatable('`.should()` callback, rewrite it with expect.poll() or web-first assertions');
+        }
+        const negated = chainer.startsWith('not.');
+        const base = negated ? chainer.slice(4) : chainer;
+        const not = negated ? '.not' : '';
+
+        switch (subject.kind) {
+            case 'locator':
+                return this.locatorAssertion(subject.expr, base, negated, a.slice(1), args.slice(1));
+            case 'url':
+                return `await expect(${this.page})${not}.${this.urlMatcher(base, a[1], args[1])};`;
+            case 'title':
+                if (base === 'eq' || base === 'equal') return `await expect(${this.page})${not}.toHaveTitle(${a[1]});`;
+                if (base === 'include' || base === 'contain') {
+                    return `await expect(${this.page})${not}.toHaveTitle(${this.containsRegExp(a[1], args[1])});`;
+                }
+                throw new Untranslatable(`unsupported title assertion '${chainer}'`);
+            case 'location':
+                return this.locationAssertion(subject.part, base, not, a[1]);
+            case 'value':
+                return `expect(${subject.expr})${not}.${this.valueMatcher(base, a.slice(1))};`;
+            default:
+                throw new Untranslatable('`.should()` without a subject');
+        }
+    }
+
+    /**
+     * Plain-value assertions, e.g. `.its('response.statusCode').should('eq', 200)`
+     */
+    private valueMatcher(chainer: string, a: string[]): string {
+        switch (chainer) {
+            case 'eq':
+            case 'equal':
+                return `toBe(${a[0]})`;
+            case 'deep.equal':
+            case 'eql':
+                return `toEqual(${a[0]})`;
+            case 'include':
+            case 'contain':
+                return `toContain(${a[0]})`;
+            case 'match':
+                return `toMatch(${a[0]})`;
+            case 'have.length':
+                return `toHaveLength(${a[0]})`;
+            case 'have.property':
+                return `toHaveProperty(${a.join(', ')})`;
+            case 'exist':
+                return 'toBeDefined()';
+            case 'be.true':
+                return 'toBe(true)';
+            case 'be.false':
+                return 'toBe(false)';
+            case 'be.null':
+                return 'toBeNull()';
+            case 'be.gt':
+            case 'be.greaterThan':
+                return `toBeGreaterThan(${a[0]})`;
+            case 'be.gte':
+            case 'be.at.least':
+                return `toBeGreaterThanOrEqual(${a[0]})`;
+            case 'be.lt':
+            case 'be.lessThan':
+                return `toBeLessThan(${a[0]})`;
+            case 'be.lte':
+            case 'be.at.most':
+                return `toBeLessThanOrEqual(${a[0]})`;
+        }
+        throw new Untranslatable(`unsupported value assertion '${chainer}'`);
+    }
+
+    private locatorAssertion(
+        loc: string,
+        base: string,
+        negated: boolean,
+        a: string[],
+        args: ts.Expression[]
+    ): string {
+        const not = negated ? '.not' : '';
+        const web = (matcher: string) => `await expect(${loc})${not}.${matcher};`;
+        const count = (matcher: string) => `await expect.poll(() => ${loc}.count())${not}.${matcher}(${a[0]});`;
+
+        switch (base) {
+            case 'exist':
+                return negated ? `await expect(${loc}).toHaveCount(0);` : `await expect(${loc}).toBeAttached();`;
+            case 'be.visible':
+                return web('toBeVisible()');
+            case 'be.hidden':
+                return web('toBeHidden()');
+            case 'be.checked':
+                return web('toBeChecked()');
+            case 'be.disabled':
+                return web('toBeDisabled()');
+            case 'be.enabled':
+                return web('toBeEnabled()');
+            case 'be.empty':
+                return web('toBeEmpty()');
+            case 'be.focused':
+            case 'have.focus':
+                return web('toBeFocused()');
+            case 'have.text':
+                return web(`toHaveText(${a[0]})`);
+            case 'contain':
+            case 'contains':
+            case 'contain.text':
+            case 'include.text':
+                return web(`toContainText(${a[0]})`);
+            case 'have.value':
+                return web(`toHaveValue(${a[0]})`);
+            case 'have.class':
+                return web(`toHaveClass(${this.classRegExp(a[0], args[0])})`);
+            case 'have.attr':
+                return web(`toHaveAttribute(${a.slice(0, 2).join(', ')})`);
+            case 'have.id':
+                return web(`toHaveId(${a[0]})`);
+            case 'have.css':
+                return web(`toHaveCSS(${a[0]}, ${a[1]})`);
+            case 'have.length':
+                return web(`toHaveCount(${a[0]})`);
+            case 'have.length.gt':
+            case 'have.length.above':
+            case 'have.length.greaterThan':
+                return count('toBeGreaterThan');
+            case 'have.length.gte':
+            case 'have.length.at.least':
+                return count('toBeGreaterThanOrEqual');
+            case 'have.length.lt':
+            case 'have.length.below':
+            case 'have.length.lessThan':
+                return count('toBeLessThan');
+            case 'have.length.lte':
+            case 'have.length.at.most':
+                return count('toBeLessThanOrEqual');
+            default:
+                throw new Untranslatable(`unsupported element assertion '${negated ? 'not.' : ''}${base}'`);
+        }
+    }
+
+    /**
+     * Web storage throws on about:blank, where a fresh context has nothing to clear yet
+     * (e.g. a `beforeEach` that runs before the first `goto`)
+     */
+    private clearStorage(evaluateArgs: string): string {
+        return `if (${this.page}.url() !== 'about:blank') await ${this.page}.evaluate(${evaluateArgs});`;
+    }
+
+    private urlMatcher(base: string, argText: string, arg: ts.Expression | undefined): string {
+        switch (base) {
+            case 'eq':
+            case 'equal':
+                return `toHaveURL(${argText})`;
+            case 'include':
+            case 'contain':
+                return `toHaveURL(${this.containsRegExp(argText, arg)})`;
+            case 'match':
+                return `toHaveURL(${argText})`;
+            default:
+                throw new Untranslatable(`unsupported url assertion '${base}'`);
+        }
+    }
+
+    private locationAssertion(part: string | undefined, base: string, not: string, argText: string): string {
+        if (!part) throw new Untranslatable('`cy.location()` without a key yields an object');
+        switch (base) {
+            case 'eq':
+            case 'equal':
+                return `await expect(${this.page})${not}.toHaveURL(url => url.${part} === ${argText});`;
+            case 'include':
+            case 'contain':
+                return `await expect(${this.page})${not}.toHaveURL(url => url.${part}.includes(${argText}));`;
+            default:
+                throw new Untranslatable(`unsupported location assertion '${base}'`);
+        }
+    }
+
+    private containsRegExp(argText: string, arg: ts.Expression | undefined): string {
+        const text = stringValue(arg);
+        if (text !== undefined) return `/${escapeRegExp(text)}/`;
+        if (arg && ts.isRegularExpressionLiteral(arg)) return argText;
+        return `new RegExp(${argText})`;
+    }
+
+    private classRegExp(argText: string, arg: ts.Expression | undefined): string {
+        const text = stringValue(arg);
+        if (text !== undefined) return `/(^|\\s)${escapeRegExp(text)}(\\s|$)/`;
+        return `new RegExp(\`(^|\\\\s)\${${argText}}(\\\\s|$)\`)`;
+    }
+
+    // ==========================================================================
+    // chai expect() → Playwright expect()
+    // ==========================================================================
+
+    isChaiChain(links: ChainLink[]): boolean {
+        return links[0].name === 'to' || (links[0].name === 'not' && links[1]?.name === 'to');
+    }
+
+    chaiExpect(head: ts.CallExpression, links: ChainLink[]): string {
+        if (!head.arguments[0] || !this.isSafe(head.arguments[0])) {
+            throw new Untranslatable('expect() subject uses Cypress-only values');
+        }
+        let actual = head.arguments[0].getText(this.sf);
+        let negated = false;
+        let deep = false;
+
+        for (const link of links.slice(0, -1)) {
+            if (link.args) throw new Untranslatable(`chained chai assertion \`.${link.name}()\``);
+            if (CHAI_FILLERS.has(link.name)) continue;
+            if (link.name === 'not') negated = !negated;
+            else if (link.name === 'deep') deep = true;
+            else if (link.name === 'length' || link.name === 'lengthOf') actual = `${actual}.length`;
+            else throw new Untranslatable(`unsupported chai property '${link.name}'`);
+        }
+
+        const last = links[links.length - 1];
+        const args = last.args ?? [];
+        args.forEach(arg => {
+            if (!this.isSafe(arg)) throw new Untranslatable('expect() arguments use Cypress-only values');
+        });
+        const a = args.map(arg => arg.getText(this.sf)).join(', ');
+        const not = negated ? '.not' : '';
+        const result = (matcher: string) => `expect(${actual})${not}.${matcher};`;
+
+        if (!last.args) {
+            switch (last.name) {
+                case 'true':
+                case 'false':
+                    return result(`toBe(${last.name})`);
+                case 'null':
+                    return result('toBeNull()');
+                case 'undefined':
+                    return result('toBeUndefined()');
+                case 'NaN':
+                    return result('toBeNaN()');
+                case 'ok':
+                    return result('toBeTruthy()');
+                case 'exist':
+                    return result('toEqual(expect.anything())');
+                case 'empty':
+                    return result('toHaveLength(0)');
+            }
+            throw new Untranslatable(`unsupported chai assertion '${last.name}'`);
+        }
+
+        switch (last.name) {
+            case 'equal':
+            case 'equals':
+            case 'eq':
+                return result(deep ? `toEqual(${a})` : `toBe(${a})`);
+            case 'eql':
+                return result(`toEqual(${a})`);
+            case 'above':
+            case 'gt':
+            case 'greaterThan':
+                return result(`toBeGreaterThan(${a})`);
+            case 'least':
+            case 'gte':
+                return result(`toBeGreaterThanOrEqual(${a})`);
+            case 'below':
+            case 'lt':
+            case 'lessThan':
+                return result(`toBeLessThan(${a})`);
+            case 'most':
+            case 'lte':
+                return result(`toBeLessThanOrEqual(${a})`);
+            case 'length':
+            case 'lengthOf':
+                return result(`toHaveLength(${a})`);
+            case 'include':
+            case 'includes':
+            case 'contain':
+            case 'contains':
+            case 'string':
+                return result(`toContain(${a})`);
+            case 'match':
+            case 'matches':
+                return result(`toMatch(${a})`);
+            case 'property':
+                return result(`toHaveProperty(${a})`);
+            case 'instanceOf':
+            case 'instanceof':
+                return result(`toBeInstanceOf(${a})`);
+            case 'oneOf':
+                return `expect(${a})${not}.toContain(${actual});`;
+            case 'a':
+            case 'an': {
+                const type = stringValue(args[0]);
+                if (type === 'array') return `expect(Array.isArray(${actual}))${not}.toBe(true);`;
+                if (type && ['string', 'number', 'boolean', 'object', 'function', 'undefined'].includes(type)) {
+                    return `expect(typeof ${actual})${not}.toBe(${quote(type)});`;
+                }
+                break;
+            }
+        }
+        throw new Untranslatable(`unsupported chai assertion '${last.name}()'`);
+    }
+}
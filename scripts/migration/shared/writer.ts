@@ -0,0 +1,76 @@
+/**
+ * ============================================================================
+ * MIGRATION TOOLING - Indented Code Writer
+ * ============================================================================
+ *
+ * Collects generated lines with 4-space indentation (the repo's style) and
+ * keeps count of the TODO(migrate) markers that were emitted.
+ */
+
+export const TODO_MARKER = 'TODO(migrate)';
+
+export class CodeWriter {
+    private readonly lines: string[] = [];
+    private depth = 0;
+    todoCount = 0;
+
+    line(text = ''): this {
+        this.lines.push(text ? '    '.repeat(this.depth) + text : '');
+        return this;
+    }
+
+    many(texts: string[]): this {
+        texts.forEach(text => this.line(text));
+        return this;
+    }
+
+    indent(): this {
+        this.depth++;
+        return this;
+    }
+
+    dedent(): this {
+        this.depth = Math.max(0, this.depth - 1);
+        return this;
+    }
+
+    /**
+     * Emit a TODO(migrate) comment followed by the original code, commented out
+     */
+    todo(reason: string, original: string[] = []): this {
+        this.todoCount++;
+        this.line(`// ${TODO_MARKER}: ${reason}`);
+        original.forEach(text => this.line(`// ${text}`.trimEnd()));
+        return this;
+    }
+
+    /**
+     * Append the output of another writer at the current indentation
+     */
+    append(other: CodeWriter): this {
+        other.lines.forEach(text => this.line(text));
+        this.todoCount += other.todoCount;
+        return this;
+    }
+
+    /**
+     * True when any non-comment line (neither `//` nor doc comment) matches the pattern
+     */
+    uses(pattern: RegExp): boolean {
+        return this.lines.some(text => !/^(\/\/|\/\*|\*)/.test(text.trimStart()) && pattern.test(text));
+    }
+
+    /**
+     * Remove trailing blank lines (used before closing a block)
+     */
+    trimBlank(): this {
+        while (this.lines.length > 0 && this.lines[this.lines.length - 1] === '') {
+            this.lines.pop();
+        }
+        return this;
+    }
+
+    toString(): string {
+        return this.lines.join('\n') + '\n';
+    }
+}
@@ -0,0 +1,433 @@
+/**
+ * ============================================================================
+ * CYPRESS → PLAYWRIGHT SPEC CODEMOD
+ * ============================================================================
+ *
+ * PURPOSE:
+ * Parses a Cypress spec with the TypeScript compiler API and emits the
+ * equivalent Playwright spec, so a migration starts from generated code
+ * instead of a blank file.
+ *
+ * TRANSLATION FLOW:
+ * ┌─────────────────────────────────────────────────────────────────────────┐
+ * │  describe / context      ──►  test.describe                             │
+ * │  it / specify            ──►  test(title, async ({ page }) => ...)      │
+ * │  before / after          ──►  test.beforeAll / test.afterAll            │
+ * │  beforeEach / afterEach  ──►  test.beforeEach / test.afterEach          │
+ * │  cy.get / cy.contains    ──►  page.locator / page.getByText             │
+ * │  .should('be.visible')   ──►  await expect(locator).toBeVisible()       │
+ * │  cy.visit / cy.url       ──►  page.goto / expect(page).toHaveURL        │
+ * │  expect(x).to.equal(y)   ──►  expect(x).toBe(y)                         │
+ * └─────────────────────────────────────────────────────────────────────────┘
+ *
+ * Anything that cannot be translated safely is kept as a commented-out
+ * `// TODO(migrate): <reason>` block, so the generated spec always compiles.
+ *
+ * USAGE:
+ *   npm run migrate:spec -- cypress/e2e/tests/storage.test.ts
+ *   npm run migrate:spec -- cypress/e2e/tests/*.test.ts --out-dir tmp/migrated
+ *   npm run migrate:spec -- cypress/e2e/tests/forms.test.ts --stdout
+ */
+
+import fs from 'fs';
+import path from 'path';
+import ts from 'typescript';
+import { parseArgs } from 'util';
+import {
+    calleePath,
+    containsNode,
+    dedentedText,
+    flattenChain,
+    hasBlankLineBefore,
+    leadingComments,
+    parseSource,
+    referencesAny,
+} from './shared/ast';
+import { CYPRESS_GLOBALS, ChainTranslator, Untranslatable, isChaiAccess } from './shared/cypress-chains';
+import { CodeWriter } from './shared/writer';
+
+export interface SpecMigrationResult {
+    code: string;
+    todos: number;
+}
+
+/** Generated code that calls the NetworkAliases fixture */
+const NETWORK_USE = /\bnetwork\.(intercept|wait)\(/;
+
+const SUITES: Record<string, string> = {
+    describe: 'test.describe',
+    context: 'test.describe',
+    'describe.only': 'test.describe.only',
+    'context.only': 'test.describe.only',
+    'describe.skip': 'test.describe.skip',
+    'context.skip': 'test.describe.skip',
+};
+
+const TESTS: Record<string, string> = {
+    it: 'test',
+    specify: 'test',
+    'it.only': 'test.only',
+    'specify.only': 'test.only',
+    'it.skip': 'test.skip',
+    'specify.skip': 'test.skip',
+};
+
+const HOOKS: Record<string, string> = {
+    before: 'test.beforeAll',
+    after: 'test.afterAll',
+    beforeEach: 'test.beforeEach',
+    afterEach: 'test.afterEach',
+};
+
+class SpecMigrator {
+    private readonly unsafe = new Set(CYPRESS_GLOBALS);
+    private readonly chains: ChainTranslator;
+
+    constructor(private readonly sf: ts.SourceFile) {
+        this.chains = new ChainTranslator({
+            sf,
+            page: 'page',
+            network: 'network',
+            baseURL: 'baseURL',
+            test: 'test',
+            isSafe: node => this.isSafe(node),
+        });
+    }
+
+    run(sourcePath: string): SpecMigrationResult {
+        const body = new CodeWriter();
+        for (const stmt of this.sf.statements) {
+            if (ts.isImportDeclaration(stmt)) {
+                this.collectImportNames(stmt);
+                body.todo('Cypress-side import, point it at the Playwright equivalent', dedentedText(stmt, this.sf));
+                body.line();
+                continue;
+            }
+            this.suiteStatement(stmt, body);
+            body.line();
+        }
+
+        const w = new CodeWriter();
+        w.line(`// Generated by scripts/migration/spec-codemod.ts from ${sourcePath}`);
+        w.line('// Review every TODO(migrate) comment before committing this file.');
+        if (body.uses(NETWORK_USE)) {
+            // cy.intercept/cy.wait('@alias') were mapped onto the NetworkAliases fixture
+            const names = body.uses(/\bNetworkAliases\b/) ? 'test, expect, NetworkAliases' : 'test, expect';
+            w.line(`import { ${names} } from '../fixtures/network.fixture';`);
+        } else {
+            w.line("import { test, expect } from '@playwright/test';");
+        }
+        w.line();
+        w.append(body);
+
+        w.trimBlank();
+        return { code: w.toString(), todos: w.todoCount };
+    }
+
+    // ==========================================================================
+    // Suites, tests and hooks
+    // ==========================================================================
+
+    private suiteStatement(stmt: ts.Node, w: CodeWriter): void {
+        w.many(leadingComments(stmt, this.sf).filter(line => !line.startsWith('/// <reference')));
+
+        const call = ts.isExpressionStatement(stmt) && ts.isCallExpression(stmt.expression) ? stmt.expression : undefined;
+        const name = call && calleePath(call);
+
+        if (call && name && SUITES[name]) {
+            this.suite(call, SUITES[name], stmt, w);
+        } else if (call && name && TESTS[name]) {
+            this.test(call, TESTS[name], stmt, w);
+        } else if (call && name && HOOKS[name]) {
+            this.hook(call, HOOKS[name], stmt, w);
+        } else {
+            this.plainStatement(stmt, w);
+        }
+    }
+
+    private suite(call: ts.CallExpression, target: string, stmt: ts.Node, w: CodeWriter): void {
+        const [title, fn] = call.arguments;
+        const body = fn && this.functionBody(fn);
+        if (!title || !body || !this.isSafe(title)) {
+            w.todo('unsupported suite signature', dedentedText(stmt, this.sf));
+            return;
+        }
+
+        w.line(`${target}(${title.getText(this.sf)}, () => {`).indent();
+        body.forEach((child, i) => {
+            if (i > 0 && hasBlankLineBefore(child, this.sf)) w.line();
+            this.suiteStatement(child, w);
+        });
+        w.trimBlank().dedent().line('});');
+    }
+
+    private test(call: ts.CallExpression, target: string, stmt: ts.Node, w: CodeWriter): void {
+        const title = call.arguments[0];
+        const fn = call.arguments[call.arguments.length - 1];
+        if (!title || !this.isSafe(title)) {
+            w.todo('unsupported test title', dedentedText(stmt, this.sf));
+            return;
+        }
+
+        // Pending test: it('does something')
+        if (call.arguments.length === 1) {
+            w.line(`test.fixme(${title.getText(this.sf)}, async () => {});`);
+            return;
+        }
+
+        const body = this.functionBody(fn);
+        if (!body) {
+            w.todo('test callback is not an inline function', dedentedText(stmt, this.sf));
+            return;
+        }
+
+        const inner = this.testBody(body);
+        w.line(`${target}(${title.getText(this.sf)}, async (${this.fixtures(inner)}) => {`).indent();
+        w.append(inner);
+        w.trimBlank().dedent().line('});');
+    }
+
+    private hook(call: ts.CallExpression, target: string, stmt: ts.Node, w: CodeWriter): void {
+        const body = call.arguments[0] && this.functionBody(call.arguments[0]);
+        if (!body) {
+            w.todo('hook callback is not an inline function', dedentedText(stmt, this.sf));
+            return;
+        }
+
+        const inner = this.testBody(body);
+        const usesPage = inner.uses(/\bpage\b/) || inner.uses(NETWORK_USE);
+        const perTest = target.endsWith('Each');
+
+        if (perTest || !usesPage) {
+            w.line(`${target}(async (${this.fixtures(inner)}) => {`).indent();
+            w.append(inner);
+        } else {
+            // beforeAll/afterAll have no `page` fixture, so open one explicitly
+            w.line(`${target}(async ({ browser }) => {`).indent();
+            w.line('const page = await browser.newPage();');
+            if (inner.uses(NETWORK_USE)) w.line('const network = new NetworkAliases(page);');
+            w.append(inner);
+            w.line('await page.close();');
+        }
+        w.trimBlank().dedent().line('});');
+    }
+
+    /**
+     * Fixture destructuring for a test or per-test hook, e.g. `{ page, network }`
+     */
+    private fixtures(inner: CodeWriter): string {
+        const names: string[] = [];
+        if (inner.uses(/\bpage\b/)) names.push('page');
+        if (inner.uses(NETWORK_USE)) names.push('network');
+        if (inner.uses(/\bbaseURL\b/)) names.push('baseURL');
+        return names.length > 0 ? `{ ${names.join(', ')} }` : '';
+    }
+
+    private testBody(statements: readonly ts.Node[]): CodeWriter {
+        const inner = new CodeWriter();
+        statements.forEach((child, i) => {
+            if (i > 0 && hasBlankLineBefore(child, this.sf)) inner.line();
+            this.testStatement(child, inner);
+        });
+        return inner;
+    }
+
+    // ==========================================================================
+    // Statements inside tests and hooks
+    // ==========================================================================
+
+    private testStatement(stmt: ts.Node, w: CodeWriter): void {
+        w.many(leadingComments(stmt, this.sf));
+
+        if (ts.isArrowFunction(stmt.parent) && stmt.parent.body === stmt) {
+            // Expression-bodied arrow: () => cy.visit('/')
+            this.expressionStatement(stmt as ts.Expression, stmt, w);
+        } else if (ts.isExpressionStatement(stmt)) {
+            this.expressionStatement(stmt.expression, stmt, w);
+        } else if (ts.isIfStatement(stmt) && this.isSafe(stmt.expression)) {
+            this.ifStatement(stmt, w);
+        } else if (ts.isBlock(stmt)) {
+            w.line('{').indent();
+            stmt.statements.forEach(child => this.testStatement(child, w));
+            w.dedent().line('}');
+        } else {
+            this.plainStatement(stmt, w);
+        }
+    }
+
+    private ifStatement(stmt: ts.IfStatement, w: CodeWriter): void {
+        w.line(`if (${stmt.expression.getText(this.sf)}) {`).indent();
+        this.blockContents(stmt.thenStatement, w);
+        w.dedent();
+
+        if (stmt.elseStatement && ts.isIfStatement(stmt.elseStatement) && this.isSafe(stmt.elseStatement.expression)) {
+            w.line('} else');
+            this.ifStatement(stmt.elseStatement, w);
+            return;
+        }
+        if (stmt.elseStatement) {
+            w.line('} else {').indent();
+            this.blockContents(stmt.elseStatement, w);
+            w.dedent();
+        }
+        w.line('}');
+    }
+
+    private blockContents(stmt: ts.Node, w: CodeWriter): void {
+        const statements = ts.isBlock(stmt) ? stmt.statements : [stmt];
+        statements.forEach(child => this.testStatement(child, w));
+    }
+
+    private expressionStatement(expr: ts.Expression, original: ts.Node, w: CodeWriter): void {
+        const chain = flattenChain(expr);
+
+        try {
+            if (ts.isIdentifier(chain.head) && chain.head.text === 'cy') {
+                w.many(this.chains.commands(chain.links));
+                return;
+            }
+            if (ts.isCallExpression(chain.head) && calleePath(chain.head) === 'expect' && chain.links.length > 0) {
+                if (this.chains.isChaiChain(chain.links)) {
+                    w.line(this.chains.chaiExpect(chain.head, chain.links));
+                    return;
+                }
+            }
+        } catch (error) {
+            if (!(error instanceof Untranslatable)) throw error;
+            w.todo(error.message, dedentedText(original, this.sf));
+            return;
+        }
+
+        this.plainStatement(original, w);
+    }
+
+    /**
+     * Copy statements that do not touch Cypress verbatim, otherwise leave a TODO
+     */
+    private plainStatement(stmt: ts.Node, w: CodeWriter): void {
+        if (this.isSafe(stmt)) {
+            w.many(dedentedText(stmt, this.sf));
+            return;
+        }
+
+        // Anything declared by a commented-out statement is unavailable below it
+        if (ts.isVariableStatement(stmt)) {
+            stmt.declarationList.declarations.forEach(decl => this.collectBindingNames(decl.name));
+        }
+        if (ts.isFunctionDeclaration(stmt) && stmt.name) {
+            this.unsafe.add(stmt.name.text);
+        }
+        w.todo(this.reasonFor(stmt), dedentedText(stmt, this.sf));
+    }
+
+    private reasonFor(node: ts.Node): string {
+        if (containsNode(node, n => n.kind === ts.SyntaxKind.ThisKeyword)) {
+            return 'uses Mocha `this` context, move the data into a fixture or a local variable';
+        }
+        if (referencesAny(node, new Set(['cy']))) {
+            return 'Cypress command has no automatic Playwright translation';
+        }
+        return 'depends on Cypress-only globals or imports';
+    }
+
+    // ==========================================================================
+    // Helpers
+    // ==========================================================================
+
+    private functionBody(node: ts.Node | undefined): readonly ts.Node[] | undefined {
+        if (!node || !(ts.isArrowFunction(node) || ts.isFunctionExpression(node))) return undefined;
+        return ts.isBlock(node.body) ? node.body.statements : [node.body];
+    }
+
+    private isSafe(node: ts.Node): boolean {
+        return (
+            !referencesAny(node, this.unsafe) &&
+            !containsNode(node, n => n.kind === ts.SyntaxKind.ThisKeyword) &&
+            !containsNode(node, isChaiAccess)
+        );
+    }
+
+    private collectImportNames(stmt: ts.ImportDeclaration): void {
+        const clause = stmt.importClause;
+        if (!clause) return;
+        if (clause.name) this.unsafe.add(clause.name.text);
+        const bindings = clause.namedBindings;
+        if (bindings && ts.isNamespaceImport(bindings)) this.unsafe.add(bindings.name.text);
+        if (bindings && ts.isNamedImports(bindings)) {
+            bindings.elements.forEach(element => this.unsafe.add(element.name.text));
+        }
+    }
+
+    private collectBindingNames(name: ts.BindingName): void {
+        if (ts.isIdentifier(name)) {
+            this.unsafe.add(name.text);
+            return;
+        }
+        name.elements.forEach(element => {
+            if (!ts.isOmittedExpression(element)) this.collectBindingNames(element.name);
+        });
+    }
+}
+
+/**
+ * Translate the source of a Cypress spec into a Playwright spec
+ */
+export function migrateSpec(source: string, sourcePath = 'spec.test.ts'): SpecMigrationResult {
+    const sf = parseSource(sourcePath, source);
+    return new SpecMigrator(sf).run(sourcePath.split(path.sep).join('/'));
+}
+
+/**
+ * cypress/e2e/tests/login.test.ts → login.spec.ts
+ */
+export function specFileName(cypressPath: string): string {
+    return path.basename(cypressPath).replace(/\.(test|cy)\.(ts|js)$/, '') + '.spec.ts';
+}
+
+// ============================================================================
+// CLI
+// ============================================================================
+
+function main(): void {
+    const { values, positionals } = parseArgs({
+        allowPositionals: true,
+        options: {
+            'out-dir': { type: 'string', default: 'playwright/e2e' },
+            stdout: { type: 'boolean', default: false },
+            force: { type: 'boolean', default: false },
+        },
+    });
+
+    if (positionals.length === 0) {
+        console.error('Usage: npm run migrate:spec -- <cypress-spec...> [--out-dir <dir>] [--stdout] [--force]');
+        process.exit(1);
+    }
+
+    let failed = false;
+    for (const input of positionals) {
+        const relative = path.relative(process.cwd(), path.resolve(input));
+        const result = migrateSpec(fs.readFileSync(input, 'utf8'), relative);
+
+        if (values.stdout) {
+            process.stdout.write(result.code);
+            continue;
+        }
+
+        const target = path.join(values['out-dir'] as string, specFileName(input));
+        if (fs.existsSync(target) && !values.force) {
+            console.error(`❌ ${target} already exists (use --force to overwrite or --out-dir to write elsewhere)`);
+            failed = true;
+            continue;
+        }
+
+        fs.mkdirSync(path.dirname(target), { recursive: true });
+        fs.writeFileSync(target, result.code, 'utf8');
+        console.log(`✅ ${relative} → ${target} (${result.todos} TODO(migrate) left)`);
+    }
+
+    process.exit(failed ? 1 : 0);
+}
+
+if (require.main === module) {
+    main();
+}
@@ -0,0 +1,146 @@
+/**
+ * ============================================================================
+ * CYPRESS → PLAYWRIGHT MIGRATION VALIDATOR
+ * ============================================================================
+ *
+ * PURPOSE:
+ * Quality gate for migrated code. Scans the Playwright folders with the
+ * rules in ./validation/rules.ts and prints per-file diagnostics.
+ *
+ * FLOW:
+ * ┌─────────────────────────────────────────────────────────────────────────┐
+ * │  1. Collect *.ts / *.js files below the given paths (playwright/)       │
+ * │  2. Parse each file once and run every enabled rule                     │
+ * │  3. Print diagnostics grouped by file, optionally write SARIF           │
+ * │  4. Exit 1 on errors (or on warnings with --strict)                     │
+ * └─────────────────────────────────────────────────────────────────────────┘
+ *
+ * USAGE:
+ *   npm run migrate:validate
+ *   npm run migrate:validate -- playwright/e2e --rules no-cy-calls,no-cypress-imports
+ *   npm run migrate:validate -- --sarif test-output/migration/validation.sarif --verbose
+ */
+
+import fs from 'fs';
+import path from 'path';
+import { parseArgs } from 'util';
+import { Diagnostic, runRules, Severity } from './validation/engine';
+import { createDefaultRules, DEFAULT_RULE_OPTIONS } from './validation/rules';
+import { toSarif } from './validation/sarif';
+
+const SOURCE_EXTENSIONS = ['.ts', '.js'];
+
+const SEVERITY_ICONS: Record<Severity, string> = {
+    error: '❌',
+    warning: '⚠️ ',
+    note: 'ℹ️ ',
+};
+
+/**
+ * Source files below the given paths, skipping node_modules
+ */
+export function collectSourceFiles(paths: string[]): string[] {
+    const files: string[] = [];
+    const visit = (target: string): void => {
+        if (!fs.existsSync(target)) return;
+        if (fs.statSync(target).isDirectory()) {
+            fs.readdirSync(target)
+                .filter(name => name !== 'node_modules')
+                .forEach(name => visit(path.join(target, name)));
+        } else if (SOURCE_EXTENSIONS.includes(path.extname(target)) && !target.endsWith('.d.ts')) {
+            files.push(target);
+        }
+    };
+    paths.forEach(visit);
+    return [...new Set(files)].sort();
+}
+
+function printDiagnostics(diagnostics: Diagnostic[]): void {
+    const byFile = new Map<string, Diagnostic[]>();
+    diagnostics.forEach(diagnostic => {
+        const key = diagnostic.file ?? '(project)';
+        byFile.set(key, [...(byFile.get(key) ?? []), diagnostic]);
+    });
+
+    byFile.forEach((items, file) => {
+        console.log(file);
+        items.sort((a, b) => (a.line ?? 0) - (b.line ?? 0) || (a.column ?? 0) - (b.column ?? 0));
+        items.forEach(d => {
+            const position = d.line ? `${d.line}:${d.column}`.padEnd(8) : ''.padEnd(8);
+            console.log(`  ${position} ${SEVERITY_ICONS[d.severity]} ${d.severity.padEnd(7)} ${d.message}  (${d.ruleId})`);
+        });
+        console.log('');
+    });
+}
+
+// ============================================================================
+// CLI
+// ============================================================================
+
+function main(): void {
+    const { values, positionals } = parseArgs({
+        allowPositionals: true,
+        options: {
+            rules: { type: 'string' },
+            sarif: { type: 'string' },
+            'max-raw-testid-ratio': { type: 'string', default: String(DEFAULT_RULE_OPTIONS.maxRawTestIdRatio) },
+            strict: { type: 'boolean', default: false },
+            verbose: { type: 'boolean', default: false },
+        },
+    });
+
+    let rules = createDefaultRules({ maxRawTestIdRatio: Number(values['max-raw-testid-ratio']) });
+    if (values.rules) {
+        const enabled = (values.rules as string).split(',').map(id => id.trim());
+        const unknown = enabled.filter(id => !rules.some(rule => rule.id === id));
+        if (unknown.length > 0) {
+            console.error(`❌ Unknown rule(s): ${unknown.join(', ')}. Available: ${rules.map(r => r.id).join(', ')}`);
+            process.exit(2);
+        }
+        rules = rules.filter(rule => enabled.includes(rule.id));
+    }
+
+    const targets = positionals.length > 0 ? positionals : ['playwright'];
+    const files = collectSourceFiles(targets);
+    if (files.length === 0) {
+        console.error(`❌ No source files found in ${targets.join(', ')}`);
+        process.exit(2);
+    }
+
+    const result = runRules(
+        rules,
+        files.map(file => ({
+            file: path.relative(process.cwd(), file).split(path.sep).join('/'),
+            text: fs.readFileSync(file, 'utf8'),
+        }))
+    );
+
+    console.log('========================================');
+    console.log('🔍 Cypress to Playwright Migration Validation');
+    console.log('========================================');
+    console.log(`Rules: ${rules.map(rule => rule.id).join(', ')}`);
+    console.log(`Files: ${files.length} in ${targets.join(', ')}`);
+    console.log('');
+
+    printDiagnostics(result.diagnostics.filter(d => values.verbose || d.severity !== 'note' || !d.file));
+
+    if (values.sarif) {
+        const sarifPath = values.sarif as string;
+        fs.mkdirSync(path.dirname(sarifPath), { recursive: true });
+        fs.writeFileSync(sarifPath, JSON.stringify(toSarif(result, rules), null, 2) + '\n', 'utf8');
+        console.log(`📄 SARIF written to ${sarifPath}`);
+    }
+
+    const { error, warning, note } = result.counts;
+    console.log(`${error} error(s), ${warning} warning(s), ${note} note(s)`);
+
+    if (error > 0 || (values.strict && warning > 0)) {
+        console.log('❌ MIGRATION VALIDATION FAILED');
+        process.exit(1);
+    }
+    console.log('✅ MIGRATION VALIDATION PASSED');
+}
+
+if (require.main === module) {
+    main();
+}
@@ -0,0 +1,99 @@
+/**
+ * ============================================================================
+ * MIGRATION VALIDATION - Rules Engine
+ * ============================================================================
+ *
+ * PURPOSE:
+ * Parses every Playwright file once with the TypeScript compiler API and
+ * hands the AST to a list of pluggable rules.
+ *
+ * RULE LIFECYCLE:
+ * ┌─────────────────────────────────────────────────────────────────────────┐
+ * │  check(context)   once per file, report(node, message) per finding      │
+ * │  summarize()      once per run, for project-wide metrics (optional)     │
+ * └─────────────────────────────────────────────────────────────────────────┘
+ *
+ * Rules keep their own state between check() and summarize(), so create a
+ * fresh rule list (see createDefaultRules) for every run.
+ */
+
+import ts from 'typescript';
+import { parseSource } from '../shared/ast';
+
+export type Severity = 'error' | 'warning' | 'note';
+
+export interface Diagnostic {
+    ruleId: string;
+    severity: Severity;
+    message: string;
+    /** Repo-relative path; undefined for project-wide diagnostics */
+    file?: string;
+    line?: number;
+    column?: number;
+}
+
+export interface RuleContext {
+    sf: ts.SourceFile;
+    /** Repo-relative path with forward slashes */
+    file: string;
+    /** Report a finding at a node (or text position), using the rule's default severity unless overridden */
+    report(at: ts.Node | number, message: string, severity?: Severity): void;
+}
+
+export interface Rule {
+    id: string;
+    description: string;
+    severity: Severity;
+    check(context: RuleContext): void;
+    summarize?(): Omit<Diagnostic, 'ruleId'>[];
+}
+
+export interface SourceInput {
+    file: string;
+    text: string;
+}
+
+export interface ValidationResult {
+    files: string[];
+    diagnostics: Diagnostic[];
+    counts: Record<Severity, number>;
+}
+
+/**
+ * Run every rule against every file and collect the diagnostics
+ */
+export function runRules(rules: Rule[], sources: SourceInput[]): ValidationResult {
+    const diagnostics: Diagnostic[] = [];
+
+    for (const { file, text } of sources) {
+        const sf = parseSource(file, text);
+        for (const rule of rules) {
+            rule.check({
+                sf,
+                file,
+                report(at, message, severity = rule.severity) {
+                    const position = typeof at === 'number' ? at : at.getStart(sf);
+                    const { line, character } = sf.getLineAndCharacterOfPosition(position);
+                    diagnostics.push({ ruleId: rule.id, severity, message, file, line: line + 1, column: character + 1 });
+                },
+            });
+        }
+    }
+
+    for (const rule of rules) {
+        rule.summarize?.().forEach(diagnostic => diagnostics.push({ ruleId: rule.id, ...diagnostic }));
+    }
+
+    const counts: Record<Severity, number> = { error: 0, warning: 0, note: 0 };
+    diagnostics.forEach(diagnostic => counts[diagnostic.severity]++);
+
+    return { files: sources.map(source => source.file), diagnostics, counts };
+}
+
+/**
+ * Depth-first walk over every node of a source file
+ */
+export function walk(node: ts.Node, visitor: (node: ts.Node) => void): void {
+    visitor(node);
+    ts.forEachChild(node, child => walk(child, visitor));
+}
@@ -0,0 +1,168 @@
+/**
+ * ============================================================================
+ * MIGRATION VALIDATION - Built-in Rules
+ * ============================================================================
+ *
+ * ┌──────────────────────────┬──────────┬────────────────────────────────────┐
+ * │  RULE                    │ SEVERITY │ FLAGS                              │
+ * ├──────────────────────────┼──────────┼────────────────────────────────────┤
+ * │  no-cy-calls             │ error    │ cy.* / Cypress.* left in code      │
+ * │  no-cypress-imports      │ error    │ imports, requires, type references │
+ * │  no-wait-for-timeout     │ warning  │ page.waitForTimeout(...)           │
+ * │  prefer-semantic-locators│ warning  │ too many locator('[data-testid]')  │
+ * └──────────────────────────┴──────────┴────────────────────────────────────┘
+ *
+ * Comments and strings are never flagged: the rules look at the AST, so
+ * `// Equivalent to cy.intercept` in a migrated spec is fine.
+ */
+
+import ts from 'typescript';
+import { stringValue } from '../shared/ast';
+import { Rule, walk } from './engine';
+
+export interface RuleOptions {
+    /**
+     * Highest accepted share of raw `locator('[data-testid=...]')` calls among
+     * all test-id/semantic locator calls (0-1)
+     */
+    maxRawTestIdRatio: number;
+}
+
+export const DEFAULT_RULE_OPTIONS: RuleOptions = {
+    maxRawTestIdRatio: 0.25,
+};
+
+const CYPRESS_GLOBALS = new Set(['cy', 'Cypress']);
+const CYPRESS_MODULE = /^(cypress|@cypress\/.+|cypress-.+)$/;
+const SEMANTIC_LOCATORS = new Set([
+    'getByRole',
+    'getByTestId',
+    'getByLabel',
+    'getByPlaceholder',
+    'getByText',
+    'getByAltText',
+    'getByTitle',
+]);
+
+// ============================================================================
+// RULES
+// ============================================================================
+
+const noCyCalls = (): Rule => ({
+    id: 'no-cy-calls',
+    description: 'Migrated code must not use the cy or Cypress globals',
+    severity: 'error',
+    check({ sf, report }) {
+        walk(sf, node => {
+            if (
+                ts.isPropertyAccessExpression(node) &&
+                ts.isIdentifier(node.expression) &&
+                CYPRESS_GLOBALS.has(node.expression.text)
+            ) {
+                report(node, `Leftover Cypress call \`${node.getText(sf).split('\n')[0]}\``);
+            }
+        });
+    },
+});
+
+const noCypressImports = (): Rule => ({
+    id: 'no-cypress-imports',
+    description: 'Migrated code must not import Cypress or Cypress plugins',
+    severity: 'error',
+    check({ sf, report }) {
+        sf.typeReferenceDirectives
+            .filter(ref => CYPRESS_MODULE.test(ref.fileName))
+            .forEach(ref => report(ref.pos, `Cypress type reference "${ref.fileName}"`));
+
+        walk(sf, node => {
+            let specifier: string | undefined;
+            if ((ts.isImportDeclaration(node) || ts.isExportDeclaration(node)) && node.moduleSpecifier) {
+                specifier = stringValue(node.moduleSpecifier);
+            } else if (
+                ts.isCallExpression(node) &&
+                (node.expression.kind === ts.SyntaxKind.ImportKeyword ||
+                    (ts.isIdentifier(node.expression) && node.expression.text === 'require'))
+            ) {
+                specifier = stringValue(node.arguments[0]);
+            }
+            if (specifier && CYPRESS_MODULE.test(specifier)) {
+                report(node, `Cypress module import "${specifier}"`);
+            }
+        });
+    },
+});
+
+const noWaitForTimeout = (): Rule => ({
+    id: 'no-wait-for-timeout',
+    description: 'Hard waits make tests slow and flaky; wait for a locator, response or URL instead',
+    severity: 'warning',
+    check({ sf, report }) {
+        walk(sf, node => {
+            if (
+                ts.isCallExpression(node) &&
+                ts.isPropertyAccessExpression(node.expression) &&
+                node.expression.name.text === 'waitForTimeout'
+            ) {
+                report(node, `Hard wait \`${node.getText(sf)}\``);
+            }
+        });
+    },
+});
+
+const preferSemanticLocators = (options: RuleOptions): Rule => {
+    let raw = 0;
+    let semantic = 0;
+
+    return {
+        id: 'prefer-semantic-locators',
+        description: 'Prefer getByRole/getByTestId over raw locator(\'[data-testid=...]\') selectors',
+        severity: 'warning',
+        check({ sf, report }) {
+            walk(sf, node => {
+                if (!ts.isCallExpression(node) || !ts.isPropertyAccessExpression(node.expression)) return;
+                const method = node.expression.name.text;
+
+                if (SEMANTIC_LOCATORS.has(method)) {
+                    semantic++;
+                    return;
+                }
+                const text = selectorText(node.arguments[0], sf);
+                if (method === 'locator' && text?.trimStart().startsWith('[data-testid')) {
+                    raw++;
+                    const testId = /^\[data-testid=["']?([^"'\]]+)["']?\]$/.exec(text.trim());
+                    const suggestion = testId ? `getByTestId('${testId[1]}')` : 'getByTestId()';
+                    report(node.expression.name, `Raw test-id selector \`${text}\`, use ${suggestion}`, 'note');
+                }
+            });
+        },
+        summarize() {
+            const total = raw + semantic;
+            if (total === 0) return [];
+            const ratio = raw / total;
+            const percent = (value: number): string => `${Math.round(value * 1000) / 10}%`;
+            return [
+                {
+                    severity: ratio > options.maxRawTestIdRatio ? 'warning' : 'note',
+                    message:
+                        `${raw} raw locator('[data-testid=...]') vs ${semantic} semantic locator calls ` +
+                        `(${percent(ratio)} raw, limit ${percent(options.maxRawTestIdRatio)})`,
+                },
+            ];
+        },
+    };
+};
+
+/**
+ * Selector text of a string or template literal argument
+ */
+function selectorText(node: ts.Expression | undefined, sf: ts.SourceFile): string | undefined {
+    if (node && ts.isTemplateExpression(node)) return node.getText(sf).slice(1, -1);
+    return stringValue(node);
+}
+
+/**
+ * Fresh instances of every built-in rule
+ */
+export function createDefaultRules(options: RuleOptions = DEFAULT_RULE_OPTIONS): Rule[] {
+    return [noCyCalls(), noCypressImports(), noWaitForTimeout(), preferSemanticLocators(options)];
+}
@@ -0,0 +1,58 @@
+/**
+ * ============================================================================
+ * MIGRATION VALIDATION - SARIF Export
+ * ============================================================================
+ *
+ * Converts validation diagnostics into a SARIF 2.1.0 log so GitHub code
+ * scanning (github/codeql-action/upload-sarif) can annotate pull requests.
+ */
+
+import { Diagnostic, Rule, ValidationResult } from './engine';
+
+const SARIF_SCHEMA = 'https://json.schemastore.org/sarif-2.1.0.json';
+
+/**
+ * Build a SARIF log for one validation run
+ */
+export function toSarif(result: ValidationResult, rules: Rule[]): object {
+    return {
+        $schema: SARIF_SCHEMA,
+        version: '2.1.0',
+        runs: [
+            {
+                tool: {
+                    driver: {
+                        name: 'validate-migration',
+                        rules: rules.map(rule => ({
+                            id: rule.id,
+                            shortDescription: { text: rule.description },
+                            defaultConfiguration: { level: rule.severity },
+                        })),
+                    },
+                },
+                artifacts: result.files.map(file => ({ location: { uri: file } })),
+                results: result.diagnostics.map(sarifResult),
+            },
+        ],
+    };
+}
+
+function sarifResult(diagnostic: Diagnostic): object {
+    const location = diagnostic.file
+        ? [
+              {
+                  physicalLocation: {
+                      artifactLocation: { uri: diagnostic.file },
+                      region: { startLine: diagnostic.line, startColumn: diagnostic.column },
+                  },
+              },
+          ]
+        : [];
+
+    return {
+        ruleId: diagnostic.ruleId,
+        level: diagnostic.severity,
+        message: { text: diagnostic.message },
+        locations: location,
+    };
+}
@@ -0,0 +1,60 @@
+/**
+ * ============================================================================
+ * CHUNKS - Resumable Upload Helpers
+ * ============================================================================
+ *
+ * PURPOSE:
+ * Runner-neutral helpers for the app-under-test's chunked upload protocol
+ * (/api/upload/init, /chunks/:index, /complete): split a file the way the
+ * server counts chunks and compute the CRC-32 checksums it verifies.
+ * Plain TypedArray code, so it runs in the Cypress browser and in Node.
+ *
+ * CHUNKS:
+ * ┌─────────────────────────────────────────────────────────────────────────┐
+ * │  size 600 KB, chunkSize 256 KB  ──►  [0] 256 KB  [1] 256 KB  [2] 88 KB  │
+ * │  every chunk  ──►  X-Chunk-Checksum: crc32(chunk), 8 lower-case hex     │
+ * └─────────────────────────────────────────────────────────────────────────┘
+ */
+
+/**
+ * Largest chunk the server accepts (and largest chunkSize): bigger bodies are a 413
+ */
+export const MAX_CHUNK_BYTES = 1024 * 1024;
+
+const CRC32_TABLE = Array.from({ length: 256 }, (_, n) => {
+    let c = n;
+    for (let k = 0; k < 8; k++) {
+        c = c & 1 ? 0xedb88320 ^ (c >>> 1) : c >>> 1;
+    }
+    return c >>> 0;
+});
+
+/**
+ * File contents as bytes (strings are UTF-8 encoded)
+ */
+export function toBytes(contents: string | Uint8Array): Uint8Array {
+    return typeof contents === 'string' ? new TextEncoder().encode(contents) : contents;
+}
+
+/**
+ * CRC-32 (IEEE) as 8 lower-case hex digits, the format of X-Chunk-Checksum
+ */
+export function crc32(contents: string | Uint8Array): string {
+    let crc = 0xffffffff;
+    for (const byte of toBytes(contents)) {
+        crc = CRC32_TABLE[(crc ^ byte) & 0xff] ^ (crc >>> 8);
+    }
+    return ((crc ^ 0xffffffff) >>> 0).toString(16).padStart(8, '0');
+}
+
+/**
+ * Split contents into the chunks the server expects for `chunkSize`
+ */
+export function splitChunks(contents: string | Uint8Array, chunkSize: number): Uint8Array[] {
+    const bytes = toBytes(contents);
+    const chunks: Uint8Array[] = [];
+    for (let offset = 0; offset < bytes.length; offset += chunkSize) {
+        chunks.push(bytes.subarray(offset, offset + chunkSize));
+    }
+    return chunks;
+}
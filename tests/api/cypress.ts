@@ -0,0 +1,127 @@
+/// <reference types="cypress" />
+/**
+ * ============================================================================
+ * API CLIENT - Cypress Transport
+ * ============================================================================
+ *
+ * Typed client over `cy.request`. Calls are queued like any other command
+ * and yield the response, so they chain with `.then()` / `.its()`.
+ * Multipart and binary uploads go through `fetch` from the spec window,
+ * since `cy.request` cannot send FormData or raw bytes.
+ *
+ * USAGE:
+ *   api.listProducts({ category: 'Electronics' }).its('body.total').should('eq', 2);
+ *   api.expectStatus(401).login(badCredentials).its('body.error').should('exist');
+ *   waitForTokenRejection(session.token);
+ */
+
+import {
+    bindEndpoints,
+    prepareCall,
+    withQuery,
+    type ApiClientOptions,
+    type ApiRequest,
+    type ApiResponse,
+    type EndpointArgs,
+    type EndpointError,
+    type EndpointOutput,
+    type Endpoints,
+} from './endpoints';
+
+type Methods<TBody extends 'declared' | 'error'> = {
+    [K in keyof Endpoints]: (
+        ...args: EndpointArgs<Endpoints[K]>
+    ) => Cypress.Chainable<ApiResponse<TBody extends 'error' ? EndpointError<Endpoints[K]> : EndpointOutput<Endpoints[K]>>>;
+};
+
+export type CypressApiClient = Methods<'declared'> & {
+    /** Same client, authenticated with a Bearer token */
+    withToken(token: string): CypressApiClient;
+    /** Same client expecting `status` from every call; bodies are error bodies */
+    expectStatus(status: number): Methods<'error'>;
+};
+
+export function createCypressClient(options: ApiClientOptions = {}): CypressApiClient {
+    const methods = bindEndpoints((name, input) => {
+        const call = prepareCall(name, input, options);
+        const headers: Record<string, string> = {
+            ...call.request.headers,
+            ...(options.token ? { Authorization: `Bearer ${options.token}` } : {}),
+        };
+        const url = withQuery(call.request.path, call.request.query);
+
+        const response: Cypress.Chainable<ApiResponse<unknown>> = call.request.multipart || call.request.binary
+            ? cy.wrap(null, { log: false }).then(() => fetchBody(url, call.request, headers))
+            : cy
+                  .request({
+                      method: call.request.method,
+                      url,
+                      headers,
+                      body: call.request.json as Cypress.RequestBody,
+                      failOnStatusCode: false,
+                  })
+                  .then(res => ({ status: res.status, headers: res.headers as Record<string, string>, body: res.body }));
+
+        return response.then(result => {
+            expect(result.status, `${call.label} status`).to.eq(call.status);
+            return result;
+        });
+    });
+
+    return {
+        ...(methods as unknown as Methods<'declared'>),
+        withToken: token => createCypressClient({ ...options, token }),
+        expectStatus: status => createCypressClient({ ...options, expectedStatus: status }) as unknown as Methods<'error'>,
+    };
+}
+
+/**
+ * Client without a token; log in first or use `api.withToken(token)`
+ */
+export const api = createCypressClient();
+
+/**
+ * Retry GET /api/auth/me until the server rejects `token`, e.g. once a
+ * tokenTtl shortened with api.configureAuth() has run out
+ */
+export function waitForTokenRejection(token: string, attempts = 50): void {
+    cy.request({ url: '/api/auth/me', headers: { Authorization: `Bearer ${token}` }, failOnStatusCode: false, log: false })
+        .then(({ status }) => {
+            if (status === 401) return;
+            if (attempts <= 1) throw new Error('Token still accepted by /api/auth/me');
+            cy.wait(100, { log: false });
+            waitForTokenRejection(token, attempts - 1);
+        });
+}
+
+function multipartBody(req: ApiRequest): FormData {
+    const form = new FormData();
+    Object.entries(req.multipart ?? {}).forEach(([field, value]) => {
+        if (typeof value === 'string') {
+            form.append(field, value);
+            return;
+        }
+        const contents = typeof value.contents === 'string' ? value.contents : new Uint8Array(value.contents);
+        form.append(field, new Blob([contents], { type: value.mimeType }), value.name);
+    });
+    return form;
+}
+
+async function fetchBody(url: string, req: ApiRequest, headers: Record<string, string>): Promise<ApiResponse<unknown>> {
+    const response = await fetch(`${Cypress.config('baseUrl') ?? ''}${url}`, {
+        method: req.method,
+        headers: req.binary ? { 'Content-Type': 'application/octet-stream', ...headers } : headers,
+        body: req.binary ? new Blob([new Uint8Array(req.binary)]) : multipartBody(req),
+        credentials: 'include',
+    });
+    const text = await response.text();
+    let body: unknown = text;
+    try {
+        body = JSON.parse(text);
+    } catch {
+        // Non-JSON body: keep the text
+    }
+    const responseHeaders: Record<string, string> = {};
+    response.headers.forEach((value, key) => (responseHeaders[key] = value));
+    return { status: response.status, headers: responseHeaders, body };
+}
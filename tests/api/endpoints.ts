@@ -0,0 +1,372 @@
+/**
+ * ============================================================================
+ * API CLIENT - Endpoint Table
+ * ============================================================================
+ *
+ * PURPOSE:
+ * Declares every app-under-test endpoint once: how to build the request and
+ * which status code a successful call returns. The transports turn this
+ * table into a typed client for their runner.
+ *
+ * FLOW:
+ * ┌─────────────────────────────────────────────────────────────────────────┐
+ * │  endpoints.login = { status: 200, request: creds => POST /api/... }     │
+ * │                    │                                                    │
+ * │        ┌───────────┴─────────────┐                                      │
+ * │        ▼                         ▼                                      │
+ * │  ./playwright.ts              ./cypress.ts                              │
+ * │  APIRequestContext.fetch      cy.request                                │
+ * │  await api.login(creds)       api.login(creds).then(...)                │
+ * └─────────────────────────────────────────────────────────────────────────┘
+ *
+ * Each call asserts the declared status. Use `api.expectStatus(401)` for
+ * negative tests; its responses are typed as ApiError (GraphQLResponse for
+ * graphql).
+ */
+
+import type {
+    ApiError,
+    AppState,
+    AuthConfig,
+    ChunkedUploadError,
+    ChunkedUploadRequest,
+    ChunkedUploadStatus,
+    CompleteUploadRequest,
+    CreateOrderRequest,
+    CreateOrderResponse,
+    DeleteUploadResponse,
+    EchoResponse,
+    ExportFormat,
+    FaultRuleRequest,
+    FaultRuleResponse,
+    FaultRulesResponse,
+    GraphQLRequest,
+    GraphQLResponse,
+    LoginRequest,
+    LoginResponse,
+    MeResponse,
+    MessageResponse,
+    OrderTransitionError,
+    OrderTransitionResponse,
+    OrdersResponse,
+    ProductFilters,
+    ProductResponse,
+    ProductsResponse,
+    RefreshRequest,
+    SeedData,
+    SlowResponse,
+    SweepUploadsRequest,
+    SweepUploadsResponse,
+    TimeResponse,
+    TokenResponse,
+    UploadChunkRequest,
+    UploadChunkResponse,
+    UploadFile,
+    UploadResponse,
+    UploadedFileResponse,
+    UploadedFilesResponse,
+    UsersResponse,
+} from './types';
+import { crc32 } from './chunks';
+
+// ============================================================================
+// TYPES
+// ============================================================================
+
+export type HttpMethod = 'GET' | 'POST' | 'PUT' | 'PATCH' | 'DELETE';
+
+export type QueryParams = Record<string, string | number | boolean | undefined>;
+
+/**
+ * Transport-neutral description of one HTTP call
+ */
+export interface ApiRequest {
+    method: HttpMethod;
+    /** Path below the base URL, e.g. `/api/products/1` */
+    path: string;
+    query?: QueryParams;
+    /** JSON body */
+    json?: unknown;
+    /** multipart/form-data body */
+    multipart?: Record<string, UploadFile | string>;
+    /** application/octet-stream body */
+    binary?: Uint8Array;
+    /** Extra request headers */
+    headers?: Record<string, string>;
+    /** How to read the response body, JSON by default */
+    responseType?: 'json' | 'text';
+}
+
+export interface ApiResponse<T> {
+    status: number;
+    /** Lower-cased header names */
+    headers: Record<string, string>;
+    body: T;
+}
+
+export interface Endpoint<I, O, TError = ApiError> {
+    /** Status code of a successful call */
+    status: number | ((input: I) => number);
+    request(input: I): ApiRequest;
+    /** Type-only marker for the response body */
+    readonly response?: O;
+    /** Type-only marker for the body of an `expectStatus(...)` call */
+    readonly errorResponse?: TError;
+}
+
+export type EndpointInput<E> = E extends Endpoint<infer I, unknown, unknown> ? I : never;
+export type EndpointOutput<E> = E extends Endpoint<never, infer O, unknown> ? O : never;
+export type EndpointError<E> = E extends Endpoint<never, unknown, infer TError> ? TError : never;
+
+/**
+ * Client method parameters: the input is optional when the endpoint takes none
+ */
+export type EndpointArgs<E> = undefined extends EndpointInput<E> ? [input?: EndpointInput<E>] : [input: EndpointInput<E>];
+
+const endpoint = <I, O, TError = ApiError>(spec: Endpoint<I, O, TError>): Endpoint<I, O, TError> => spec;
+
+// ============================================================================
+// ENDPOINTS
+// ============================================================================
+
+export const endpoints = {
+    // Auth
+    login: endpoint<LoginRequest, LoginResponse>({
+        status: 200,
+        request: json => ({ method: 'POST', path: '/api/auth/login', json }),
+    }),
+    logout: endpoint<RefreshRequest | undefined, MessageResponse>({
+        status: 200,
+        request: (json = {}) => ({ method: 'POST', path: '/api/auth/logout', json }),
+    }),
+    me: endpoint<void, MeResponse>({
+        status: 200,
+        request: () => ({ method: 'GET', path: '/api/auth/me' }),
+    }),
+    refresh: endpoint<RefreshRequest | undefined, TokenResponse>({
+        status: 200,
+        request: (json = {}) => ({ method: 'POST', path: '/api/auth/refresh', json }),
+    }),
+    listUsers: endpoint<void, UsersResponse>({
+        status: 200,
+        request: () => ({ method: 'GET', path: '/api/users' }),
+    }),
+
+    // Products
+    listProducts: endpoint<ProductFilters | undefined, ProductsResponse>({
+        status: 200,
+        request: (filters = {}) => ({ method: 'GET', path: '/api/products', query: { ...filters } }),
+    }),
+    getProduct: endpoint<number, ProductResponse>({
+        status: 200,
+        request: id => ({ method: 'GET', path: `/api/products/${id}` }),
+    }),
+
+    // Orders (authenticated)
+    listOrders: endpoint<void, OrdersResponse>({
+        status: 200,
+        request: () => ({ method: 'GET', path: '/api/orders' }),
+    }),
+    createOrder: endpoint<CreateOrderRequest, CreateOrderResponse>({
+        status: 201,
+        request: json => ({ method: 'POST', path: '/api/orders', json }),
+    }),
+    /** Order lifecycle transitions by order id; 409 when not allowed from the current status */
+    payOrder: endpoint<number, OrderTransitionResponse, OrderTransitionError>({
+        status: 200,
+        request: id => ({ method: 'POST', path: `/api/orders/${id}/pay` }),
+    }),
+    /** Admin only (403 otherwise), for any user's order */
+    shipOrder: endpoint<number, OrderTransitionResponse, OrderTransitionError>({
+        status: 200,
+        request: id => ({ method: 'POST', path: `/api/orders/${id}/ship` }),
+    }),
+    /** Admin only (403 otherwise), for any user's order */
+    deliverOrder: endpoint<number, OrderTransitionResponse, OrderTransitionError>({
+        status: 200,
+        request: id => ({ method: 'POST', path: `/api/orders/${id}/deliver` }),
+    }),
+    cancelOrder: endpoint<number, OrderTransitionResponse, OrderTransitionError>({
+        status: 200,
+        request: id => ({ method: 'POST', path: `/api/orders/${id}/cancel` }),
+    }),
+    /** orders.csv or orders.pdf as text; parse it with tests/api/exports.ts */
+    exportOrders: endpoint<ExportFormat | undefined, string>({
+        status: 200,
+        request: format => ({ method: 'GET', path: '/api/orders/export', query: { format }, responseType: 'text' }),
+    }),
+
+    // Files
+    upload: endpoint<UploadFile, UploadResponse>({
+        status: 200,
+        request: file => ({ method: 'POST', path: '/api/upload', multipart: { file } }),
+    }),
+    download: endpoint<string, string>({
+        status: 200,
+        request: filename => ({
+            method: 'GET',
+            path: `/api/download/${encodeURIComponent(filename)}`,
+            responseType: 'text',
+        }),
+    }),
+
+    // Uploaded files, by the id /api/upload returns
+    listUploads: endpoint<void, UploadedFilesResponse>({
+        status: 200,
+        request: () => ({ method: 'GET', path: '/api/uploads' }),
+    }),
+    getUpload: endpoint<string, UploadedFileResponse>({
+        status: 200,
+        request: id => ({ method: 'GET', path: `/api/uploads/${id}` }),
+    }),
+    downloadUpload: endpoint<string, string>({
+        status: 200,
+        request: id => ({ method: 'GET', path: `/api/uploads/${id}/download`, responseType: 'text' }),
+    }),
+    deleteUpload: endpoint<string, DeleteUploadResponse>({
+        status: 200,
+        request: id => ({ method: 'DELETE', path: `/api/uploads/${id}` }),
+    }),
+
+    // Resumable uploads: init, chunks, status, complete or cancel
+    initUpload: endpoint<ChunkedUploadRequest, ChunkedUploadStatus>({
+        status: 201,
+        request: json => ({ method: 'POST', path: '/api/upload/init', json }),
+    }),
+    uploadChunk: endpoint<UploadChunkRequest, UploadChunkResponse, ChunkedUploadError>({
+        status: 200,
+        request: ({ uploadId, index, data, checksum = crc32(data) }) => ({
+            method: 'PUT',
+            path: `/api/upload/${uploadId}/chunks/${index}`,
+            binary: data,
+            headers: { 'X-Chunk-Checksum': checksum },
+        }),
+    }),
+    uploadStatus: endpoint<string, ChunkedUploadStatus>({
+        status: 200,
+        request: uploadId => ({ method: 'GET', path: `/api/upload/${uploadId}` }),
+    }),
+    completeUpload: endpoint<CompleteUploadRequest, UploadResponse, ChunkedUploadError>({
+        status: 200,
+        request: ({ uploadId, checksum }) => ({ method: 'POST', path: `/api/upload/${uploadId}/complete`, json: { checksum } }),
+    }),
+    cancelUpload: endpoint<string, MessageResponse>({
+        status: 200,
+        request: uploadId => ({ method: 'DELETE', path: `/api/upload/${uploadId}` }),
+    }),
+
+    // Utility
+    time: endpoint<void, TimeResponse>({
+        status: 200,
+        request: () => ({ method: 'GET', path: '/api/time' }),
+    }),
+    echo: endpoint<unknown, EchoResponse>({
+        status: 200,
+        request: json => ({ method: 'POST', path: '/api/echo', json }),
+    }),
+    slowResponse: endpoint<number | undefined, SlowResponse>({
+        status: 200,
+        request: delay => ({ method: 'GET', path: '/api/slow-response', query: { delay } }),
+    }),
+    /** Responds with the requested status code */
+    error: endpoint<number, ApiError>({
+        status: code => code,
+        request: code => ({ method: 'GET', path: `/api/error/${code}` }),
+    }),
+
+    // Test control: only served when the app runs with TEST_API=true
+    resetApp: endpoint<void, AppState>({
+        status: 200,
+        request: () => ({ method: 'POST', path: '/__test__/reset' }),
+    }),
+    seedApp: endpoint<SeedData, AppState>({
+        status: 200,
+        request: json => ({ method: 'POST', path: '/__test__/seed', json }),
+    }),
+    appState: endpoint<void, AppState>({
+        status: 200,
+        request: () => ({ method: 'GET', path: '/__test__/state' }),
+    }),
+    configureAuth: endpoint<Partial<AuthConfig>, AuthConfig>({
+        status: 200,
+        request: json => ({ method: 'POST', path: '/__test__/auth-config', json }),
+    }),
+    sweepUploads: endpoint<SweepUploadsRequest | undefined, SweepUploadsResponse>({
+        status: 200,
+        request: (json = {}) => ({ method: 'POST', path: '/__test__/sweep-uploads', json }),
+    }),
+    addFault: endpoint<FaultRuleRequest, FaultRuleResponse>({
+        status: 201,
+        request: json => ({ method: 'POST', path: '/__test__/faults', json }),
+    }),
+    listFaults: endpoint<void, FaultRulesResponse>({
+        status: 200,
+        request: () => ({ method: 'GET', path: '/__test__/faults' }),
+    }),
+    clearFaults: endpoint<void, FaultRulesResponse>({
+        status: 200,
+        request: () => ({ method: 'DELETE', path: '/__test__/faults' }),
+    }),
+
+    // GraphQL: resolver errors come back with status 200 in `errors`;
+    // syntax and validation errors with status 400 and no `data`
+    graphql: endpoint<GraphQLRequest, GraphQLResponse, GraphQLResponse>({
+        status: 200,
+        request: json => ({ method: 'POST', path: '/api/graphql', json }),
+    }),
+};
+
+export type Endpoints = typeof endpoints;
+export type EndpointName = keyof Endpoints;
+
+// ============================================================================
+// HELPERS
+// ============================================================================
+
+/**
+ * Options shared by both transports
+ */
+export interface ApiClientOptions {
+    /** Sent as `Authorization: Bearer <token>` */
+    token?: string;
+    /** Overrides the status every endpoint expects (negative tests) */
+    expectedStatus?: number;
+}
+
+/**
+ * Build the request for one call and the status it must return
+ */
+export function prepareCall(
+    name: EndpointName,
+    input: unknown,
+    options: ApiClientOptions
+): { request: ApiRequest; status: number; label: string } {
+    const { status, request } = endpoints[name] as Endpoint<unknown, unknown, unknown>;
+    const built = request(input);
+    return {
+        request: built,
+        status: options.expectedStatus ?? (typeof status === 'function' ? status(input) : status),
+        label: `${built.method} ${built.path}`,
+    };
+}
+
+/**
+ * `path?a=1&b=2`, skipping undefined query values
+ */
+export function withQuery(path: string, query: QueryParams = {}): string {
+    const params = Object.entries(query)
+        .filter(([, value]) => value !== undefined)
+        .map(([key, value]) => `${encodeURIComponent(key)}=${encodeURIComponent(String(value))}`);
+    return params.length > 0 ? `${path}?${params.join('&')}` : path;
+}
+
+/**
+ * One client method per endpoint, each delegating to `call`
+ */
+export function bindEndpoints<R>(call: (name: EndpointName, input: unknown) => R): Record<EndpointName, (input?: unknown) => R> {
+    const client = {} as Record<EndpointName, (input?: unknown) => R>;
+    (Object.keys(endpoints) as EndpointName[]).forEach(name => {
+        client[name] = (input?: unknown) => call(name, input);
+    });
+    return client;
+}
@@ -0,0 +1,135 @@
+/**
+ * ============================================================================
+ * EXPORTS - CSV and PDF Download Parsing
+ * ============================================================================
+ *
+ * PURPOSE:
+ * Runner-neutral helpers for file-content assertions: parse a downloaded CSV
+ * into records, pull the text lines out of a PDF, and build the rows and
+ * lines /api/orders/export writes for an order from /api/orders.
+ * Used by `cy.readCsvDownload` / `cy.readPdfDownload`
+ * (cypress/support/commands.ts) and `readCsvDownload` / `readPdfDownload`
+ * (playwright/fixtures/downloads.fixture.ts).
+ *
+ * FLOW:
+ * ┌─────────────────────────────────────────────────────────────────────────┐
+ * │  orders.csv  ──►  parseCsvRecords()  ──►  [{ id: '1', status, ... }]    │
+ * │  orders.pdf  ──►  pdfText()          ──►  ['Orders Export', ...]        │
+ * │  api.listOrders()  ──►  orderCsvRecord() / orderPdfLine()  ──►  expect  │
+ * └─────────────────────────────────────────────────────────────────────────┘
+ *
+ * pdfText() reads uncompressed text operators only, which is what the
+ * app-under-test writes; it is not a general PDF parser.
+ */
+
+import type { Order } from './types';
+
+export type CsvRecord = Record<string, string>;
+
+// ============================================================================
+// CSV
+// ============================================================================
+
+/**
+ * Rows of a CSV document (RFC 4180: quoted fields, "" escapes, CRLF or LF)
+ */
+export function parseCsv(text: string): string[][] {
+    const rows: string[][] = [];
+    let row: string[] = [];
+    let field = '';
+    let quoted = false;
+
+    for (let i = 0; i < text.length; i++) {
+        const char = text[i];
+        if (quoted) {
+            if (char === '"' && text[i + 1] === '"') {
+                field += '"';
+                i++;
+            } else if (char === '"') {
+                quoted = false;
+            } else {
+                field += char;
+            }
+        } else if (char === '"') {
+            quoted = true;
+        } else if (char === ',') {
+            row.push(field);
+            field = '';
+        } else if (char === '\n' || char === '\r') {
+            if (char === '\r' && text[i + 1] === '\n') i++;
+            row.push(field);
+            rows.push(row);
+            row = [];
+            field = '';
+        } else {
+            field += char;
+        }
+    }
+    if (field !== '' || row.length > 0) {
+        row.push(field);
+        rows.push(row);
+    }
+    return rows;
+}
+
+/**
+ * Data rows of a CSV document keyed by the header row
+ */
+export function parseCsvRecords(text: string): CsvRecord[] {
+    const [header = [], ...rows] = parseCsv(text);
+    return rows.map(row => Object.fromEntries(header.map((column, i) => [column, row[i] ?? ''])));
+}
+
+// ============================================================================
+// PDF
+// ============================================================================
+
+const PDF_ESCAPES: Record<string, string> = { n: '\n', r: '\r', t: '\t', b: '\b', f: '\f' };
+
+/**
+ * Text lines of a PDF: one entry per string shown with Tj or '
+ * @param contents - File contents; strings are read as Latin-1 (cy.readFile(..., 'binary'))
+ */
+export function pdfText(contents: string | Uint8Array): string[] {
+    const source = typeof contents === 'string' ? contents : Array.from(contents, byte => String.fromCharCode(byte)).join('');
+    const lines: string[] = [];
+
+    for (const [, stream] of source.matchAll(/stream\r?\n([\s\S]*?)\r?\nendstream/g)) {
+        for (const [, literal] of stream.matchAll(/\(((?:\\[\s\S]|[^\\)])*)\)\s*(?:Tj|')/g)) {
+            lines.push(literal.replace(/\\([0-7]{1,3}|[\s\S])/g, (_, escape: string) =>
+                /^[0-7]/.test(escape) ? String.fromCharCode(parseInt(escape, 8)) : PDF_ESCAPES[escape] ?? escape));
+        }
+    }
+    return lines;
+}
+
+// ============================================================================
+// ORDER EXPORTS
+// ============================================================================
+
+/**
+ * Items column of the export, e.g. "Laptop x1; Mouse x2"
+ */
+export function orderItemsSummary(order: Order): string {
+    return order.items.map(item => `${item.name} x${item.quantity}`).join('; ');
+}
+
+/**
+ * The orders.csv record for an order from /api/orders
+ */
+export function orderCsvRecord(order: Order): CsvRecord {
+    return {
+        id: String(order.id),
+        createdAt: order.createdAt,
+        status: order.status,
+        items: orderItemsSummary(order),
+        total: order.total.toFixed(2),
+    };
+}
+
+/**
+ * The orders.pdf line for an order from /api/orders
+ */
+export function orderPdfLine(order: Order): string {
+    return `Order #${order.id} | ${order.status} | ${orderItemsSummary(order)} | $${order.total.toFixed(2)}`;
+}
@@ -0,0 +1,37 @@
+/**
+ * ============================================================================
+ * FAULTS - x-fault Header Encoding
+ * ============================================================================
+ *
+ * PURPOSE:
+ * Runner-neutral part of the withFault() helpers: turn a Fault into the
+ * `x-fault` header the app-under-test's fault middleware reads (TEST_API=true).
+ * Used by `withFault` (playwright/fixtures/fault.fixture.ts) and
+ * `cy.withFault` (cypress/support/commands.ts), which add the header to the
+ * page's own requests, so a fault never leaks into other tests or workers.
+ *
+ * HEADER:
+ * ┌─────────────────────────────────────────────────────────────────────────┐
+ * │  { type: 'status', status: 503 }              ──►  status=503           │
+ * │  { type: 'latency', delay: 2000 }             ──►  latency=2000         │
+ * │  { type: 'drop', probability: 0.5 }           ──►  drop; probability=0.5│
+ * └─────────────────────────────────────────────────────────────────────────┘
+ *
+ * `count` has no header form: the helpers stop adding the header after
+ * `count` requests. Server-side rules (api.addFault) count on the server.
+ */
+
+import type { Fault } from './types';
+
+export const FAULT_HEADER = 'x-fault';
+
+/**
+ * `x-fault` header value for a fault
+ */
+export function faultHeader(fault: Fault): string {
+    let value: string = fault.type;
+    if (fault.type === 'latency' && fault.delay !== undefined) value += `=${fault.delay}`;
+    if (fault.type === 'status' && fault.status !== undefined) value += `=${fault.status}`;
+    if (fault.probability !== undefined) value += `; probability=${fault.probability}`;
+    return value;
+}
@@ -0,0 +1,126 @@
+/**
+ * ============================================================================
+ * GRAPHQL MOCKS - Operation-Aware Responses
+ * ============================================================================
+ *
+ * PURPOSE:
+ * Runner-neutral part of the GraphQL mocking helpers: find the operation a
+ * request runs and build the response its mock describes. Used by
+ * `mockGraphQL` (playwright/fixtures/graphql.fixture.ts) and
+ * `cy.interceptGql` (cypress/support/commands.ts).
+ *
+ * FLOW:
+ * ┌─────────────────────────────────────────────────────────────────────────┐
+ * │  POST /api/graphql { query, variables, operationName }                  │
+ * │        │                                                                │
+ * │        ▼  operationName, else the name of the only operation in query   │
+ * │  mocks.GetProducts ?                                                    │
+ * │        ├── data              ──►  200 { data }                          │
+ * │        ├── (variables) => ..  ──►  200 { data: fn(variables) }          │
+ * │        ├── graphqlErrors(...) ──►  status { data?, errors }             │
+ * │        └── not mocked        ──►  passthrough to the server             │
+ * └─────────────────────────────────────────────────────────────────────────┘
+ */
+
+import { Kind, parse, type OperationDefinitionNode } from 'graphql';
+import type { GraphQLError, GraphQLRequest, GraphQLResponse } from './types';
+
+// ============================================================================
+// TYPES
+// ============================================================================
+
+/**
+ * A response other than plain `{ data }`, built by graphqlErrors()
+ */
+export class GraphQLMockResponse {
+    constructor(
+        readonly body: GraphQLResponse<unknown>,
+        readonly status = 200
+    ) {}
+}
+
+/**
+ * Mock for one operation: its `data`, a function of the variables, or an
+ * error payload from graphqlErrors()
+ */
+export type GraphQLMock<TData = unknown, TVariables = Record<string, unknown>> =
+    | TData
+    | GraphQLMockResponse
+    | ((variables: TVariables) => TData | GraphQLMockResponse);
+
+/**
+ * Mocks keyed by operation name, e.g. `{ GetProducts: { products: [] } }`
+ */
+export type GraphQLMocks = Record<string, GraphQLMock>;
+
+/**
+ * One GraphQL request seen by the mocking helpers
+ */
+export interface GraphQLCall {
+    /** Undefined for anonymous operations */
+    operationName: string | undefined;
+    query: string;
+    variables: Record<string, unknown>;
+    /** False when the request went through to the server */
+    mocked: boolean;
+}
+
+// ============================================================================
+// HELPERS
+// ============================================================================
+
+/**
+ * Error payload for a mock; `data` defaults to null and `status` to 200
+ *
+ * graphqlErrors('Product not found')
+ * graphqlErrors({ message: 'Denied', extensions: { code: 'FORBIDDEN' } })
+ * graphqlErrors('Syntax Error', { status: 400, data: undefined })
+ */
+export function graphqlErrors(
+    errors: string | GraphQLError | Array<string | GraphQLError>,
+    options: { data?: unknown; status?: number } = {}
+): GraphQLMockResponse {
+    const list = (Array.isArray(errors) ? errors : [errors]).map(error =>
+        typeof error === 'string' ? { message: error } : error
+    );
+    const data = 'data' in options ? options.data : null;
+    const body: GraphQLResponse<unknown> = data === undefined ? { errors: list } : { data, errors: list };
+    return new GraphQLMockResponse(body, options.status);
+}
+
+/**
+ * The request's operationName, else the name of its only operation
+ */
+export function operationNameOf(request: Partial<GraphQLRequest>): string | undefined {
+    if (request.operationName) return request.operationName;
+    if (typeof request.query !== 'string') return undefined;
+    try {
+        const operations = parse(request.query).definitions.filter(
+            (definition): definition is OperationDefinitionNode => definition.kind === Kind.OPERATION_DEFINITION
+        );
+        return operations.length === 1 ? operations[0].name?.value : undefined;
+    } catch {
+        // Not valid GraphQL: let the server report it
+        return undefined;
+    }
+}
+
+/**
+ * The call a request body describes and the mocked response, if any
+ */
+export function resolveGraphQLMock(
+    mocks: GraphQLMocks,
+    body: Partial<GraphQLRequest> | undefined
+): { call: GraphQLCall; response?: GraphQLMockResponse } {
+    const operationName = operationNameOf(body ?? {});
+    const variables = body?.variables ?? {};
+    const mock = operationName !== undefined && Object.prototype.hasOwnProperty.call(mocks, operationName)
+        ? mocks[operationName]
+        : undefined;
+    const call: GraphQLCall = { operationName, query: body?.query ?? '', variables, mocked: mock !== undefined };
+    if (mock === undefined) return { call };
+
+    const result = typeof mock === 'function' ? (mock as (variables: Record<string, unknown>) => unknown)(variables) : mock;
+    const response = result instanceof GraphQLMockResponse ? result : new GraphQLMockResponse({ data: result });
+    return { call, response };
+}
@@ -0,0 +1,123 @@
+// Generated by scripts/migration/graphql-to-types.ts from app-under-test/schema.graphql
+// Do not edit by hand: update the schema and run `npm run migrate:graphql`.
+
+export interface CreateOrderPayload {
+    order: Order;
+    success: boolean;
+    message: string;
+}
+
+export interface Mutation {
+    /** Requires a Bearer token */
+    createOrder: CreateOrderPayload | null;
+    /** pending -> paid; requires a Bearer token */
+    payOrder: OrderTransitionPayload | null;
+    /** paid -> shipped, any user's order; requires an admin Bearer token */
+    shipOrder: OrderTransitionPayload | null;
+    /** shipped -> delivered, any user's order; requires an admin Bearer token */
+    deliverOrder: OrderTransitionPayload | null;
+    /** pending -> cancelled; requires a Bearer token */
+    cancelOrder: OrderTransitionPayload | null;
+    /** Requires an admin Bearer token */
+    updateProduct: UpdateProductPayload | null;
+}
+
+export interface Order {
+    id: number;
+    userId: number;
+    items: OrderItem[];
+    total: number;
+    status: string;
+    createdAt: string;
+}
+
+export interface OrderItem {
+    productId: number;
+    name: string;
+    price: number;
+    quantity: number;
+}
+
+export interface OrderItemInput {
+    productId: number;
+    /** Defaults to 1 */
+    quantity?: number | null;
+}
+
+export interface OrderTransitionPayload {
+    order: Order;
+    success: boolean;
+    message: string;
+}
+
+export interface Product {
+    id: number;
+    name: string;
+    price: number;
+    category: string;
+    inStock: boolean;
+}
+
+export interface ProductInput {
+    name?: string | null;
+    price?: number | null;
+    inStock?: boolean | null;
+}
+
+export interface Query {
+    /** Products, optionally filtered by category (default limit 10) */
+    products: Product[];
+    product: Product | null;
+    /** Current user; requires a Bearer token */
+    user: User | null;
+    /** Alias of user */
+    me: User | null;
+    /** Orders of the current user; requires a Bearer token */
+    orders: Order[] | null;
+}
+
+export interface UpdateProductPayload {
+    product: Product;
+    success: boolean;
+}
+
+export interface User {
+    id: number;
+    email: string;
+    name: string;
+    role: string;
+}
+
+export interface QueryProductsArgs {
+    limit?: number | null;
+    category?: string | null;
+}
+
+export interface QueryProductArgs {
+    id: number;
+}
+
+export interface MutationCreateOrderArgs {
+    items: OrderItemInput[];
+}
+
+export interface MutationPayOrderArgs {
+    id: number;
+}
+
+export interface MutationShipOrderArgs {
+    id: number;
+}
+
+export interface MutationDeliverOrderArgs {
+    id: number;
+}
+
+export interface MutationCancelOrderArgs {
+    id: number;
+}
+
+export interface MutationUpdateProductArgs {
+    id: number;
+    input: ProductInput;
+}
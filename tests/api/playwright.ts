@@ -0,0 +1,96 @@
+/**
+ * ============================================================================
+ * API CLIENT - Playwright Transport
+ * ============================================================================
+ *
+ * Typed client over `APIRequestContext`. Relative paths resolve against the
+ * context's baseURL, and cookies set by `login()` are reused by later calls.
+ *
+ * USAGE:
+ *   const api = createPlaywrightClient(request);
+ *   const { body } = await api.listProducts({ category: 'Electronics' });
+ *   const { body: error } = await api.expectStatus(401).login(badCredentials);
+ */
+
+import { expect, type APIRequestContext, type APIResponse } from '@playwright/test';
+import {
+    bindEndpoints,
+    prepareCall,
+    withQuery,
+    type ApiClientOptions,
+    type ApiRequest,
+    type ApiResponse,
+    type EndpointArgs,
+    type EndpointError,
+    type EndpointOutput,
+    type Endpoints,
+} from './endpoints';
+
+type Methods<TBody extends 'declared' | 'error'> = {
+    [K in keyof Endpoints]: (
+        ...args: EndpointArgs<Endpoints[K]>
+    ) => Promise<ApiResponse<TBody extends 'error' ? EndpointError<Endpoints[K]> : EndpointOutput<Endpoints[K]>>>;
+};
+
+export type PlaywrightApiClient = Methods<'declared'> & {
+    /** Same client, authenticated with a Bearer token */
+    withToken(token: string): PlaywrightApiClient;
+    /** Same client expecting `status` from every call; bodies are error bodies */
+    expectStatus(status: number): Methods<'error'>;
+};
+
+export function createPlaywrightClient(request: APIRequestContext, options: ApiClientOptions = {}): PlaywrightApiClient {
+    const methods = bindEndpoints(async (name, input) => {
+        const call = prepareCall(name, input, options);
+        const response = await request.fetch(withQuery(call.request.path, call.request.query), {
+            method: call.request.method,
+            headers: {
+                ...call.request.headers,
+                ...(options.token ? { Authorization: `Bearer ${options.token}` } : {}),
+            },
+            ...body(call.request),
+        });
+        const result = await toApiResponse(response, call.request);
+        expect(result.status, `${call.label} status (body: ${JSON.stringify(result.body)})`).toBe(call.status);
+        return result;
+    });
+
+    return {
+        ...(methods as unknown as Methods<'declared'>),
+        withToken: token => createPlaywrightClient(request, { ...options, token }),
+        expectStatus: status => createPlaywrightClient(request, { ...options, expectedStatus: status }) as unknown as Methods<'error'>,
+    };
+}
+
+type MultipartValue = string | { name: string; mimeType: string; buffer: Buffer };
+
+function body(req: ApiRequest): { data?: unknown; multipart?: Record<string, MultipartValue> } {
+    if (req.multipart) {
+        const multipart: Record<string, MultipartValue> = {};
+        Object.entries(req.multipart).forEach(([field, value]) => {
+            multipart[field] =
+                typeof value === 'string'
+                    ? value
+                    : { name: value.name, mimeType: value.mimeType, buffer: Buffer.from(value.contents) };
+        });
+        return { multipart };
+    }
+    if (req.binary) {
+        // Buffers are sent as application/octet-stream
+        return { data: Buffer.from(req.binary) };
+    }
+    return req.json === undefined ? {} : { data: req.json };
+}
+
+async function toApiResponse(response: APIResponse, req: ApiRequest): Promise<ApiResponse<unknown>> {
+    const text = await response.text();
+    let parsed: unknown = text;
+    if (req.responseType !== 'text' || !response.ok()) {
+        try {
+            parsed = JSON.parse(text);
+        } catch {
+            // Non-JSON body (e.g. an HTML error page): keep the text
+        }
+    }
+    return { status: response.status(), headers: response.headers(), body: parsed };
+}
@@ -0,0 +1,49 @@
+/**
+ * ============================================================================
+ * TOKENS - Access Token Payloads
+ * ============================================================================
+ *
+ * PURPOSE:
+ * Runner-neutral helpers to read and tamper with the app-under-test's signed
+ * access tokens, so security specs can check that the server rejects them.
+ * Uses atob/btoa only, which both the Cypress browser and Node provide.
+ *
+ * FORMAT:
+ * ┌─────────────────────────────────────────────────────────────────────────┐
+ * │  base64url(JSON { sid, id, email, exp })  .  base64url(HMAC-SHA256)     │
+ * │  └──────────── payload ────────────────┘     └──── signature ────┘      │
+ * └─────────────────────────────────────────────────────────────────────────┘
+ */
+
+export interface TokenPayload {
+    /** Server-side session id; logout revokes it */
+    sid: string;
+    id: number;
+    email: string;
+    /** Expiry as epoch ms */
+    exp: number;
+}
+
+function toBase64Url(text: string): string {
+    return btoa(text).replace(/\+/g, '-').replace(/\//g, '_').replace(/=+$/, '');
+}
+
+function fromBase64Url(value: string): string {
+    const base64 = value.replace(/-/g, '+').replace(/_/g, '/');
+    return atob(base64.padEnd(Math.ceil(base64.length / 4) * 4, '='));
+}
+
+/**
+ * Payload of an access token (the signature is not checked)
+ */
+export function decodeToken(token: string): TokenPayload {
+    return JSON.parse(fromBase64Url(token.split('.')[0]));
+}
+
+/**
+ * Same token with payload fields changed and the original signature kept
+ */
+export function tamperToken(token: string, changes: Partial<TokenPayload>): string {
+    const [, signature] = token.split('.');
+    return `${toBase64Url(JSON.stringify({ ...decodeToken(token), ...changes }))}.${signature}`;
+}
@@ -0,0 +1,408 @@
+/**
+ * ============================================================================
+ * API CLIENT - Request / Response Types
+ * ============================================================================
+ *
+ * Shapes of the app-under-test REST and GraphQL payloads (see
+ * app-under-test/server.js). Shared by the Playwright and Cypress transports.
+ */
+
+// ============================================================================
+// COMMON
+// ============================================================================
+
+/**
+ * Body of every 4xx/5xx REST response
+ */
+export interface ApiError {
+    error: string;
+    code?: number;
+}
+
+export type UserRole = 'user' | 'admin';
+
+export interface User {
+    id: number;
+    email: string;
+    name: string;
+    role: UserRole;
+}
+
+// ============================================================================
+// AUTH
+// ============================================================================
+
+export interface LoginRequest {
+    email: string;
+    password: string;
+}
+
+/**
+ * Signed access token plus the refresh token of its session
+ */
+export interface TokenResponse {
+    token: string;
+    /** Single use: each refresh returns a new one */
+    refreshToken: string;
+    /** Access token lifetime in ms */
+    expiresIn: number;
+}
+
+export interface LoginResponse extends TokenResponse {
+    user: User;
+    message: string;
+}
+
+/**
+ * Body of /api/auth/refresh and /api/auth/logout
+ */
+export interface RefreshRequest {
+    /** Defaults to the refreshToken cookie */
+    refreshToken?: string;
+}
+
+export interface MessageResponse {
+    message: string;
+}
+
+export interface MeResponse {
+    user: User;
+}
+
+export interface UsersResponse {
+    users: User[];
+}
+
+// ============================================================================
+// PRODUCTS
+// ============================================================================
+
+export interface Product {
+    id: number;
+    name: string;
+    price: number;
+    category: string;
+    inStock: boolean;
+}
+
+export interface ProductFilters {
+    category?: string;
+    inStock?: boolean;
+    minPrice?: number;
+    maxPrice?: number;
+}
+
+export interface ProductsResponse {
+    products: Product[];
+    total: number;
+}
+
+export interface ProductResponse {
+    product: Product;
+}
+
+// ============================================================================
+// ORDERS
+// ============================================================================
+
+export interface OrderItemInput {
+    productId: number;
+    /** Defaults to 1 */
+    quantity?: number;
+}
+
+export interface CreateOrderRequest {
+    items: OrderItemInput[];
+}
+
+export interface OrderItem {
+    productId: number;
+    name: string;
+    price: number;
+    quantity: number;
+}
+
+/** Order lifecycle: pending → paid → shipped → delivered, or pending → cancelled */
+export type OrderStatus = 'pending' | 'paid' | 'shipped' | 'delivered' | 'cancelled';
+
+/** POST /api/orders/:id/<action>, one per transition */
+export type OrderAction = 'pay' | 'ship' | 'deliver' | 'cancel';
+
+export interface Order {
+    id: number;
+    userId: number;
+    items: OrderItem[];
+    total: number;
+    /** An OrderStatus; seeded orders may carry any string */
+    status: string;
+    createdAt: string;
+}
+
+export interface OrdersResponse {
+    orders: Order[];
+}
+
+export interface CreateOrderResponse {
+    order: Order;
+    message: string;
+}
+
+export interface OrderTransitionResponse {
+    order: Order;
+    /** e.g. "Order #1 paid" */
+    message: string;
+}
+
+/** Error body of the transition calls */
+export interface OrderTransitionError extends ApiError {
+    /** 409: the order's current status */
+    status?: string;
+    /** 409: actions allowed from that status */
+    allowedActions?: OrderAction[];
+}
+
+/** /api/orders/export format */
+export type ExportFormat = 'csv' | 'pdf';
+
+// ============================================================================
+// FILES
+// ============================================================================
+
+export interface UploadFile {
+    name: string;
+    mimeType: string;
+    contents: string | Uint8Array;
+}
+
+export interface UploadedFile {
+    /** Stable id for the /api/uploads endpoints */
+    id: string;
+    /** Stored name, used by download() */
+    filename: string;
+    originalName: string;
+    size: number;
+    mimetype: string;
+    /** ISO timestamp */
+    uploadedAt: string;
+}
+
+export interface UploadResponse {
+    message: string;
+    file: UploadedFile;
+}
+
+export interface UploadedFilesResponse {
+    files: UploadedFile[];
+    total: number;
+}
+
+export interface UploadedFileResponse {
+    file: UploadedFile;
+}
+
+export interface DeleteUploadResponse {
+    message: string;
+    file: UploadedFile;
+}
+
+export interface ChunkedUploadRequest {
+    fileName: string;
+    mimeType: string;
+    /** Total bytes */
+    size: number;
+    /** Bytes per chunk, 1 KB to 1 MB (default 256 KB) */
+    chunkSize?: number;
+}
+
+export interface ChunkedUploadStatus {
+    uploadId: string;
+    fileName: string;
+    mimeType: string;
+    size: number;
+    chunkSize: number;
+    totalChunks: number;
+    /** Chunk indexes the server holds */
+    receivedChunks: number[];
+    /** Chunk indexes still to send */
+    missingChunks: number[];
+}
+
+export interface UploadChunkRequest {
+    uploadId: string;
+    index: number;
+    data: Uint8Array;
+    /** X-Chunk-Checksum; defaults to the CRC-32 of `data` */
+    checksum?: string;
+}
+
+export interface UploadChunkResponse {
+    uploadId: string;
+    index: number;
+    /** Number of chunks received so far */
+    receivedChunks: number;
+    totalChunks: number;
+}
+
+/** Error body of the chunk and complete calls */
+export interface ChunkedUploadError extends ApiError {
+    /** 409: chunks to send before completing */
+    missingChunks?: number[];
+    /** 422: checksum sent by the client */
+    expected?: string;
+    /** 422: checksum the server computed */
+    actual?: string;
+}
+
+export interface CompleteUploadRequest {
+    uploadId: string;
+    /** CRC-32 of the whole file, checked when given */
+    checksum?: string;
+}
+
+// ============================================================================
+// UTILITY
+// ============================================================================
+
+export interface TimeResponse {
+    timestamp: number;
+    iso: string;
+    formatted: string;
+}
+
+export interface EchoResponse<T = unknown> {
+    body: T;
+    headers: {
+        contentType?: string;
+        /** Masked as `Bearer ***` when a token was sent */
+        authorization: string | null;
+    };
+    method: string;
+}
+
+export interface SlowResponse {
+    message: string;
+    delay: number;
+}
+
+// ============================================================================
+// TEST CONTROL (server started with TEST_API=true)
+// ============================================================================
+
+/**
+ * A stored user, password included
+ */
+export interface SeedUser extends User {
+    password: string;
+}
+
+/**
+ * Collections to load; the ones left out keep their initial data
+ */
+export interface SeedData {
+    users?: SeedUser[];
+    products?: Product[];
+    orders?: Order[];
+}
+
+/**
+ * Lifetimes (ms) of tokens issued from now on
+ */
+export interface AuthConfig {
+    tokenTtl: number;
+    refreshTtl: number;
+}
+
+export interface AppState {
+    /** Without passwords */
+    users: User[];
+    products: Product[];
+    orders: Order[];
+    /** Id the next created order gets */
+    nextOrderId: number;
+}
+
+/**
+ * Upload retention sweep: delete files at least `maxAgeMs` old and drop
+ * chunked uploads idle for `chunkedIdleMs`
+ */
+export interface SweepUploadsRequest {
+    /** Defaults to the server's UPLOAD_RETENTION_MS */
+    maxAgeMs?: number;
+    /** Defaults to the server's CHUNKED_UPLOAD_IDLE_MS */
+    chunkedIdleMs?: number;
+}
+
+export interface SweepUploadsResponse {
+    /** Stored filenames that were deleted */
+    removed: string[];
+    /** Ids of the chunked uploads that were dropped */
+    expiredUploads: string[];
+}
+
+// ============================================================================
+// FAULT INJECTION (server started with TEST_API=true)
+// ============================================================================
+
+export type FaultType = 'latency' | 'status' | 'malformed' | 'drop';
+
+export interface Fault {
+    type: FaultType;
+    /** latency: milliseconds before the real route runs (default 1000) */
+    delay?: number;
+    /** status: response status code (default 500) */
+    status?: number;
+    /** Chance that a matching request is faulted, 0..1 (default 1) */
+    probability?: number;
+    /** Faulted requests before the fault expires (default unlimited) */
+    count?: number;
+}
+
+export interface FaultRuleRequest extends Fault {
+    /** `/api/products`, or `/api/orders*` for every path with that prefix */
+    path: string;
+    /** Only requests with this method (default any) */
+    method?: string;
+}
+
+export interface FaultRule extends Required<Omit<FaultRuleRequest, 'method' | 'count'>> {
+    id: number;
+    method: string | null;
+    count: number | null;
+    /** Requests faulted so far */
+    hits: number;
+}
+
+export interface FaultRuleResponse {
+    fault: FaultRule;
+}
+
+export interface FaultRulesResponse {
+    faults: FaultRule[];
+}
+
+// ============================================================================
+// GRAPHQL
+// ============================================================================
+
+export interface GraphQLRequest {
+    query: string;
+    variables?: Record<string, unknown>;
+    operationName?: string;
+}
+
+export interface GraphQLError {
+    message: string;
+    locations?: Array<{ line: number; column: number }>;
+    /** Response path of the field that failed, e.g. ['product'] */
+    path?: Array<string | number>;
+    /** `code`: UNAUTHENTICATED, FORBIDDEN, NOT_FOUND, BAD_USER_INPUT, CONFLICT, BAD_REQUEST, GRAPHQL_PARSE_FAILED, GRAPHQL_VALIDATION_FAILED, INTERNAL_SERVER_ERROR */
+    extensions?: { code?: string; [key: string]: unknown };
+}
+
+/**
+ * `data` is missing when the request was rejected before execution (status 400)
+ */
+export interface GraphQLResponse<TData = unknown> {
+    data?: TData | null;
+    errors?: GraphQLError[];
+}
@@ -0,0 +1,36 @@
+/**
+ * ============================================================================
+ * UPLOADS - Cleanup Tracking
+ * ============================================================================
+ *
+ * PURPOSE:
+ * Runner-neutral part of the upload cleanup helpers: which responses carry a
+ * newly stored file, and the ids still to delete. Used by `cy.trackUpload`,
+ * `cy.trackPageUploads` and `cy.deleteTrackedUploads`
+ * (cypress/support/commands.ts) and the `uploads` fixture
+ * (playwright/fixtures/uploads.fixture.ts).
+ *
+ * FLOW:
+ * ┌─────────────────────────────────────────────────────────────────────────┐
+ * │  POST /api/upload               ──►  { file: { id, ... } }  ──►  track  │
+ * │  POST /api/upload/:id/complete  ──►  { file: { id, ... } }  ──►  track  │
+ * │  after the test                 ──►  DELETE /api/uploads/:id, 404 is ok │
+ * └─────────────────────────────────────────────────────────────────────────┘
+ */
+
+/**
+ * Upload size limit of the server, for single-request and chunked uploads:
+ * files of this size or larger are refused
+ */
+export const MAX_UPLOAD_BYTES = 5 * 1024 * 1024;
+
+/**
+ * Path of the responses that store a file: single, multiple and chunked uploads
+ */
+export const UPLOAD_RESPONSE_PATH = /\/api\/upload(\/[^/]+\/complete)?$/;
+
+/**
+ * Ids of the files the running test uploaded. Tests run one at a time per
+ * Cypress run or Playwright worker, so one set per module instance is enough.
+ */
+export const trackedUploads = new Set<string>();
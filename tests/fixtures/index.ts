@@ -0,0 +1,5 @@
+// Generated by scripts/migration/fixtures-to-modules.ts
+// Do not edit by hand: run `npm run migrate:fixtures`.
+
+export * from './products';
+export * from './users';
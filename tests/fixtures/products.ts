@@ -0,0 +1,62 @@
+// Generated by scripts/migration/fixtures-to-modules.ts from cypress/fixtures/products.json
+// Do not edit by hand: update the JSON fixture and run `npm run migrate:fixtures`.
+
+export interface Product {
+    readonly id: number;
+    readonly name: string;
+    readonly price: number;
+    readonly category: string;
+    readonly inStock: boolean;
+    readonly description: string;
+}
+
+export interface Products {
+    readonly products: readonly Product[];
+    readonly total: number;
+}
+
+export const products = {
+    products: [
+        {
+            id: 1,
+            name: 'Premium Laptop',
+            price: 1299.99,
+            category: 'Electronics',
+            inStock: true,
+            description: 'High-performance laptop for professionals',
+        },
+        {
+            id: 2,
+            name: 'Wireless Headphones',
+            price: 249.99,
+            category: 'Electronics',
+            inStock: true,
+            description: 'Noise-canceling wireless headphones',
+        },
+        {
+            id: 3,
+            name: 'Mechanical Keyboard',
+            price: 149.99,
+            category: 'Electronics',
+            inStock: true,
+            description: 'RGB mechanical keyboard with blue switches',
+        },
+        {
+            id: 4,
+            name: 'Ergonomic Mouse',
+            price: 79.99,
+            category: 'Electronics',
+            inStock: false,
+            description: 'Ergonomic wireless mouse',
+        },
+        {
+            id: 5,
+            name: '4K Monitor',
+            price: 599.99,
+            category: 'Electronics',
+            inStock: true,
+            description: '32-inch 4K UHD monitor',
+        },
+    ],
+    total: 5,
+} as const satisfies Products;
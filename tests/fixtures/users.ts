@@ -0,0 +1,52 @@
+// Generated by scripts/migration/fixtures-to-modules.ts from cypress/fixtures/users.json
+// Do not edit by hand: update the JSON fixture and run `npm run migrate:fixtures`.
+
+export interface Users {
+    readonly validCredentials: {
+        readonly emailId: string;
+        readonly password: string;
+    };
+    readonly adminCredentials: {
+        readonly emailId: string;
+        readonly password: string;
+    };
+    readonly invalidCredentials: {
+        readonly invalidEmail: {
+            readonly emailId: string;
+            readonly password: string;
+        };
+        readonly invalidPassword: {
+            readonly emailId: string;
+            readonly password: string;
+        };
+        readonly wrongEmailFormat: {
+            readonly emailId: string;
+            readonly password: string;
+        };
+    };
+}
+
+export const users = {
+    validCredentials: {
+        emailId: 'test@example.com',
+        password: 'password123',
+    },
+    adminCredentials: {
+        emailId: 'admin@example.com',
+        password: 'admin123',
+    },
+    invalidCredentials: {
+        invalidEmail: {
+            emailId: 'invalidUser@example.com',
+            password: 'password123',
+        },
+        invalidPassword: {
+            emailId: 'test@example.com',
+            password: 'wrongpassword',
+        },
+        wrongEmailFormat: {
+            emailId: 'testautomationresstest.com',
+            password: 'password123',
+        },
+    },
+} as const satisfies Users;
@@ -0,0 +1,59 @@
+/// <reference types="cypress" />
+import { testIdSelector, TestId } from '../../test-ids';
+import type { Scenario, ScenarioSuite, Step } from '../dsl';
+import { describeStep } from '../dsl';
+
+/**
+ * Cypress backend: registers scenarios with describe/it and queues cy commands
+ */
+export function registerCypress(suite: ScenarioSuite): void {
+    describe(suite.title, () => {
+        suite.scenarios.forEach((scenario: Scenario) => {
+            it(scenario.title, () => {
+                scenario.steps.forEach(runStep);
+            });
+        });
+    });
+}
+
+function byTestId(testId: TestId, timeout?: number): Cypress.Chainable<JQuery<HTMLElement>> {
+    return cy.get(testIdSelector(testId), timeout ? { timeout } : {});
+}
+
+function runStep(step: Step): void {
+    cy.log(`**${describeStep(step)}**`);
+
+    switch (step.kind) {
+        case 'visit':
+            cy.visit(step.path);
+            break;
+        case 'fill':
+            byTestId(step.testId).clear().type(step.value);
+            break;
+        case 'click':
+            byTestId(step.testId).click();
+            break;
+        case 'expectVisible':
+            byTestId(step.testId, step.options.timeout).should('be.visible');
+            break;
+        case 'expectText':
+            byTestId(step.testId, step.options.timeout).should('contain.text', step.text);
+            break;
+        case 'expectUrl':
+            cy.url(step.options.timeout ? { timeout: step.options.timeout } : {}).should('include', step.fragment);
+            break;
+        case 'apiCall': {
+            const { method = 'GET', url, body, headers, status = 200, expectBody } = step.call;
+            cy.request({ method, url, body, headers, failOnStatusCode: false }).then(response => {
+                expect(response.status).to.eq(status);
+                if (expectBody) expect(response.body).to.deep.include(expectBody);
+            });
+            break;
+        }
+        case 'mockRoute': {
+            const { method = '*', url, status = 200, body, headers } = step.route;
+            cy.intercept({ method, url }, { statusCode: status, body, headers });
+            break;
+        }
+    }
+}
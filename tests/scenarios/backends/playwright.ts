@@ -0,0 +1,61 @@
+import { APIRequestContext, Page } from '@playwright/test';
+import { expect, NetworkAliases, test } from '../../../playwright/fixtures/network.fixture';
+import type { Scenario, ScenarioSuite, Step } from '../dsl';
+import { describeStep } from '../dsl';
+
+interface StepContext {
+    page: Page;
+    network: NetworkAliases;
+    request: APIRequestContext;
+}
+
+/**
+ * Playwright backend: registers scenarios with test.describe/test, one test.step per step
+ */
+export function registerPlaywright(suite: ScenarioSuite): void {
+    test.describe(suite.title, () => {
+        suite.scenarios.forEach((scenario: Scenario) => {
+            test(scenario.title, async ({ page, network, request }) => {
+                for (const step of scenario.steps) {
+                    await test.step(describeStep(step), () => runStep(step, { page, network, request }));
+                }
+            });
+        });
+    });
+}
+
+async function runStep(step: Step, { page, network, request }: StepContext): Promise<void> {
+    switch (step.kind) {
+        case 'visit':
+            await page.goto(step.path);
+            break;
+        case 'fill':
+            await page.getByTestId(step.testId).fill(step.value);
+            break;
+        case 'click':
+            await page.getByTestId(step.testId).click();
+            break;
+        case 'expectVisible':
+            // first(): cy.get().should('be.visible') passes when any match is visible
+            await expect(page.getByTestId(step.testId).first()).toBeVisible(step.options);
+            break;
+        case 'expectText':
+            await expect(page.getByTestId(step.testId).first()).toContainText(step.text, step.options);
+            break;
+        case 'expectUrl':
+            await expect(page).toHaveURL(url => url.href.includes(step.fragment), step.options);
+            break;
+        case 'apiCall': {
+            const { method = 'GET', url, body, headers, status = 200, expectBody } = step.call;
+            const response = await request.fetch(url, { method, data: body, headers });
+            expect(response.status()).toBe(status);
+            if (expectBody) expect(await response.json()).toEqual(expect.objectContaining(expectBody));
+            break;
+        }
+        case 'mockRoute': {
+            const { method = '*', url, status = 200, body, headers } = step.route;
+            await network.intercept(method, url, { statusCode: status, body, headers });
+            break;
+        }
+    }
+}
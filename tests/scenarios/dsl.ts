@@ -0,0 +1,182 @@
+/**
+ * ============================================================================
+ * SCENARIO DSL - One Scenario, Two Runners
+ * ============================================================================
+ *
+ * PURPOSE:
+ * Describes a test once, as plain data, and registers it in whichever runner
+ * loads the file. Cypress and Playwright both pick up
+ * `tests/scenarios/*.scenario.ts`, so the same file runs in both jobs.
+ * Test ids are checked against tests/test-ids.ts.
+ *
+ * FLOW:
+ * ┌─────────────────────────────────────────────────────────────────────────┐
+ * │  smoke.scenario.ts                                                      │
+ * │    describeScenarios('Smoke', [scenario('...', [visit('/'), ...])])     │
+ * │                    │                                                    │
+ * │        ┌───────────┴────────────┐                                       │
+ * │        ▼                        ▼                                       │
+ * │  Cypress (Cypress global)   Playwright (anything else)                  │
+ * │  backends/cypress.ts        backends/playwright.ts                      │
+ * │  describe / it / cy.*       test.describe / test / page.*               │
+ * └─────────────────────────────────────────────────────────────────────────┘
+ *
+ * STEPS:
+ *   visit(path)                    cy.visit          page.goto
+ *   fillByTestId(id, value)        cy.get().type     getByTestId().fill
+ *   clickByTestId(id)              cy.get().click    getByTestId().click
+ *   expectVisible(id)              should('be.visible')       toBeVisible
+ *   expectText(id, text)           should('contain.text')     toContainText
+ *   expectUrl(fragment)            cy.url().should('include') toHaveURL
+ *   apiCall({ method, url, ... })  cy.request       request.fetch
+ *   mockRoute({ method, url, ...}) cy.intercept     network.intercept
+ *
+ * USAGE:
+ * import { describeScenarios, scenario, visit, expectVisible } from './dsl';
+ *
+ * describeScenarios('Smoke', [
+ *   scenario('should load the home page', [visit('/'), expectVisible('main-heading')]),
+ * ]);
+ */
+
+import type { TestId } from '../test-ids';
+import { registerCypress } from './backends/cypress';
+
+// ============================================================================
+// TYPES
+// ============================================================================
+
+export interface ExpectOptions {
+    /** Milliseconds to retry the assertion (runner default otherwise) */
+    timeout?: number;
+}
+
+export interface ApiCall {
+    method?: 'GET' | 'POST' | 'PUT' | 'PATCH' | 'DELETE';
+    url: string;
+    /** JSON body (objects) or raw text */
+    body?: string | object;
+    headers?: Record<string, string>;
+    /** Expected status code, 200 by default */
+    status?: number;
+    /** Top-level properties the JSON response must have, compared deeply */
+    expectBody?: Record<string, unknown>;
+}
+
+export interface MockRoute {
+    method?: string;
+    /** Path or glob, matched like cy.intercept() */
+    url: string;
+    status?: number;
+    body?: unknown;
+    headers?: Record<string, string>;
+}
+
+export type Step =
+    | { kind: 'visit'; path: string }
+    | { kind: 'fill'; testId: TestId; value: string }
+    | { kind: 'click'; testId: TestId }
+    | { kind: 'expectVisible'; testId: TestId; options: ExpectOptions }
+    | { kind: 'expectText'; testId: TestId; text: string; options: ExpectOptions }
+    | { kind: 'expectUrl'; fragment: string; options: ExpectOptions }
+    | { kind: 'apiCall'; call: ApiCall }
+    | { kind: 'mockRoute'; route: MockRoute };
+
+export interface Scenario {
+    title: string;
+    steps: Step[];
+}
+
+export interface ScenarioSuite {
+    title: string;
+    scenarios: Scenario[];
+}
+
+// ============================================================================
+// STEP BUILDERS
+// ============================================================================
+
+export const visit = (path: string): Step => ({ kind: 'visit', path });
+
+export const fillByTestId = (testId: TestId, value: string): Step => ({ kind: 'fill', testId, value });
+
+export const clickByTestId = (testId: TestId): Step => ({ kind: 'click', testId });
+
+export const expectVisible = (testId: TestId, options: ExpectOptions = {}): Step => ({
+    kind: 'expectVisible',
+    testId,
+    options,
+});
+
+/**
+ * The element's text contains `text`
+ */
+export const expectText = (testId: TestId, text: string, options: ExpectOptions = {}): Step => ({
+    kind: 'expectText',
+    testId,
+    text,
+    options,
+});
+
+/**
+ * The current URL contains `fragment`
+ */
+export const expectUrl = (fragment: string, options: ExpectOptions = {}): Step => ({
+    kind: 'expectUrl',
+    fragment,
+    options,
+});
+
+/**
+ * Send a request outside the browser and check its response
+ */
+export const apiCall = (call: ApiCall): Step => ({ kind: 'apiCall', call });
+
+/**
+ * Stub a network route for the rest of the scenario; register it before visit()
+ */
+export const mockRoute = (route: MockRoute): Step => ({ kind: 'mockRoute', route });
+
+export const scenario = (title: string, steps: Step[]): Scenario => ({ title, steps });
+
+/**
+ * Human-readable step label, used for cy.log() and test.step()
+ */
+export function describeStep(step: Step): string {
+    switch (step.kind) {
+        case 'visit':
+            return `visit ${step.path}`;
+        case 'fill':
+            return `fill [${step.testId}] with "${step.value}"`;
+        case 'click':
+            return `click [${step.testId}]`;
+        case 'expectVisible':
+            return `expect [${step.testId}] to be visible`;
+        case 'expectText':
+            return `expect [${step.testId}] to contain "${step.text}"`;
+        case 'expectUrl':
+            return `expect URL to include ${step.fragment}`;
+        case 'apiCall':
+            return `${step.call.method ?? 'GET'} ${step.call.url} → ${step.call.status ?? 200}`;
+        case 'mockRoute':
+            return `mock ${step.route.method ?? '*'} ${step.route.url} → ${step.route.status ?? 200}`;
+    }
+}
+
+// ============================================================================
+// REGISTRATION
+// ============================================================================
+
+/**
+ * Register a suite of scenarios in the runner that is loading this file
+ */
+export function describeScenarios(title: string, scenarios: Scenario[]): void {
+    const suite: ScenarioSuite = { title, scenarios };
+    if (typeof Cypress !== 'undefined') {
+        registerCypress(suite);
+        return;
+    }
+    // module.require keeps the Cypress bundler from pulling @playwright/test into the browser
+    const playwright = module.require('./backends/playwright') as typeof import('./backends/playwright');
+    playwright.registerPlaywright(suite);
+}
@@ -0,0 +1,79 @@
+/**
+ * ============================================================================
+ * SMOKE SCENARIOS - Shared by Cypress and Playwright
+ * ============================================================================
+ *
+ * PURPOSE:
+ * Basic checks that the test app is up and both runners can drive it.
+ * This file is registered by Cypress (npm run cy:run) and by Playwright
+ * (npx playwright test); see ./dsl.ts for the available steps.
+ */
+
+import {
+    apiCall,
+    clickByTestId,
+    describeScenarios,
+    expectText,
+    expectUrl,
+    expectVisible,
+    fillByTestId,
+    mockRoute,
+    scenario,
+    visit,
+} from './dsl';
+import { users } from '../fixtures/users';
+
+const { emailId: email, password } = users.validCredentials;
+
+describeScenarios('Smoke Test - Basic Verification', [
+    scenario('should load the home page', [
+        visit('/'),
+        expectVisible('main-heading'),
+        expectText('main-heading', 'Cypress Test Application'),
+    ]),
+
+    scenario('should load products from API', [
+        visit('/'),
+        expectVisible('products-grid'),
+        expectVisible('product-card', { timeout: 10000 }),
+    ]),
+
+    scenario('should render mocked products', [
+        mockRoute({
+            method: 'GET',
+            url: '/api/products',
+            body: { products: [{ id: 99, name: 'Scenario Widget', price: 1.5, inStock: true }] },
+        }),
+        visit('/'),
+        expectText('product-card', 'Scenario Widget'),
+    ]),
+
+    scenario('should navigate to login page', [
+        visit('/login'),
+        expectVisible('login-form'),
+        expectVisible('email-input'),
+        expectVisible('password-input'),
+        expectVisible('submit-btn'),
+    ]),
+
+    scenario('should make a direct API request', [
+        apiCall({ method: 'GET', url: '/api/products', status: 200 }),
+    ]),
+
+    scenario('should reject invalid credentials via API', [
+        apiCall({
+            method: 'POST',
+            url: '/api/auth/login',
+            body: { email, password: 'wrong-password' },
+            status: 401,
+        }),
+    ]),
+
+    scenario('should login successfully via UI', [
+        visit('/login'),
+        fillByTestId('email-input', email),
+        fillByTestId('password-input', password),
+        clickByTestId('submit-btn'),
+        expectUrl('/dashboard', { timeout: 10000 }),
+    ]),
+]);
@@ -0,0 +1,217 @@
+// Generated by scripts/migration/html-to-testids.ts from app-under-test/public/*.html, app-under-test/views/*.html
+// Do not edit by hand: update the HTML and run `npm run migrate:testids`.
+
+export const TestIds = {
+    /** app-under-test/views/admin.html */
+    admin: {
+        adminContainer: 'admin-container',
+        backToDashboardLink: 'back-to-dashboard-link',
+        adminTitle: 'admin-title',
+        usersSection: 'users-section',
+        usersTable: 'users-table',
+        userRow: 'user-row',
+    },
+    /** app-under-test/views/dashboard.html */
+    dashboard: {
+        sidebar: 'sidebar',
+        sidebarNav: 'sidebar-nav',
+        navOverview: 'nav-overview',
+        navOrders: 'nav-orders',
+        navProducts: 'nav-products',
+        navSettings: 'nav-settings',
+        navAdmin: 'nav-admin',
+        logoutLink: 'logout-link',
+        mainContent: 'main-content',
+        authWarning: 'auth-warning',
+        dashboardHeader: 'dashboard-header',
+        pageTitle: 'page-title',
+        userInfo: 'user-info',
+        userAvatar: 'user-avatar',
+        userName: 'user-name',
+        userEmail: 'user-email',
+        statsGrid: 'stats-grid',
+        ordersSection: 'orders-section',
+        ordersTable: 'orders-table',
+        orderActionResult: 'order-action-result',
+        createOrderBtn: 'create-order-btn',
+        exportFormat: 'export-format',
+        exportOrdersBtn: 'export-orders-btn',
+        exportResult: 'export-result',
+        storageSection: 'storage-section',
+        setCookieBtn: 'set-cookie-btn',
+        getCookieBtn: 'get-cookie-btn',
+        clearCookiesBtn: 'clear-cookies-btn',
+        setStorageBtn: 'set-storage-btn',
+        clearStorageBtn: 'clear-storage-btn',
+        storageResult: 'storage-result',
+        orderRow: 'order-row',
+        orderStatus: 'order-status',
+        orderActionBtn: 'order-action-btn',
+    },
+    /** app-under-test/public/dialogs.html */
+    dialogs: {
+        linkOverview: 'link-overview',
+        linkDetails: 'link-details',
+        alertBtn: 'alert-btn',
+        confirmBtn: 'confirm-btn',
+        promptBtn: 'prompt-btn',
+        nativeDialogResult: 'native-dialog-result',
+        infoModalBtn: 'info-modal-btn',
+        deleteModalBtn: 'delete-modal-btn',
+        formModalBtn: 'form-modal-btn',
+        modalResult: 'modal-result',
+        beforeunloadBtn: 'beforeunload-btn',
+        errorBtn: 'error-btn',
+        consoleBtn: 'console-btn',
+        popupBtn: 'popup-btn',
+        eventResult: 'event-result',
+        overviewSection: 'overview-section',
+        detailsSection: 'details-section',
+        infoModal: 'info-modal',
+        infoModalClose: 'info-modal-close',
+        infoModalTitle: 'info-modal-title',
+        deleteModal: 'delete-modal',
+        deleteModalContent: 'delete-modal-content',
+        deleteModalConfirm: 'delete-modal-confirm',
+        deleteModalCancel: 'delete-modal-cancel',
+        formModal: 'form-modal',
+        modalNameInput: 'modal-name-input',
+        modalMessageInput: 'modal-message-input',
+        formModalSubmit: 'form-modal-submit',
+    },
+    /** app-under-test/views/forbidden.html */
+    forbidden: {
+        forbiddenContainer: 'forbidden-container',
+        forbiddenTitle: 'forbidden-title',
+        forbiddenMessage: 'forbidden-message',
+        forbiddenUser: 'forbidden-user',
+        forbiddenRole: 'forbidden-role',
+        forbiddenRequiredRole: 'forbidden-required-role',
+        forbiddenDashboardLink: 'forbidden-dashboard-link',
+        forbiddenHomeLink: 'forbidden-home-link',
+    },
+    /** app-under-test/public/forms.html */
+    forms: {
+        fullnameInput: 'fullname-input',
+        usernameInput: 'username-input',
+        emailFieldInput: 'email-field-input',
+        bioTextarea: 'bio-textarea',
+        textSubmitBtn: 'text-submit-btn',
+        countrySelect: 'country-select',
+        languagesSelect: 'languages-select',
+        interestTechnology: 'interest-technology',
+        interestSports: 'interest-sports',
+        interestMusic: 'interest-music',
+        interestTravel: 'interest-travel',
+        genderMale: 'gender-male',
+        genderFemale: 'gender-female',
+        genderOther: 'gender-other',
+        genderPreferNot: 'gender-prefer-not',
+        termsCheckbox: 'terms-checkbox',
+        ageInput: 'age-input',
+        quantityInput: 'quantity-input',
+        satisfactionRange: 'satisfaction-range',
+        satisfactionValue: 'satisfaction-value',
+        birthdateInput: 'birthdate-input',
+        appointmentInput: 'appointment-input',
+        meetingInput: 'meeting-input',
+        editableInput: 'editable-input',
+        clearBtn: 'clear-btn',
+        focusBtn: 'focus-btn',
+        blurBtn: 'blur-btn',
+        resetBtn: 'reset-btn',
+        formOutput: 'form-output',
+        outputTbody: 'output-tbody',
+        storageResult: 'storage-result',
+    },
+    /** app-under-test/public/index.html */
+    index: {
+        mainHeading: 'main-heading',
+        mainNav: 'main-nav',
+        navHome: 'nav-home',
+        navLogin: 'nav-login',
+        navDashboard: 'nav-dashboard',
+        navForms: 'nav-forms',
+        navDialogs: 'nav-dialogs',
+        navUpload: 'nav-upload',
+        productsSection: 'products-section',
+        productsGrid: 'products-grid',
+        loadContentBtn: 'load-content-btn',
+        loadedContent: 'loaded-content',
+        scrollSection: 'scroll-section',
+        scrollToTopBtn: 'scroll-to-top-btn',
+        productCard: 'product-card',
+    },
+    /** app-under-test/public/login.html */
+    login: {
+        loginContainer: 'login-container',
+        loginAlert: 'login-alert',
+        loginForm: 'login-form',
+        emailInput: 'email-input',
+        emailError: 'email-error',
+        passwordInput: 'password-input',
+        passwordError: 'password-error',
+        rememberCheckbox: 'remember-checkbox',
+        submitBtn: 'submit-btn',
+        forgotPasswordLink: 'forgot-password-link',
+        backToHomeLink: 'back-to-home-link',
+    },
+    /** app-under-test/public/upload.html */
+    upload: {
+        uploadContainer: 'upload-container',
+        backLink: 'back-link',
+        pageTitle: 'page-title',
+        singleUploadSection: 'single-upload-section',
+        singleUploadArea: 'single-upload-area',
+        singleFileInput: 'single-file-input',
+        singleUploadBtn: 'single-upload-btn',
+        singleUploadResult: 'single-upload-result',
+        multipleUploadSection: 'multiple-upload-section',
+        multipleUploadArea: 'multiple-upload-area',
+        multipleFileInput: 'multiple-file-input',
+        fileList: 'file-list',
+        multipleUploadBtn: 'multiple-upload-btn',
+        multipleUploadResult: 'multiple-upload-result',
+        chunkedUploadSection: 'chunked-upload-section',
+        chunkedFileInput: 'chunked-file-input',
+        chunkedUploadBtn: 'chunked-upload-btn',
+        chunkedResumeBtn: 'chunked-resume-btn',
+        chunkedCancelBtn: 'chunked-cancel-btn',
+        chunkedProgress: 'chunked-progress',
+        chunkedProgressText: 'chunked-progress-text',
+        chunkedUploadStatus: 'chunked-upload-status',
+        chunkedUploadResult: 'chunked-upload-result',
+        uploadedFilesSection: 'uploaded-files-section',
+        refreshUploadsBtn: 'refresh-uploads-btn',
+        uploadedFilesList: 'uploaded-files-list',
+        uploadedFilesResult: 'uploaded-files-result',
+        downloadsSection: 'downloads-section',
+        sampleDownloadLink: 'sample-download-link',
+        generateDownloadBtn: 'generate-download-btn',
+        downloadResult: 'download-result',
+        uploadedFilename: 'uploaded-filename',
+        fileItem: 'file-item',
+        fileName: 'file-name',
+        chunkedUploadedFilename: 'chunked-uploaded-filename',
+        uploadedFilesEmpty: 'uploaded-files-empty',
+        uploadedFileRow: 'uploaded-file-row',
+        uploadedFileName: 'uploaded-file-name',
+        uploadedFileSize: 'uploaded-file-size',
+        uploadedFileDownload: 'uploaded-file-download',
+        uploadedFileDelete: 'uploaded-file-delete',
+    },
+} as const;
+
+export type TestIdPage = keyof typeof TestIds;
+
+/**
+ * Any data-testid value of the app, or of one page: `TestId<'login'>`
+ */
+export type TestId<P extends TestIdPage = TestIdPage> = {
+    [K in P]: (typeof TestIds)[K][keyof (typeof TestIds)[K]];
+}[P];
+
+/**
+ * CSS selector for a test id, for APIs that take selectors: `[data-testid="email-input"]`
+ */
+export const testIdSelector = (id: TestId): string => `[data-testid="${id}"]`;